@@ -2,7 +2,24 @@
 const nextConfig = {
   // Configurações básicas para desenvolvimento
   experimental: {
-    // Configurações experimentais removidas para simplicidade
+    // Drivers de banco com módulos nativos não devem ser empacotados pelo webpack
+    serverComponentsExternalPackages: ['pg', 'mysql2', 'better-sqlite3', 'mssql'],
+    // src/instrumentation.ts inicia a fila de jobs junto com o servidor
+    instrumentationHook: true,
+  },
+
+  // Drivers de banco só existem no servidor
+  webpack: (config, { isServer }) => {
+    if (!isServer) {
+      config.resolve.alias = {
+        ...config.resolve.alias,
+        pg: false,
+        'mysql2/promise': false,
+        'better-sqlite3': false,
+        mssql: false,
+      };
+    }
+    return config;
   },
 
   // Configurações simples de imagens
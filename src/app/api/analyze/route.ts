@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeStep, PipelineStepError } from '@/lib/pipeline-steps';
+import { InputValidator, analyzeRequestSchema } from '@/lib/input-validator';
+import { errorMonitor } from '@/lib/error-monitor';
+import { logger } from '@/lib/logger';
+import RateLimiter, { withRateLimit } from '@/lib/rate-limiter';
+
+// POST /api/analyze - Analisar schema com IA
+async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = logger.generateRequestId();
+
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = InputValidator.validateRequest(analyzeRequestSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const { analysis, metadata } = await analyzeStep(validation.data);
+
+    const duration = Date.now() - startTime;
+    logger.info(
+      analysis.source === 'learned' ? 'Schema analysis applied from learned pattern' : 'Schema analysis completed',
+      { requestId, duration, metadata }
+    );
+
+    return NextResponse.json({ analysis, processingTime: duration });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    if (error instanceof PipelineStepError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Schema analysis failed', {
+      requestId,
+      duration,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/analyze',
+      method: 'POST',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Schema analysis failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 502 }
+    );
+  }
+}
+
+const analyzeLimiter = new RateLimiter(30, 60000); // 30 análises por minuto
+
+const POST_WITH_RATE_LIMIT = withRateLimit(POST, analyzeLimiter);
+
+export { POST_WITH_RATE_LIMIT as POST };
\ No newline at end of file
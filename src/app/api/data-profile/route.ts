@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { profileData, renderProfileHTML } from '@/lib/data-profiler';
+import { InputValidator, profileDataRequestSchema } from '@/lib/input-validator';
+import { errorMonitor } from '@/lib/error-monitor';
+import { logger } from '@/lib/logger';
+import RateLimiter, { withRateLimit } from '@/lib/rate-limiter';
+
+// POST /api/data-profile - Perfil de qualidade por coluna, em JSON ou HTML
+async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = logger.generateRequestId();
+
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = InputValidator.validateRequest(profileDataRequestSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const { csvData, format, topValues } = validation.data;
+    const profile = profileData(csvData, { fileName: csvData.fileName, topValues });
+
+    const duration = Date.now() - startTime;
+    logger.info('Data profile generated', {
+      requestId,
+      duration,
+      metadata: {
+        rows: profile.totalRows,
+        columns: profile.totalColumns,
+        format,
+      },
+    });
+
+    if (format === 'html') {
+      return new NextResponse(renderProfileHTML(profile), {
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="perfil-de-qualidade.html"',
+        },
+      });
+    }
+
+    return NextResponse.json({ profile, processingTime: duration });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    logger.error('Data profiling failed', {
+      requestId,
+      duration,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/data-profile',
+      method: 'POST',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Data profiling failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const profileLimiter = new RateLimiter(30, 60000); // 30 perfis por minuto
+
+const POST_WITH_RATE_LIMIT = withRateLimit(POST, profileLimiter);
+
+export { POST_WITH_RATE_LIMIT as POST };
\ No newline at end of file
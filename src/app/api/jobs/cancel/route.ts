@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FINISHED_JOB_STATES } from '@/lib/job-queue';
+import { getServerJobQueue } from '@/lib/job-queue-server';
+import { InputValidator, jobIdSchema } from '@/lib/input-validator';
+import { errorMonitor } from '@/lib/error-monitor';
+import { logger } from '@/lib/logger';
+import RateLimiter, { withRateLimit } from '@/lib/rate-limiter';
+
+// POST /api/jobs/cancel - Cancelar um job na fila ou em execução
+async function POST(request: NextRequest) {
+  const requestId = logger.generateRequestId();
+
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = InputValidator.validateRequest(jobIdSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const queue = getServerJobQueue();
+    const current = queue.get(validation.data.id);
+    if (!current) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    if (FINISHED_JOB_STATES.includes(current.state)) {
+      return NextResponse.json(
+        { error: 'Job already finished', job: current },
+        { status: 409 }
+      );
+    }
+
+    const job = queue.cancel(current.id) ?? current;
+
+    logger.info('Job cancellation requested', {
+      requestId,
+      metadata: { jobId: job.id, state: job.state },
+    });
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    logger.error('Job cancellation failed', {
+      requestId,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/jobs/cancel',
+      method: 'POST',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Job cancellation failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const cancelLimiter = new RateLimiter(30, 60000); // 30 requests por minuto
+
+const POST_WITH_RATE_LIMIT = withRateLimit(POST, cancelLimiter);
+
+export { POST_WITH_RATE_LIMIT as POST };
\ No newline at end of file
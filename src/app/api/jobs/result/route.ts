@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FINISHED_JOB_STATES } from '@/lib/job-queue';
+import { getServerJobQueue } from '@/lib/job-queue-server';
+import { InputValidator, jobIdSchema } from '@/lib/input-validator';
+import { errorMonitor } from '@/lib/error-monitor';
+import { logger } from '@/lib/logger';
+import RateLimiter, { withRateLimit } from '@/lib/rate-limiter';
+
+// GET /api/jobs/result?id=... - Resultado de um job finalizado (mesmo formato da rota síncrona)
+async function GET(request: NextRequest) {
+  const requestId = logger.generateRequestId();
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = InputValidator.validateRequest(jobIdSchema, { id: searchParams.get('id') ?? undefined });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const found = getServerJobQueue().getResult(validation.data.id);
+    if (!found) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const { job, result } = found;
+    if (!FINISHED_JOB_STATES.includes(job.state)) {
+      return NextResponse.json(
+        { error: 'Job not finished', job },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ job, result });
+  } catch (error) {
+    logger.error('Job result lookup failed', {
+      requestId,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/jobs/result',
+      method: 'GET',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Job result lookup failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const resultLimiter = new RateLimiter(60, 60000); // 60 requests por minuto
+
+const GET_WITH_RATE_LIMIT = withRateLimit(GET, resultLimiter);
+
+export { GET_WITH_RATE_LIMIT as GET };
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerJobQueue } from '@/lib/job-queue-server';
+import { InputValidator, jobQuerySchema, jobSubmitSchema } from '@/lib/input-validator';
+import { errorMonitor } from '@/lib/error-monitor';
+import { logger } from '@/lib/logger';
+import RateLimiter, { withRateLimit } from '@/lib/rate-limiter';
+
+// GET /api/jobs - Status de um job (?id=...) ou lista dos jobs recentes (?state=&type=&limit=)
+async function GET(request: NextRequest) {
+  const requestId = logger.generateRequestId();
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = InputValidator.validateRequest(jobQuerySchema, Object.fromEntries(searchParams.entries()));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const { id, state, type, limit } = validation.data;
+    const queue = getServerJobQueue();
+
+    if (id) {
+      const job = queue.get(id);
+      if (!job) {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+      }
+      return NextResponse.json({ job });
+    }
+
+    return NextResponse.json({ jobs: queue.list({ state, type, limit }), stats: queue.getStats() });
+  } catch (error) {
+    logger.error('Job status lookup failed', {
+      requestId,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/jobs',
+      method: 'GET',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Job status lookup failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/jobs - Enfileirar análise, transformação ou publicação ({ type, payload })
+async function POST(request: NextRequest) {
+  const requestId = logger.generateRequestId();
+
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = InputValidator.validateRequest(jobSubmitSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const { type, payload } = validation.data;
+    const job = getServerJobQueue().submit(type, payload);
+
+    logger.info('Job submitted', {
+      requestId,
+      metadata: { jobId: job.id, type },
+    });
+
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    logger.error('Job submission failed', {
+      requestId,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/jobs',
+      method: 'POST',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Job submission failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const jobsStatusLimiter = new RateLimiter(300, 60000); // 300 consultas por minuto (polling)
+const jobsSubmitLimiter = new RateLimiter(30, 60000); // 30 jobs por minuto
+
+const GET_WITH_RATE_LIMIT = withRateLimit(GET, jobsStatusLimiter);
+const POST_WITH_RATE_LIMIT = withRateLimit(POST, jobsSubmitLimiter);
+
+export { GET_WITH_RATE_LIMIT as GET, POST_WITH_RATE_LIMIT as POST };
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { learnConfirmedAnalysis } from '@/lib/learned-mappings';
+import { getServerLearningSystem } from '@/lib/learning-storage-server';
+import { InputValidator, learningConfirmSchema } from '@/lib/input-validator';
+import { errorMonitor } from '@/lib/error-monitor';
+import { logger } from '@/lib/logger';
+import RateLimiter, { withRateLimit } from '@/lib/rate-limiter';
+
+// POST /api/learning/confirm - Aprender o mapeamento confirmado pelo usuário
+async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = logger.generateRequestId();
+
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = InputValidator.validateRequest(learningConfirmSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const { csvData, analysis } = validation.data;
+
+    const learningSystem = getServerLearningSystem();
+    const patternId = learnConfirmedAnalysis(
+      learningSystem,
+      {
+        headers: csvData.headers,
+        rows: csvData.rows,
+        fileName: csvData.fileName,
+        fileSize: csvData.metadata.fileSize,
+      },
+      analysis
+    );
+    const pattern = learningSystem.getPattern(patternId);
+
+    const duration = Date.now() - startTime;
+    logger.info('Confirmed mapping learned', {
+      requestId,
+      duration,
+      metadata: {
+        patternId,
+        source: analysis.source,
+        mappings: analysis.suggestedMappings.length,
+        usageCount: pattern?.usageCount,
+      },
+    });
+
+    return NextResponse.json({
+      patternId,
+      usageCount: pattern?.usageCount,
+      confidence: pattern?.confidence,
+      processingTime: duration,
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    logger.error('Learning confirmed mapping failed', {
+      requestId,
+      duration,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/learning/confirm',
+      method: 'POST',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Learning confirmed mapping failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const confirmLimiter = new RateLimiter(30, 60000); // 30 confirmações por minuto
+
+const POST_WITH_RATE_LIMIT = withRateLimit(POST, confirmLimiter);
+
+export { POST_WITH_RATE_LIMIT as POST };
\ No newline at end of file
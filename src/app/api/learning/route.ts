@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerFeedbackSystem, getServerLearningSystem } from '@/lib/learning-storage-server';
+import { InputValidator, learningImportSchema } from '@/lib/input-validator';
+import { FeedbackEntry, AdaptiveRule, LearningPattern as FeedbackPattern } from '@/lib/feedback-system';
+import { LearningPattern } from '@/lib/learning-system';
+import { errorMonitor } from '@/lib/error-monitor';
+import { logger } from '@/lib/logger';
+import RateLimiter, { withRateLimit } from '@/lib/rate-limiter';
+
+// GET /api/learning - Exportar a base de aprendizado compartilhada
+async function GET() {
+  const requestId = logger.generateRequestId();
+
+  try {
+    const patterns = getServerLearningSystem().exportPatterns();
+    const learningData = getServerFeedbackSystem().exportLearningData();
+
+    logger.info('Learning data exported', {
+      requestId,
+      metadata: {
+        patterns: patterns.length,
+        feedback: learningData.feedback.length,
+        rules: learningData.rules.length,
+      },
+    });
+
+    return NextResponse.json({
+      exportedAt: new Date().toISOString(),
+      patterns,
+      learningData,
+    });
+  } catch (error) {
+    logger.error('Learning data export failed', {
+      requestId,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/learning',
+      method: 'GET',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Learning data export failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/learning - Importar padrões e feedback na base compartilhada
+async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = logger.generateRequestId();
+
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = InputValidator.validateRequest(learningImportSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const { patterns, learningData } = validation.data;
+
+    if (patterns) {
+      getServerLearningSystem().importPatterns(patterns as unknown as LearningPattern[]);
+    }
+    if (learningData) {
+      getServerFeedbackSystem().importLearningData({
+        feedback: learningData.feedback as FeedbackEntry[] | undefined,
+        patterns: learningData.patterns as FeedbackPattern[] | undefined,
+        rules: learningData.rules as AdaptiveRule[] | undefined,
+      });
+    }
+
+    const imported = {
+      patterns: patterns?.length ?? 0,
+      feedback: learningData?.feedback?.length ?? 0,
+      feedbackPatterns: learningData?.patterns?.length ?? 0,
+      rules: learningData?.rules?.length ?? 0,
+    };
+
+    const duration = Date.now() - startTime;
+    logger.info('Learning data imported', {
+      requestId,
+      duration,
+      metadata: imported,
+    });
+
+    return NextResponse.json({
+      imported,
+      totalPatterns: getServerLearningSystem().exportPatterns().length,
+      processingTime: duration,
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    logger.error('Learning data import failed', {
+      requestId,
+      duration,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/learning',
+      method: 'POST',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Learning data import failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const learningLimiter = new RateLimiter(30, 60000); // 30 requests por minuto
+
+const GET_WITH_RATE_LIMIT = withRateLimit(GET, learningLimiter);
+const POST_WITH_RATE_LIMIT = withRateLimit(POST, learningLimiter);
+
+export { GET_WITH_RATE_LIMIT as GET, POST_WITH_RATE_LIMIT as POST };
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { suggestLearnedMappings } from '@/lib/learned-mappings';
+import { getServerLearningSystem } from '@/lib/learning-storage-server';
+import { InputValidator, learningSuggestSchema } from '@/lib/input-validator';
+import { errorMonitor } from '@/lib/error-monitor';
+import { logger } from '@/lib/logger';
+import RateLimiter, { withRateLimit } from '@/lib/rate-limiter';
+
+// POST /api/learning/suggest - Sugestões de mapeamento a partir dos padrões aprendidos
+async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = logger.generateRequestId();
+
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = InputValidator.validateRequest(learningSuggestSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const { csvData } = validation.data;
+
+    const suggestions = suggestLearnedMappings(getServerLearningSystem(), {
+      headers: csvData.headers,
+      rows: csvData.rows,
+      fileName: csvData.fileName,
+      fileSize: csvData.metadata.fileSize,
+    });
+
+    const duration = Date.now() - startTime;
+    logger.info('Learned mapping suggestions generated', {
+      requestId,
+      duration,
+      metadata: {
+        patternId: suggestions.patternId,
+        similarity: suggestions.confidence,
+        suggestions: suggestions.suggestions.length,
+      },
+    });
+
+    return NextResponse.json({ suggestions, processingTime: duration });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    logger.error('Learned mapping suggestions failed', {
+      requestId,
+      duration,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/learning/suggest',
+      method: 'POST',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Learned mapping suggestions failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const suggestLimiter = new RateLimiter(60, 60000); // 60 sugestões por minuto
+
+const POST_WITH_RATE_LIMIT = withRateLimit(POST, suggestLimiter);
+
+export { POST_WITH_RATE_LIMIT as POST };
\ No newline at end of file
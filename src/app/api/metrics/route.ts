@@ -4,6 +4,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { performanceCollector } from '@/lib/performance-metrics';
 import { errorMonitor } from '@/lib/error-monitor';
 import { cacheManager } from '@/lib/cache-manager';
+import { getServerJobQueue } from '@/lib/job-queue-server';
 import { logger } from '@/lib/logger';
 import { withRateLimit } from '@/lib/rate-limiter';
 
@@ -71,6 +72,7 @@ async function GET(request: NextRequest) {
       timestamp: now,
       timeRange,
       metrics: metricsData,
+      jobs: getServerJobQueue().getStats(), // Profundidade da fila e durações dos jobs (últimas 24h)
     };
 
     if (includeAlerts) {
@@ -303,6 +305,18 @@ function convertToPrometheus(data: any): string {
     lines.push(`app_memory_rss_bytes ${memory.rss} ${Date.now()}`);
   }
   
+  // Adicionar métricas da fila de jobs
+  if (data.jobs) {
+    const { queueDepth, running, durations } = data.jobs;
+    lines.push(`app_jobs_queue_depth ${queueDepth} ${Date.now()}`);
+    lines.push(`app_jobs_running ${running} ${Date.now()}`);
+    Object.entries(durations).forEach(([type, stats]: [string, any]) => {
+      lines.push(`app_job_duration_avg_ms{type="${type}"} ${stats.avgMs} ${Date.now()}`);
+      lines.push(`app_job_duration_p95_ms{type="${type}"} ${stats.p95Ms} ${Date.now()}`);
+      lines.push(`app_jobs_finished_total{type="${type}"} ${stats.count} ${Date.now()}`);
+    });
+  }
+  
   // Adicionar alertas ativos
   if (data.alerts?.active) {
     lines.push(`app_active_alerts_total ${data.alerts.active.length} ${Date.now()}`);
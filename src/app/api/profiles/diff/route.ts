@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerProfileStore } from '@/lib/learning-storage-server';
+import { InputValidator, profileDiffQuerySchema } from '@/lib/input-validator';
+import { ProfileNotFoundError } from '@/lib/mapping-profiles';
+import { errorMonitor } from '@/lib/error-monitor';
+import { logger } from '@/lib/logger';
+import RateLimiter, { withRateLimit } from '@/lib/rate-limiter';
+
+// GET /api/profiles/diff?profileId=...&from=1&to=2 - Diferenças entre duas versões de um perfil
+async function GET(request: NextRequest) {
+  const requestId = logger.generateRequestId();
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = Object.fromEntries(searchParams.entries());
+    const validation = InputValidator.validateRequest(profileDiffQuerySchema, query);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const { profileId, from, to } = validation.data;
+    const diff = getServerProfileStore().diffVersions(profileId, from, to);
+
+    logger.info('Mapping profile diff generated', {
+      requestId,
+      metadata: {
+        profileId,
+        from,
+        to,
+        changedMappings: diff.mappings.changed.length,
+      },
+    });
+
+    return NextResponse.json({ diff });
+  } catch (error) {
+    if (error instanceof ProfileNotFoundError) {
+      return NextResponse.json({ error: 'Profile version not found', message: error.message }, { status: 404 });
+    }
+
+    logger.error('Mapping profile diff failed', {
+      requestId,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/profiles/diff',
+      method: 'GET',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Mapping profile diff failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const diffLimiter = new RateLimiter(60, 60000); // 60 requests por minuto
+
+const GET_WITH_RATE_LIMIT = withRateLimit(GET, diffLimiter);
+
+export { GET_WITH_RATE_LIMIT as GET };
\ No newline at end of file
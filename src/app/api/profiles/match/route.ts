@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerProfileStore } from '@/lib/learning-storage-server';
+import { InputValidator, profileMatchSchema } from '@/lib/input-validator';
+import { errorMonitor } from '@/lib/error-monitor';
+import { logger } from '@/lib/logger';
+import RateLimiter, { withRateLimit } from '@/lib/rate-limiter';
+
+// POST /api/profiles/match - Perfil correspondente aos cabeçalhos de um arquivo recém-carregado
+async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = logger.generateRequestId();
+
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = InputValidator.validateRequest(profileMatchSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const match = getServerProfileStore().findMatch(validation.data.headers);
+
+    const duration = Date.now() - startTime;
+    logger.info('Mapping profile match evaluated', {
+      requestId,
+      duration,
+      metadata: {
+        profileId: match?.profile.id,
+        version: match?.version.version,
+        score: match?.score,
+      },
+    });
+
+    return NextResponse.json({ match, processingTime: duration });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    logger.error('Mapping profile match failed', {
+      requestId,
+      duration,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/profiles/match',
+      method: 'POST',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Mapping profile match failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const matchLimiter = new RateLimiter(60, 60000); // 60 requests por minuto
+
+const POST_WITH_RATE_LIMIT = withRateLimit(POST, matchLimiter);
+
+export { POST_WITH_RATE_LIMIT as POST };
\ No newline at end of file
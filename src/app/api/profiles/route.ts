@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerProfileStore } from '@/lib/learning-storage-server';
+import { InputValidator, profileImportSchema } from '@/lib/input-validator';
+import { MappingProfile } from '@/lib/mapping-profiles';
+import { errorMonitor } from '@/lib/error-monitor';
+import { logger } from '@/lib/logger';
+import RateLimiter, { withRateLimit } from '@/lib/rate-limiter';
+
+// GET /api/profiles - Exportar perfis de mapeamento (?id=... limita aos perfis informados)
+async function GET(request: NextRequest) {
+  const requestId = logger.generateRequestId();
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const ids = searchParams.getAll('id');
+    const exported = getServerProfileStore().exportProfiles(ids.length > 0 ? ids : undefined);
+
+    logger.info('Mapping profiles exported', {
+      requestId,
+      metadata: { profiles: exported.profiles.length },
+    });
+
+    return NextResponse.json(exported);
+  } catch (error) {
+    logger.error('Mapping profiles export failed', {
+      requestId,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/profiles',
+      method: 'GET',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Mapping profiles export failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/profiles - Importar perfis exportados (ex.: versionados no git junto aos scripts de migração)
+async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = logger.generateRequestId();
+
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = InputValidator.validateRequest(profileImportSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const imported = getServerProfileStore().importProfiles(validation.data.profiles as unknown as MappingProfile[]);
+
+    const duration = Date.now() - startTime;
+    logger.info('Mapping profiles imported', {
+      requestId,
+      duration,
+      metadata: imported,
+    });
+
+    return NextResponse.json({
+      imported,
+      totalProfiles: getServerProfileStore().listProfiles().length,
+      processingTime: duration,
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    logger.error('Mapping profiles import failed', {
+      requestId,
+      duration,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/profiles',
+      method: 'POST',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Mapping profiles import failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const profilesLimiter = new RateLimiter(30, 60000); // 30 requests por minuto
+
+const GET_WITH_RATE_LIMIT = withRateLimit(GET, profilesLimiter);
+const POST_WITH_RATE_LIMIT = withRateLimit(POST, profilesLimiter);
+
+export { GET_WITH_RATE_LIMIT as GET, POST_WITH_RATE_LIMIT as POST };
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerProfileStore } from '@/lib/learning-storage-server';
+import { InputValidator, profileSaveSchema } from '@/lib/input-validator';
+import { ProfileNotFoundError } from '@/lib/mapping-profiles';
+import { errorMonitor } from '@/lib/error-monitor';
+import { logger } from '@/lib/logger';
+import RateLimiter, { withRateLimit } from '@/lib/rate-limiter';
+import { SchemaAnalysis, TransformationRule } from '@/types';
+
+// POST /api/profiles/versions - Salvar a análise e as regras como nova versão de um perfil
+async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = logger.generateRequestId();
+
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = InputValidator.validateRequest(profileSaveSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const { analysis, rules, ...profile } = validation.data;
+    const saved = getServerProfileStore().saveVersion({
+      ...profile,
+      analysis: analysis as SchemaAnalysis,
+      rules: rules as TransformationRule[],
+    });
+
+    const duration = Date.now() - startTime;
+    logger.info('Mapping profile version saved', {
+      requestId,
+      duration,
+      metadata: {
+        profileId: saved.profile.id,
+        version: saved.version.version,
+        mappings: analysis.suggestedMappings.length,
+        rules: rules.length,
+      },
+    });
+
+    return NextResponse.json({ ...saved, processingTime: duration });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    if (error instanceof ProfileNotFoundError) {
+      return NextResponse.json({ error: 'Profile not found', message: error.message }, { status: 404 });
+    }
+
+    logger.error('Mapping profile save failed', {
+      requestId,
+      duration,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/profiles/versions',
+      method: 'POST',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Mapping profile save failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const versionsLimiter = new RateLimiter(30, 60000); // 30 requests por minuto
+
+const POST_WITH_RATE_LIMIT = withRateLimit(POST, versionsLimiter);
+
+export { POST_WITH_RATE_LIMIT as POST };
\ No newline at end of file
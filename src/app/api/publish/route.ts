@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { dryRunStep, PipelineStepError, publishStep } from '@/lib/pipeline-steps';
+import { InputValidator, publishRequestSchema } from '@/lib/input-validator';
+import { errorMonitor } from '@/lib/error-monitor';
+import { logger } from '@/lib/logger';
+import RateLimiter, { withRateLimit } from '@/lib/rate-limiter';
+
+// POST /api/publish - Publicar dados transformados no destino (ou simular, com "dryRun": true)
+async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = logger.generateRequestId();
+
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = InputValidator.validateRequest(publishRequestSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const { target, dryRun, format } = validation.data;
+
+    if (dryRun) {
+      const preview = await dryRunStep(validation.data);
+      const duration = Date.now() - startTime;
+      logger.info('Data publication dry run', {
+        requestId,
+        duration,
+        metadata: preview.target === 'database'
+          ? { target: target.type, table: preview.tableName, mode: preview.mode, statements: preview.totalWriteStatements, warnings: preview.warnings.length }
+          : { target: target.type, batches: preview.totalBatches, records: preview.totalRecords },
+      });
+
+      if (format === 'sql' && preview.target === 'database') {
+        return new NextResponse(preview.script, {
+          headers: {
+            'Content-Type': 'application/sql; charset=utf-8',
+            'Content-Disposition': `attachment; filename="publicacao_${preview.tableName.replace(/[^\w.-]/g, '_')}.sql"`,
+          },
+        });
+      }
+
+      return NextResponse.json({ dryRun: preview, processingTime: duration });
+    }
+
+    const result = await publishStep(validation.data);
+
+    const duration = Date.now() - startTime;
+    logger.info('Data publication finished', {
+      requestId,
+      duration,
+      metadata: 'batches' in result
+        ? {
+          target: target.type,
+          success: result.success,
+          batches: result.batches.length,
+          sentRecords: result.sentRecords,
+          failedRecords: result.failedRecords,
+          quarantinedRows: result.counts.quarantined,
+        }
+        : {
+          target: target.type,
+          success: result.success,
+          table: result.tableName,
+          mode: result.mode,
+          insertedRows: result.insertedRows,
+          updatedRows: result.updatedRows,
+          skippedRows: result.skippedRows,
+          quarantinedRows: result.counts.quarantined,
+        },
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Data publication failed', message: result.error, result, processingTime: duration },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({ result, processingTime: duration });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    // Registros fora do JSON Schema de destino (422) ou configuração de publicação inválida na simulação (400)
+    if (error instanceof PipelineStepError) {
+      logger.warn('Data publication rejected', {
+        requestId,
+        metadata: { status: error.status, message: error.message, invalidRecords: error.details.invalidRecords, errors: error.details.totalErrors },
+      });
+
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Data publication failed', {
+      requestId,
+      duration,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/publish',
+      method: 'POST',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Data publication failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const publishLimiter = new RateLimiter(20, 60000); // 20 publicações por minuto
+
+const POST_WITH_RATE_LIMIT = withRateLimit(POST, publishLimiter);
+
+export { POST_WITH_RATE_LIMIT as POST };
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createDatabaseService } from '@/lib/database-service';
+import { InputValidator, testConnectionRequestSchema } from '@/lib/input-validator';
+import { logger } from '@/lib/logger';
+import RateLimiter, { withRateLimit } from '@/lib/rate-limiter';
+
+// POST /api/publish/test-connection - Testar conexão com o banco de destino
+async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const validation = InputValidator.validateRequest(testConnectionRequestSchema, body);
+
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request', details: validation.errors },
+      { status: 400 }
+    );
+  }
+
+  const dbService = createDatabaseService(validation.data.connection.connectionString);
+  const result = await dbService.testConnection();
+
+  logger.info('Database connection tested', {
+    metadata: {
+      success: result.success,
+      type: result.details?.type,
+    },
+  });
+
+  return NextResponse.json(result);
+}
+
+const testConnectionLimiter = new RateLimiter(20, 60000); // 20 testes por minuto
+
+const POST_WITH_RATE_LIMIT = withRateLimit(POST, testConnectionLimiter);
+
+export { POST_WITH_RATE_LIMIT as POST };
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PipelineStepError, transformStep } from '@/lib/pipeline-steps';
+import { TransformationConfigError } from '@/lib/transformation-engine';
+import { InputValidator, transformRequestSchema } from '@/lib/input-validator';
+import { errorMonitor } from '@/lib/error-monitor';
+import { logger } from '@/lib/logger';
+import RateLimiter, { withRateLimit } from '@/lib/rate-limiter';
+
+// POST /api/transform - Aplicar mapeamentos aos dados
+async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = logger.generateRequestId();
+
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = InputValidator.validateRequest(transformRequestSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const transformedData = await transformStep(validation.data);
+
+    const duration = Date.now() - startTime;
+    logger.info('Data transformation completed', {
+      requestId,
+      duration,
+      metadata: {
+        rows: transformedData.totals?.records ?? transformedData.data.length,
+        validationErrors: transformedData.totals?.validationErrors ?? transformedData.validationErrors.length,
+        uploadId: transformedData.upload?.id,
+      },
+    });
+
+    return NextResponse.json({ transformedData, processingTime: duration });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    // Regras mal configuradas são erro do cliente, não do servidor
+    if (error instanceof TransformationConfigError) {
+      return NextResponse.json(
+        { error: 'Invalid transformation rules', message: error.message, rule: error.rule },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PipelineStepError) {
+      return NextResponse.json(
+        { error: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Data transformation failed', {
+      requestId,
+      duration,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/transform',
+      method: 'POST',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Data transformation failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const transformLimiter = new RateLimiter(60, 60000); // 60 transformações por minuto
+
+const POST_WITH_RATE_LIMIT = withRateLimit(POST, transformLimiter);
+
+export { POST_WITH_RATE_LIMIT as POST };
\ No newline at end of file
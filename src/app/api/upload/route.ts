@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { decodeBody, ingestTextStream, RequestTooLargeError } from '@/lib/upload-stream';
+import { EncodingDetection, EncodingDetector, SUPPORTED_ENCODINGS } from '@/lib/encoding-detector';
+import { InputSanitizer, InputValidator } from '@/lib/input-validator';
+import { createUploadId, deleteUpload, saveUpload, storeUploadChunks } from '@/lib/upload-store';
+import { errorMonitor } from '@/lib/error-monitor';
+import { logger } from '@/lib/logger';
+import RateLimiter, { withRateLimit } from '@/lib/rate-limiter';
+
+// POST /api/upload - Ingerir um CSV (corpo text/csv) em streaming
+// Com ?store=true o arquivo fica no servidor e as etapas seguintes recebem só o id (ver upload-store)
+async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = logger.generateRequestId();
+  let receivedBytes = 0;
+  let encoding: EncodingDetection | null = null;
+  let uploadId: string | null = null;
+
+  try {
+    if (!InputValidator.validateContentType(request.headers.get('content-type'), ['text/csv'])) {
+      return NextResponse.json(
+        { error: 'Unsupported content type', message: 'Envie o arquivo no corpo da requisição como text/csv' },
+        { status: 415 }
+      );
+    }
+
+    const contentLength = parseInt(request.headers.get('content-length') || '0');
+    if (!InputValidator.validateRequestSize(contentLength)) {
+      return NextResponse.json(
+        { error: 'Payload too large', message: `Upload excede o tamanho máximo permitido (${contentLength} bytes)` },
+        { status: 413 }
+      );
+    }
+
+    if (!request.body) {
+      return NextResponse.json(
+        { error: 'Invalid request', message: 'Corpo da requisição vazio' },
+        { status: 400 }
+      );
+    }
+
+    const batchSize = parseInt(request.nextUrl.searchParams.get('batchSize') || '') || undefined;
+    const hasHeader = request.nextUrl.searchParams.get('hasHeader');
+
+    // Encoding explícito: ?encoding= ou charset do Content-Type; sem ele, é detectado pelos bytes
+    const charset = request.nextUrl.searchParams.get('encoding')
+      ?? request.headers.get('content-type')?.match(/charset=([^;]+)/i)?.[1];
+    const encodingOverride = charset ? EncodingDetector.resolveLabel(charset) : undefined;
+    if (encodingOverride === null) {
+      return NextResponse.json(
+        {
+          error: 'Unsupported encoding',
+          message: `Encoding '${charset}' não suportado. Use: ${SUPPORTED_ENCODINGS.map(option => option.value).join(', ')}`
+        },
+        { status: 400 }
+      );
+    }
+
+    const chunks = decodeBody(request.body, {
+      encoding: encodingOverride,
+      onBytes: bytes => { receivedBytes = bytes; },
+      onEncoding: detection => { encoding = detection; }
+    });
+    if (request.nextUrl.searchParams.get('store') === 'true') {
+      uploadId = createUploadId();
+    }
+
+    const result = await ingestTextStream(
+      uploadId ? storeUploadChunks(uploadId, chunks) : chunks,
+      {
+        batchSize,
+        hasHeader: hasHeader === null ? undefined : hasHeader !== 'false',
+        totalBytes: contentLength
+      }
+    );
+
+    if (uploadId) {
+      saveUpload({
+        id: uploadId,
+        fileName: InputSanitizer.sanitizeFileName(request.nextUrl.searchParams.get('fileName') || 'dados.csv'),
+        bytes: receivedBytes,
+        hasHeader: result.structure.hasHeader,
+        headers: result.headers,
+        totalRows: result.totalRows,
+        createdAt: new Date().toISOString()
+      });
+    }
+
+    const duration = Date.now() - startTime;
+    logger.info('CSV upload ingested', {
+      requestId,
+      duration,
+      metadata: {
+        bytes: receivedBytes,
+        rows: result.totalRows,
+        batches: result.batches,
+        validationErrors: result.validationErrorCount,
+        uploadId,
+      },
+    });
+
+    return NextResponse.json({
+      structure: {
+        delimiter: result.structure.delimiter,
+        hasHeader: result.structure.hasHeader,
+        confidence: result.structure.confidence,
+      },
+      encoding,
+      headers: result.headers,
+      totalRows: result.totalRows,
+      receivedBytes,
+      columnTypes: Object.fromEntries(
+        Object.entries(result.columnTypes).map(([column, inference]) => [
+          column,
+          { type: inference.type, confidence: inference.confidence, format: inference.format },
+        ])
+      ),
+      upload: uploadId ? { id: uploadId, totalRows: result.totalRows } : undefined,
+      sampleRows: uploadId ? result.sampleRows : result.sampleRows.slice(0, 10), // Guardado: a amostra substitui as linhas na interface
+      validationErrors: result.validationErrors,
+      validationErrorCount: result.validationErrorCount,
+      parseErrors: result.parseErrors,
+      processingTime: duration,
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    if (uploadId) deleteUpload(uploadId);
+
+    if (error instanceof RequestTooLargeError) {
+      return NextResponse.json(
+        { error: 'Payload too large', message: error.message },
+        { status: 413 }
+      );
+    }
+
+    logger.error('CSV upload failed', {
+      requestId,
+      duration,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/upload',
+      method: 'POST',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'CSV upload failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const uploadLimiter = new RateLimiter(20, 60000); // 20 uploads por minuto
+
+const POST_WITH_RATE_LIMIT = withRateLimit(POST, uploadLimiter);
+
+export { POST_WITH_RATE_LIMIT as POST };
\ No newline at end of file
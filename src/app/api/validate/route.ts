@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DatasetCheckError, DatasetValidator } from '@/lib/dataset-validator';
+import { datasetValidationRequestSchema, InputValidator } from '@/lib/input-validator';
+import { errorMonitor } from '@/lib/error-monitor';
+import { logger } from '@/lib/logger';
+import RateLimiter, { withRateLimit } from '@/lib/rate-limiter';
+import { RuleExpressionError } from '@/lib/rule-expressions';
+
+// POST /api/validate - Verificações entre linhas e colunas (unicidade, ordem de datas, somas, chaves estrangeiras) e regras de negócio
+async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = logger.generateRequestId();
+
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = InputValidator.validateRequest(datasetValidationRequestSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const { csvData, checks, businessRules, references } = validation.data;
+    const result = new DatasetValidator(references).validate(csvData, checks, businessRules);
+
+    const duration = Date.now() - startTime;
+    logger.info('Dataset validation completed', {
+      requestId,
+      duration,
+      metadata: {
+        rows: result.statistics.totalRows,
+        checks: checks.length,
+        businessRules: businessRules.length,
+        invalidRows: result.statistics.invalidRows,
+      },
+    });
+
+    return NextResponse.json({ validation: result, processingTime: duration });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    // Colunas ou referências inexistentes são erro do cliente, não do servidor
+    if (error instanceof DatasetCheckError) {
+      return NextResponse.json(
+        { error: 'Invalid dataset check', message: error.message, check: error.check },
+        { status: 400 }
+      );
+    }
+    if (error instanceof RuleExpressionError) {
+      return NextResponse.json(
+        { error: 'Invalid business rule', message: error.message },
+        { status: 400 }
+      );
+    }
+
+    logger.error('Dataset validation failed', {
+      requestId,
+      duration,
+      error: error as Error,
+    });
+
+    errorMonitor.recordError(error as Error, {
+      requestId,
+      url: '/api/validate',
+      method: 'POST',
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Dataset validation failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const validateLimiter = new RateLimiter(60, 60000); // 60 validações por minuto
+
+const POST_WITH_RATE_LIMIT = withRateLimit(POST, validateLimiter);
+
+export { POST_WITH_RATE_LIMIT as POST };
\ No newline at end of file
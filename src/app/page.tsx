@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { motion } from 'framer-motion'
 import { Upload, Database, Zap, Target, ArrowRight } from 'lucide-react'
 import { FileUploader } from '@/components/FileUploader'
@@ -8,15 +8,46 @@ import { SchemaAnalyzer } from '@/components/SchemaAnalyzer'
 import { DataTransformer } from '@/components/DataTransformer'
 import { OutputPublisher } from '@/components/OutputPublisher'
 import { AdaptiveInterface } from '@/components/adaptive-interface'
+import { SuggestionResult } from '@/lib/learning-system'
+import { ProfileMatch } from '@/lib/mapping-profiles'
+import { postPipeline, toCSVPayload } from '@/lib/pipeline-client'
+import { TransformationRule } from '@/types'
 
 type Step = 'upload' | 'analyze' | 'transform' | 'publish'
 
+const EMPTY_SUGGESTIONS: SuggestionResult = { suggestions: [], confidence: 0, reasoning: '', alternatives: [] }
+
 export default function Home() {
   const [currentStep, setCurrentStep] = useState<Step>('upload')
   const [uploadedData, setUploadedData] = useState<any>(null)
   const [analysisResult, setAnalysisResult] = useState<any>(null)
   const [transformedData, setTransformedData] = useState<any>(null)
   const [useAdaptiveInterface, setUseAdaptiveInterface] = useState<boolean>(false)
+  const [learnedSuggestions, setLearnedSuggestions] = useState<SuggestionResult>(EMPTY_SUGGESTIONS)
+  const [profileMatch, setProfileMatch] = useState<ProfileMatch | null>(null)
+  const [transformationRules, setTransformationRules] = useState<TransformationRule[]>([])
+
+  // Um perfil salvo com os mesmos cabeçalhos é selecionado assim que o arquivo é carregado
+  useEffect(() => {
+    setProfileMatch(null)
+    if (!uploadedData) return
+
+    postPipeline<{ match: ProfileMatch | null }>('/api/profiles/match', { headers: uploadedData.headers })
+      .then(({ match }) => setProfileMatch(match))
+      .catch(err => console.warn('Não foi possível consultar os perfis de mapeamento:', err))
+  }, [uploadedData])
+
+  // A interface adaptativa parte das sugestões dos padrões aprendidos
+  useEffect(() => {
+    if (!useAdaptiveInterface || !uploadedData || currentStep !== 'analyze') return
+
+    postPipeline<{ suggestions: SuggestionResult }>('/api/learning/suggest', { csvData: toCSVPayload(uploadedData) })
+      .then(({ suggestions }) => setLearnedSuggestions(suggestions))
+      .catch(err => {
+        console.warn('Não foi possível obter sugestões aprendidas:', err)
+        setLearnedSuggestions(EMPTY_SUGGESTIONS)
+      })
+  }, [useAdaptiveInterface, uploadedData, currentStep])
 
   const steps = [
     { id: 'upload', title: 'Upload de Dados', icon: Upload, description: 'Carregue arquivos do sistema legado' },
@@ -25,7 +56,7 @@ export default function Home() {
     { id: 'publish', title: 'Publicação', icon: Target, description: 'Envie para o sistema contemporâneo' },
   ]
 
-  const handleStepComplete = (step: Step, data: any) => {
+  const handleStepComplete = (step: Step, data: any, rules: TransformationRule[] = []) => {
     switch (step) {
       case 'upload':
         setUploadedData(data)
@@ -33,6 +64,7 @@ export default function Home() {
         break
       case 'analyze':
         setAnalysisResult(data)
+        setTransformationRules(rules)
         setCurrentStep('transform')
         break
       case 'transform':
@@ -53,7 +85,7 @@ export default function Home() {
           data={uploadedData}
           domainAnalysis={{ domain: 'generico', confidence: 0.8, characteristics: [], suggestedSchema: { name: '', description: '', fields: [] }, transformationRules: [], validationRules: [] }}
           validationResults={[]}
-          suggestions={{ suggestions: [], confidence: 0, reasoning: '', alternatives: [] }}
+          suggestions={learnedSuggestions}
           onMappingChange={(mapping) => console.log('Mapping changed:', mapping)}
           onTransformationApply={(transformations) => console.log('Transformations applied:', transformations)}
           onValidationFeedback={(feedback) => console.log('Validation feedback:', feedback)}
@@ -68,7 +100,8 @@ export default function Home() {
         return (
           <SchemaAnalyzer 
             inputData={uploadedData} 
-            onComplete={(data) => handleStepComplete('analyze', data)} 
+            profileMatch={profileMatch}
+            onComplete={(data, rules) => handleStepComplete('analyze', data, rules)} 
           />
         )
       case 'transform':
@@ -76,6 +109,7 @@ export default function Home() {
           <DataTransformer 
             inputData={uploadedData}
             analysisResult={analysisResult}
+            rules={transformationRules}
             onComplete={(data) => handleStepComplete('transform', data)} 
           />
         )
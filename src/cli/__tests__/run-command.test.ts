@@ -0,0 +1,84 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { EXIT_CODES, runPipeline } from '../run-command';
+
+const csv = 'nome;valor\nAna;10,50\nBruno;abc\nCarla;7\n';
+
+const profile = {
+  id: 'perfil_clientes',
+  name: 'Clientes',
+  headers: ['nome', 'valor'],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  versions: [{
+    version: 1,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    analysis: {
+      sourceSchema: [],
+      suggestedMappings: [
+        { sourceField: 'nome', targetField: 'nome', sourceType: 'string', targetType: 'string', confidence: 90 },
+        { sourceField: 'valor', targetField: 'valor', sourceType: 'string', targetType: 'number', confidence: 90 }
+      ],
+      confidence: 90,
+      reasoning: 'teste'
+    },
+    rules: []
+  }]
+};
+
+describe('runPipeline', () => {
+  let directory: string;
+  let options: { profilePath: string; inputPath: string; outputPath: string };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'orquestrador-'));
+    options = {
+      profilePath: path.join(directory, 'perfil.json'),
+      inputPath: path.join(directory, 'dados.csv'),
+      outputPath: path.join(directory, 'saida.ndjson')
+    };
+    fs.writeFileSync(options.profilePath, JSON.stringify(profile));
+    fs.writeFileSync(options.inputPath, csv);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const outputNames = () => fs.readFileSync(options.outputPath, 'utf-8').trim().split('\n').map(line => JSON.parse(line).nome);
+
+  it('deixa as linhas com erro fora da saída e não publica acima de --max-errors', async () => {
+    const database = path.join(directory, 'destino.db');
+    const report = await runPipeline({ ...options, connectionString: `sqlite://${database}`, tableName: 'clientes' });
+
+    expect(report).toMatchObject({ status: 'validation_failed', exitCode: EXIT_CODES.validationFailed });
+    expect(report.totals).toMatchObject({ rows: 3, quarantinedRows: 1 });
+    expect(report.validationErrors).toEqual([expect.objectContaining({ row: 1, field: 'valor' })]);
+    expect(report.output?.records).toBe(2);
+    expect(outputNames()).toEqual(['Ana', 'Carla']);
+    expect(report.database).toMatchObject({ success: false, insertedRows: 0 });
+    expect(fs.existsSync(database)).toBe(false);
+  });
+
+  it('publica só as linhas válidas quando as linhas com erro cabem em --max-errors', async () => {
+    const database = path.join(directory, 'destino.db');
+    const report = await runPipeline({ ...options, connectionString: `sqlite://${database}`, tableName: 'clientes', maxErrors: 1 });
+
+    expect(report).toMatchObject({ status: 'success', exitCode: EXIT_CODES.success });
+    expect(report.database).toMatchObject({ success: true, insertedRows: 2 });
+    expect(outputNames()).toEqual(['Ana', 'Carla']);
+
+    const db = new Database(database, { readonly: true });
+    try {
+      expect(db.prepare('SELECT nome, valor FROM clientes ORDER BY nome').all()).toEqual([
+        { nome: 'Ana', valor: 10.5 },
+        { nome: 'Carla', valor: 7 }
+      ]);
+    } finally {
+      db.close();
+    }
+  });
+});
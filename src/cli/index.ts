@@ -0,0 +1,168 @@
+#!/usr/bin/env node
+/**
+ * CLI do orquestrador, para uso em scripts e agendadores
+ * O relatório JSON da execução vai para stdout; progresso e mensagens de uso, para stderr
+ */
+
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { PUBLISH_MODES, PublishMode } from '../lib/database-service';
+import { EncodingDetector, SUPPORTED_ENCODINGS } from '../lib/encoding-detector';
+import { CLIUsageError, EXIT_CODES, OutputFormat, RunOptions, runPipeline } from './run-command';
+
+const USAGE = `Uso: orquestrador run --profile <perfil.json> --input <dados.csv> [opções]
+
+Opções:
+  -p, --profile <arquivo>      Perfil de mapeamento (exportação de /api/profiles ou um único perfil)
+      --profile-name <nome>    Nome ou id do perfil, quando o arquivo tem vários
+      --profile-version <n>    Versão do perfil (padrão: a mais recente)
+  -i, --input <arquivo>        CSV de entrada
+  -o, --output <arquivo>       Saída dos registros transformados (.ndjson ou .json)
+      --format <ndjson|json>   Formato da saída (padrão: pela extensão)
+      --database <conexão>     Publica no banco (postgresql://, mysql://, sqlite://, sqlserver://)
+      --table <nome>           Tabela de destino (obrigatória com --database)
+      --mode <modo>            Modo de publicação: ${PUBLISH_MODES.join(', ')} (padrão: append)
+      --key <colunas>          Chave natural separada por vírgulas (obrigatória em upsert e insert_new)
+      --confirm-destructive    Permite converter colunas da tabela existente com possível perda de dados
+      --encoding <encoding>    Encoding do CSV (${SUPPORTED_ENCODINGS.map(option => option.value).join(', ')})
+      --no-header              O CSV não tem linha de cabeçalho
+      --batch-size <n>         Linhas por lote (padrão: 1000)
+      --max-errors <n>         Linhas com erro toleradas; ficam fora da saída e do banco (padrão: 0)
+      --report <arquivo>       Também grava o relatório JSON neste arquivo
+  -q, --quiet                  Não mostra o progresso
+  -h, --help                   Mostra esta ajuda
+
+Códigos de saída:
+  ${EXIT_CODES.success}  sucesso
+  ${EXIT_CODES.validationFailed}  mais linhas com erro que --max-errors (a publicação no banco não é executada)
+  ${EXIT_CODES.usage}  argumentos, perfil ou arquivo de entrada inválidos
+  ${EXIT_CODES.failure}  falha inesperada ou na publicação
+`;
+
+interface ParsedCommand {
+  options: RunOptions;
+  reportPath?: string;
+}
+
+function parseRunCommand(args: string[]): ParsedCommand | null {
+  const { values } = parseArgs({
+    args,
+    strict: true,
+    options: {
+      profile: { type: 'string', short: 'p' },
+      'profile-name': { type: 'string' },
+      'profile-version': { type: 'string' },
+      input: { type: 'string', short: 'i' },
+      output: { type: 'string', short: 'o' },
+      format: { type: 'string' },
+      database: { type: 'string' },
+      table: { type: 'string' },
+      mode: { type: 'string' },
+      key: { type: 'string' },
+      'confirm-destructive': { type: 'boolean' },
+      encoding: { type: 'string' },
+      'no-header': { type: 'boolean' },
+      'batch-size': { type: 'string' },
+      'max-errors': { type: 'string' },
+      report: { type: 'string' },
+      quiet: { type: 'boolean', short: 'q' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) return null;
+  if (!values.profile) throw new CLIUsageError('--profile é obrigatório');
+  if (!values.input) throw new CLIUsageError('--input é obrigatório');
+
+  const format = values.format;
+  if (format !== undefined && format !== 'ndjson' && format !== 'json') {
+    throw new CLIUsageError(`Formato de saída '${format}' não suportado. Use ndjson ou json`);
+  }
+
+  const mode = values.mode;
+  if (mode !== undefined && !PUBLISH_MODES.includes(mode as PublishMode)) {
+    throw new CLIUsageError(`Modo de publicação '${mode}' não suportado. Use ${PUBLISH_MODES.join(', ')}`);
+  }
+
+  let encoding: RunOptions['encoding'];
+  if (values.encoding) {
+    const resolved = EncodingDetector.resolveLabel(values.encoding);
+    if (!resolved) throw new CLIUsageError(`Encoding '${values.encoding}' não suportado`);
+    encoding = resolved;
+  }
+
+  return {
+    reportPath: values.report,
+    options: {
+      profilePath: values.profile,
+      profileName: values['profile-name'],
+      profileVersion: parseInteger(values['profile-version'], '--profile-version', 1),
+      inputPath: values.input,
+      outputPath: values.output,
+      outputFormat: format as OutputFormat | undefined,
+      connectionString: values.database,
+      tableName: values.table,
+      publishMode: mode as PublishMode | undefined,
+      keyColumns: values.key?.split(',').map(column => column.trim()).filter(Boolean),
+      confirmDestructive: values['confirm-destructive'],
+      encoding,
+      hasHeader: values['no-header'] ? false : undefined,
+      batchSize: parseInteger(values['batch-size'], '--batch-size', 1),
+      maxErrors: parseInteger(values['max-errors'], '--max-errors', 0),
+      onProgress: values.quiet ? undefined : message => process.stderr.write(`${message}\n`)
+    }
+  };
+}
+
+function parseInteger(value: string | undefined, option: string, min: number): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new CLIUsageError(`${option} deve ser um inteiro maior ou igual a ${min}`);
+  }
+  return parsed;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+
+  if (command === undefined || command === 'help' || command === '--help' || command === '-h') {
+    process.stderr.write(USAGE);
+    return command === undefined ? EXIT_CODES.usage : EXIT_CODES.success;
+  }
+  if (command !== 'run') {
+    process.stderr.write(`Comando desconhecido: ${command}\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+
+  let parsed: ParsedCommand | null;
+  try {
+    parsed = parseRunCommand(args);
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+  if (!parsed) {
+    process.stderr.write(USAGE);
+    return EXIT_CODES.success;
+  }
+
+  const report = await runPipeline(parsed.options);
+  const json = JSON.stringify(report, null, 2);
+  process.stdout.write(`${json}\n`);
+  if (parsed.reportPath) {
+    fs.writeFileSync(parsed.reportPath, json, 'utf-8');
+  }
+  if (report.error) {
+    process.stderr.write(`Erro: ${report.error}\n`);
+  }
+  return report.exitCode;
+}
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  error => {
+    process.stderr.write(`${error instanceof Error ? error.stack : error}\n`);
+    process.exitCode = EXIT_CODES.failure;
+  }
+);
\ No newline at end of file
@@ -0,0 +1,460 @@
+/**
+ * Comando `run` da CLI: aplica um perfil de mapeamento a um CSV sem a interface web
+ * O arquivo é lido em streaming; a publicação no banco só acontece depois de uma leitura completa sem erros
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { once } from 'events';
+import { createDatabaseService, PublishMode } from '../lib/database-service';
+import { EncodingDetection, TextEncoding } from '../lib/encoding-detector';
+import { DEFAULT_BATCH_SIZE, IngestionBatch } from '../lib/csv-stream';
+import { InputValidator, profileImportSchema } from '../lib/input-validator';
+import { validateRecords } from '../lib/json-schema';
+import { MemoryStorageAdapter } from '../lib/learning-storage';
+import { MappingProfile, MappingProfileStore, MappingProfileVersion } from '../lib/mapping-profiles';
+import { buildQuarantine } from '../lib/quarantine';
+import { buildTransformationRules, mergeFieldSchemas, TransformationConfigError } from '../lib/transformation-engine';
+import { decodeBody, DecodeBodyOptions, ingestTextStream } from '../lib/upload-stream';
+import { FieldSchema, JsonSchemaDefinition, ProfileReference, TransformationRule, ValidationError } from '@/types';
+
+export const EXIT_CODES = {
+  success: 0,
+  validationFailed: 1,
+  usage: 2, // Argumentos, perfil ou arquivo de entrada inválidos
+  failure: 3 // Erro inesperado ou falha na publicação
+} as const;
+
+const MAX_REPORTED_ERRORS = 100;
+
+export type OutputFormat = 'ndjson' | 'json';
+
+export interface RunOptions {
+  profilePath: string;
+  profileName?: string; // Nome ou id do perfil, obrigatório quando o arquivo exporta vários perfis
+  profileVersion?: number; // Padrão: última versão
+  inputPath: string;
+  outputPath?: string;
+  outputFormat?: OutputFormat; // Padrão: pela extensão do arquivo de saída
+  connectionString?: string;
+  tableName?: string;
+  publishMode?: PublishMode; // Padrão: append
+  keyColumns?: string[]; // Chave natural de upsert e insert_new
+  confirmDestructive?: boolean; // Alterações da tabela existente que podem perder dados
+  encoding?: TextEncoding;
+  hasHeader?: boolean;
+  batchSize?: number;
+  maxErrors?: number; // Linhas com erro toleradas antes de falhar (padrão 0); ficam fora da saída e da publicação
+  onProgress?: (message: string) => void;
+}
+
+export interface RunReport {
+  status: 'success' | 'validation_failed' | 'error';
+  exitCode: number;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  profile?: ProfileReference;
+  input: {
+    path: string;
+    bytes: number;
+    encoding?: string;
+    delimiter?: string;
+    headers: string[];
+  };
+  totals: {
+    rows: number;
+    batches: number;
+    validationErrors: number;
+    schemaErrors: number; // Incluídos em validationErrors
+    quarantinedRows: number; // Linhas com erro, não gravadas na saída nem publicadas
+    parseErrors: number;
+  };
+  validationErrors: ValidationError[]; // Primeiros MAX_REPORTED_ERRORS
+  parseErrors: string[];
+  output?: {
+    path: string;
+    format: OutputFormat;
+    records: number;
+  };
+  database?: {
+    success: boolean;
+    tableName: string;
+    database?: string;
+    mode: PublishMode;
+    insertedRows: number;
+    updatedRows: number;
+    skippedRows: number;
+    deletedRows?: number;
+    error?: string;
+  };
+  error?: string;
+}
+
+/**
+ * Erro de uso ou de configuração (argumentos, perfil, arquivos); termina com EXIT_CODES.usage
+ */
+export class CLIUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CLIUsageError';
+  }
+}
+
+interface InputPass {
+  bytes: number;
+  encoding?: EncodingDetection;
+  delimiter: string;
+  headers: string[];
+  rows: number;
+  batches: number;
+  schema: FieldSchema[];
+  validationErrors: ValidationError[];
+  validationErrorCount: number;
+  schemaErrorCount: number;
+  quarantinedRows: number;
+  parseErrors: string[];
+}
+
+/**
+ * Executa o pipeline e monta o relatório; erros nunca são lançados, ficam no relatório
+ */
+export async function runPipeline(options: RunOptions): Promise<RunReport> {
+  const startedAt = new Date();
+  const report: RunReport = {
+    status: 'success',
+    exitCode: EXIT_CODES.success,
+    startedAt: startedAt.toISOString(),
+    finishedAt: '',
+    durationMs: 0,
+    input: { path: options.inputPath, bytes: 0, headers: [] },
+    totals: { rows: 0, batches: 0, validationErrors: 0, schemaErrors: 0, quarantinedRows: 0, parseErrors: 0 },
+    validationErrors: [],
+    parseErrors: []
+  };
+
+  try {
+    if (options.connectionString && !options.tableName) {
+      throw new CLIUsageError('--table é obrigatório para publicar no banco de dados');
+    }
+    if ((options.publishMode === 'upsert' || options.publishMode === 'insert_new') && !options.keyColumns?.length) {
+      throw new CLIUsageError(`--key é obrigatório no modo ${options.publishMode}`);
+    }
+    if (!fs.existsSync(options.inputPath)) {
+      throw new CLIUsageError(`Arquivo de entrada não encontrado: ${options.inputPath}`);
+    }
+
+    const { reference, version } = loadProfile(options.profilePath, options.profileName, options.profileVersion);
+    report.profile = reference;
+
+    const rules = [...version.rules, ...buildTransformationRules(version.analysis)];
+    if (rules.length === 0) {
+      throw new CLIUsageError(`O perfil '${reference.name}' não tem mapeamentos`);
+    }
+
+    const writer = options.outputPath
+      ? createRecordWriter(options.outputPath, options.outputFormat ?? detectOutputFormat(options.outputPath))
+      : null;
+
+    let pass: InputPass;
+    try {
+      pass = await readInput(options, rules, version.analysis.targetJsonSchema, async records => {
+        await writer?.write(records);
+      });
+    } finally {
+      await writer?.close();
+    }
+
+    report.input = {
+      path: options.inputPath,
+      bytes: pass.bytes,
+      encoding: pass.encoding?.encoding,
+      delimiter: pass.delimiter,
+      headers: pass.headers
+    };
+    report.totals = {
+      rows: pass.rows,
+      batches: pass.batches,
+      validationErrors: pass.validationErrorCount,
+      schemaErrors: pass.schemaErrorCount,
+      quarantinedRows: pass.quarantinedRows,
+      parseErrors: pass.parseErrors.length
+    };
+    report.validationErrors = pass.validationErrors;
+    report.parseErrors = pass.parseErrors;
+    if (writer) {
+      report.output = { path: writer.path, format: writer.format, records: writer.records };
+    }
+
+    const failed = pass.quarantinedRows > (options.maxErrors ?? 0);
+    if (failed) {
+      report.status = 'validation_failed';
+      report.exitCode = EXIT_CODES.validationFailed;
+    }
+
+    if (options.connectionString && options.tableName) {
+      if (failed) {
+        report.database = {
+          success: false,
+          tableName: options.tableName,
+          mode: options.publishMode ?? 'append',
+          insertedRows: 0,
+          updatedRows: 0,
+          skippedRows: 0,
+          error: 'Publicação não executada: os registros têm erros de validação'
+        };
+      } else {
+        report.database = await publishInput(options, rules, pass.schema, version.analysis.targetJsonSchema);
+        if (!report.database.success) {
+          report.status = 'error';
+          report.exitCode = EXIT_CODES.failure;
+          report.error = report.database.error;
+        }
+      }
+    }
+  } catch (error) {
+    const usage = error instanceof CLIUsageError || error instanceof TransformationConfigError;
+    report.status = 'error';
+    report.exitCode = usage ? EXIT_CODES.usage : EXIT_CODES.failure;
+    report.error = error instanceof Error ? error.message : String(error);
+  }
+
+  const finishedAt = new Date();
+  report.finishedAt = finishedAt.toISOString();
+  report.durationMs = finishedAt.getTime() - startedAt.getTime();
+  return report;
+}
+
+/**
+ * Lê o perfil de um arquivo exportado por GET /api/profiles ou de um único perfil
+ */
+function loadProfile(
+  profilePath: string,
+  profileName?: string,
+  profileVersion?: number
+): { reference: ProfileReference; version: MappingProfileVersion } {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(fs.readFileSync(profilePath, 'utf-8'));
+  } catch (error) {
+    throw new CLIUsageError(`Não foi possível ler o perfil ${profilePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const document = parsed && Array.isArray(parsed.profiles) ? parsed : { profiles: [parsed] };
+  const validation = InputValidator.validateRequest(profileImportSchema, document);
+  if (!validation.success) {
+    const details = validation.errors.map(error => `${error.field}: ${error.message}`).join('; ');
+    throw new CLIUsageError(`Perfil inválido em ${profilePath}: ${details}`);
+  }
+
+  const store = new MappingProfileStore(new MemoryStorageAdapter());
+  store.importProfiles(validation.data.profiles as unknown as MappingProfile[]);
+  const profiles = store.listProfiles();
+
+  const candidates = profileName
+    ? profiles.filter(profile => profile.id === profileName || profile.name === profileName)
+    : profiles;
+  if (candidates.length === 0) {
+    throw new CLIUsageError(`Perfil '${profileName}' não encontrado em ${profilePath}`);
+  }
+  if (candidates.length > 1) {
+    throw new CLIUsageError(
+      `${profilePath} contém vários perfis; escolha um com --profile-name (${candidates.map(profile => profile.name).join(', ')})`
+    );
+  }
+
+  const [profile] = candidates;
+  const version = store.getVersion(profile.id, profileVersion);
+  if (!version) {
+    throw new CLIUsageError(`O perfil '${profile.name}' não tem a versão ${profileVersion}`);
+  }
+
+  return { reference: { id: profile.id, name: profile.name, version: version.version }, version };
+}
+
+/**
+ * Primeira leitura: transforma, valida e entrega os registros de cada lote, sem as linhas em quarentena
+ * O schema resultante junta a nulidade de todos os lotes, para o CREATE TABLE da publicação
+ */
+async function readInput(
+  options: RunOptions,
+  rules: TransformationRule[],
+  targetJsonSchema: JsonSchemaDefinition | undefined,
+  onRecords: (records: Record<string, any>[]) => Promise<void>
+): Promise<InputPass> {
+  let bytes = 0;
+  let encoding: EncodingDetection | undefined;
+  let schema: FieldSchema[] = [];
+  const schemaErrors: ValidationError[] = [];
+  let schemaErrorCount = 0;
+  let quarantinedRows = 0;
+
+  const result = await ingestInput(options, rules, async batch => {
+    schema = mergeFieldSchemas(schema, batch.schema ?? []);
+
+    const accepted = acceptBatch(batch, rules, targetJsonSchema);
+    schemaErrorCount += accepted.schemaErrors.length;
+    schemaErrors.push(...accepted.schemaErrors.slice(0, Math.max(0, MAX_REPORTED_ERRORS - schemaErrors.length)));
+    quarantinedRows += accepted.quarantinedRows;
+
+    await onRecords(accepted.records);
+    options.onProgress?.(`${batch.startRow + batch.rows.length} registros processados`);
+  }, {
+    onBytes: receivedBytes => { bytes = receivedBytes; },
+    onEncoding: detection => { encoding = detection; }
+  });
+
+  return {
+    bytes,
+    encoding,
+    delimiter: result.structure.delimiter,
+    headers: result.headers,
+    rows: result.totalRows,
+    batches: result.batches,
+    schema,
+    validationErrors: result.validationErrors.concat(schemaErrors).slice(0, MAX_REPORTED_ERRORS),
+    validationErrorCount: result.validationErrorCount + schemaErrorCount,
+    schemaErrorCount,
+    quarantinedRows,
+    parseErrors: result.parseErrors
+  };
+}
+
+/**
+ * Separa os registros do lote que seguem adiante, como na quarentena do pipeline
+ * Linhas com erro de validação, de transformação ou do JSON Schema de destino ficam fora da saída e da publicação
+ */
+function acceptBatch(
+  batch: IngestionBatch,
+  rules: TransformationRule[],
+  targetJsonSchema: JsonSchemaDefinition | undefined
+): { records: Record<string, any>[]; schemaErrors: ValidationError[]; quarantinedRows: number } {
+  const records = batch.transformed ?? [];
+  const schemaErrors = targetJsonSchema ? validateRecords(records, targetJsonSchema, rules) : [];
+  // Os erros do lote já vêm com a linha do arquivo; a quarentena usa a posição no lote
+  const quarantine = buildQuarantine(
+    { headers: batch.headers, rows: batch.rows },
+    batch.validationErrors.map(error => ({ ...error, row: error.row - batch.startRow })).concat(schemaErrors)
+  );
+  const rejected = new Set(quarantine.rows.map(entry => entry.row));
+
+  return {
+    records: records.filter((_, row) => !rejected.has(row)),
+    schemaErrors: schemaErrors.map(error => ({ ...error, row: error.row + batch.startRow })),
+    quarantinedRows: quarantine.rows.length
+  };
+}
+
+/**
+ * Segunda leitura: publica lote a lote na mesma tabela, sem as linhas em quarentena
+ * Cada lote é uma transação; numa falha, os lotes anteriores permanecem gravados (ver insertedRows)
+ * No modo replace, só o primeiro lote esvazia a tabela; os seguintes são acrescentados
+ */
+async function publishInput(
+  options: RunOptions,
+  rules: TransformationRule[],
+  schema: FieldSchema[],
+  targetJsonSchema: JsonSchemaDefinition | undefined
+): Promise<NonNullable<RunReport['database']>> {
+  const mode = options.publishMode ?? 'append';
+  const schemaEvolution = { confirmDestructive: options.confirmDestructive };
+  const publishOptions = { mode, keyColumns: options.keyColumns, schemaEvolution };
+  let service = createDatabaseService(options.connectionString!, options.tableName, publishOptions);
+  const published: NonNullable<RunReport['database']> = {
+    success: true,
+    tableName: options.tableName!,
+    mode,
+    insertedRows: 0,
+    updatedRows: 0,
+    skippedRows: 0
+  };
+
+  await ingestInput(options, rules, async batch => {
+    if (!published.success) return;
+
+    const result = await service.publishData({
+      data: acceptBatch(batch, rules, targetJsonSchema).records,
+      schema,
+      validationErrors: [],
+      transformationRules: rules,
+      targetJsonSchema
+    });
+    published.insertedRows += result.insertedRows ?? 0;
+    published.updatedRows += result.updatedRows ?? 0;
+    published.skippedRows += result.skippedRows ?? 0;
+    if (result.deletedRows !== undefined) {
+      published.deletedRows = (published.deletedRows ?? 0) + result.deletedRows;
+    }
+    published.database = result.database;
+    if (mode === 'replace') {
+      service = createDatabaseService(options.connectionString!, options.tableName, { mode: 'append', schemaEvolution });
+    }
+    if (!result.success) {
+      published.success = false;
+      published.error = result.error;
+    }
+    options.onProgress?.(`${published.insertedRows} registros publicados em ${published.tableName}`);
+  });
+
+  return published;
+}
+
+function ingestInput(
+  options: RunOptions,
+  rules: TransformationRule[],
+  onBatch: (batch: IngestionBatch) => Promise<void>,
+  decodeOptions: Pick<DecodeBodyOptions, 'onBytes' | 'onEncoding'> = {}
+) {
+  return ingestTextStream(
+    decodeBody(fs.createReadStream(options.inputPath), {
+      ...decodeOptions,
+      encoding: options.encoding,
+      maxBytes: Infinity // Arquivos locais não têm o limite de MAX_REQUEST_SIZE
+    }),
+    {
+      batchSize: options.batchSize ?? DEFAULT_BATCH_SIZE,
+      hasHeader: options.hasHeader,
+      rules,
+      onBatch
+    }
+  );
+}
+
+function detectOutputFormat(outputPath: string): OutputFormat {
+  return path.extname(outputPath).toLowerCase() === '.json' ? 'json' : 'ndjson';
+}
+
+/**
+ * Grava os registros conforme chegam: um JSON por linha (NDJSON) ou um array JSON
+ */
+function createRecordWriter(outputPath: string, format: OutputFormat) {
+  const stream = fs.createWriteStream(outputPath, { encoding: 'utf-8' });
+  let streamError: Error | null = null;
+  stream.on('error', error => { streamError = error; });
+
+  const writer = {
+    path: outputPath,
+    format,
+    records: 0,
+
+    async write(records: Record<string, any>[]): Promise<void> {
+      for (const record of records) {
+        if (streamError) throw streamError;
+        const json = JSON.stringify(record);
+        const chunk = format === 'json' ? `${writer.records === 0 ? '[\n' : ',\n'}${json}` : `${json}\n`;
+        writer.records++;
+        if (!stream.write(chunk)) await once(stream, 'drain');
+      }
+    },
+
+    async close(): Promise<void> {
+      if (streamError) throw streamError;
+      if (format === 'json') stream.write(writer.records === 0 ? '[]\n' : '\n]\n');
+      stream.end();
+      await once(stream, 'finish');
+      if (streamError) throw streamError;
+    }
+  };
+
+  return writer;
+}
\ No newline at end of file
@@ -0,0 +1,126 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { ChevronDown, ChevronRight, Undo2, Wand2 } from 'lucide-react'
+import { CSVData, TransformationRule } from '@/types'
+import { CleansingChange, getCleansingFix, getCleansingFixTitle, previewCleansingRule, suggestCleansingFixes } from '@/lib/data-cleansing'
+
+interface CleansingSuggestionsProps {
+  data: CSVData
+  rules: TransformationRule[]
+  onRulesChange: (rules: TransformationRule[]) => void
+}
+
+const formatValue = (value: any) => value === null || value === undefined ? '(vazio)' : String(value)
+
+export function CleansingSuggestions({ data, rules, onRulesChange }: CleansingSuggestionsProps) {
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const suggestions = useMemo(() => suggestCleansingFixes(data, { appliedRules: rules }), [data, rules])
+  const applied = rules.filter(rule => getCleansingFix(rule))
+
+  if (suggestions.length === 0 && applied.length === 0) return null
+
+  return (
+    <div className="mt-6 p-4 border border-gray-200 dark:border-gray-600 rounded-lg">
+      <div className="flex items-center space-x-2 mb-3">
+        <Wand2 className="h-5 w-5 text-purple-600" />
+        <h4 className="font-medium text-gray-900 dark:text-white">
+          Limpeza de Dados ({suggestions.length} sugestão(ões))
+        </h4>
+      </div>
+
+      <div className="space-y-2">
+        {suggestions.map(suggestion => {
+          const key = `${suggestion.field}:${suggestion.fix}`
+          return (
+            <div key={key} className="border border-gray-200 dark:border-gray-600 rounded-md">
+              <div className="flex items-center justify-between px-3 py-2">
+                <button
+                  onClick={() => setExpanded(expanded === key ? null : key)}
+                  className="flex items-center text-left text-sm text-gray-900 dark:text-gray-100"
+                >
+                  {expanded === key ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                  <span>
+                    <span className="font-mono">{suggestion.field}</span>: {suggestion.title}
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                      {suggestion.affectedRows} linha(s)
+                      {suggestion.failedRows > 0 && `, ${suggestion.failedRows} sem correção possível`}
+                    </span>
+                  </span>
+                </button>
+                <button
+                  onClick={() => onRulesChange([...rules, suggestion.rule])}
+                  className="px-3 py-1 bg-purple-600 text-white rounded-md text-sm hover:bg-purple-700 transition-colors"
+                >
+                  Aplicar
+                </button>
+              </div>
+              {expanded === key && (
+                <div className="px-3 pb-3">
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{suggestion.description}</p>
+                  <ChangesTable changes={suggestion.changes} />
+                  {suggestion.affectedRows > suggestion.changes.length && (
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      e mais {suggestion.affectedRows - suggestion.changes.length} linha(s)
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {applied.length > 0 && (
+        <div className="mt-4">
+          <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Correções aplicadas ao pipeline</p>
+          <ul className="space-y-1">
+            {applied.map(rule => (
+              <li key={`${rule.field}:${rule.parameters.fix}`} className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                <span>
+                  <span className="font-mono">{rule.field}</span>: {getCleansingFixTitle(getCleansingFix(rule)!)}
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                    {previewCleansingRule(data, rule, 0).affectedRows} linha(s)
+                  </span>
+                </span>
+                <button
+                  onClick={() => onRulesChange(rules.filter(current => current !== rule))}
+                  className="inline-flex items-center text-xs text-gray-600 dark:text-gray-400 underline hover:no-underline"
+                >
+                  <Undo2 className="h-3 w-3 mr-1" /> Desfazer
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ChangesTable({ changes }: { changes: CleansingChange[] }) {
+  return (
+    <table className="min-w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500 dark:text-gray-400">
+          <th className="pr-4 py-1 font-medium">Linha</th>
+          <th className="pr-4 py-1 font-medium">Antes</th>
+          <th className="py-1 font-medium">Depois</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map(change => (
+          <tr key={change.row}>
+            <td className="pr-4 py-1 text-gray-500 dark:text-gray-400">{change.row + 1}</td>
+            <td className="pr-4 py-1 font-mono text-red-700 dark:text-red-300 whitespace-pre">{change.before}</td>
+            <td className="py-1 font-mono">
+              {change.error
+                ? <span className="text-yellow-700 dark:text-yellow-300">{change.error}</span>
+                : <span className="text-green-700 dark:text-green-300">{formatValue(change.after)}</span>}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,170 @@
+'use client'
+
+import { Fragment, useMemo, useState } from 'react'
+import { ChevronDown, ChevronRight, Download } from 'lucide-react'
+import { CSVData } from '@/types'
+import { ColumnProfile, exportProfileJSON, profileData, renderProfileHTML } from '@/lib/data-profiler'
+import { cn } from '@/lib/utils'
+
+interface DataProfileViewProps {
+  data: CSVData
+}
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`
+
+const formatNumber = (value: number) => Number.isInteger(value) ? String(value) : value.toFixed(2)
+
+export function DataProfileView({ data }: DataProfileViewProps) {
+  const [expanded, setExpanded] = useState<number | null>(null)
+  const profile = useMemo(() => profileData(data, { fileName: data.fileName }), [data])
+
+  const download = (content: string, type: string, extension: string) => {
+    const blob = new Blob([content], { type })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `perfil_${data.fileName.replace(/\.[^.]+$/, '')}.${extension}`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <div className="bg-gray-50 dark:bg-gray-700 px-4 py-2 flex items-center justify-between">
+        <div>
+          <h3 className="font-medium text-gray-900 dark:text-white">
+            Perfil de Qualidade
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {formatPercent(profile.summary.nullRate)} de células vazias • {profile.summary.columnsWithValidationFailures} coluna(s) com valores inválidos • {profile.summary.columnsWithOutliers} coluna(s) com outliers
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => download(exportProfileJSON(profile), 'application/json', 'json')}
+            className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+          >
+            <Download className="h-4 w-4 mr-1" /> JSON
+          </button>
+          <button
+            onClick={() => download(renderProfileHTML(profile), 'text/html', 'html')}
+            className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+          >
+            <Download className="h-4 w-4 mr-1" /> HTML
+          </button>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-600 text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              {['Coluna', 'Tipo inferido', 'Vazios', 'Distintos', 'Inválidos', 'Outliers'].map(title => (
+                <th key={title} className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  {title}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-600">
+            {profile.columns.map(column => (
+              <Fragment key={column.index}>
+                <tr
+                  onClick={() => setExpanded(expanded === column.index ? null : column.index)}
+                  className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  <td className="px-4 py-2 text-gray-900 dark:text-gray-100">
+                    <span className="inline-flex items-center">
+                      {expanded === column.index ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                      {column.name}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-gray-600 dark:text-gray-300">
+                    {column.inferredType} ({formatPercent(column.typeConfidence)})
+                  </td>
+                  <td className={cn('px-4 py-2', column.nullRate > 0 ? 'text-yellow-600' : 'text-gray-600 dark:text-gray-300')}>
+                    {formatPercent(column.nullRate)}
+                  </td>
+                  <td className="px-4 py-2 text-gray-600 dark:text-gray-300">
+                    {column.distinctCount}{column.unique && ' (únicos)'}
+                  </td>
+                  <td className={cn('px-4 py-2', column.validation?.failed ? 'text-red-600' : 'text-gray-600 dark:text-gray-300')}>
+                    {column.validation ? formatPercent(column.validation.failureRate) : '-'}
+                  </td>
+                  <td className={cn('px-4 py-2', column.outliers?.count ? 'text-yellow-600' : 'text-gray-600 dark:text-gray-300')}>
+                    {column.outliers?.count ?? '-'}
+                  </td>
+                </tr>
+                {expanded === column.index && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-3 bg-gray-50 dark:bg-gray-900">
+                      <ColumnDetails column={column} />
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+function ColumnDetails({ column }: { column: ColumnProfile }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-xs text-gray-700 dark:text-gray-300">
+      <div>
+        <p className="font-medium mb-1">Valores mais frequentes</p>
+        {column.topValues.slice(0, 5).map(item => (
+          <p key={item.value}>
+            <span className="font-mono">{item.value}</span> — {item.count} ({formatPercent(item.rate)})
+          </p>
+        ))}
+      </div>
+      <div>
+        <p className="font-medium mb-1">Padrões ({column.distinctPatterns} distintos)</p>
+        {column.patterns.slice(0, 5).map(item => (
+          <p key={item.value}>
+            <span className="font-mono">{item.value}</span> — {item.count} ({formatPercent(item.rate)})
+          </p>
+        ))}
+      </div>
+      {column.numeric && (
+        <div>
+          <p className="font-medium mb-1">Estatísticas numéricas</p>
+          <p>
+            mín. {formatNumber(column.numeric.min)} • máx. {formatNumber(column.numeric.max)} • média {formatNumber(column.numeric.mean)} • mediana {formatNumber(column.numeric.median)}
+          </p>
+        </div>
+      )}
+      {column.lengths && (
+        <div>
+          <p className="font-medium mb-1">Comprimento</p>
+          <p>
+            {column.lengths.min} a {column.lengths.max} caracteres (média {formatNumber(column.lengths.mean)})
+          </p>
+        </div>
+      )}
+      {column.outliers && column.outliers.count > 0 && (
+        <div>
+          <p className="font-medium mb-1">
+            Outliers por {column.outliers.basis === 'value' ? 'valor' : 'comprimento'}
+          </p>
+          {column.outliers.examples.map(example => (
+            <p key={example.row}>Linha {example.row + 1}: <span className="font-mono">{example.value}</span></p>
+          ))}
+        </div>
+      )}
+      {column.validation && column.validation.failed > 0 && (
+        <div>
+          <p className="font-medium mb-1">
+            Inválidos como {column.validation.type}: {column.validation.failed} de {column.validation.checked}
+          </p>
+          {column.validation.examples.map(example => (
+            <p key={example.row}>Linha {example.row + 1}: <span className="font-mono">{example.value}</span> — {example.message}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
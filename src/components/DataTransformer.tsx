@@ -2,101 +2,81 @@
 
 import { useState, useEffect } from 'react'
 import { motion } from 'framer-motion'
-import { Cog, Play, CheckCircle, AlertTriangle, Download } from 'lucide-react'
-import { CSVData, SchemaAnalysis, TransformedData, TransformationRule, ValidationError } from '@/types'
+import { Cog, Play, CheckCircle, AlertTriangle, Download, ShieldAlert, Upload } from 'lucide-react'
+import { CSVData, QuarantineSet, SchemaAnalysis, TransformationRule, TransformedData, ValidationError } from '@/types'
+import { getPathValue, isNestedPath } from '@/lib/field-path'
+import { countRows, postPipeline, runPipelineJob, toCSVPayload } from '@/lib/pipeline-client'
+import { exportQuarantineCSV, exportQuarantineJSON, mergeResubmission, parseQuarantineFile } from '@/lib/quarantine'
 import { cn } from '@/lib/utils'
 
 interface DataTransformerProps {
   inputData: CSVData
   analysisResult: SchemaAnalysis
+  rules?: TransformationRule[] // Regras adicionais, ex.: as salvas no perfil de mapeamento
   onComplete: (transformedData: TransformedData) => void
 }
 
-export function DataTransformer({ inputData, analysisResult, onComplete }: DataTransformerProps) {
+export function DataTransformer({ inputData, analysisResult, rules = [], onComplete }: DataTransformerProps) {
   const [isTransforming, setIsTransforming] = useState(false)
   const [transformedData, setTransformedData] = useState<TransformedData | null>(null)
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([])
   const [previewData, setPreviewData] = useState<Record<string, any>[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [isResubmitting, setIsResubmitting] = useState(false)
+  const [resubmitError, setResubmitError] = useState<string | null>(null)
+  const [jobMessage, setJobMessage] = useState<string | null>(null)
 
   const handleTransform = async () => {
     setIsTransforming(true)
+    setError(null)
     
     try {
-      // Simular transformação dos dados
-      await new Promise(resolve => setTimeout(resolve, 2000))
-      
-      const transformationRules: TransformationRule[] = analysisResult.suggestedMappings.map(mapping => ({
-        field: mapping.sourceField,
-        operation: mapping.transformation?.includes('rename') ? 'rename' : 
-                  mapping.sourceType !== mapping.targetType ? 'convert' : 'validate',
-        parameters: {
-          targetField: mapping.targetField,
-          sourceType: mapping.sourceType,
-          targetType: mapping.targetType,
-          transformation: mapping.transformation
-        }
-      }))
-
-      const transformedRows = inputData.rows.map((row, rowIndex) => {
-        const transformedRow: Record<string, any> = {}
-        const errors: ValidationError[] = []
-
-        analysisResult.suggestedMappings.forEach((mapping, mappingIndex) => {
-          const sourceIndex = inputData.headers.indexOf(mapping.sourceField)
-          const sourceValue = row[sourceIndex]
-          
-          try {
-            let transformedValue = sourceValue
-            
-            // Aplicar transformações baseadas no tipo
-            if (mapping.targetType === 'number' && mapping.sourceType === 'string') {
-              transformedValue = (parseFloat(sourceValue) || 0).toString()
-            } else if (mapping.targetType === 'boolean') {
-              transformedValue = ['true', 'yes', '1', 'sim'].includes(sourceValue?.toLowerCase()).toString()
-            } else if (mapping.targetType === 'date') {
-              transformedValue = new Date(sourceValue).toISOString().split('T')[0]
-            }
-            
-            // Normalizar nome do campo
-            const normalizedFieldName = mapping.targetField.toLowerCase().replace(/[^a-z0-9]/g, '_')
-            transformedRow[normalizedFieldName] = transformedValue
-            
-          } catch (error) {
-            errors.push({
-              row: rowIndex,
-              field: mapping.sourceField,
-              value: sourceValue,
-              error: `Erro na transformação: ${error}`
-            })
-          }
-        })
-        
-        setValidationErrors(prev => [...prev, ...errors])
-        return transformedRow
-      })
-
-      const targetSchema = analysisResult.suggestedMappings.map(mapping => ({
-        name: mapping.targetField.toLowerCase().replace(/[^a-z0-9]/g, '_'),
-        type: mapping.targetType,
-        nullable: true,
-        description: `Transformado de ${mapping.sourceField}`,
-        examples: []
-      }))
-
-      const result: TransformedData = {
-        data: transformedRows,
-        schema: targetSchema,
-        transformationRules,
-        validationErrors
-      }
+      const request = { csvData: toCSVPayload(inputData), analysis: analysisResult, rules }
+      // Arquivos guardados no servidor são transformados em lotes por um job, com progresso por linha
+      const { transformedData: result } = inputData.upload
+        ? await runPipelineJob<{ transformedData: TransformedData }>('transform', request, status => setJobMessage(status.message ?? null))
+        : await postPipeline<{ transformedData: TransformedData }>('/api/transform', request)
 
       setTransformedData(result)
-      setPreviewData(transformedRows.slice(0, 10))
+      setValidationErrors(result.validationErrors)
+      setPreviewData(result.data.slice(0, 10))
       
     } catch (error) {
       console.error('Erro na transformação:', error)
+      setError(error instanceof Error ? error.message : 'Erro na transformação')
     } finally {
       setIsTransforming(false)
+      setJobMessage(null)
+    }
+  }
+
+  // Linhas corrigidas da quarentena passam pela mesma análise e pelas mesmas regras (o perfil em uso)
+  const handleResubmit = async (file: File) => {
+    if (!transformedData?.quarantine) return
+    setIsResubmitting(true)
+    setResubmitError(null)
+
+    try {
+      const resubmission = parseQuarantineFile(await file.text(), transformedData.quarantine.headers)
+      if (resubmission.rows.length === 0) {
+        throw new Error('O arquivo não tem linhas para reenviar')
+      }
+
+      const { transformedData: result } = await postPipeline<{ transformedData: TransformedData }>('/api/transform', {
+        csvData: toCSVPayload({ ...inputData, headers: resubmission.headers, rows: resubmission.rows }),
+        analysis: analysisResult,
+        rules
+      })
+
+      const merged = mergeResubmission(transformedData, result, resubmission.sourceRows)
+      setTransformedData(merged)
+      setValidationErrors(merged.validationErrors)
+      setPreviewData(merged.data.slice(0, 10))
+    } catch (error) {
+      console.error('Erro no reenvio da quarentena:', error)
+      setResubmitError(error instanceof Error ? error.message : 'Erro no reenvio')
+    } finally {
+      setIsResubmitting(false)
     }
   }
 
@@ -112,17 +92,11 @@ export function DataTransformer({ inputData, analysisResult, onComplete }: DataT
     const csv = [
       transformedData.schema.map(field => field.name).join(','),
       ...transformedData.data.map(row => 
-        transformedData.schema.map(field => row[field.name] || '').join(',')
+        transformedData.schema.map(field => getPathValue(row, field.name) ?? '').join(',')
       )
     ].join('\n')
     
-    const blob = new Blob([csv], { type: 'text/csv' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = 'dados_transformados.csv'
-    a.click()
-    URL.revokeObjectURL(url)
+    download(csv, 'text/csv', 'dados_transformados.csv')
   }
 
   return (
@@ -174,7 +148,7 @@ export function DataTransformer({ inputData, analysisResult, onComplete }: DataT
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
           <div className="text-center p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
             <p className="text-2xl font-bold text-gray-900 dark:text-white">
-              {inputData.rows.length}
+              {countRows(inputData)}
             </p>
             <p className="text-sm text-gray-500 dark:text-gray-400">Registros</p>
           </div>
@@ -214,7 +188,7 @@ export function DataTransformer({ inputData, analysisResult, onComplete }: DataT
               {isTransforming ? (
                 <>
                   <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                  <span>Transformando dados...</span>
+                  <span>{jobMessage ? `${jobMessage}...` : 'Transformando dados...'}</span>
                 </>
               ) : (
                 <>
@@ -225,6 +199,19 @@ export function DataTransformer({ inputData, analysisResult, onComplete }: DataT
             </button>
           </div>
         )}
+
+        {error && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg"
+          >
+            <div className="flex items-center space-x-2">
+              <AlertTriangle className="h-5 w-5 text-red-600" />
+              <p className="text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          </motion.div>
+        )}
       </motion.div>
 
       {/* Resultados da transformação */}
@@ -244,7 +231,7 @@ export function DataTransformer({ inputData, analysisResult, onComplete }: DataT
                 className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
               >
                 <Download className="h-4 w-4" />
-                <span>Download CSV</span>
+                <span>{transformedData.upload ? 'Download da prévia' : 'Download CSV'}</span>
               </button>
             </div>
           </div>
@@ -255,24 +242,35 @@ export function DataTransformer({ inputData, analysisResult, onComplete }: DataT
               <div className="flex items-center space-x-2 mb-2">
                 <AlertTriangle className="h-5 w-5 text-yellow-600" />
                 <h4 className="font-medium text-yellow-800 dark:text-yellow-200">
-                  Avisos de Validação ({validationErrors.length})
+                  Avisos de Validação ({transformedData.totals?.validationErrors ?? validationErrors.length})
                 </h4>
               </div>
               <div className="max-h-32 overflow-y-auto space-y-1">
                 {validationErrors.slice(0, 5).map((error, index) => (
                   <p key={index} className="text-sm text-yellow-700 dark:text-yellow-300">
-                    Linha {error.row + 1}, Campo {error.field}: {error.error}
+                    Linha {error.row + 1}, Campo {error.field}{error.path && error.path !== error.field ? ` (${error.path})` : ''}: {error.error}
                   </p>
                 ))}
-                {validationErrors.length > 5 && (
+                {(transformedData.totals?.validationErrors ?? validationErrors.length) > 5 && (
                   <p className="text-sm text-yellow-600 dark:text-yellow-400">
-                    ... e mais {validationErrors.length - 5} avisos
+                    ... e mais {(transformedData.totals?.validationErrors ?? validationErrors.length) - 5} avisos
                   </p>
                 )}
               </div>
             </div>
           )}
 
+          {transformedData.quarantine && transformedData.quarantine.rows.length > 0 && (
+            <QuarantinePanel
+              quarantine={transformedData.quarantine}
+              total={transformedData.totals?.quarantined}
+              canResubmit={!transformedData.upload}
+              isResubmitting={isResubmitting}
+              error={resubmitError}
+              onResubmit={handleResubmit}
+            />
+          )}
+
           {/* Preview dos dados transformados */}
           <div className="mb-6">
             <h4 className="font-medium text-gray-900 dark:text-white mb-3">
@@ -302,7 +300,7 @@ export function DataTransformer({ inputData, analysisResult, onComplete }: DataT
                             key={fieldIndex}
                             className="px-4 py-2 text-sm text-gray-900 dark:text-gray-100"
                           >
-                            {String(row[field.name] || '')}
+                            {String(getPathValue(row, field.name) ?? '')}
                           </td>
                         ))}
                       </tr>
@@ -311,18 +309,36 @@ export function DataTransformer({ inputData, analysisResult, onComplete }: DataT
                 </table>
               </div>
               <div className="bg-gray-50 dark:bg-gray-700 px-4 py-2 text-sm text-gray-500 dark:text-gray-400">
-                Mostrando {Math.min(10, transformedData.data.length)} de {transformedData.data.length} registros transformados
+                Mostrando {previewData.length} de {transformedData.totals?.records ?? transformedData.data.length} registros transformados
               </div>
             </div>
+
+            {/* Campos com caminho geram registros aninhados */}
+            {previewData.length > 0 && transformedData.schema.some(field => isNestedPath(field.name)) && (
+              <div className="mt-4">
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Estrutura do primeiro registro
+                </p>
+                <pre className="bg-gray-50 dark:bg-gray-900 p-3 rounded-lg text-xs overflow-x-auto max-h-64 overflow-y-auto">
+                  {JSON.stringify(previewData[0], null, 2)}
+                </pre>
+              </div>
+            )}
           </div>
 
           {/* Estatísticas da transformação */}
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
             <div className="text-center p-3 bg-green-50 dark:bg-green-900/20 rounded-lg">
               <p className="text-lg font-bold text-green-600">
-                {transformedData.data.length}
+                {transformedData.totals?.records ?? transformedData.data.length}
               </p>
-              <p className="text-xs text-green-600">Registros processados</p>
+              <p className="text-xs text-green-600">Registros aceitos</p>
+            </div>
+            <div className="text-center p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
+              <p className="text-lg font-bold text-red-600">
+                {transformedData.totals?.quarantined ?? transformedData.quarantine?.rows.length ?? 0}
+              </p>
+              <p className="text-xs text-red-600">Em quarentena</p>
             </div>
             <div className="text-center p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
               <p className="text-lg font-bold text-blue-600">
@@ -338,7 +354,7 @@ export function DataTransformer({ inputData, analysisResult, onComplete }: DataT
             </div>
             <div className="text-center p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
               <p className="text-lg font-bold text-yellow-600">
-                {validationErrors.length}
+                {transformedData.totals?.validationErrors ?? validationErrors.length}
               </p>
               <p className="text-xs text-yellow-600">Avisos</p>
             </div>
@@ -357,4 +373,95 @@ export function DataTransformer({ inputData, analysisResult, onComplete }: DataT
       )}
     </div>
   )
+}
+
+const download = (content: string, type: string, fileName: string) => {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+interface QuarantinePanelProps {
+  quarantine: QuarantineSet
+  total?: number // Em uploads guardados no servidor, a lista traz só as primeiras linhas
+  canResubmit: boolean
+  isResubmitting: boolean
+  error: string | null
+  onResubmit: (file: File) => void
+}
+
+function QuarantinePanel({ quarantine, total = quarantine.rows.length, canResubmit, isResubmitting, error, onResubmit }: QuarantinePanelProps) {
+  return (
+    <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <ShieldAlert className="h-5 w-5 text-red-600" />
+          <h4 className="font-medium text-red-800 dark:text-red-200">
+            Quarentena ({total} linha(s) não serão publicadas)
+          </h4>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => download(exportQuarantineCSV(quarantine), 'text/csv', 'quarentena.csv')}
+            className="inline-flex items-center px-3 py-1 border border-red-300 dark:border-red-700 rounded-md text-sm text-red-700 dark:text-red-300 hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors"
+          >
+            <Download className="h-4 w-4 mr-1" /> CSV
+          </button>
+          <button
+            onClick={() => download(exportQuarantineJSON(quarantine), 'application/json', 'quarentena.json')}
+            className="inline-flex items-center px-3 py-1 border border-red-300 dark:border-red-700 rounded-md text-sm text-red-700 dark:text-red-300 hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors"
+          >
+            <Download className="h-4 w-4 mr-1" /> JSON
+          </button>
+          {canResubmit && (
+            <label
+              className={cn(
+                'inline-flex items-center px-3 py-1 rounded-md text-sm text-white transition-colors',
+                isResubmitting ? 'bg-gray-400 cursor-not-allowed' : 'bg-red-600 hover:bg-red-700 cursor-pointer'
+              )}
+            >
+              <Upload className="h-4 w-4 mr-1" /> {isResubmitting ? 'Reenviando...' : 'Reenviar corrigidas'}
+              <input
+                type="file"
+                accept=".csv,.json"
+                disabled={isResubmitting}
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ''
+                  if (file) onResubmit(file)
+                }}
+              />
+            </label>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-red-700 dark:text-red-300 mb-2">
+        {canResubmit
+          ? 'Baixe as linhas com os valores originais, corrija-as e reenvie o arquivo: elas passam pelas mesmas regras e as aceitas entram nos dados publicados'
+          : `O arquivo foi processado no servidor: os downloads trazem as primeiras ${quarantine.rows.length} linha(s). Corrija o arquivo de origem e envie-o de novo`}
+      </p>
+      <div className="max-h-40 overflow-y-auto space-y-1">
+        {quarantine.rows.slice(0, 5).map(entry => (
+          <p key={entry.row} className="text-sm text-red-700 dark:text-red-300">
+            Linha {entry.row >= 0 ? entry.row + 1 : 'nova'}: {entry.errors.map(error =>
+              `${error.path || error.field} (${error.rule ?? error.step ?? 'validação'}): ${error.error}`
+            ).join('; ')}
+          </p>
+        ))}
+        {total > 5 && (
+          <p className="text-sm text-red-600 dark:text-red-400">
+            ... e mais {total - 5} linha(s)
+          </p>
+        )}
+      </div>
+      {error && (
+        <p className="mt-2 text-sm text-red-800 dark:text-red-200 font-medium">{error}</p>
+      )}
+    </div>
+  )
 }
\ No newline at end of file
@@ -2,10 +2,22 @@
 
 import { useState, useCallback } from 'react'
 import { motion } from 'framer-motion'
-import { Upload, File, X, CheckCircle } from 'lucide-react'
-import Papa from 'papaparse'
-import { CSVData } from '@/types'
-import { cn, formatFileSize, validateCSV } from '@/lib/utils'
+import { Upload, File, X, CheckCircle, BarChart3 } from 'lucide-react'
+import { CSVData, ProcessingStatus } from '@/types'
+import { DataProfileView } from '@/components/DataProfileView'
+import {
+  InputReadResult,
+  InputReaderOptions,
+  detectInputFormat,
+  formatFixedWidthLayout,
+  getAcceptedExtensions,
+  getInputReaders,
+  parseFixedWidthLayout,
+  readInputFile
+} from '@/lib/input-readers'
+import { EncodingDetector, SUPPORTED_ENCODINGS, TextEncoding } from '@/lib/encoding-detector'
+import { SERVER_UPLOAD_MIN_BYTES, countRows, uploadCSVFile } from '@/lib/pipeline-client'
+import { cn, formatFileSize } from '@/lib/utils'
 
 interface FileUploaderProps {
   onComplete: (data: CSVData) => void
@@ -17,6 +29,11 @@ export function FileUploader({ onComplete }: FileUploaderProps) {
   const [uploadedFile, setUploadedFile] = useState<File | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [preview, setPreview] = useState<CSVData | null>(null)
+  const [status, setStatus] = useState<ProcessingStatus | null>(null)
+  const [readResult, setReadResult] = useState<InputReadResult | null>(null)
+  const [layoutText, setLayoutText] = useState('')
+  const [encodingOverride, setEncodingOverride] = useState<TextEncoding | undefined>(undefined)
+  const [showProfile, setShowProfile] = useState(false)
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -28,50 +45,26 @@ export function FileUploader({ onComplete }: FileUploaderProps) {
     setIsDragOver(false)
   }, [])
 
-  const processFile = useCallback(async (file: File) => {
+  const processFile = useCallback(async (file: File, options: InputReaderOptions = {}) => {
     setIsProcessing(true)
     setError(null)
+    setStatus(null)
 
     try {
-      if (!file.name.toLowerCase().endsWith('.csv')) {
-        throw new Error('Apenas arquivos CSV são suportados')
+      // CSVs grandes vão em streaming para o servidor; a aba guarda só a amostra e a contagem de linhas
+      const encoding = options.encoding ? EncodingDetector.fromOverride(options.encoding) : undefined
+      const serverSide = file.size >= SERVER_UPLOAD_MIN_BYTES && (await detectInputFormat(file, encoding)).format === 'csv'
+      if (serverSide) {
+        setStatus({ step: 'upload', status: 'processing', progress: 0, message: `Enviando ${formatFileSize(file.size)} ao servidor` })
       }
+      const result = serverSide
+        ? await uploadCSVFile(file, { encoding: options.encoding, hasHeader: options.hasHeader })
+        : await readInputFile(file, { ...options, onProgress: setStatus })
 
-      const text = await file.text()
-      
-      if (!validateCSV(text)) {
-        throw new Error('Arquivo CSV inválido ou malformado')
-      }
-
-      Papa.parse(text, {
-        header: false,
-        skipEmptyLines: true,
-        complete: (results) => {
-          if (results.errors.length > 0) {
-            setError('Erro ao processar CSV: ' + results.errors[0].message)
-            return
-          }
-
-          const data = results.data as string[][]
-          if (data.length < 2) {
-            setError('O arquivo deve conter pelo menos um cabeçalho e uma linha de dados')
-            return
-          }
-
-          const csvData: CSVData = {
-            headers: data[0],
-            rows: data.slice(1),
-            fileName: file.name,
-            fileSize: file.size
-          }
-
-          setPreview(csvData)
-          setUploadedFile(file)
-        },
-        error: (error: Error) => {
-          setError('Erro ao processar arquivo: ' + error.message)
-        }
-      })
+      setReadResult(result)
+      setLayoutText(result.layout ? formatFixedWidthLayout(result.layout) : '')
+      setPreview(result.data)
+      setUploadedFile(file)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Erro desconhecido')
     } finally {
@@ -79,6 +72,31 @@ export function FileUploader({ onComplete }: FileUploaderProps) {
     }
   }, [])
 
+  const formatLabel = getInputReaders().find(reader => reader.format === readResult?.format)?.label
+
+  const handleSheetChange = (sheetName: string) => {
+    if (uploadedFile) {
+      processFile(uploadedFile, { sheetName, encoding: encodingOverride })
+    }
+  }
+
+  const handleEncodingChange = (value: string) => {
+    const encoding = value ? value as TextEncoding : undefined
+    setEncodingOverride(encoding)
+    if (uploadedFile) {
+      processFile(uploadedFile, { encoding, sheetName: readResult?.sheetName })
+    }
+  }
+
+  const handleApplyLayout = () => {
+    if (!uploadedFile) return
+    try {
+      processFile(uploadedFile, { layout: parseFixedWidthLayout(layoutText), encoding: encodingOverride })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Layout inválido')
+    }
+  }
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
     setIsDragOver(false)
@@ -106,6 +124,11 @@ export function FileUploader({ onComplete }: FileUploaderProps) {
     setUploadedFile(null)
     setPreview(null)
     setError(null)
+    setStatus(null)
+    setReadResult(null)
+    setLayoutText('')
+    setEncodingOverride(undefined)
+    setShowProfile(false)
   }
 
   return (
@@ -119,7 +142,7 @@ export function FileUploader({ onComplete }: FileUploaderProps) {
           Upload de Dados Legados
         </h2>
         <p className="text-gray-600 dark:text-gray-300 mb-6">
-          Carregue um arquivo CSV do seu sistema legado para iniciar o processo de orquestração.
+          Carregue um arquivo CSV, Excel (XLSX), JSON, NDJSON ou de largura fixa do seu sistema legado para iniciar o processo de orquestração.
         </p>
 
         {!preview ? (
@@ -136,14 +159,14 @@ export function FileUploader({ onComplete }: FileUploaderProps) {
           >
             <Upload className="mx-auto h-12 w-12 text-gray-400 mb-4" />
             <p className="text-lg font-medium text-gray-900 dark:text-white mb-2">
-              Arraste e solte seu arquivo CSV aqui
+              Arraste e solte seu arquivo aqui
             </p>
             <p className="text-gray-500 dark:text-gray-400 mb-4">
               ou clique para selecionar
             </p>
             <input
               type="file"
-              accept=".csv"
+              accept={getAcceptedExtensions()}
               onChange={handleFileSelect}
               className="hidden"
               id="file-upload"
@@ -165,7 +188,9 @@ export function FileUploader({ onComplete }: FileUploaderProps) {
                     {uploadedFile?.name}
                   </p>
                   <p className="text-sm text-green-600 dark:text-green-300">
-                    {formatFileSize(uploadedFile?.size || 0)} • {preview.rows.length} registros
+                    {formatFileSize(uploadedFile?.size || 0)} • {countRows(preview)} registros
+                    {formatLabel && ` • ${formatLabel}`}
+                    {preview.upload && ' • processado no servidor'}
                   </p>
                 </div>
               </div>
@@ -177,6 +202,81 @@ export function FileUploader({ onComplete }: FileUploaderProps) {
               </button>
             </div>
 
+            {readResult?.encoding && (
+              <div>
+                <div className="flex items-center space-x-3">
+                  <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Codificação
+                  </label>
+                  <select
+                    value={encodingOverride ?? ''}
+                    onChange={(e) => handleEncodingChange(e.target.value)}
+                    disabled={isProcessing}
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                  >
+                    <option value="">Automática</option>
+                    {SUPPORTED_ENCODINGS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  {!encodingOverride && (
+                    <span className="text-sm text-gray-500 dark:text-gray-400">
+                      Detectado: {EncodingDetector.getLabel(readResult.encoding.encoding)} ({Math.round(readResult.encoding.confidence * 100)}% de confiança)
+                    </span>
+                  )}
+                </div>
+                {readResult.encoding.mixed && !encodingOverride && (
+                  <p className="mt-1 text-xs text-yellow-600 dark:text-yellow-400">
+                    O arquivo mistura linhas em UTF-8 e em {EncodingDetector.getLabel(readResult.encoding.encoding)}; cada linha foi convertida separadamente.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {readResult?.sheets && readResult.sheets.length > 1 && (
+              <div className="flex items-center space-x-3">
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Planilha
+                </label>
+                <select
+                  value={readResult.sheetName}
+                  onChange={(e) => handleSheetChange(e.target.value)}
+                  disabled={isProcessing}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                >
+                  {readResult.sheets.map(sheet => (
+                    <option key={sheet} value={sheet}>{sheet}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {readResult?.format === 'fixed-width' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Layout das colunas (nome:início:largura)
+                </label>
+                <div className="flex space-x-3">
+                  <input
+                    type="text"
+                    value={layoutText}
+                    onChange={(e) => setLayoutText(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                  />
+                  <button
+                    onClick={handleApplyLayout}
+                    disabled={isProcessing}
+                    className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    Aplicar layout
+                  </button>
+                </div>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Layout inferido pelo alinhamento das colunas; ajuste se necessário.
+                </p>
+              </div>
+            )}
+
             <div className="border rounded-lg overflow-hidden">
               <div className="bg-gray-50 dark:bg-gray-700 px-4 py-2">
                 <h3 className="font-medium text-gray-900 dark:text-white">
@@ -213,14 +313,24 @@ export function FileUploader({ onComplete }: FileUploaderProps) {
                   </tbody>
                 </table>
               </div>
-              {preview.rows.length > 5 && (
+              {countRows(preview) > 5 && (
                 <div className="bg-gray-50 dark:bg-gray-700 px-4 py-2 text-sm text-gray-500 dark:text-gray-400">
-                  Mostrando 5 de {preview.rows.length} registros
+                  Mostrando 5 de {countRows(preview)} registros
+                  {preview.upload && ` (análise e perfil usam as primeiras ${preview.rows.length} linhas)`}
                 </div>
               )}
             </div>
 
-            <div className="flex justify-end">
+            {showProfile && <DataProfileView data={preview} />}
+
+            <div className="flex justify-between">
+              <button
+                onClick={() => setShowProfile(!showProfile)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                <BarChart3 className="h-4 w-4 mr-2" />
+                {showProfile ? 'Ocultar perfil de qualidade' : 'Perfil de qualidade'}
+              </button>
               <button
                 onClick={handleConfirm}
                 className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
@@ -232,9 +342,26 @@ export function FileUploader({ onComplete }: FileUploaderProps) {
         )}
 
         {isProcessing && (
-          <div className="flex items-center justify-center py-8">
-            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-            <span className="ml-3 text-gray-600 dark:text-gray-300">Processando arquivo...</span>
+          <div className="py-8">
+            <div className="flex items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              <span className="ml-3 text-gray-600 dark:text-gray-300">
+                Processando arquivo... {status ? `${status.progress}%` : ''}
+              </span>
+            </div>
+            {status && (
+              <div className="mt-4 max-w-md mx-auto">
+                <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${status.progress}%` }}
+                  />
+                </div>
+                {status.message && (
+                  <p className="mt-2 text-sm text-center text-gray-500 dark:text-gray-400">{status.message}</p>
+                )}
+              </div>
+            )}
           </div>
         )}
 
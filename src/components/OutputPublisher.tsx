@@ -1,20 +1,76 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { motion } from 'framer-motion'
-import { Target, Send, CheckCircle, ExternalLink, Copy, Database, Globe, FileText, TestTube, AlertCircle } from 'lucide-react'
+import { Target, Send, CheckCircle, ExternalLink, Copy, Database, Globe, FileText, TestTube, AlertCircle, Eye, Download } from 'lucide-react'
 import { TransformedData, OutputTarget } from '@/types'
 import { cn } from '@/lib/utils'
-import { createDatabaseService, DatabaseService } from '@/lib/database-service'
+import { DatabaseResult, PublishMode, SchemaChange } from '@/lib/database-service'
+import { FILE_MIME_TYPES, FileDryRun, previewFile, serializeRecords } from '@/lib/file-export'
+import { validateRecords } from '@/lib/json-schema'
+import { PipelineRequestError, postPipeline, runPipelineJob } from '@/lib/pipeline-client'
+import { PublishCounts, PublishDryRun } from '@/lib/pipeline-steps'
+import { RestAuth, RestBatchResult, RestPublishResult } from '@/lib/rest-publisher'
 
 interface OutputPublisherProps {
   transformedData: TransformedData
   onComplete: (result: any) => void
 }
 
+// Campos de OutputTarget.credentials por tipo de autenticação da API REST
+const AUTH_FIELDS: Record<string, Array<{ key: string; label: string; secret?: boolean; placeholder?: string }>> = {
+  none: [],
+  bearer: [{ key: 'token', label: 'Token', secret: true }],
+  basic: [{ key: 'username', label: 'Usuário' }, { key: 'password', label: 'Senha', secret: true }],
+  api_key: [{ key: 'header', label: 'Header', placeholder: 'X-API-Key' }, { key: 'value', label: 'Chave', secret: true }],
+  oauth2: [
+    { key: 'tokenUrl', label: 'URL do token', placeholder: 'https://auth.exemplo.com/oauth/token' },
+    { key: 'clientId', label: 'Client ID' },
+    { key: 'clientSecret', label: 'Client secret', secret: true },
+    { key: 'scope', label: 'Escopo (opcional)' }
+  ]
+}
+
+type DryRunResult = PublishDryRun | ({ target: 'file'; fileName: string } & FileDryRun)
+
+const download = (content: string, type: string, fileName: string) => {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+const toRestAuth = (credentials: Record<string, string> = {}): RestAuth => {
+  switch (credentials.type) {
+    case 'bearer':
+      return { type: 'bearer', token: credentials.token ?? '' }
+    case 'basic':
+      return { type: 'basic', username: credentials.username ?? '', password: credentials.password ?? '' }
+    case 'api_key':
+      return { type: 'api_key', header: credentials.header || 'X-API-Key', value: credentials.value ?? '' }
+    case 'oauth2':
+      return {
+        type: 'oauth2',
+        tokenUrl: credentials.tokenUrl ?? '',
+        clientId: credentials.clientId ?? '',
+        clientSecret: credentials.clientSecret ?? '',
+        scope: credentials.scope || undefined
+      }
+    default:
+      return { type: 'none' }
+  }
+}
+
 export function OutputPublisher({ transformedData, onComplete }: OutputPublisherProps) {
   const [isPublishing, setIsPublishing] = useState(false)
+  const [jobMessage, setJobMessage] = useState<string | null>(null)
   const [publishResult, setPublishResult] = useState<any>(null)
+  const [isDryRunning, setIsDryRunning] = useState(false)
+  const [dryRunResult, setDryRunResult] = useState<DryRunResult | null>(null)
+  const [dryRunError, setDryRunError] = useState<string | null>(null)
   const [selectedTarget, setSelectedTarget] = useState<OutputTarget>({
     type: 'rest-api',
     endpoint: '',
@@ -23,9 +79,27 @@ export function OutputPublisher({ transformedData, onComplete }: OutputPublisher
   const [showPreview, setShowPreview] = useState(false)
   const [connectionString, setConnectionString] = useState('')
   const [tableName, setTableName] = useState('')
+  const [restBatchSize, setRestBatchSize] = useState(100)
+  const [restConcurrency, setRestConcurrency] = useState(2)
+  const [publishMode, setPublishMode] = useState<PublishMode>('append')
+  const [keyColumns, setKeyColumns] = useState<string[]>([])
+  const requiresKey = publishMode === 'upsert' || publishMode === 'insert_new'
+  const [addColumns, setAddColumns] = useState(true)
+  const [widenTypes, setWidenTypes] = useState(true)
+  const [confirmDestructive, setConfirmDestructive] = useState(false)
+  const [columnMapping, setColumnMapping] = useState<Record<string, string>>({})
+  const [tableColumns, setTableColumns] = useState<string[]>([])
   const [isTestingConnection, setIsTestingConnection] = useState(false)
   const [connectionTestResult, setConnectionTestResult] = useState<any>(null)
 
+  const publishModes: Array<{ id: PublishMode; name: string; description: string }> = [
+    { id: 'append', name: 'Acrescentar', description: 'Insere todos os registros' },
+    { id: 'replace', name: 'Substituir', description: 'Esvazia a tabela e insere os registros' },
+    { id: 'upsert', name: 'Atualizar ou inserir', description: 'Atualiza os registros com a mesma chave e insere os novos' },
+    { id: 'insert_new', name: 'Somente novos', description: 'Insere apenas registros cuja chave ainda não existe' }
+  ]
+
+  // Uploads guardados no servidor não cabem num download montado no navegador
   const targetTypes = [
     {
       id: 'rest-api',
@@ -48,102 +122,187 @@ export function OutputPublisher({ transformedData, onComplete }: OutputPublisher
       description: 'Salvar dados como arquivo para download',
       formats: ['json', 'csv', 'xml']
     }
-  ]
+  ].filter(target => target.id !== 'file' || !transformedData.upload)
+
+  // A simulação vale só para a configuração com que foi feita
+  useEffect(() => {
+    setDryRunResult(null)
+    setDryRunError(null)
+  }, [selectedTarget, connectionString, tableName, publishMode, keyColumns, restBatchSize, restConcurrency,
+    addColumns, widenTypes, confirmDestructive, columnMapping])
+
+  // Colunas conhecidas pela última simulação; outra tabela exige simular de novo
+  useEffect(() => {
+    setTableColumns([])
+    setColumnMapping({})
+  }, [connectionString, tableName])
+
+  // Nenhum destino recebe registros fora do JSON Schema de destino
+  const assertTargetJsonSchema = () => {
+    if (!transformedData.targetJsonSchema) return
+    const schemaErrors = validateRecords(transformedData.data, transformedData.targetJsonSchema, transformedData.transformationRules)
+    if (schemaErrors.length > 0) {
+      const invalidRecords = new Set(schemaErrors.map(error => error.row)).size
+      const sample = schemaErrors.slice(0, 3).map(error => `linha ${error.row + 1}, campo ${error.field}: ${error.error}`).join('; ')
+      throw new Error(`${invalidRecords} registro(s) não seguem o JSON Schema de destino (${sample})`)
+    }
+  }
+
+  // Destino enviado a /api/publish, igual na publicação e na simulação
+  const buildServerTarget = () => {
+    if (selectedTarget.type === 'rest-api') {
+      if (!selectedTarget.endpoint?.trim()) {
+        throw new Error('URL da API é obrigatória para publicação via REST')
+      }
+      return {
+        type: 'rest-api',
+        endpoint: selectedTarget.endpoint.trim(),
+        auth: toRestAuth(selectedTarget.credentials),
+        batchSize: restBatchSize,
+        concurrency: restConcurrency
+      }
+    }
+
+    if (!connectionString.trim()) {
+      throw new Error('String de conexão é obrigatória para publicação no banco de dados')
+    }
+    if (requiresKey && keyColumns.length === 0) {
+      throw new Error('Selecione as colunas da chave natural para este modo de publicação')
+    }
+    return {
+      type: 'database',
+      connection: {
+        connectionString,
+        tableName: tableName || undefined
+      },
+      mode: publishMode,
+      keyColumns: requiresKey ? keyColumns : undefined,
+      schemaEvolution: { addColumns, widenTypes, confirmDestructive, columnMapping }
+    }
+  }
+
+  const fileName = () => `dados_transformados_${Date.now()}.${selectedTarget.format}`
+
+  const handleDryRun = async () => {
+    setIsDryRunning(true)
+    setDryRunError(null)
+    setDryRunResult(null)
+
+    try {
+      assertTargetJsonSchema()
+
+      if (selectedTarget.type === 'file') {
+        setDryRunResult({
+          target: 'file',
+          fileName: fileName(),
+          ...previewFile(transformedData.data, transformedData.schema, selectedTarget.format)
+        })
+      } else {
+        const { dryRun } = await postPipeline<{ dryRun: PublishDryRun }>('/api/publish', {
+          transformedData,
+          target: buildServerTarget(),
+          dryRun: true
+        })
+        setDryRunResult(dryRun)
+        if (dryRun.target === 'database') setTableColumns(dryRun.schema.existingColumns)
+      }
+    } catch (error) {
+      setDryRunError(error instanceof Error ? error.message : 'Erro na simulação')
+    } finally {
+      setIsDryRunning(false)
+    }
+  }
 
   const handlePublish = async () => {
     setIsPublishing(true)
     
     try {
-      // Simular publicação
-      await new Promise(resolve => setTimeout(resolve, 3000))
-      
+      assertTargetJsonSchema()
+
       let result: any = {
         success: true,
         timestamp: new Date().toISOString(),
-        recordsProcessed: transformedData.data.length,
+        recordsProcessed: transformedData.totals?.records ?? transformedData.data.length,
         target: selectedTarget
       }
 
       switch (selectedTarget.type) {
-        case 'rest-api':
+        case 'rest-api': {
+          // O envio roda como job no servidor, que guarda as credenciais fora do navegador durante os lotes
+          const { result: restResult } = await runPipelineJob<{ result: RestPublishResult & { counts: PublishCounts } }>('publish', {
+            transformedData,
+            target: buildServerTarget()
+          }, status => setJobMessage(status.message ?? null))
+
           result = {
             ...result,
-            endpoint: selectedTarget.endpoint,
-            statusCode: 201,
-            response: {
-              message: 'Dados enviados com sucesso',
-              id: 'batch_' + Date.now(),
-              records: transformedData.data.length
-            }
+            endpoint: restResult.endpoint,
+            recordsProcessed: restResult.sentRecords,
+            batches: restResult.batches,
+            counts: restResult.counts
           }
           break
+        }
           
         case 'database':
-          if (!connectionString.trim()) {
-            throw new Error('String de conexão é obrigatória para publicação no banco de dados')
-          }
-          
-          const dbService = createDatabaseService(connectionString, tableName || undefined)
-          const dbResult = await dbService.publishData(transformedData)
-          
-          if (!dbResult.success) {
-            throw new Error(dbResult.error || 'Erro ao publicar no banco de dados')
-          }
+          // A publicação roda como job no servidor e continua mesmo que a aba seja fechada
+          const { result: dbResult } = await runPipelineJob<{ result: DatabaseResult & { counts: PublishCounts } }>('publish', {
+            transformedData,
+            target: buildServerTarget()
+          }, status => setJobMessage(status.message ?? null))
           
           result = {
             ...result,
             database: connectionString.split('@')[1]?.split('/')[0] || 'database',
             table: dbResult.tableName,
+            mode: dbResult.mode,
             insertedRows: dbResult.insertedRows,
-            executedQueries: dbResult.executedQueries
+            updatedRows: dbResult.updatedRows,
+            skippedRows: dbResult.skippedRows,
+            deletedRows: dbResult.deletedRows,
+            executedQueries: dbResult.executedQueries,
+            schemaChanges: dbResult.schemaChanges,
+            counts: dbResult.counts
           }
           break
           
-        case 'file':
-          const fileName = `dados_transformados_${Date.now()}.${selectedTarget.format}`
+        case 'file': {
+          const content = serializeRecords(transformedData.data, transformedData.schema, selectedTarget.format)
+          const name = fileName()
+          download(content, FILE_MIME_TYPES[selectedTarget.format], name)
           result = {
             ...result,
-            fileName,
-            fileSize: JSON.stringify(transformedData.data).length,
-            downloadUrl: `/downloads/${fileName}`
+            fileName: name,
+            fileSize: new TextEncoder().encode(content).length
           }
           break
+        }
       }
       
       setPublishResult(result)
       onComplete(result)
       
     } catch (error) {
+      // Lotes REST com falha chegam como falha do job, com o resultado de cada lote nos detalhes
+      const details = error instanceof PipelineRequestError
+        ? error.details as { result?: Partial<RestPublishResult & DatabaseResult> & { counts?: PublishCounts } } | undefined
+        : undefined
       setPublishResult({
         success: false,
         error: error instanceof Error ? error.message : 'Erro desconhecido',
+        batches: details?.result?.batches,
+        schemaChanges: details?.result?.schemaChanges,
+        counts: details?.result?.counts,
         timestamp: new Date().toISOString()
       })
     } finally {
       setIsPublishing(false)
+      setJobMessage(null)
     }
   }
 
-  const generatePreviewData = () => {
-    switch (selectedTarget.format) {
-      case 'json':
-        return JSON.stringify(transformedData.data.slice(0, 3), null, 2)
-      case 'csv':
-        const headers = transformedData.schema.map(field => field.name).join(',')
-        const rows = transformedData.data.slice(0, 3).map(row => 
-          transformedData.schema.map(field => row[field.name] || '').join(',')
-        ).join('\n')
-        return `${headers}\n${rows}`
-      case 'xml':
-        return `<?xml version="1.0" encoding="UTF-8"?>\n<data>\n${transformedData.data.slice(0, 3).map(row => 
-          `  <record>\n${transformedData.schema.map(field => 
-            `    <${field.name}>${row[field.name] || ''}</${field.name}>`
-          ).join('\n')}\n  </record>`
-        ).join('\n')}\n</data>`
-      default:
-        return ''
-    }
-  }
+  const generatePreviewData = () =>
+    serializeRecords(transformedData.data.slice(0, 3), transformedData.schema, selectedTarget.format)
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text)
@@ -162,8 +321,9 @@ export function OutputPublisher({ transformedData, onComplete }: OutputPublisher
     setConnectionTestResult(null)
 
     try {
-      const dbService = createDatabaseService(connectionString)
-      const result = await dbService.testConnection()
+      const result = await postPipeline('/api/publish/test-connection', {
+        connection: { connectionString }
+      })
       setConnectionTestResult(result)
     } catch (error) {
       setConnectionTestResult({
@@ -202,7 +362,7 @@ export function OutputPublisher({ transformedData, onComplete }: OutputPublisher
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <div className="text-center">
               <p className="text-2xl font-bold text-green-600">
-                {transformedData.data.length}
+                {transformedData.totals?.records ?? transformedData.data.length}
               </p>
               <p className="text-sm text-green-600">Registros</p>
             </div>
@@ -220,7 +380,7 @@ export function OutputPublisher({ transformedData, onComplete }: OutputPublisher
             </div>
             <div className="text-center">
               <p className="text-2xl font-bold text-green-600">
-                {transformedData.validationErrors.length}
+                {transformedData.totals?.validationErrors ?? transformedData.validationErrors.length}
               </p>
               <p className="text-sm text-green-600">Avisos</p>
             </div>
@@ -291,6 +451,76 @@ export function OutputPublisher({ transformedData, onComplete }: OutputPublisher
                   placeholder="https://api.exemplo.com/data"
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
                 />
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Autenticação
+                    </label>
+                    <select
+                      value={selectedTarget.credentials?.type ?? 'none'}
+                      onChange={(e) => setSelectedTarget(prev => ({ ...prev, credentials: { type: e.target.value } }))}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
+                    >
+                      <option value="none">Nenhuma</option>
+                      <option value="bearer">Bearer token</option>
+                      <option value="basic">Basic</option>
+                      <option value="api_key">Header com API key</option>
+                      <option value="oauth2">OAuth2 (client credentials)</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Registros por lote
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={10000}
+                      value={restBatchSize}
+                      onChange={(e) => setRestBatchSize(Math.max(1, parseInt(e.target.value) || 1))}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Requisições simultâneas
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={restConcurrency}
+                      onChange={(e) => setRestConcurrency(Math.min(10, Math.max(1, parseInt(e.target.value) || 1)))}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
+                    />
+                  </div>
+                </div>
+
+                {(AUTH_FIELDS[selectedTarget.credentials?.type ?? 'none'] ?? []).length > 0 && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                    {AUTH_FIELDS[selectedTarget.credentials!.type].map(field => (
+                      <div key={field.key}>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                          {field.label}
+                        </label>
+                        <input
+                          type={field.secret ? 'password' : 'text'}
+                          value={selectedTarget.credentials?.[field.key] ?? ''}
+                          onChange={(e) => setSelectedTarget(prev => ({
+                            ...prev,
+                            credentials: { ...prev.credentials, [field.key]: e.target.value }
+                          }))}
+                          placeholder={field.placeholder}
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                  Cada lote é enviado com um header Idempotency-Key; respostas 429 e 5xx são repetidas com espera exponencial, respeitando Retry-After
+                </p>
               </div>
             )}
             
@@ -311,7 +541,7 @@ export function OutputPublisher({ transformedData, onComplete }: OutputPublisher
                     className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
                   />
                   <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                    Formatos suportados: postgresql://, mysql://, sqlite:///, sqlserver://
+                    Formatos suportados: postgresql://, mysql://, sqlite://, sqlserver://
                   </p>
                 </div>
                 
@@ -328,6 +558,98 @@ export function OutputPublisher({ transformedData, onComplete }: OutputPublisher
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Modo de Publicação
+                  </label>
+                  <select
+                    value={publishMode}
+                    onChange={(e) => setPublishMode(e.target.value as PublishMode)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 dark:bg-gray-700 dark:text-white"
+                  >
+                    {publishModes.map(mode => (
+                      <option key={mode.id} value={mode.id}>
+                        {mode.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {publishModes.find(mode => mode.id === publishMode)?.description}
+                  </p>
+                </div>
+
+                {requiresKey && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Chave Natural *
+                    </label>
+                    <div className="flex flex-wrap gap-3">
+                      {transformedData.schema.map(field => (
+                        <label key={field.name} className="flex items-center space-x-1 text-sm text-gray-700 dark:text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={keyColumns.includes(field.name)}
+                            onChange={(e) => setKeyColumns(prev => e.target.checked
+                              ? [...prev, field.name]
+                              : prev.filter(column => column !== field.name))}
+                          />
+                          <span className="font-mono">{field.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Um índice único é criado nessas colunas, se ainda não existir
+                    </p>
+                  </div>
+                )}
+
+                {/* Adaptação de uma tabela existente */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Tabela Existente
+                  </label>
+                  <div className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                    <label className="flex items-center space-x-2">
+                      <input type="checkbox" checked={addColumns} onChange={(e) => setAddColumns(e.target.checked)} />
+                      <span>Criar colunas ausentes (ALTER TABLE ADD COLUMN)</span>
+                    </label>
+                    <label className="flex items-center space-x-2">
+                      <input type="checkbox" checked={widenTypes} onChange={(e) => setWidenTypes(e.target.checked)} />
+                      <span>Alargar colunas que não comportam os valores (ex.: VARCHAR(20) → TEXT)</span>
+                    </label>
+                    <label className="flex items-center space-x-2">
+                      <input type="checkbox" checked={confirmDestructive} onChange={(e) => setConfirmDestructive(e.target.checked)} />
+                      <span className="text-red-700 dark:text-red-300">Confirmo conversões de tipo que podem perder dados</span>
+                    </label>
+                  </div>
+                  {tableColumns.length > 0 ? (
+                    <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-2">
+                      {transformedData.schema.map(field => (
+                        <label key={field.name} className="flex items-center justify-between space-x-2 text-sm">
+                          <span className="font-mono text-gray-700 dark:text-gray-300">{field.name}</span>
+                          <select
+                            value={columnMapping[field.name] ?? ''}
+                            onChange={(e) => setColumnMapping(prev => {
+                              const { [field.name]: _, ...rest } = prev
+                              return e.target.value ? { ...rest, [field.name]: e.target.value } : rest
+                            })}
+                            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white"
+                          >
+                            <option value="">Mesmo nome ou nova coluna</option>
+                            {tableColumns.map(column => (
+                              <option key={column} value={column}>{column}</option>
+                            ))}
+                          </select>
+                        </label>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Simule a publicação para comparar com a tabela e gravar campos em colunas de outro nome
+                    </p>
+                  )}
+                </div>
+
                 {/* Botão de teste de conexão */}
                 <div>
                   <button
@@ -434,9 +756,31 @@ export function OutputPublisher({ transformedData, onComplete }: OutputPublisher
           )}
         </div>
 
+        {/* Simulação da publicação */}
+        {dryRunError && (
+          <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md text-sm text-red-700 dark:text-red-300">
+            Simulação falhou: {dryRunError}
+          </div>
+        )}
+        {dryRunResult && <DryRunPanel result={dryRunResult} />}
+
         {/* Botão de publicação */}
         {!publishResult && (
-          <div className="flex justify-center">
+          <div className="flex justify-center space-x-3">
+            <button
+              onClick={handleDryRun}
+              disabled={isDryRunning || isPublishing ||
+                       (selectedTarget.type === 'rest-api' && !selectedTarget.endpoint) ||
+                       (selectedTarget.type === 'database' && !connectionString.trim())}
+              className="flex items-center space-x-2 px-6 py-3 rounded-lg font-medium border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isDryRunning ? (
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-gray-500"></div>
+              ) : (
+                <Eye className="h-5 w-5" />
+              )}
+              <span>Simular publicação</span>
+            </button>
             <button
               onClick={handlePublish}
               disabled={isPublishing || 
@@ -454,7 +798,7 @@ export function OutputPublisher({ transformedData, onComplete }: OutputPublisher
               {isPublishing ? (
                 <>
                   <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                  <span>Publicando dados...</span>
+                  <span>{jobMessage ? `${jobMessage}...` : 'Publicando dados...'}</span>
                 </>
               ) : (
                 <>
@@ -550,12 +894,24 @@ export function OutputPublisher({ transformedData, onComplete }: OutputPublisher
                       <span className="text-gray-900 dark:text-white font-mono">{publishResult.table}</span>
                     </div>
                   )}
+                  {publishResult.mode && (
+                    <div className="flex items-center space-x-2">
+                      <span className="text-gray-500 dark:text-gray-400">Registros:</span>
+                      <span className="text-gray-900 dark:text-white">
+                        {publishResult.insertedRows ?? 0} inserido(s), {publishResult.updatedRows ?? 0} atualizado(s), {publishResult.skippedRows ?? 0} ignorado(s)
+                        {publishResult.deletedRows !== undefined && `, ${publishResult.deletedRows} removido(s) antes da carga`}
+                      </span>
+                    </div>
+                  )}
                   {publishResult.database && selectedTarget.type === 'database' && (
                     <div className="flex items-center space-x-2">
                       <span className="text-gray-500 dark:text-gray-400">Banco:</span>
                       <span className="text-gray-900 dark:text-white font-mono">{publishResult.database}</span>
                     </div>
                   )}
+                  {publishResult.counts && <CountsSummary counts={publishResult.counts} />}
+                  {publishResult.batches && <BatchResults batches={publishResult.batches} />}
+                  {publishResult.schemaChanges?.length > 0 && <SchemaChanges changes={publishResult.schemaChanges} />}
                   {publishResult.executedQueries && publishResult.executedQueries.length > 0 && (
                     <div className="mt-3">
                       <span className="text-gray-500 dark:text-gray-400 text-sm">Queries executadas:</span>
@@ -590,10 +946,185 @@ export function OutputPublisher({ transformedData, onComplete }: OutputPublisher
               <p className="text-red-800 dark:text-red-200">
                 {publishResult.error}
               </p>
+              {publishResult.counts && <CountsSummary counts={publishResult.counts} />}
+              {publishResult.batches && <BatchResults batches={publishResult.batches} />}
+              {publishResult.schemaChanges?.length > 0 && <SchemaChanges changes={publishResult.schemaChanges} />}
             </div>
           )}
         </motion.div>
       )}
     </div>
   )
+}
+
+function CountsSummary({ counts }: { counts: PublishCounts }) {
+  return (
+    <div className="flex items-center space-x-2 text-sm">
+      <span className="text-gray-500 dark:text-gray-400">Registros:</span>
+      <span className="text-gray-900 dark:text-white">
+        <span className="text-green-600">{counts.accepted} aceito(s)</span>,{' '}
+        <span className={counts.quarantined > 0 ? 'text-yellow-600' : undefined}>{counts.quarantined} em quarentena</span>,{' '}
+        <span className={counts.failed > 0 ? 'text-red-600' : undefined}>{counts.failed} com falha</span>
+      </span>
+    </div>
+  )
+}
+
+function BatchResults({ batches }: { batches: RestBatchResult[] }) {
+  return (
+    <div className="mt-3">
+      <span className="text-gray-500 dark:text-gray-400 text-sm">Lotes enviados:</span>
+      <table className="mt-1 min-w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500 dark:text-gray-400">
+            <th className="pr-4 py-1 font-medium">Lote</th>
+            <th className="pr-4 py-1 font-medium">Registros</th>
+            <th className="pr-4 py-1 font-medium">Status</th>
+            <th className="pr-4 py-1 font-medium">Tentativas</th>
+            <th className="py-1 font-medium">Resultado</th>
+          </tr>
+        </thead>
+        <tbody>
+          {batches.map(batch => (
+            <tr key={batch.batch} className="text-gray-900 dark:text-white">
+              <td className="pr-4 py-1">{batch.batch + 1}</td>
+              <td className="pr-4 py-1">{batch.firstRecord + 1}–{batch.firstRecord + batch.records}</td>
+              <td className="pr-4 py-1 font-mono">{batch.status ?? '-'}</td>
+              <td className="pr-4 py-1">{batch.attempts}</td>
+              <td className={cn('py-1', batch.success ? 'text-green-600' : 'text-red-600')}>
+                {batch.success ? 'Enviado' : batch.error}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function DryRunPanel({ result }: { result: DryRunResult }) {
+  return (
+    <div className="mb-6 p-4 border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 rounded-lg space-y-3">
+      <div className="flex items-center space-x-2">
+        <Eye className="h-5 w-5 text-blue-600" />
+        <h4 className="font-medium text-gray-900 dark:text-white">Simulação da publicação</h4>
+        <span className="text-xs text-gray-500 dark:text-gray-400">Nada foi gravado ou enviado</span>
+      </div>
+
+      {result.target !== 'file' && result.sample && (
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          Arquivo processado no servidor: a simulação usa os primeiros {result.sample.records} de {result.sample.totalRecords} registro(s)
+        </p>
+      )}
+
+      {result.target === 'database' && (
+        <>
+          {result.warnings.map(warning => (
+            <p key={warning} className="flex items-start text-sm text-yellow-800 dark:text-yellow-200">
+              <AlertCircle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" /> {warning}
+            </p>
+          ))}
+          {result.schema.changes.length > 0 && <SchemaChanges changes={result.schema.changes} />}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-sm">
+            <DryRunStat label="Inseridos" value={result.estimate.insertedRows} />
+            <DryRunStat label="Atualizados" value={result.estimate.updatedRows} />
+            <DryRunStat label="Ignorados" value={result.estimate.skippedRows} />
+            {result.estimate.deletedRows !== undefined && <DryRunStat label="Removidos" value={result.estimate.deletedRows} />}
+            <DryRunStat label="Em quarentena" value={result.quarantinedRows} />
+          </div>
+          <DryRunCode title="DDL" content={result.ddl.join('\n\n') || '-- Nenhuma alteração de estrutura'} />
+          <DryRunCode
+            title={`DML (${result.dml.length} de ${result.totalWriteStatements} comando(s))`}
+            content={result.dml.join('\n')}
+          />
+          <button
+            onClick={() => download(result.script, 'application/sql', `publicacao_${result.tableName}.sql`)}
+            className="inline-flex items-center px-3 py-1 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 transition-colors"
+          >
+            <Download className="h-4 w-4 mr-1" /> Baixar .sql
+          </button>
+        </>
+      )}
+
+      {result.target === 'rest-api' && (
+        <>
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {result.totalRecords} registro(s) em {result.totalBatches} lote(s) para <span className="font-mono">{result.endpoint}</span>
+            {result.quarantinedRows > 0 && `, ${result.quarantinedRows} em quarentena`}
+          </p>
+          {result.requests.map(request => (
+            <DryRunCode
+              key={request.batch}
+              title={`Lote ${request.batch + 1}: registros ${request.firstRecord + 1}–${request.firstRecord + request.records} (${request.bytes} bytes)`}
+              content={[
+                `${request.method} ${request.url}`,
+                ...Object.entries(request.headers).map(([name, value]) => `${name}: ${value}`),
+                '',
+                request.body
+              ].join('\n')}
+            />
+          ))}
+          {result.totalBatches > result.requests.length && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              e mais {result.totalBatches - result.requests.length} lote(s)
+            </p>
+          )}
+          <button
+            onClick={() => download(JSON.stringify(result.requests, null, 2), 'application/json', 'publicacao_requisicoes.json')}
+            className="inline-flex items-center px-3 py-1 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 transition-colors"
+          >
+            <Download className="h-4 w-4 mr-1" /> Baixar requisições
+          </button>
+        </>
+      )}
+
+      {result.target === 'file' && (
+        <>
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            <span className="font-mono">{result.fileName}</span>: {result.records} registro(s), {result.bytes} bytes
+          </p>
+          <DryRunCode
+            title={result.truncated ? `Primeiros ${result.previewBytes} bytes` : 'Arquivo completo'}
+            content={result.preview}
+          />
+        </>
+      )}
+    </div>
+  )
+}
+
+function DryRunStat({ label, value }: { label: string; value: number }) {
+  return (
+    <div className="p-2 bg-white dark:bg-gray-800 rounded-md">
+      <p className="text-xs text-gray-500 dark:text-gray-400">{label}</p>
+      <p className="font-medium text-gray-900 dark:text-white">{value}</p>
+    </div>
+  )
+}
+
+function DryRunCode({ title, content }: { title: string; content: string }) {
+  return (
+    <div>
+      <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">{title}</p>
+      <pre className="bg-white dark:bg-gray-900 p-3 rounded-md text-xs overflow-x-auto max-h-64 overflow-y-auto whitespace-pre">
+        <code>{content}</code>
+      </pre>
+    </div>
+  )
+}
+
+function SchemaChanges({ changes }: { changes: SchemaChange[] }) {
+  return (
+    <div className="text-sm">
+      <span className="text-gray-500 dark:text-gray-400">Alterações na tabela:</span>
+      <ul className="mt-1 space-y-1">
+        {changes.map(change => (
+          <li key={`${change.kind}:${change.column}`} className={change.destructive ? 'text-red-700 dark:text-red-300' : 'text-gray-700 dark:text-gray-300'}>
+            {change.destructive && <AlertCircle className="inline h-4 w-4 mr-1" />}
+            {change.description}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
 }
\ No newline at end of file
@@ -2,51 +2,153 @@
 
 import { useState, useEffect } from 'react'
 import { motion } from 'framer-motion'
-import { Brain, Settings, CheckCircle, AlertCircle, Zap, ArrowRight } from 'lucide-react'
-import { CSVData, SchemaAnalysis, AIProvider } from '@/types'
-import { AIService } from '@/lib/ai-service'
+import { Brain, Settings, CheckCircle, AlertCircle, Zap, ArrowRight, History, FileJson, Save } from 'lucide-react'
+import { CSVData, SchemaAnalysis, AIProvider, FieldSchema, JsonSchemaDefinition, TransformationRule } from '@/types'
+import { parseJsonSchema } from '@/lib/json-schema'
+import { MappingProfileSummary, MappingProfileVersion, ProfileMatch, ProfileVersionDiff } from '@/lib/mapping-profiles'
+import { countRows, postPipeline, runPipelineJob, toCSVPayload } from '@/lib/pipeline-client'
+import { DEFAULT_TEMPERATURE, DEFAULT_TIMEOUT_MS, getLLMProvider, getLLMProviders } from '@/lib/llm-providers'
+import { getCleansingFix } from '@/lib/data-cleansing'
 import { cn } from '@/lib/utils'
+import { CleansingSuggestions } from '@/components/CleansingSuggestions'
 
 interface SchemaAnalyzerProps {
   inputData: CSVData
-  onComplete: (analysis: SchemaAnalysis) => void
+  profileMatch?: ProfileMatch | null // Perfil salvo correspondente ao arquivo, aplicado automaticamente
+  onComplete: (analysis: SchemaAnalysis, rules: TransformationRule[]) => void
 }
 
-export function SchemaAnalyzer({ inputData, onComplete }: SchemaAnalyzerProps) {
+export function SchemaAnalyzer({ inputData, profileMatch, onComplete }: SchemaAnalyzerProps) {
   const [isAnalyzing, setIsAnalyzing] = useState(false)
+  const [jobMessage, setJobMessage] = useState<string | null>(null)
   const [analysis, setAnalysis] = useState<SchemaAnalysis | null>(null)
+  const [rules, setRules] = useState<TransformationRule[]>([])
   const [error, setError] = useState<string | null>(null)
+  const [profileName, setProfileName] = useState('')
+  const [profileNote, setProfileNote] = useState('')
+  const [isSavingProfile, setIsSavingProfile] = useState(false)
+  const [profileStatus, setProfileStatus] = useState<{ message: string; diff?: ProfileVersionDiff } | null>(null)
   const [aiProvider, setAiProvider] = useState<AIProvider>({
     name: 'gemini',
     apiKey: '',
-    model: 'gemini-1.5-flash'
+    model: getLLMProvider('gemini')?.defaultModel ?? '',
+    temperature: DEFAULT_TEMPERATURE,
+    timeoutMs: DEFAULT_TIMEOUT_MS
   })
+  const providerInfo = getLLMProvider(aiProvider.name)
   const [showConfig, setShowConfig] = useState(true)
+  const [targetSchemaText, setTargetSchemaText] = useState('')
+  const [targetSchema, setTargetSchema] = useState<{ schema: JsonSchemaDefinition; fields: FieldSchema[] } | null>(null)
+  const [targetSchemaError, setTargetSchemaError] = useState<string | null>(null)
 
-  const handleAnalyze = async () => {
-    if (!aiProvider.apiKey.trim()) {
-      setError('Por favor, configure a chave da API')
+  // JSON Schema de destino colado ou carregado de arquivo; vazio deixa a IA sugerir o destino
+  const handleTargetSchemaChange = (text: string) => {
+    setTargetSchemaText(text)
+    if (!text.trim()) {
+      setTargetSchema(null)
+      setTargetSchemaError(null)
       return
     }
+    try {
+      setTargetSchema(parseJsonSchema(text))
+      setTargetSchemaError(null)
+    } catch (err) {
+      setTargetSchema(null)
+      setTargetSchemaError(err instanceof Error ? err.message : 'JSON Schema inválido')
+    }
+  }
+
+  const handleTargetSchemaFile = async (file?: File) => {
+    if (file) handleTargetSchemaChange(await file.text())
+  }
+
+  // Um perfil correspondente ao arquivo dispensa a análise; a IA continua disponível
+  useEffect(() => {
+    if (!profileMatch) return
+    const { profile, version } = profileMatch
+    setAnalysis({
+      ...version.analysis,
+      source: 'profile',
+      profile: { id: profile.id, name: profile.name, version: version.version }
+    })
+    setRules(version.rules)
+    setProfileName(profile.name)
+    setShowConfig(false)
+  }, [profileMatch])
 
+  // useLearned = false ignora os padrões aprendidos e força a análise com IA
+  const handleAnalyze = async (useLearned = true) => {
     setIsAnalyzing(true)
     setError(null)
 
     try {
-      const aiService = new AIService(aiProvider.name, aiProvider.apiKey)
-      const result = await aiService.analyzeSchema(inputData)
-      setAnalysis(result)
+      // A análise roda como job no servidor; sem chave informada, usa a chave configurada lá
+      const apiKey = aiProvider.apiKey.trim()
+      const { analysis: result } = await runPipelineJob<{ analysis: SchemaAnalysis }>('analyze', {
+        csvData: toCSVPayload(inputData),
+        provider: aiProvider.name,
+        apiKey: apiKey ? { key: apiKey, provider: aiProvider.name } : undefined,
+        model: aiProvider.model.trim() || undefined,
+        temperature: aiProvider.temperature,
+        timeoutMs: aiProvider.timeoutMs,
+        targetSchema: targetSchema?.schema,
+        useLearned
+      }, status => setJobMessage(status.message ?? null))
+      // A nova análise mantém a referência ao perfil para que possa virar a próxima versão dele
+      setAnalysis(analysis?.profile ? { ...result, profile: analysis.profile } : result)
+      // Correções de limpeza dependem só dos dados de origem e sobrevivem à nova análise
+      setRules(current => current.filter(rule => getCleansingFix(rule)))
       setShowConfig(false)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Erro na análise')
     } finally {
       setIsAnalyzing(false)
+      setJobMessage(null)
     }
   }
 
-  const handleConfirm = () => {
-    if (analysis) {
-      onComplete(analysis)
+  const handleConfirm = async () => {
+    if (!analysis) return
+
+    // O mapeamento confirmado alimenta a base de aprendizado; uma falha aqui não bloqueia o fluxo
+    try {
+      await postPipeline('/api/learning/confirm', { csvData: toCSVPayload(inputData), analysis })
+    } catch (err) {
+      console.warn('Não foi possível registrar o mapeamento aprendido:', err)
+    }
+    onComplete(analysis, rules)
+  }
+
+  // Salva a análise e as regras como nova versão do perfil (ou cria o perfil)
+  const handleSaveProfile = async () => {
+    if (!analysis || !profileName.trim()) return
+    setIsSavingProfile(true)
+    setProfileStatus(null)
+
+    try {
+      const sameProfile = analysis.profile && analysis.profile.name === profileName.trim()
+      const { profile, version } = await postPipeline<{ profile: MappingProfileSummary; version: MappingProfileVersion }>('/api/profiles/versions', {
+        profileId: sameProfile ? analysis.profile!.id : undefined,
+        name: profileName.trim(),
+        headers: inputData.headers,
+        analysis,
+        rules,
+        note: profileNote.trim() || undefined
+      })
+      setAnalysis(prev => prev && { ...prev, profile: { id: profile.id, name: profile.name, version: version.version } })
+      setProfileNote('')
+
+      let diff: ProfileVersionDiff | undefined
+      if (version.version > 1) {
+        const params = new URLSearchParams({ profileId: profile.id, from: String(version.version - 1), to: String(version.version) })
+        const response = await fetch(`/api/profiles/diff?${params}`)
+        if (response.ok) diff = (await response.json()).diff
+      }
+      setProfileStatus({ message: `Perfil "${profile.name}" salvo como versão ${version.version}`, diff })
+    } catch (err) {
+      setProfileStatus({ message: err instanceof Error ? err.message : 'Erro ao salvar o perfil' })
+    } finally {
+      setIsSavingProfile(false)
     }
   }
 
@@ -102,35 +204,126 @@ export function SchemaAnalyzer({ inputData, onComplete }: SchemaAnalyzerProps) {
                 </label>
                 <select
                   value={aiProvider.name}
-                  onChange={(e) => setAiProvider(prev => ({ ...prev, name: e.target.value as 'gemini' | 'groq' }))}
+                  onChange={(e) => setAiProvider(prev => ({
+                    ...prev,
+                    name: e.target.value,
+                    apiKey: '',
+                    model: getLLMProvider(e.target.value)?.defaultModel ?? ''
+                  }))}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
                 >
-                  <option value="gemini">Google Gemini</option>
-                  <option value="groq">Groq</option>
+                  {getLLMProviders().map(provider => (
+                    <option key={provider.id} value={provider.id}>{provider.label}</option>
+                  ))}
                 </select>
               </div>
-              
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Chave da API
+                  Modelo
                 </label>
                 <input
-                  type="password"
-                  value={aiProvider.apiKey}
-                  onChange={(e) => setAiProvider(prev => ({ ...prev, apiKey: e.target.value }))}
-                  placeholder={`Chave da API do ${aiProvider.name === 'gemini' ? 'Google AI Studio' : 'Groq'}`}
+                  type="text"
+                  list="llm-models"
+                  value={aiProvider.model}
+                  onChange={(e) => setAiProvider(prev => ({ ...prev, model: e.target.value }))}
+                  readOnly={providerInfo && !providerInfo.acceptsCustomModels}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
                 />
+                <datalist id="llm-models">
+                  {providerInfo?.models.map(model => (
+                    <option key={model.id} value={model.id}>{model.label}</option>
+                  ))}
+                </datalist>
+              </div>
+              
+              {providerInfo?.apiKeyEnv && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Chave da API (opcional)
+                  </label>
+                  <input
+                    type="password"
+                    value={aiProvider.apiKey}
+                    onChange={(e) => setAiProvider(prev => ({ ...prev, apiKey: e.target.value }))}
+                    placeholder={`Vazio usa ${providerInfo.apiKeyEnv} configurada no servidor`}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                  />
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Temperatura
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={aiProvider.temperature}
+                    onChange={(e) => setAiProvider(prev => ({ ...prev, temperature: Number(e.target.value) }))}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Timeout (s)
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={600}
+                    value={Math.round((aiProvider.timeoutMs ?? DEFAULT_TIMEOUT_MS) / 1000)}
+                    onChange={(e) => setAiProvider(prev => ({ ...prev, timeoutMs: Number(e.target.value) * 1000 }))}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                  />
+                </div>
               </div>
             </div>
             
-            <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-md">
-              <p className="text-sm text-blue-800 dark:text-blue-200">
-                <strong>Dica:</strong> {aiProvider.name === 'gemini' 
-                  ? 'Obtenha sua chave gratuita em ai.google.dev'
-                  : 'Obtenha sua chave em console.groq.com'
-                }
-              </p>
+            {providerInfo?.apiKeyHint && (
+              <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-md">
+                <p className="text-sm text-blue-800 dark:text-blue-200">
+                  <strong>Dica:</strong> {providerInfo.apiKeyHint}
+                </p>
+              </div>
+            )}
+
+            {/* Schema de destino fornecido pelo usuário */}
+            <div className="mt-4">
+              <div className="flex items-center justify-between mb-2">
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                  <FileJson className="h-4 w-4" />
+                  <span>JSON Schema de destino (opcional)</span>
+                </label>
+                <label className="text-sm text-blue-600 hover:text-blue-700 cursor-pointer">
+                  Carregar arquivo
+                  <input
+                    type="file"
+                    accept=".json,application/json,application/schema+json"
+                    className="hidden"
+                    onChange={(e) => handleTargetSchemaFile(e.target.files?.[0])}
+                  />
+                </label>
+              </div>
+              <textarea
+                value={targetSchemaText}
+                onChange={(e) => handleTargetSchemaChange(e.target.value)}
+                rows={5}
+                placeholder='{"$schema": "http://json-schema.org/draft-07/schema#", "type": "object", "properties": {...}}'
+                className="w-full px-3 py-2 font-mono text-xs border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+              />
+              {targetSchemaError && (
+                <p className="mt-1 text-sm text-red-600">{targetSchemaError}</p>
+              )}
+              {targetSchema && (
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                  {targetSchema.fields.length} campos ({targetSchema.fields.filter(field => field.required).length} obrigatórios)
+                  {targetSchema.schema.title ? ` em ${targetSchema.schema.title}` : ''}; os registros transformados serão validados contra este schema
+                </p>
+              )}
             </div>
           </motion.div>
         )}
@@ -151,7 +344,7 @@ export function SchemaAnalyzer({ inputData, onComplete }: SchemaAnalyzerProps) {
             </div>
             <div>
               <span className="text-gray-500 dark:text-gray-400">Registros:</span>
-              <p className="font-medium text-gray-900 dark:text-white">{inputData.rows.length}</p>
+              <p className="font-medium text-gray-900 dark:text-white">{countRows(inputData)}</p>
             </div>
             <div>
               <span className="text-gray-500 dark:text-gray-400">Status:</span>
@@ -164,11 +357,11 @@ export function SchemaAnalyzer({ inputData, onComplete }: SchemaAnalyzerProps) {
         {!analysis && (
           <div className="flex justify-center">
             <button
-              onClick={handleAnalyze}
-              disabled={isAnalyzing || !aiProvider.apiKey.trim()}
+              onClick={() => handleAnalyze()}
+              disabled={isAnalyzing || !!targetSchemaError}
               className={cn(
                 "flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-all duration-200",
-                isAnalyzing || !aiProvider.apiKey.trim()
+                isAnalyzing || targetSchemaError
                   ? "bg-gray-300 text-gray-500 cursor-not-allowed"
                   : "bg-blue-600 text-white hover:bg-blue-700 hover:scale-105"
               )}
@@ -176,7 +369,7 @@ export function SchemaAnalyzer({ inputData, onComplete }: SchemaAnalyzerProps) {
               {isAnalyzing ? (
                 <>
                   <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                  <span>Analisando com IA...</span>
+                  <span>{jobMessage ? `${jobMessage}...` : 'Analisando com IA...'}</span>
                 </>
               ) : (
                 <>
@@ -223,15 +416,86 @@ export function SchemaAnalyzer({ inputData, onComplete }: SchemaAnalyzerProps) {
             </div>
           </div>
 
+          {analysis.source === 'profile' && analysis.profile && (
+            <div className="mb-4 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Save className="h-5 w-5 text-green-600" />
+                <p className="text-sm text-green-800 dark:text-green-200">
+                  Perfil <strong>{analysis.profile.name}</strong> v{analysis.profile.version} aplicado automaticamente
+                  {profileMatch && profileMatch.score < 1 ? ` (${Math.round(profileMatch.score * 100)}% dos cabeçalhos em comum)` : ''}
+                  {rules.length > 0 ? `, com ${rules.length} regra(s) de transformação` : ''}
+                </p>
+              </div>
+              <button
+                onClick={() => handleAnalyze(false)}
+                disabled={isAnalyzing}
+                className="text-sm text-green-700 dark:text-green-300 underline hover:no-underline disabled:opacity-50"
+              >
+                {isAnalyzing ? 'Analisando...' : 'Analisar com IA'}
+              </button>
+            </div>
+          )}
+
+          {analysis.source === 'learned' && (
+            <div className="mb-4 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <History className="h-5 w-5 text-green-600" />
+                <p className="text-sm text-green-800 dark:text-green-200">
+                  Mapeamento aplicado de um padrão aprendido, sem chamada à IA
+                </p>
+              </div>
+              <button
+                onClick={() => handleAnalyze(false)}
+                disabled={isAnalyzing}
+                className="text-sm text-green-700 dark:text-green-300 underline hover:no-underline disabled:opacity-50"
+              >
+                {isAnalyzing ? 'Analisando...' : 'Analisar com IA'}
+              </button>
+            </div>
+          )}
+
           <div className="mb-6 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
             <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-2">
-              Raciocínio da IA
+              {analysis.source === 'learned' ? 'Padrão Aprendido' : analysis.source === 'profile' ? 'Perfil de Mapeamento' : 'Raciocínio da IA'}
             </h4>
             <p className="text-blue-800 dark:text-blue-200 text-sm">
               {analysis.reasoning}
             </p>
           </div>
 
+          {analysis.validation && (analysis.validation.issues.length > 0 || analysis.validation.repaired || analysis.validation.fallback) && (
+            <div className="mb-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+              <div className="flex items-center space-x-2 mb-2">
+                <AlertCircle className="h-5 w-5 text-yellow-600" />
+                <h4 className="font-medium text-yellow-900 dark:text-yellow-100">
+                  Validação da Resposta da IA
+                </h4>
+              </div>
+              {analysis.validation.fallback && (
+                <p className="text-sm text-yellow-800 dark:text-yellow-200 mb-2">
+                  A IA não retornou uma resposta válida após {analysis.validation.attempts} tentativa(s); foi gerado um mapeamento básico.
+                </p>
+              )}
+              {analysis.validation.repaired && (
+                <p className="text-sm text-yellow-800 dark:text-yellow-200 mb-2">
+                  A resposta foi corrigida pela IA após {analysis.validation.attempts} tentativas.
+                </p>
+              )}
+              {analysis.validation.issues.length > 0 && (
+                <ul className="space-y-1 text-sm text-yellow-800 dark:text-yellow-200">
+                  {analysis.validation.issues.map((issue, index) => (
+                    <li key={index}>
+                      <span className="font-medium">
+                        {issue.action === 'dropped' ? 'Descartado' : 'Corrigido'}
+                      </span>{' '}
+                      <span className="font-mono">{issue.sourceField || '(sem campo)'}</span>: {issue.reason}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           <div className="space-y-4">
             <h4 className="font-medium text-gray-900 dark:text-white">
               Mapeamentos Sugeridos ({analysis.suggestedMappings.length})
@@ -266,6 +530,18 @@ export function SchemaAnalyzer({ inputData, onComplete }: SchemaAnalyzerProps) {
                         {mapping.targetType}
                       </p>
                     </div>
+
+                    {mapping.reasoning && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 max-w-xs">
+                        {mapping.reasoning}
+                      </p>
+                    )}
+
+                    {analysis.validation?.issues.some(issue => issue.action === 'fixed' && issue.sourceField === mapping.sourceField) && (
+                      <span className="px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200">
+                        corrigido
+                      </span>
+                    )}
                   </div>
                   
                   <div className="flex items-center space-x-3">
@@ -294,6 +570,51 @@ export function SchemaAnalyzer({ inputData, onComplete }: SchemaAnalyzerProps) {
             </div>
           </div>
 
+          <CleansingSuggestions data={inputData} rules={rules} onRulesChange={setRules} />
+
+          {/* Perfil de mapeamento: nova versão a cada salvamento */}
+          <div className="mt-6 p-4 border border-gray-200 dark:border-gray-600 rounded-lg">
+            <h4 className="font-medium text-gray-900 dark:text-white mb-3">
+              Salvar como Perfil de Mapeamento
+            </h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <input
+                type="text"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="Ex.: Plano de saúde - histórico atendimento"
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+              />
+              <input
+                type="text"
+                value={profileNote}
+                onChange={(e) => setProfileNote(e.target.value)}
+                placeholder="O que mudou nesta versão (opcional)"
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+              />
+              <button
+                onClick={handleSaveProfile}
+                disabled={isSavingProfile || !profileName.trim()}
+                className="flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:text-gray-500"
+              >
+                <Save className="h-4 w-4" />
+                <span>{isSavingProfile ? 'Salvando...' : analysis.profile?.name === profileName.trim() ? 'Salvar nova versão' : 'Salvar perfil'}</span>
+              </button>
+            </div>
+            {profileStatus && (
+              <div className="mt-3 text-sm text-gray-700 dark:text-gray-300">
+                <p>{profileStatus.message}</p>
+                {profileStatus.diff && (
+                  <p className="text-gray-500 dark:text-gray-400">
+                    Em relação à versão {profileStatus.diff.from}: {profileStatus.diff.mappings.added.length} mapeamento(s) adicionado(s),{' '}
+                    {profileStatus.diff.mappings.removed.length} removido(s), {profileStatus.diff.mappings.changed.length} alterado(s);{' '}
+                    {profileStatus.diff.rules.added.length + profileStatus.diff.rules.removed.length} regra(s) alterada(s)
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
           <div className="flex justify-end mt-6">
             <button
               onClick={handleConfirm}
@@ -0,0 +1,7 @@
+// Inicializa a fila de jobs com o servidor, retomando os jobs interrompidos por um reinício
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getServerJobQueue } = await import('./lib/job-queue-server');
+    getServerJobQueue();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { DatasetValidator } from '../dataset-validator';
+import { transformRequestSchema } from '../input-validator';
+import { PipelineStepError, transformStep } from '../pipeline-steps';
+import { BusinessRule } from '@/types';
+
+const headers = ['NOME', 'STATUS', 'DT_AUTORIZACAO', 'VL_COPART', 'VL_PROC'];
+const rows = [
+  ['Ana', 'Autorizado', '2024-01-10', '10,00', '100,00'],
+  ['Bruno', 'Autorizado', '', '20,00', '100,00'],
+  ['Carla', 'Pendente', '', '150,00', '100,00'],
+  ['Davi', 'Pendente', '', '5,00', '50,00']
+];
+
+const businessRules: BusinessRule[] = [
+  {
+    name: 'autorizacao_datada',
+    description: 'Autorização exige data',
+    condition: "status == 'Autorizado'",
+    action: 'data_autorizacao required',
+    severity: 'error'
+  },
+  {
+    name: 'copart_ate_procedimento',
+    description: 'Coparticipação acima do procedimento',
+    condition: 'valor_coparticipacao <= valor_procedimento',
+    action: '',
+    severity: 'warning'
+  }
+];
+
+function transformRequest(rules: unknown[]) {
+  const mapping = (sourceField: string, targetField: string, type = 'string') =>
+    ({ sourceField, targetField, sourceType: type, targetType: type, confidence: 90 });
+
+  return transformRequestSchema.parse({
+    csvData: { headers, rows, fileName: 'guias.csv', metadata: { totalRows: rows.length, totalColumns: headers.length, fileSize: 0 } },
+    analysis: {
+      sourceSchema: [],
+      suggestedMappings: [
+        mapping('NOME', 'nome'),
+        mapping('STATUS', 'status'),
+        mapping('DT_AUTORIZACAO', 'data_autorizacao'),
+        mapping('VL_COPART', 'valor_coparticipacao'),
+        mapping('VL_PROC', 'valor_procedimento')
+      ],
+      confidence: 90,
+      reasoning: 'teste'
+    },
+    businessRules: rules
+  });
+}
+
+describe('regras de negócio na transformação', () => {
+  it('manda para a quarentena as violações de severidade error e só reporta as de warning', async () => {
+    const result = await transformStep(transformRequest(businessRules));
+
+    expect(result.data.map(record => record.nome)).toEqual(['Ana', 'Carla', 'Davi']);
+    expect(result.businessRules).toEqual(businessRules);
+    expect(result.quarantine?.rows).toEqual([{
+      row: 1,
+      values: expect.objectContaining({ NOME: 'Bruno', DT_AUTORIZACAO: '' }),
+      errors: [{
+        row: 1,
+        field: 'DT_AUTORIZACAO',
+        value: '',
+        error: 'Autorização exige data: Campo obrigatório ausente: data_autorizacao',
+        path: 'data_autorizacao',
+        code: 'business_rule',
+        rule: 'autorizacao_datada',
+        step: 'validation',
+        severity: 'error'
+      }]
+    }]);
+    expect(result.validationErrors.filter(error => error.severity === 'warning')).toEqual([expect.objectContaining({
+      row: 2,
+      field: 'VL_COPART, VL_PROC',
+      value: { valor_coparticipacao: '150,00', valor_procedimento: '100,00' },
+      rule: 'copart_ate_procedimento'
+    })]);
+  });
+
+  it('recusa regra com sintaxe inválida antes de transformar', async () => {
+    const request = transformRequest([{ name: 'quebrada', condition: 'valor >' }]);
+
+    await expect(transformStep(request)).rejects.toMatchObject({
+      constructor: PipelineStepError,
+      status: 400,
+      details: { rule: 'quebrada' }
+    });
+  });
+});
+
+describe('regras de negócio no DatasetValidator', () => {
+  it('avalia as regras sobre os valores de origem, separando erros e avisos', () => {
+    const sourceRules = businessRules.map(rule => ({
+      ...rule,
+      condition: rule.condition.replace('status', 'STATUS').replace('valor_coparticipacao', 'VL_COPART').replace('valor_procedimento', 'VL_PROC'),
+      action: rule.action.replace('data_autorizacao', 'DT_AUTORIZACAO')
+    }));
+
+    const result = new DatasetValidator().validate({ headers, rows }, [], sourceRules);
+
+    expect(result.errors).toEqual([expect.objectContaining({ row: 1, column: 2, field: 'DT_AUTORIZACAO', type: 'business_rule', severity: 'high' })]);
+    expect(result.warnings).toEqual([expect.objectContaining({ row: 2, column: 3, field: 'VL_COPART, VL_PROC' })]);
+    expect(result.statistics).toEqual({
+      totalRows: 4,
+      invalidRows: 1,
+      violations: { autorizacao_datada: 1, copart_ate_procedimento: 1 }
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { profileData, renderProfileHTML } from '../data-profiler';
+
+const data = {
+  headers: ['cpf', 'valor', 'cidade'],
+  rows: [
+    ['529.982.247-25', '10,00', 'Recife'],
+    ['111.444.777-35', '12,50', 'Recife'],
+    ['123.456.789-00', '11,00', ''],
+    ['529.982.247-25', '9,50', ' '],
+    ['390.533.447-05', '10,50', 'São Paulo'],
+    ['876.543.210-19', '1.000,00', 'Rio de Janeiro']
+  ]
+};
+
+describe('profileData', () => {
+  const profile = profileData(data, { fileName: 'clientes.csv', topValues: 2 });
+  const column = (name: string) => profile.columns.find(entry => entry.name === name)!;
+
+  it('conta vazios, distintos e valores mais frequentes', () => {
+    expect(column('cidade')).toMatchObject({
+      count: 6,
+      nullCount: 2,
+      nullRate: 2 / 6,
+      distinctCount: 3,
+      unique: false,
+      topValues: [{ value: 'Recife', count: 2, rate: 0.5 }, { value: 'Rio de Janeiro', count: 1, rate: 0.25 }]
+    });
+    expect(profile.summary).toMatchObject({ nullRate: 2 / 18, columnsWithNulls: 1 });
+  });
+
+  it('resume os padrões dos valores', () => {
+    expect(column('cpf').patterns).toEqual([{ value: '999.999.999-99', count: 6, rate: 1 }]);
+    expect(column('cidade').distinctPatterns).toBe(3);
+  });
+
+  it('calcula estatísticas numéricas e aponta outliers pela regra de Tukey', () => {
+    const valor = column('valor');
+
+    expect(valor.numeric).toMatchObject({ count: 6, min: 9.5, max: 1000, median: 10.75 });
+    expect(valor.outliers).toMatchObject({ basis: 'value', count: 1, examples: [{ row: 5, value: '1.000,00' }] });
+    expect(column('cidade').outliers).toMatchObject({ basis: 'length' });
+  });
+
+  it('valida os valores pelo tipo inferido, com a linha de cada falha', () => {
+    const cpf = column('cpf');
+
+    expect(cpf.inferredType).toBe('cpf');
+    expect(cpf.validation).toMatchObject({ type: 'cpf', checked: 6, failed: 2, failureRate: 2 / 6 });
+    expect(cpf.validation?.examples.map(example => [example.row, example.value])).toEqual([
+      [2, '123.456.789-00'],
+      [5, '876.543.210-19']
+    ]);
+    expect(profile.summary.columnsWithValidationFailures).toBe(1);
+  });
+
+  it('não calcula comprimentos nem outliers em coluna vazia', () => {
+    const empty = profileData({ headers: ['obs'], rows: [[''], ['']] }).columns[0];
+
+    expect(empty).toMatchObject({ nullRate: 1, distinctCount: 0, unique: false });
+    expect(empty.lengths).toBeUndefined();
+    expect(empty.outliers).toBeUndefined();
+  });
+});
+
+describe('renderProfileHTML', () => {
+  it('escapa os valores e exibe as linhas a partir de 1', () => {
+    const html = renderProfileHTML(profileData({
+      headers: ['nome'],
+      rows: [['<script>alert(1)</script>'], ['Ana'], ['Bia'], ['Caio'], ['Duda']]
+    }, { fileName: 'a&b.csv' }));
+
+    expect(html).toContain('<title>Perfil de qualidade - a&amp;b.csv</title>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('linha 1: <code>&lt;script&gt;');
+  });
+});
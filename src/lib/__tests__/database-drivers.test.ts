@@ -0,0 +1,68 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DatabaseConnection, openConnection, placeholder } from '../database-drivers';
+
+describe('placeholder', () => {
+  it('usa a sintaxe de parâmetro de cada banco', () => {
+    expect(placeholder('postgresql', 3)).toBe('$3');
+    expect(placeholder('sqlserver', 3)).toBe('@p3');
+    expect(placeholder('mysql', 3)).toBe('?');
+    expect(placeholder('sqlite', 3)).toBe('?');
+  });
+});
+
+describe('conexão SQLite', () => {
+  let directory: string;
+  let database: string;
+  let connection: DatabaseConnection;
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'orquestrador-'));
+    database = path.join(directory, 'destino.db');
+    connection = await openConnection({ type: 'sqlite', connectionString: `sqlite://${database}`, database });
+    await connection.execute('CREATE TABLE clientes (id INTEGER PRIMARY KEY, nome TEXT NOT NULL)');
+  });
+
+  afterEach(async () => {
+    await connection.close();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  async function count(): Promise<number> {
+    const { rows } = await connection.execute('SELECT COUNT(*) AS total FROM clientes');
+    return rows[0].total;
+  }
+
+  it('executa comandos parametrizados e informa as linhas afetadas', async () => {
+    const insert = await connection.execute('INSERT INTO clientes (id, nome) VALUES (?, ?), (?, ?)', [1, 'Ana', 2, 'Bruno']);
+    const select = await connection.execute('SELECT nome FROM clientes WHERE id > ? ORDER BY id', [0]);
+
+    expect(insert).toEqual({ rowCount: 2, rows: [] });
+    expect(select).toEqual({ rowCount: 2, rows: [{ nome: 'Ana' }, { nome: 'Bruno' }] });
+  });
+
+  it('grava no arquivo só depois do commit', async () => {
+    await connection.beginTransaction();
+    await connection.execute('INSERT INTO clientes (id, nome) VALUES (?, ?)', [1, 'Ana']);
+    await connection.commit();
+    await connection.close();
+
+    connection = await openConnection({ type: 'sqlite', connectionString: `sqlite://${database}`, database });
+    expect(await count()).toBe(1);
+  });
+
+  it('desfaz a transação inteira no rollback', async () => {
+    await connection.beginTransaction();
+    await connection.execute('INSERT INTO clientes (id, nome) VALUES (?, ?)', [1, 'Ana']);
+    await expect(connection.execute('INSERT INTO clientes (id, nome) VALUES (?, ?)', [2, null])).rejects.toThrow(/NOT NULL/);
+    await connection.rollback();
+
+    expect(await count()).toBe(0);
+  });
+
+  it('ignora rollback fora de transação', async () => {
+    await expect(connection.rollback()).resolves.toBeUndefined();
+  });
+});
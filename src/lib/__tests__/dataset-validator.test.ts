@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { DatasetCheckError, DatasetTable, DatasetValidator } from '../dataset-validator';
+
+const table: DatasetTable = {
+  headers: ['cpf', 'cliente_id', 'admissao', 'desligamento', 'produtos', 'frete', 'total'],
+  rows: [
+    ['123.456.789-09', '1', '01/02/2020', '10/03/2022', '100,00', '10,00', '110,00'],
+    ['987.654.321-00', '2', '15/06/2021', '14/06/2021', '50,00', '', '50,00'],
+    ['12345678909', '9', '2021-01-01', '', '1.000,00', '5,00', '1.010,00'],
+    ['', '', 'sem data', '2021-01-01', 'x', '1,00', '']
+  ]
+};
+
+const references = { clientes: { headers: ['id', 'nome'], rows: [['1', 'Ana'], ['2', 'Bruno']] } };
+
+describe('DatasetValidator', () => {
+  it('informa a linha (a partir de 0) e a coluna de cada violação, com a linha a partir de 1 na mensagem', () => {
+    const result = new DatasetValidator().validate(table, [{ type: 'unique', fields: ['cpf'], normalize: 'digits' }]);
+
+    expect(result.errors).toEqual([{
+      field: 'cpf',
+      type: 'uniqueness',
+      message: "Valor de 'cpf' duplicado: 12345678909 (primeira ocorrência na linha 1)",
+      severity: 'critical',
+      originalValue: '12345678909',
+      row: 2,
+      column: 0
+    }]);
+  });
+
+  it('compara chaves compostas e ignora chaves com valor vazio', () => {
+    const rows = [['1', 'A'], ['1', 'a'], ['1', 'A'], ['', 'A'], ['', 'A']];
+    const result = new DatasetValidator().validate({ headers: ['id', 'tipo'], rows }, [
+      { type: 'unique', fields: ['id', 'tipo'], normalize: 'case_insensitive' }
+    ]);
+
+    expect(result.errors.map(error => [error.row, error.message])).toEqual([
+      [1, 'Chave (id, tipo) duplicado: 1, a (primeira ocorrência na linha 1)'],
+      [2, 'Chave (id, tipo) duplicado: 1, A (primeira ocorrência na linha 1)']
+    ]);
+  });
+
+  it('verifica a ordem das datas, com igualdade permitida por padrão', () => {
+    const equal = { headers: ['inicio', 'fim'], rows: [['2021-01-01', '2021-01-01']] };
+
+    expect(new DatasetValidator().validate(table, [{ type: 'date_order', start: 'admissao', end: 'desligamento' }]).errors)
+      .toEqual([expect.objectContaining({ row: 1, column: 3, severity: 'high', originalValue: '14/06/2021' })]);
+    expect(new DatasetValidator().validate(equal, [{ type: 'date_order', start: 'inicio', end: 'fim' }]).isValid).toBe(true);
+    expect(new DatasetValidator().validate(equal, [{ type: 'date_order', start: 'inicio', end: 'fim', allowEqual: false }]).errors[0].message)
+      .toBe("'fim' (2021-01-01) deve ser posterior a 'inicio' (2021-01-01)");
+  });
+
+  it('confere somas com números formatados e parcelas vazias como zero', () => {
+    const result = new DatasetValidator().validate(table, [
+      { type: 'sum', fields: ['produtos', 'frete'], total: 'total', severity: 'medium' }
+    ]);
+
+    expect(result.errors).toEqual([expect.objectContaining({
+      row: 2,
+      column: 6,
+      severity: 'medium',
+      message: "'total' (1.010,00) difere da soma de produtos + frete (1005)"
+    })]);
+  });
+
+  it('verifica chaves estrangeiras no arquivo de referência', () => {
+    const result = new DatasetValidator(references).validate(table, [
+      { type: 'foreign_key', field: 'cliente_id', reference: 'clientes', referenceField: 'id', name: 'cliente' }
+    ]);
+
+    expect(result.errors.map(error => [error.row, error.column, error.message])).toEqual([
+      [2, 1, "Valor '9' de 'cliente_id' não existe em clientes.id"]
+    ]);
+    expect(result.statistics).toEqual({ totalRows: 4, invalidRows: 1, violations: { cliente: 1 } });
+    expect(result.suggestions).toEqual(['1 violação(ões) em cliente']);
+  });
+
+  it('recusa colunas e referências inexistentes', () => {
+    const validator = new DatasetValidator(references);
+
+    expect(() => validator.validate(table, [{ type: 'unique', fields: ['email'] }])).toThrow(DatasetCheckError);
+    expect(() => validator.validate(table, [{ type: 'foreign_key', field: 'cliente_id', reference: 'planos', referenceField: 'id' }]))
+      .toThrow("Arquivo de referência 'planos' não enviado");
+    expect(() => validator.validate(table, [{ type: 'foreign_key', field: 'cliente_id', reference: 'clientes', referenceField: 'codigo' }]))
+      .toThrow("Coluna 'codigo' não existe em clientes");
+  });
+});
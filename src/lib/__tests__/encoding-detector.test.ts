@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { EncodingDetector, TextTranscoder } from '../encoding-detector';
+
+const latin1 = (text: string) => new Uint8Array(Buffer.from(text, 'latin1'));
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+function concat(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(Buffer.concat(parts));
+}
+
+// Mais de uma amostra (64 KB) de ASCII antes da primeira linha acentuada
+const asciiHead = utf8('nome;cidade\n' + 'Maria;Rio de Janeiro\n'.repeat(3800));
+
+describe('EncodingDetector.detect', () => {
+  it('reconhece o BOM', () => {
+    expect(EncodingDetector.detect(concat(new Uint8Array([0xef, 0xbb, 0xbf]), utf8('nome\n'))))
+      .toEqual({ encoding: 'utf-8', confidence: 1, hasBOM: true, mixed: false });
+    expect(EncodingDetector.detect(new Uint8Array([0xff, 0xfe, 0x6e, 0x00])).encoding).toBe('utf-16le');
+  });
+
+  it('reconhece UTF-16 sem BOM pelos bytes nulos', () => {
+    expect(EncodingDetector.detect(new Uint8Array(Buffer.from('nome;cidade\n', 'utf16le'))).encoding).toBe('utf-16le');
+  });
+
+  it('distingue Windows-1252 de ISO-8859-1 pelos bytes 0x80-0x9F', () => {
+    expect(EncodingDetector.detect(latin1('João;São Paulo\n')).encoding).toBe('iso-8859-1');
+    expect(EncodingDetector.detect(concat(latin1('João '), new Uint8Array([0x96]), latin1(' São Paulo\n'))).encoding)
+      .toBe('windows-1252');
+  });
+
+  it('marca como misto o arquivo com linhas UTF-8 e linhas de 1 byte', () => {
+    const detection = EncodingDetector.detect(concat(utf8('Conceição;Recife\n'), latin1('João;São Paulo\n')));
+
+    expect(detection.mixed).toBe(true);
+    expect(EncodingDetector.decode(concat(utf8('Conceição;Recife\n'), latin1('João;São Paulo\n')), detection))
+      .toBe('Conceição;Recife\nJoão;São Paulo\n');
+  });
+
+  it('só confia em UTF-8 sem ressalva quando a amostra é o arquivo inteiro ou tem acentos', () => {
+    expect(EncodingDetector.detect(utf8('nome\nMaria\n'))).toEqual({ encoding: 'utf-8', confidence: 1, hasBOM: false, mixed: false });
+    expect(EncodingDetector.detect(utf8('nome\nMaria\n'), true)).toMatchObject({ encoding: 'utf-8', fallback: 'windows-1252' });
+    expect(EncodingDetector.detect(utf8('nome\nConceição\n'), true).fallback).toBeUndefined();
+  });
+});
+
+describe('encoding com bytes fora de UTF-8 depois da amostra', () => {
+  const bytes = concat(asciiHead, latin1('João;São Paulo\n'));
+
+  it('detectFile não garante UTF-8 quando a amostra só tem ASCII', async () => {
+    const detection = await EncodingDetector.detectFile(new Blob([bytes]));
+
+    expect(detection.encoding).toBe('utf-8');
+    expect(detection.confidence).toBeLessThan(1);
+    expect(detection.fallback).toBe('windows-1252');
+  });
+
+  it('transcodeToUTF8 decodifica as linhas finais no encoding de 1 byte', async () => {
+    const blob = new Blob([bytes]);
+    const text = await (await EncodingDetector.transcodeToUTF8(blob, await EncodingDetector.detectFile(blob))).text();
+
+    expect(text.endsWith('Maria;Rio de Janeiro\nJoão;São Paulo\n')).toBe(true);
+    expect(text).toHaveLength(bytes.length);
+  });
+
+  it('TextTranscoder mantém caracteres UTF-8 divididos entre trechos', () => {
+    const transcoder = new TextTranscoder({ encoding: 'utf-8', confidence: 0.8, hasBOM: false, mixed: false, fallback: 'windows-1252' });
+    const line = utf8('Conceição;Recife\n');
+
+    const text = transcoder.write(line.subarray(0, 7)) + transcoder.write(line.subarray(7)) + transcoder.write(latin1('São Paulo\n')) + transcoder.end();
+
+    expect(text).toBe('Conceição;Recife\nSão Paulo\n');
+  });
+});
@@ -0,0 +1,155 @@
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import {
+  detectInputFormat,
+  formatFixedWidthLayout,
+  inferFixedWidthLayout,
+  parseFixedWidthLayout,
+  readInputFile
+} from '../input-readers';
+
+function textFile(name: string, text: string): File {
+  return new File([text], name);
+}
+
+const fixedWidth = [
+  'NOME      CIDADE        UF VALOR',
+  'Ana Lima  São Paulo     SP 10,50',
+  'Bruno     Rio de Janeiro RJ 7,00',
+  'Carla     Recife        PE 1,25'
+];
+
+// Colunas alinhadas: a linha do Bruno não invade a coluna UF
+const aligned = [
+  'NOME      CIDADE          UF VALOR',
+  'Ana Lima  São Paulo       SP 10,50',
+  'Bruno     Rio de Janeiro  RJ  7,00',
+  'Carla     Recife          PE  1,25'
+];
+
+describe('inferFixedWidthLayout', () => {
+  it('começa uma coluna onde o texto segue uma posição em branco em todas as linhas', () => {
+    expect(inferFixedWidthLayout(aligned)).toEqual([
+      { name: 'NOME', start: 0, width: 10 },
+      { name: 'CIDADE', start: 10, width: 16 },
+      { name: 'UF', start: 26, width: 3 },
+      { name: 'VALOR', start: 29, width: 5 }
+    ]);
+  });
+
+  it('junta colunas quando um valor ocupa o espaço que as separaria', () => {
+    expect(inferFixedWidthLayout(fixedWidth).map(column => column.name)).toEqual(['NOME', 'CIDADE        UF VALOR']);
+  });
+
+  it('numera as colunas quando não há cabeçalho', () => {
+    expect(inferFixedWidthLayout(aligned.slice(1), false).map(column => column.name))
+      .toEqual(['column_1', 'column_2', 'column_3', 'column_4']);
+  });
+
+  it('ignora linhas em branco', () => {
+    expect(inferFixedWidthLayout(['', '   '])).toEqual([]);
+  });
+});
+
+describe('layout de largura fixa em texto', () => {
+  it('converte entre o texto (início base 1) e o layout (base 0)', () => {
+    const layout = parseFixedWidthLayout('nome:1:10; cidade:11:16\nuf:27:3');
+
+    expect(layout).toEqual([
+      { name: 'nome', start: 0, width: 10 },
+      { name: 'cidade', start: 10, width: 16 },
+      { name: 'uf', start: 26, width: 3 }
+    ]);
+    expect(formatFixedWidthLayout(layout)).toBe('nome:1:10; cidade:11:16; uf:27:3');
+  });
+
+  it.each(['nome:0:10', 'nome:1', 'nome:1:x', ':1:2'])('recusa %j', text => {
+    expect(() => parseFixedWidthLayout(text)).toThrow('Definição de coluna inválida');
+  });
+});
+
+describe('detectInputFormat', () => {
+  it.each([
+    ['dados.csv', 'id;nome\n1;Ana\n2;Bruno\n', 'csv'],
+    ['dados.txt', 'id,nome\n1,Ana\n2,Bruno\n', 'csv'],
+    ['dados.txt', `${aligned.join('\n')}\n`, 'fixed-width'],
+    ['dados.json', '[{"id": 1}]', 'json'],
+    ['export.txt', '{"dados": [{"id": 1}]}', 'json'],
+    ['dados.json', '{"id": 1}\n{"id": 2}\n', 'ndjson']
+  ])('%s com conteúdo %j é %s', async (name, text, format) => {
+    expect((await detectInputFormat(textFile(name, text))).format).toBe(format);
+  });
+
+  it('recusa conteúdo que nenhum leitor reconhece', async () => {
+    await expect(detectInputFormat(textFile('dados.bin', 'x'))).rejects.toThrow('Formato de arquivo não suportado');
+  });
+});
+
+describe('readInputFile', () => {
+  it('lê JSON com os registros numa propriedade e colunas pela união das chaves', async () => {
+    const result = await readInputFile(textFile('dados.json', JSON.stringify({
+      total: 2,
+      registros: [{ id: 1, nome: 'Ana' }, { id: 2, endereco: { cidade: 'Recife' }, ativo: null }]
+    })));
+
+    expect(result.format).toBe('json');
+    expect(result.data.headers).toEqual(['id', 'nome', 'endereco', 'ativo']);
+    expect(result.data.rows).toEqual([['1', 'Ana', '', ''], ['2', '', '{"cidade":"Recife"}', '']]);
+  });
+
+  it('recusa JSON sem array de objetos', async () => {
+    await expect(readInputFile(textFile('dados.json', '[1, 2, 3]'))).rejects.toThrow('array de objetos');
+  });
+
+  it('lê NDJSON ignorando linhas vazias', async () => {
+    const result = await readInputFile(textFile('dados.ndjson', '{"id":1,"nome":"Ana"}\n\n{"id":2,"nome":"Bruno"}\n'));
+
+    expect(result.format).toBe('ndjson');
+    expect(result.data.rows).toEqual([['1', 'Ana'], ['2', 'Bruno']]);
+  });
+
+  it('informa a linha do NDJSON inválido depois da amostra de detecção', async () => {
+    const lines = Array.from({ length: 30 }, (_, index) => `{"id":${index + 1}}`);
+    lines[24] = '{"id":';
+    await expect(readInputFile(textFile('dados.ndjson', lines.join('\n')))).rejects.toThrow('Linha 25: JSON inválido');
+  });
+
+  it('lê largura fixa com o layout inferido ou informado', async () => {
+    const file = textFile('dados.txt', `${aligned.join('\n')}\n`);
+
+    const inferred = await readInputFile(file);
+    expect(inferred.format).toBe('fixed-width');
+    expect(inferred.data.headers).toEqual(['NOME', 'CIDADE', 'UF', 'VALOR']);
+    expect(inferred.data.rows[1]).toEqual(['Bruno', 'Rio de Janeiro', 'RJ', '7,00']);
+
+    const informed = await readInputFile(file, { layout: parseFixedWidthLayout('nome:1:10; uf:27:3') });
+    expect(informed.data.headers).toEqual(['nome', 'uf']);
+    expect(informed.data.rows).toEqual([['Ana Lima', 'SP'], ['Bruno', 'RJ'], ['Carla', 'PE']]);
+  });
+
+  it('lê XLSX pela planilha escolhida, com datas e resultados de fórmulas', async () => {
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet('Resumo').addRow(['total', 2]);
+    const sheet = workbook.addWorksheet('Clientes');
+    sheet.addRow(['nome', 'nascimento', 'valor', 'dobro']);
+    sheet.addRow(['Ana', new Date(Date.UTC(1990, 4, 17)), 10.5, { formula: 'C2*2', result: 21 }]);
+    sheet.addRow(['Bruno', null, 7]);
+    const buffer = await workbook.xlsx.writeBuffer();
+
+    const result = await readInputFile(new File([buffer], 'clientes.xlsx'), { sheetName: 'Clientes' });
+
+    expect(result.format).toBe('xlsx');
+    expect(result.sheets).toEqual(['Resumo', 'Clientes']);
+    expect(result.sheetName).toBe('Clientes');
+    expect(result.data.headers).toEqual(['nome', 'nascimento', 'valor', 'dobro']);
+    expect(result.data.rows).toEqual([['Ana', '1990-05-17', '10.5', '21'], ['Bruno', '', '7', '']]);
+  });
+
+  it('informa a planilha XLSX inexistente', async () => {
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet('Clientes').addRow(['nome']);
+    const buffer = await workbook.xlsx.writeBuffer();
+
+    await expect(readInputFile(new File([buffer], 'clientes.xlsx'), { sheetName: 'Outra' })).rejects.toThrow("Planilha 'Outra' não encontrada");
+  });
+});
@@ -0,0 +1,146 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { JobContext, JobFailedError, JobQueue, JobState, SQLiteJobStore } from '../job-queue';
+
+const options = { concurrency: 1, retentionMs: 60 * 60 * 1000 };
+
+// Promessa resolvida de fora, para controlar quando cada handler termina
+function deferred<T = unknown>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(done => { resolve = done; });
+  return { promise, resolve };
+}
+
+async function waitForState(queue: JobQueue, id: string, state: JobState): Promise<void> {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    if (queue.get(id)?.state === state) return;
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  throw new Error(`Job ${id} não chegou ao estado ${state} (atual: ${queue.get(id)?.state})`);
+}
+
+describe('JobQueue', () => {
+  let directory: string;
+  let file: string;
+  let store: SQLiteJobStore;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'orquestrador-'));
+    file = path.join(directory, 'jobs.db');
+    store = new SQLiteJobStore(file);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('respeita o limite de concorrência e guarda o resultado', async () => {
+    const gates = [deferred(), deferred()];
+    let calls = 0;
+    const queue = new JobQueue(store, options).register('transform', () => gates[calls++].promise);
+    queue.start();
+
+    const first = queue.submit('transform', { arquivo: 'a.csv' });
+    const second = queue.submit('transform', { arquivo: 'b.csv' });
+
+    expect(first.state).toBe('running');
+    expect(second.state).toBe('queued');
+    expect(queue.getStats()).toMatchObject({ queueDepth: 1, running: 1 });
+
+    gates[0].resolve({ linhas: 10 });
+    await waitForState(queue, second.id, 'running');
+    gates[1].resolve({ linhas: 20 });
+    await waitForState(queue, second.id, 'completed');
+
+    expect(queue.getResult(first.id)).toMatchObject({ job: { state: 'completed', attempts: 1, hasResult: true }, result: { linhas: 10 } });
+    expect(queue.get(second.id)?.status).toMatchObject({ status: 'completed', progress: 100 });
+    expect(queue.getStats().durations.transform?.count).toBe(2);
+    // O payload é apagado quando o job termina
+    expect(store.get(first.id)?.payload).toBeUndefined();
+  });
+
+  it('registra o progresso e guarda o resultado de JobFailedError', async () => {
+    const gate = deferred();
+    const queue = new JobQueue(store, options).register('publish', async (_payload, context: JobContext) => {
+      context.reportProgress(42.4, 'Lote 2 de 5');
+      await gate.promise;
+      throw new JobFailedError('Dados inválidos', { errors: 3 });
+    });
+    queue.start();
+
+    const job = queue.submit('publish', {});
+    expect(queue.get(job.id)?.status).toMatchObject({ progress: 42, message: 'Lote 2 de 5' });
+
+    gate.resolve(undefined);
+    await waitForState(queue, job.id, 'failed');
+
+    expect(queue.getResult(job.id)).toMatchObject({
+      job: { status: { status: 'error', progress: 42, error: 'Dados inválidos' } },
+      result: { errors: 3 }
+    });
+  });
+
+  it('cancela jobs na fila na hora e jobs em execução pelo AbortSignal', async () => {
+    const queue = new JobQueue(store, options).register('analyze', (_payload, context: JobContext) =>
+      new Promise((_resolve, reject) => {
+        context.signal.addEventListener('abort', () => reject(new Error('abortado')));
+      })
+    );
+    queue.start();
+
+    const running = queue.submit('analyze', {});
+    const queued = queue.submit('analyze', {});
+
+    expect(queue.cancel(queued.id)?.state).toBe('cancelled');
+    expect(queue.cancel(running.id)?.cancelRequested).toBe(true);
+    await waitForState(queue, running.id, 'cancelled');
+
+    expect(queue.get(running.id)?.status).toMatchObject({ message: 'Cancelado', error: 'abortado' });
+    expect(queue.cancel('job_inexistente')).toBeUndefined();
+  });
+
+  it('recusa tipo de job sem handler', () => {
+    expect(() => new JobQueue(store, options).submit('analyze', {})).toThrow("Nenhum handler registrado para jobs 'analyze'");
+  });
+
+  it('entrega as credenciais ao handler sem gravá-las no banco', async () => {
+    const received: unknown[] = [];
+    const queue = new JobQueue(store, options)
+      .register('publish', async payload => { received.push(payload); }, ['target.auth.token']);
+    queue.start();
+
+    const job = queue.submit('publish', { target: { url: 'https://api.exemplo.com', auth: { type: 'bearer', token: 'segredo' } } });
+    await waitForState(queue, job.id, 'completed');
+
+    expect(received).toEqual([{ target: { url: 'https://api.exemplo.com', auth: { type: 'bearer', token: 'segredo' } } }]);
+    expect(queue.get(job.id)?.secretPaths).toEqual(['target.auth.token']);
+    expect(fs.readFileSync(file).includes('segredo')).toBe(false);
+  });
+
+  it('retoma depois de um reinício os jobs que estavam em execução', async () => {
+    const queue = new JobQueue(store, options)
+      .register('transform', () => new Promise(() => {}))
+      .register('publish', () => new Promise(() => {}), ['target.auth.token']);
+    queue.start();
+    const transform = queue.submit('transform', { arquivo: 'a.csv' });
+    const publish = queue.submit('publish', { target: { auth: { token: 'segredo' } } });
+    expect(queue.get(publish.id)?.state).toBe('queued');
+
+    // Outro processo abre o mesmo banco, como depois de um reinício
+    const restartedStore = new SQLiteJobStore(file);
+    const payloads: unknown[] = [];
+    const restarted = new JobQueue(restartedStore, { ...options, concurrency: 2 })
+      .register('transform', async payload => { payloads.push(payload); })
+      .register('publish', async () => {}, ['target.auth.token']);
+    restarted.start();
+
+    await waitForState(restarted, transform.id, 'completed');
+    await waitForState(restarted, publish.id, 'failed');
+
+    expect(payloads).toEqual([{ arquivo: 'a.csv' }]);
+    expect(restarted.get(transform.id)?.attempts).toBe(2);
+    expect(restarted.get(publish.id)?.status.error).toContain('credenciais do job ficam só em memória');
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { JsonSchemaDefinition, TransformationRule } from '@/types';
+import { jsonSchemaToFields, parseJsonSchema, validateJsonSchema, validateRecords } from '../json-schema';
+
+const schema: JsonSchemaDefinition = {
+  type: 'object',
+  required: ['id', 'nome', 'contato'],
+  additionalProperties: false,
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    nome: { type: 'string', minLength: 2 },
+    status: { type: 'string', enum: ['ativo', 'inativo'] },
+    nascimento: { anyOf: [{ type: 'string', format: 'date' }, { type: 'null' }] },
+    contato: { $ref: '#/$defs/contato' },
+    telefones: { type: 'array', minItems: 1, items: { type: 'string', pattern: '^\\+55\\d{10,11}$' } }
+  },
+  $defs: {
+    contato: {
+      type: 'object',
+      required: ['email'],
+      properties: {
+        email: { type: 'string', format: 'email' },
+        endereco: { type: 'object', properties: { cidade: { type: 'string' } } }
+      }
+    }
+  }
+};
+
+const valid = {
+  id: '6f1c2d3e-4a5b-4c6d-8e9f-0a1b2c3d4e5f',
+  nome: 'Ana',
+  status: 'ativo',
+  nascimento: null,
+  contato: { email: 'ana@exemplo.com.br', endereco: { cidade: 'Recife' } },
+  telefones: ['+5581999990000']
+};
+
+describe('jsonSchemaToFields', () => {
+  it('achata propriedades aninhadas, $ref e itens de arrays em caminhos', () => {
+    const fields = jsonSchemaToFields(schema);
+
+    expect(fields.map(field => field.name)).toEqual([
+      'id', 'nome', 'status', 'nascimento', 'contato.email', 'contato.endereco.cidade', 'telefones[0]'
+    ]);
+    expect(fields.find(field => field.name === 'id')).toMatchObject({ type: 'id', required: true, nullable: false, format: 'uuid' });
+    expect(fields.find(field => field.name === 'status')).toMatchObject({ required: false, enum: ['ativo', 'inativo'] });
+    expect(fields.find(field => field.name === 'nascimento')).toMatchObject({ type: 'date', nullable: true });
+    expect(fields.find(field => field.name === 'contato.email')).toMatchObject({ type: 'email', required: true });
+    // Objeto opcional: os campos dele também são opcionais
+    expect(fields.find(field => field.name === 'contato.endereco.cidade')).toMatchObject({ required: false, nullable: true });
+    expect(fields.find(field => field.name === 'telefones[0]')).toMatchObject({ required: false });
+  });
+
+  it('recusa schema sem objeto na raiz e referências externas ou inexistentes', () => {
+    expect(() => jsonSchemaToFields({ type: 'string' })).toThrow('precisa descrever um objeto');
+    expect(() => jsonSchemaToFields({ type: 'object', properties: { a: { $ref: 'https://exemplo.com/a.json' } } }))
+      .toThrow('Referência externa não suportada');
+    expect(() => jsonSchemaToFields({ type: 'object', properties: { a: { $ref: '#/$defs/b' } } }))
+      .toThrow('Referência não encontrada');
+  });
+});
+
+describe('parseJsonSchema', () => {
+  it('devolve o schema e os campos', () => {
+    expect(parseJsonSchema(JSON.stringify(schema)).fields).toHaveLength(7);
+  });
+
+  it('explica JSON inválido e conteúdo que não é schema', () => {
+    expect(() => parseJsonSchema('{ "type": ')).toThrow('JSON inválido');
+    expect(() => parseJsonSchema('[1, 2]')).toThrow('não é um JSON Schema');
+  });
+});
+
+describe('validateJsonSchema', () => {
+  it('aceita o registro válido e trata null em campo opcional como ausente', () => {
+    expect(validateJsonSchema(valid, schema)).toEqual([]);
+    expect(validateJsonSchema({ ...valid, status: null, telefones: null }, schema)).toEqual([]);
+  });
+
+  it('aponta o caminho de cada violação', () => {
+    const issues = validateJsonSchema({
+      ...valid,
+      id: 'abc',
+      nome: 'A',
+      status: 'suspenso',
+      contato: { email: null },
+      telefones: ['+5581999990000', '81 99999-0000'],
+      extra: 1
+    }, schema);
+
+    expect(issues).toEqual([
+      { path: 'id', message: 'Formato uuid inválido' },
+      { path: 'nome', message: 'Texto com menos de 2 caracteres' },
+      { path: 'status', message: 'Valor fora da lista permitida ("ativo", "inativo")' },
+      { path: 'contato.email', message: 'Campo obrigatório ausente' },
+      { path: 'telefones[1]', message: 'Valor não corresponde ao padrão ^\\+55\\d{10,11}$' },
+      { path: 'extra', message: 'Campo não previsto no schema' }
+    ]);
+  });
+
+  it('informa tipo errado sem verificar as demais restrições do valor', () => {
+    expect(validateJsonSchema({ ...valid, nome: 42 }, schema)).toEqual([
+      { path: 'nome', message: 'Tipo inválido: esperado string, recebido number' }
+    ]);
+  });
+
+  it('verifica limites numéricos, oneOf e const', () => {
+    const numbers: JsonSchemaDefinition = {
+      type: 'object',
+      properties: {
+        idade: { type: 'integer', minimum: 0, exclusiveMaximum: 150 },
+        versao: { const: 2 },
+        codigo: { oneOf: [{ type: 'string' }, { type: 'number' }] }
+      }
+    };
+
+    expect(validateJsonSchema({ idade: 150, versao: 1, codigo: true }, numbers).map(issue => issue.message)).toEqual([
+      'Valor deve ser menor que 150',
+      'Valor deve ser 2',
+      'Valor deve corresponder a exatamente uma alternativa (oneOf)'
+    ]);
+    expect(validateJsonSchema({ idade: 1.5 }, numbers)[0].message).toBe('Tipo inválido: esperado integer, recebido number');
+  });
+});
+
+describe('validateRecords', () => {
+  it('mapeia o erro à linha e à coluna de origem seguindo as regras', () => {
+    const rules: TransformationRule[] = [
+      { field: 'EMAIL_CLIENTE', operation: 'rename', parameters: { targetField: 'email_tmp' } },
+      { field: 'email_tmp', operation: 'rename', parameters: { targetField: 'contato.email' } }
+    ];
+
+    const errors = validateRecords([valid, { ...valid, contato: { email: 'ana' } }], schema, rules);
+
+    expect(errors).toEqual([{
+      row: 1,
+      field: 'EMAIL_CLIENTE',
+      value: 'ana',
+      error: 'Formato email inválido',
+      path: 'contato.email',
+      code: 'schema_violation',
+      step: 'schema'
+    }]);
+  });
+
+  it('usa o caminho de destino quando nenhuma regra produz o campo', () => {
+    expect(validateRecords([{ ...valid, nome: 'A' }], schema, [])[0]).toMatchObject({ row: 0, field: 'nome', path: 'nome' });
+  });
+});
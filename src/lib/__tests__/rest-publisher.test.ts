@@ -0,0 +1,208 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { RestPublisher, RestPublisherConfig } from '../rest-publisher';
+
+interface ReceivedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  at: number;
+}
+
+type Handler = (request: ReceivedRequest, response: http.ServerResponse) => void;
+
+/**
+ * Servidor HTTP local; cada teste define como as rotas respondem
+ */
+let server: http.Server;
+let baseUrl: string;
+let received: ReceivedRequest[];
+let handler: Handler;
+
+beforeEach(async () => {
+  received = [];
+  handler = (_request, response) => response.writeHead(200).end();
+  server = http.createServer((request, response) => {
+    let body = '';
+    request.setEncoding('utf-8');
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      const entry = { path: request.url ?? '', headers: request.headers, body, at: Date.now() };
+      received.push(entry);
+      handler(entry, response);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+function publisher(config: Partial<RestPublisherConfig> = {}): RestPublisher {
+  return new RestPublisher({ endpoint: `${baseUrl}/records`, baseDelayMs: 1, maxDelayMs: 2000, ...config });
+}
+
+function json(response: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}): void {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(JSON.stringify(body));
+}
+
+const records = [{ id: 1, nome: 'Ana' }, { id: 2, nome: 'Bruno' }, { id: 3, nome: 'Carla' }];
+
+describe('RestPublisher', () => {
+  it('envia os registros em lotes JSON', async () => {
+    const result = await publisher({ batchSize: 2, concurrency: 1 }).publish(records);
+
+    expect(result.success).toBe(true);
+    expect(result.sentRecords).toBe(3);
+    expect(received.map(request => JSON.parse(request.body))).toEqual([records.slice(0, 2), records.slice(2)]);
+    expect(received[0].headers['content-type']).toBe('application/json');
+  });
+
+  it('repete o lote em 5xx e 429 até o sucesso', async () => {
+    const statuses = [503, 429, 200];
+    handler = (_request, response) => json(response, statuses.shift()!, { ok: true });
+
+    const result = await publisher().publish(records);
+
+    expect(result.success).toBe(true);
+    expect(result.batches[0].attempts).toBe(3);
+    expect(received).toHaveLength(3);
+  });
+
+  it('não repete erros 4xx', async () => {
+    handler = (_request, response) => json(response, 422, { error: 'inválido' });
+
+    const result = await publisher().publish(records);
+
+    expect(result.success).toBe(false);
+    expect(result.failedRecords).toBe(3);
+    expect(result.batches[0]).toMatchObject({ attempts: 1, status: 422, error: 'HTTP 422 Unprocessable Entity', response: { error: 'inválido' } });
+  });
+
+  it('desiste depois de maxRetries retentativas', async () => {
+    handler = (_request, response) => json(response, 500, {});
+
+    const result = await publisher({ maxRetries: 2 }).publish(records);
+
+    expect(result.success).toBe(false);
+    expect(result.batches[0].attempts).toBe(3);
+    expect(received).toHaveLength(3);
+  });
+
+  it('espera o tempo pedido em Retry-After', async () => {
+    const statuses = [429, 200];
+    handler = (_request, response) => json(response, statuses.shift()!, {}, { 'Retry-After': '0.3' });
+
+    const result = await publisher().publish(records);
+
+    expect(result.success).toBe(true);
+    expect(received[1].at - received[0].at).toBeGreaterThanOrEqual(280);
+  });
+
+  it('não espera um Retry-After maior que maxDelayMs', async () => {
+    handler = (_request, response) => json(response, 429, {}, { 'Retry-After': '120' });
+
+    const result = await publisher().publish(records);
+
+    expect(result.success).toBe(false);
+    expect(received).toHaveLength(1);
+    expect(result.batches[0].error).toContain('Retry-After de 120s excede a espera máxima');
+  });
+
+  it('mantém a chave de idempotência entre tentativas e entre publicações', async () => {
+    const statuses = [502, 200, 200];
+    handler = (_request, response) => json(response, statuses.shift()!, {});
+
+    const first = await publisher().publish(records);
+    const second = await publisher().publish(records);
+
+    const keys = received.map(request => request.headers['idempotency-key']);
+    expect(keys[0]).toMatch(/^[0-9a-f]{64}$/);
+    expect(new Set(keys).size).toBe(1);
+    expect(first.batches[0].idempotencyKey).toBe(keys[0]);
+    expect(second.batches[0].idempotencyKey).toBe(keys[0]);
+  });
+
+  it('gera chaves diferentes para lotes diferentes', async () => {
+    await publisher({ batchSize: 1, concurrency: 1 }).publish(records);
+
+    const keys = received.map(request => request.headers['idempotency-key']);
+    expect(new Set(keys).size).toBe(3);
+  });
+
+  describe('OAuth2 client credentials', () => {
+    let tokens: number;
+
+    beforeEach(() => {
+      tokens = 0;
+    });
+
+    function oauthPublisher(config: Partial<RestPublisherConfig> = {}): RestPublisher {
+      return publisher({
+        auth: { type: 'oauth2', tokenUrl: `${baseUrl}/token`, clientId: 'cliente', clientSecret: 'segredo', scope: 'write' },
+        ...config
+      });
+    }
+
+    it('obtém o token uma vez e o reaproveita entre lotes', async () => {
+      handler = (request, response) => request.path === '/token'
+        ? json(response, 200, { access_token: `token-${++tokens}`, expires_in: 3600 })
+        : json(response, 200, {});
+
+      const result = await oauthPublisher({ batchSize: 1, concurrency: 3 }).publish(records);
+
+      expect(result.success).toBe(true);
+      const tokenRequests = received.filter(request => request.path === '/token');
+      expect(tokenRequests).toHaveLength(1);
+      expect(tokenRequests[0].headers.authorization).toBe(`Basic ${Buffer.from('cliente:segredo').toString('base64')}`);
+      expect(new URLSearchParams(tokenRequests[0].body).get('grant_type')).toBe('client_credentials');
+      expect(new URLSearchParams(tokenRequests[0].body).get('scope')).toBe('write');
+      expect(received.filter(request => request.path === '/records').map(request => request.headers.authorization))
+        .toEqual(['Bearer token-1', 'Bearer token-1', 'Bearer token-1']);
+    });
+
+    it('renova o token revogado depois de um 401 sem contar tentativa', async () => {
+      handler = (request, response) => {
+        if (request.path === '/token') return json(response, 200, { access_token: `token-${++tokens}`, expires_in: 3600 });
+        json(response, request.headers.authorization === 'Bearer token-1' ? 401 : 200, {});
+      };
+
+      const result = await oauthPublisher().publish(records);
+
+      expect(result.success).toBe(true);
+      expect(result.batches[0].attempts).toBe(1);
+      expect(received.map(request => `${request.path} ${request.headers.authorization ?? ''}`)).toEqual([
+        `/token ${received[0].headers.authorization}`,
+        '/records Bearer token-1',
+        `/token ${received[0].headers.authorization}`,
+        '/records Bearer token-2'
+      ]);
+    });
+
+    it('renova o token só uma vez por lote', async () => {
+      handler = (request, response) => request.path === '/token'
+        ? json(response, 200, { access_token: `token-${++tokens}` })
+        : json(response, 401, {});
+
+      const result = await oauthPublisher().publish(records);
+
+      expect(result.success).toBe(false);
+      expect(result.batches[0]).toMatchObject({ attempts: 1, status: 401 });
+      expect(tokens).toBe(2);
+    });
+
+    it('não repete o lote quando o token é recusado', async () => {
+      handler = (request, response) => json(response, request.path === '/token' ? 400 : 200, { error: 'invalid_client' });
+
+      const result = await oauthPublisher().publish(records);
+
+      expect(result.success).toBe(false);
+      expect(result.batches[0].error).toBe('Falha ao obter token OAuth2: HTTP 400');
+      expect(received.filter(request => request.path === '/records')).toHaveLength(0);
+      expect(received).toHaveLength(1);
+    });
+  });
+});
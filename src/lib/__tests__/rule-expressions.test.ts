@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { RuleExpressionError, compileRule } from '../rule-expressions';
+
+const now = new Date('2024-06-15T12:00:00Z');
+
+describe('compileRule', () => {
+  it('aplica a ação a todas as linhas quando não há condição', () => {
+    const rule = compileRule('valor_coparticipacao <= valor_procedimento');
+
+    expect(rule.fields).toEqual(['valor_coparticipacao', 'valor_procedimento']);
+    expect(rule.check({ valor_coparticipacao: 10, valor_procedimento: 100 })).toBeNull();
+    expect(rule.check({ valor_coparticipacao: 150, valor_procedimento: 100 })).toEqual({
+      fields: ['valor_coparticipacao', 'valor_procedimento'],
+      message: expect.stringContaining('Condição não atendida')
+    });
+  });
+
+  it('só verifica a ação quando a condição é verdadeira', () => {
+    const rule = compileRule("status == 'Autorizado' => data_autorizacao required");
+
+    expect(rule.check({ status: 'Pendente' })).toBeNull();
+    expect(rule.check({ status: 'Autorizado', data_autorizacao: '2024-01-10' })).toBeNull();
+    expect(rule.check({ status: 'Autorizado', data_autorizacao: ' ' })).toEqual({
+      fields: ['data_autorizacao'],
+      message: 'Campo obrigatório ausente: data_autorizacao'
+    });
+  });
+
+  it('lista todos os campos obrigatórios ausentes', () => {
+    const rule = compileRule("tipo == 'PJ' => cnpj, razao_social required");
+
+    expect(rule.check({ tipo: 'PJ', razao_social: 'ACME' })?.fields).toEqual(['cnpj']);
+    expect(rule.check({ tipo: 'PJ' })?.fields).toEqual(['cnpj', 'razao_social']);
+  });
+
+  it('não dispara com campo ausente na condição ou na ação', () => {
+    const rule = compileRule('valor > 0 => desconto < valor');
+
+    expect(rule.check({ desconto: 5 })).toBeNull();
+    expect(rule.check({ valor: 10 })).toBeNull();
+    expect(rule.check({ valor: 10, desconto: 20 })).not.toBeNull();
+  });
+
+  it('interpreta números formatados e datas dos registros', () => {
+    const rule = compileRule('data_nascimento => age(data_nascimento) >= 18');
+
+    expect(rule.check({ data_nascimento: '15/06/2006' }, { now })).toBeNull();
+    expect(rule.check({ data_nascimento: '16/06/2006' }, { now })).not.toBeNull();
+    expect(compileRule('valor > 1000').check({ valor: 'R$ 1.234,56' })).toBeNull();
+  });
+
+  it('suporta in, operadores lógicos e campos aninhados', () => {
+    const rule = compileRule("uf in ('SP', 'RJ') && !(beneficiario.ativo == false) => len(beneficiario.nome) >= 3");
+
+    expect(rule.fields).toEqual(['uf', 'beneficiario.ativo', 'beneficiario.nome']);
+    expect(rule.check({ uf: 'MG', beneficiario: { ativo: true, nome: 'Al' } })).toBeNull();
+    expect(rule.check({ uf: 'SP', beneficiario: { ativo: true, nome: ' Al ' } })).not.toBeNull();
+    expect(rule.check({ uf: 'SP', beneficiario: { ativo: false, nome: 'Al' } })).toBeNull();
+  });
+
+  it.each([
+    'valor >',
+    'valor => ',
+    'a required => b',
+    'funcao_inexistente(valor)',
+    "status == 'aberto",
+    'len(a, b)'
+  ])('rejeita a sintaxe inválida %j', source => {
+    expect(() => compileRule(source)).toThrow(RuleExpressionError);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { FieldSchema } from '@/types';
+import { deriveColumnType } from '../sql-column-types';
+
+function field(name: string, type: FieldSchema['type'], extra: Partial<FieldSchema> = {}): FieldSchema {
+  return { name, type, nullable: true, examples: [], ...extra };
+}
+
+const dialects = ['postgresql', 'mysql', 'sqlite', 'sqlserver'] as const;
+
+describe('deriveColumnType', () => {
+  it.each(dialects)('CPF só com dígitos vira CHAR(11) indexado (%s)', dbType => {
+    expect(deriveColumnType(field('cpf', 'string'), ['52998224725', '11144477735'], dbType)).toEqual({
+      sqlType: 'CHAR(11)',
+      detectedType: 'cpf',
+      masks: undefined,
+      indexed: true
+    });
+  });
+
+  it.each(dialects)('CPF com e sem máscara vira VARCHAR(14) com as duas formas no CHECK (%s)', dbType => {
+    expect(deriveColumnType(field('cpf', 'string'), ['529.982.247-25', '11144477735'], dbType)).toEqual({
+      sqlType: 'VARCHAR(14)',
+      detectedType: 'cpf',
+      masks: ['99999999999', '999.999.999-99'],
+      indexed: true
+    });
+  });
+
+  it.each([
+    ['postgresql', 'NUMERIC(15,2)'],
+    ['mysql', 'DECIMAL(15,2)'],
+    ['sqlite', 'NUMERIC(15,2)'],
+    ['sqlserver', 'DECIMAL(15,2)']
+  ] as const)('moeda_real vira %s → %s', (dbType, sqlType) => {
+    expect(deriveColumnType(field('valor', 'number'), [10.5, 1234.56], dbType)).toEqual({ sqlType, detectedType: 'moeda_real', indexed: false });
+  });
+
+  it('moeda_real alarga a precisão para valores com mais de 13 dígitos inteiros', () => {
+    expect(deriveColumnType(field('saldo', 'number'), [12345678901234.5], 'postgresql').sqlType).toBe('NUMERIC(16,2)');
+  });
+
+  it.each([
+    ['postgresql', 'UUID'],
+    ['mysql', 'CHAR(36)'],
+    ['sqlite', 'TEXT'],
+    ['sqlserver', 'UNIQUEIDENTIFIER']
+  ] as const)('uuid usa o tipo nativo de %s: %s', (dbType, sqlType) => {
+    const values = ['c56a4180-65aa-42ec-a945-5fd21dec0538', 'a56a4180-65aa-42ec-a945-5fd21dec0538'];
+    expect(deriveColumnType(field('id', 'string'), values, dbType)).toEqual({ sqlType, detectedType: 'uuid', indexed: true });
+  });
+
+  it.each([
+    ['postgresql', 'VARCHAR(7)'],
+    ['mysql', 'VARCHAR(7)'],
+    ['sqlite', 'TEXT'],
+    ['sqlserver', 'NVARCHAR(7)']
+  ] as const)('enum declarado vira %s → %s com os valores permitidos', (dbType, sqlType) => {
+    expect(deriveColumnType(field('status', 'string', { enum: ['ativo', 'inativo'] }), ['ativo'], dbType)).toEqual({
+      sqlType,
+      detectedType: 'enum',
+      allowedValues: ['ativo', 'inativo'],
+      indexed: false
+    });
+  });
+
+  it('não restringe números à precisão ou à escala do lote', () => {
+    expect(deriveColumnType(field('quantidade', 'number'), [1, 999999999], 'postgresql').sqlType).toBe('BIGINT');
+    expect(deriveColumnType(field('taxa', 'number'), [0.5], 'postgresql').sqlType).toBe('NUMERIC');
+    expect(deriveColumnType(field('taxa', 'number'), [0.5], 'mysql').sqlType).toBe('DECIMAL(38,10)');
+  });
+
+  it('usa o tipo genérico quando não há valores', () => {
+    expect(deriveColumnType(field('cpf', 'string'), [null, null], 'sqlserver')).toEqual({ sqlType: 'NVARCHAR(MAX)', indexed: false });
+  });
+});
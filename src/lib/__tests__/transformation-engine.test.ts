@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { executeRules, parseNumber } from '../transformation-engine';
+
+// Executa uma regra normalize sobre um valor e devolve o resultado ou a mensagem de erro
+function normalize(value: string, parameters: Record<string, any>): { value: unknown; error?: string } {
+  const result = executeRules(['valor'], [[value]], [
+    { field: 'valor', operation: 'normalize', parameters: { targetField: 'saida', ...parameters } }
+  ]);
+  return { value: result.data[0].saida, error: result.validationErrors[0]?.error };
+}
+
+describe('parseNumber', () => {
+  it.each([
+    ['1234', 1234],
+    ['1.5', 1.5],
+    ['0.123', 0.123],
+    ['-7.25', -7.25],
+    ['1,5', 1.5],
+    ['0,123', 0.123],
+    ['1.234,56', 1234.56],
+    ['1.234,5', 1234.5],
+    ['1,234.56', 1234.56],
+    ['1.234', 1234],
+    ['1.234.567', 1234567],
+    ['1,234,567', 1234567],
+    ['R$ 1.234', 1234],
+    ['R$ 1.234,56', 1234.56],
+    ['12,5%', 12.5],
+    ['(1.234,56)', -1234.56],
+    ['1e3', 1000],
+    ['.5', 0.5]
+  ])('%s → %s', (text, expected) => {
+    expect(parseNumber(text)).toBe(expected);
+  });
+
+  it.each(['', 'abc', '12abc', '1.2.3', '--1', 'R$'])('rejeita %j', text => {
+    expect(parseNumber(text)).toBeNull();
+  });
+});
+
+describe('normalize', () => {
+  it.each([
+    ['  MARIA   DA silva  ', 'Maria da Silva'],
+    ['joão dos santos e souza', 'João dos Santos e Souza'],
+    ["ana-clara d'ávila", "Ana-Clara D'Ávila"],
+    ['DA COSTA', 'Da Costa']
+  ])('name: %j → %j', (text, expected) => {
+    expect(normalize(text, { type: 'name' })).toEqual({ value: expected });
+  });
+
+  it.each([
+    ['1.234,56', 1234.56],
+    ['R$ 10,5', 10.5],
+    ['-0,125', -0.125]
+  ])('decimal: %j → %s', (text, expected) => {
+    expect(normalize(text, { type: 'decimal' })).toEqual({ value: expected });
+  });
+
+  it('decimal: rejeita texto que não é número e mantém vazio como null', () => {
+    expect(normalize('doze', { type: 'decimal' })).toEqual({ value: null, error: "Valor decimal inválido: 'doze'" });
+    expect(normalize('  ', { type: 'decimal' })).toEqual({ value: null });
+  });
+
+  it.each([
+    ['cpf', '52998224725', '529.982.247-25', '52998224725'],
+    ['cpf', '529.982.247-25', '529.982.247-25', '52998224725'],
+    ['cnpj', '11222333000181', '11.222.333/0001-81', '11222333000181'],
+    ['cnpj', '11.222.333/0001-81', '11.222.333/0001-81', '11222333000181'],
+    ['cep', '50030230', '50030-230', '50030230'],
+    ['cep', ' 50030-230 ', '50030-230', '50030230']
+  ])('%s: %j → %j com máscara e %j sem', (type, text, masked, digits) => {
+    expect(normalize(text, { type })).toEqual({ value: masked });
+    expect(normalize(text, { type, masked: false })).toEqual({ value: digits });
+  });
+
+  it.each([
+    ['cpf', '529.982.247-2', "CPF com quantidade de dígitos inválida: '529.982.247-2'"],
+    ['cnpj', '11.222.333/0001', "CNPJ com quantidade de dígitos inválida: '11.222.333/0001'"],
+    ['cep', '5003-023', "CEP com quantidade de dígitos inválida: '5003-023'"]
+  ])('%s: rejeita %j', (type, text, error) => {
+    expect(normalize(text, { type })).toEqual({ value: null, error });
+  });
+
+  it.each([
+    ['(11) 98765-4321', '+5511987654321'],
+    ['11 3456-7890', '+551134567890'],
+    ['011 98765-4321', '+5511987654321'],
+    ['0 21 11 98765-4321', '+5511987654321'],
+    ['0xx21 81 3456-7890', '+558134567890'],
+    ['+55 (81) 98765-4321', '+5581987654321'],
+    ['0055 81 98765-4321', '+5581987654321'],
+    ['+1 415 555 2671', '+14155552671']
+  ])('phone_e164: %j → %j', (text, expected) => {
+    expect(normalize(text, { type: 'phone_e164' })).toEqual({ value: expected });
+  });
+
+  it.each(['98765-4321', '123', '+55 11 9876-543', '999 1234 5678 9'])('phone_e164: rejeita %j', text => {
+    expect(normalize(text, { type: 'phone_e164' }).error).toBe(`Telefone inválido para E.164: '${text}'`);
+  });
+
+  it.each([
+    ['JoÃ£o', 'João'],
+    ['SÃ£o Paulo', 'São Paulo'],
+    ['AÃ§Ã£o â€“ â€˜okâ€™', 'Ação – ‘ok’'],
+    ['ConceiÃƒÂ§ÃƒÂ£o', 'Conceição'],
+    ['R$ 10 â‚¬', 'R$ 10 €']
+  ])('mojibake: %j → %j', (text, expected) => {
+    expect(normalize(text, { type: 'mojibake' })).toEqual({ value: expected });
+  });
+
+  it('mojibake: mantém texto correto ou que não forma UTF-8 válido', () => {
+    expect(normalize('João', { type: 'mojibake' })).toEqual({ value: 'João' });
+    expect(normalize('Ã£ 中', { type: 'mojibake' })).toEqual({ value: 'Ã£ 中' });
+    expect(normalize('PreÃ§o Ã', { type: 'mojibake' })).toEqual({ value: 'PreÃ§o Ã' });
+  });
+
+  it('rejeita modo desconhecido', () => {
+    expect(normalize('x', { type: 'soundex' }).error).toBe("Normalização desconhecida: 'soundex'");
+  });
+});
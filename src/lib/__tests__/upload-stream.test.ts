@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { EncodingDetection } from '../encoding-detector';
+import { RequestTooLargeError, decodeBody } from '../upload-stream';
+
+async function* chunks(bytes: Uint8Array, size: number): AsyncGenerator<Uint8Array> {
+  for (let offset = 0; offset < bytes.length; offset += size) {
+    yield bytes.subarray(offset, offset + size);
+  }
+}
+
+async function readAll(body: AsyncIterable<Uint8Array>, options: Parameters<typeof decodeBody>[1] = {}): Promise<string> {
+  let text = '';
+  for await (const part of decodeBody(body, { maxBytes: 10 * 1024 * 1024, ...options })) {
+    text += part;
+  }
+  return text;
+}
+
+describe('decodeBody', () => {
+  it('decodifica linhas Latin-1 que chegam depois de uma amostra só com ASCII', async () => {
+    const ascii = Buffer.from('nome;cidade\n' + 'Maria;Rio de Janeiro\n'.repeat(3800));
+    const bytes = new Uint8Array(Buffer.concat([ascii, Buffer.from('João;São Paulo\n', 'latin1')]));
+    let detection: EncodingDetection | undefined;
+
+    const text = await readAll(chunks(bytes, 16 * 1024), { onEncoding: value => { detection = value; } });
+
+    expect(detection?.fallback).toBe('windows-1252');
+    expect(text.endsWith('Maria;Rio de Janeiro\nJoão;São Paulo\n')).toBe(true);
+    expect(text).toHaveLength(bytes.length);
+  });
+
+  it('usa o encoding informado no lugar da detecção', async () => {
+    const bytes = new Uint8Array(Buffer.from('João\n', 'latin1'));
+
+    expect(await readAll(chunks(bytes, 2), { encoding: 'iso-8859-1' })).toBe('João\n');
+  });
+
+  it('aborta quando o corpo passa do limite', async () => {
+    const bytes = new Uint8Array(1024).fill(0x61);
+
+    await expect(readAll(chunks(bytes, 256), { maxBytes: 600 })).rejects.toBeInstanceOf(RequestTooLargeError);
+  });
+});
@@ -1,49 +1,103 @@
-import { GoogleGenerativeAI } from '@google/generative-ai'
-import Groq from 'groq-sdk'
-import { CSVData, SchemaAnalysis, FieldSchema, FieldMapping } from '@/types'
+import {
+  AnalysisValidationReport,
+  CSVData,
+  DataType,
+  FieldMapping,
+  FieldSchema,
+  JsonSchemaDefinition,
+  MappingValidationIssue,
+  SchemaAnalysis
+} from '@/types'
+import { parseFieldPath } from './field-path'
+import { aiAnalysisResponseSchema, dataTypeSchema, InputValidator } from './input-validator'
+import { toTargetFields } from './json-schema'
+import { createLLMClient, LLMClient, LLMRequestOptions } from './llm-providers'
 import { inferDataType } from './utils'
 
+// Prompts de reparo enviados após uma resposta inválida
+const MAX_REPAIR_ATTEMPTS = 2
+
+const DATA_TYPES: string[] = dataTypeSchema.options
+
+// Tipos comuns devolvidos pelos modelos fora do vocabulário de DataType
+const TYPE_ALIASES: Record<string, DataType> = {
+  text: 'string',
+  varchar: 'string',
+  char: 'string',
+  integer: 'number',
+  int: 'number',
+  float: 'number',
+  decimal: 'number',
+  numeric: 'number',
+  double: 'number',
+  bool: 'boolean',
+  datetime: 'date',
+  timestamp: 'date',
+  telefone: 'phone',
+  uuid: 'id'
+}
+
+interface ResponseValidation {
+  errors: string[] // Erros que motivam um prompt de reparo
+  analysis: SchemaAnalysis | null // Análise com correções aplicadas; null se nada é aproveitável
+  issues: MappingValidationIssue[]
+}
+
+function normalizeKey(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+// Confiança de 0 a 100; frações (0-1] são convertidas para porcentagem
+function normalizeConfidence(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return 50
+  if (value > 0 && value <= 1) return Math.round(value * 100)
+  return Math.min(100, Math.max(0, value))
+}
+
 export class AIService {
-  private geminiClient?: GoogleGenerativeAI
-  private groqClient?: Groq
-  private provider: 'gemini' | 'groq'
+  private client: LLMClient
 
-  constructor(provider: 'gemini' | 'groq', apiKey: string) {
-    this.provider = provider
-    
-    if (provider === 'gemini') {
-      this.geminiClient = new GoogleGenerativeAI(apiKey)
-    } else {
-      this.groqClient = new Groq({ apiKey, dangerouslyAllowBrowser: true })
-    }
+  // provider é o id de um provedor registrado em llm-providers
+  constructor(provider: string, apiKey?: string, options: LLMRequestOptions = {}) {
+    this.client = createLLMClient(provider, { ...options, apiKey })
   }
 
-  async analyzeSchema(csvData: CSVData, targetSchema?: FieldSchema[]): Promise<SchemaAnalysis> {
+  // targetSchema pode ser uma lista de campos ou um JSON Schema completo, achatado em caminhos
+  async analyzeSchema(csvData: CSVData, targetSchema?: FieldSchema[] | JsonSchemaDefinition): Promise<SchemaAnalysis> {
     try {
       const sourceSchema = this.inferSourceSchema(csvData)
-      const prompt = this.buildAnalysisPrompt(sourceSchema, targetSchema, csvData)
-      
-      let response: string
-      
-      if (this.provider === 'gemini' && this.geminiClient) {
-        const model = this.geminiClient.getGenerativeModel({ model: 'gemini-1.5-flash' })
-        const result = await model.generateContent(prompt)
-        response = result.response.text()
-      } else if (this.provider === 'groq' && this.groqClient) {
-        const completion = await this.groqClient.chat.completions.create({
-          messages: [{ role: 'user', content: prompt }],
-          model: 'mixtral-8x7b-32768',
-          temperature: 0.1,
-        })
-        response = completion.choices[0]?.message?.content || ''
-      } else {
-        throw new Error('Cliente de IA não configurado')
+      const targetFields = targetSchema ? toTargetFields(targetSchema) : undefined
+      const prompt = this.buildAnalysisPrompt(sourceSchema, targetFields, csvData)
+
+      // Respostas inválidas recebem um prompt de reparo com os erros encontrados
+      let attempts = 0
+      let result: ResponseValidation
+      let nextPrompt = prompt
+      while (true) {
+        attempts++
+        const response = await this.client.complete(nextPrompt)
+        result = this.validateAnalysisResponse(response, csvData.headers, sourceSchema, targetFields)
+        if (result.errors.length === 0 || attempts > MAX_REPAIR_ATTEMPTS) break
+        console.warn(`Resposta da IA inválida (tentativa ${attempts}):`, result.errors)
+        nextPrompt = this.buildRepairPrompt(prompt, response, result.errors, csvData.headers)
+      }
+
+      const validation: AnalysisValidationReport = {
+        attempts,
+        repaired: attempts > 1 && result.errors.length === 0,
+        fallback: !result.analysis,
+        issues: result.issues
       }
 
-      return this.parseAnalysisResponse(response, sourceSchema)
+      return {
+        ...(result.analysis ?? this.buildFallbackAnalysis(sourceSchema)),
+        targetSchema: targetFields,
+        targetJsonSchema: targetSchema && !Array.isArray(targetSchema) ? targetSchema : undefined,
+        validation
+      }
     } catch (error) {
       console.error('Erro na análise de schema:', error)
-      throw new Error('Falha na análise do schema com IA')
+      throw new Error(`Falha na análise do schema com IA: ${error instanceof Error ? error.message : String(error)}`)
     }
   }
 
@@ -104,6 +158,7 @@ ${targetSchemaText}
 3. Identifique transformações necessárias (renomeação, conversão de tipo, normalização)
 4. Calcule um nível de confiança para cada mapeamento (0-100)
 5. Forneça uma explicação clara do raciocínio
+6. Campos aninhados usam caminhos: "endereco.cidade" para objetos e "telefones[0]" para itens de arrays; use exatamente os caminhos do schema de destino
 
 **RESPONDA EM FORMATO JSON:**
 {
@@ -125,50 +180,172 @@ Seja preciso e considere boas práticas de nomenclatura e tipos de dados moderno
 `
   }
 
-  private parseAnalysisResponse(response: string, sourceSchema: FieldSchema[]): SchemaAnalysis {
+  private validateAnalysisResponse(
+    response: string,
+    headers: string[],
+    sourceSchema: FieldSchema[],
+    targetSchema?: FieldSchema[]
+  ): ResponseValidation {
+    const jsonMatch = response.match(/\{[\s\S]*\}/)
+    let parsed: any
     try {
-      // Extrair JSON da resposta
-      const jsonMatch = response.match(/\{[\s\S]*\}/)
-      if (!jsonMatch) {
-        throw new Error('Resposta da IA não contém JSON válido')
+      parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : null
+    } catch {
+      parsed = null
+    }
+    if (!parsed || typeof parsed !== 'object') {
+      return { errors: ['A resposta não contém um objeto JSON válido'], analysis: null, issues: [] }
+    }
+
+    const validation = InputValidator.validateRequest(aiAnalysisResponseSchema, parsed)
+    const errors = validation.success
+      ? []
+      : validation.errors.map(error => `${error.field || 'resposta'}: ${error.message}`)
+
+    // Mapeamentos precisam apontar para cabeçalhos reais, sem repetição
+    const seen = new Set<string>()
+    const mappings: any[] = Array.isArray(parsed.suggestedMappings) ? parsed.suggestedMappings : []
+    mappings.forEach((mapping, index) => {
+      const sourceField = mapping?.sourceField
+      if (typeof sourceField !== 'string') return
+      if (!headers.includes(sourceField)) {
+        errors.push(`suggestedMappings.${index}.sourceField: o campo '${sourceField}' não existe na origem`)
+      } else if (seen.has(sourceField)) {
+        errors.push(`suggestedMappings.${index}.sourceField: o campo '${sourceField}' foi mapeado mais de uma vez`)
       }
+      seen.add(sourceField)
+    })
 
-      const parsed = JSON.parse(jsonMatch[0])
-      
-      const mappings: FieldMapping[] = parsed.suggestedMappings?.map((mapping: any) => ({
-        sourceField: mapping.sourceField,
-        targetField: mapping.targetField,
-        sourceType: mapping.sourceType,
-        targetType: mapping.targetType,
-        transformation: mapping.transformation,
-        confidence: mapping.confidence || 50
-      })) || []
+    if (!Array.isArray(parsed.suggestedMappings)) {
+      return { errors, analysis: null, issues: [] }
+    }
 
-      return {
-        sourceSchema,
-        suggestedMappings: mappings,
-        confidence: parsed.confidence || 50,
-        reasoning: parsed.reasoning || 'Análise automática realizada'
+    const issues: MappingValidationIssue[] = []
+    return { errors, analysis: this.sanitizeAnalysis(parsed, headers, sourceSchema, issues, targetSchema), issues }
+  }
+
+  // Corrige o que for possível e descarta o restante, registrando cada ajuste
+  private sanitizeAnalysis(
+    parsed: any,
+    headers: string[],
+    sourceSchema: FieldSchema[],
+    issues: MappingValidationIssue[],
+    targetSchema?: FieldSchema[]
+  ): SchemaAnalysis {
+    const headersByKey = new Map(headers.map(header => [normalizeKey(header), header]))
+    const targetsByKey = new Map((targetSchema ?? []).map(field => [normalizeKey(field.name), field.name]))
+    const mapped = new Set<string>()
+    const mappings: FieldMapping[] = []
+
+    for (const raw of parsed.suggestedMappings) {
+      const rawSource = typeof raw?.sourceField === 'string' ? raw.sourceField : String(raw?.sourceField ?? '')
+      const fixes: string[] = []
+
+      let sourceField = headers.includes(rawSource) ? rawSource : headersByKey.get(normalizeKey(rawSource))
+      if (!sourceField) {
+        issues.push({ sourceField: rawSource, action: 'dropped', reason: 'Campo de origem inexistente no arquivo' })
+        continue
       }
-    } catch (error) {
-      console.error('Erro ao parsear resposta da IA:', error)
-      
-      // Fallback: criar mapeamentos básicos
-      const fallbackMappings: FieldMapping[] = sourceSchema.map(field => ({
-        sourceField: field.name,
-        targetField: field.name.toLowerCase().replace(/[^a-z0-9]/g, '_'),
-        sourceType: field.type,
-        targetType: field.type,
-        transformation: 'Normalização de nome',
-        confidence: 30
-      }))
+      if (sourceField !== rawSource) fixes.push(`campo de origem '${rawSource}' corrigido para '${sourceField}'`)
 
-      return {
-        sourceSchema,
-        suggestedMappings: fallbackMappings,
-        confidence: 30,
-        reasoning: 'Mapeamento automático básico (falha na análise de IA)'
+      if (mapped.has(sourceField)) {
+        issues.push({ sourceField, action: 'dropped', reason: 'Campo de origem mapeado mais de uma vez' })
+        continue
+      }
+
+      const rawTarget = typeof raw.targetField === 'string' ? raw.targetField.trim() : ''
+      if (!rawTarget) {
+        issues.push({ sourceField, action: 'dropped', reason: 'Campo de destino ausente' })
+        continue
+      }
+      if (!parseFieldPath(rawTarget)) {
+        issues.push({ sourceField, action: 'dropped', reason: `Caminho de destino inválido: '${rawTarget}'` })
+        continue
+      }
+
+      // Caminhos do schema de destino com grafia diferente são corrigidos
+      const targetField = targetSchema?.some(field => field.name === rawTarget)
+        ? rawTarget
+        : targetsByKey.get(normalizeKey(rawTarget)) ?? rawTarget
+      if (targetField !== rawTarget) fixes.push(`campo de destino '${rawTarget}' corrigido para '${targetField}'`)
+
+      const inferredType = sourceSchema.find(field => field.name === sourceField)?.type ?? 'string'
+      let sourceType: DataType = inferredType
+      if (DATA_TYPES.includes(raw.sourceType)) {
+        sourceType = raw.sourceType
+      } else {
+        fixes.push(`tipo de origem '${raw.sourceType}' substituído por '${inferredType}'`)
       }
+
+      let targetType: DataType = sourceType
+      if (DATA_TYPES.includes(raw.targetType)) {
+        targetType = raw.targetType
+      } else {
+        targetType = TYPE_ALIASES[String(raw.targetType).toLowerCase()] ?? sourceType
+        fixes.push(`tipo de destino '${raw.targetType}' substituído por '${targetType}'`)
+      }
+
+      const confidence = normalizeConfidence(raw.confidence)
+      if (confidence !== raw.confidence) fixes.push(`confiança ${raw.confidence} ajustada para ${confidence}`)
+
+      if (fixes.length > 0) {
+        issues.push({ sourceField, action: 'fixed', reason: fixes.join('; ') })
+      }
+
+      mapped.add(sourceField)
+      mappings.push({
+        sourceField,
+        targetField,
+        sourceType,
+        targetType,
+        transformation: typeof raw.transformation === 'string' && raw.transformation.trim() ? raw.transformation : undefined,
+        confidence
+      })
+    }
+
+    return {
+      sourceSchema,
+      suggestedMappings: mappings,
+      confidence: normalizeConfidence(parsed.confidence),
+      reasoning: typeof parsed.reasoning === 'string' && parsed.reasoning.trim() ? parsed.reasoning : 'Análise automática realizada'
+    }
+  }
+
+  private buildRepairPrompt(originalPrompt: string, response: string, errors: string[], headers: string[]): string {
+    return `${originalPrompt}
+
+**SUA RESPOSTA ANTERIOR NÃO PASSOU NA VALIDAÇÃO:**
+${errors.slice(0, 20).map(error => `- ${error}`).join('\n')}
+
+**RESPOSTA ANTERIOR:**
+${response.slice(0, 4000)}
+
+Corrija a resposta respeitando estas regras:
+- "sourceField" deve ser exatamente um destes campos: ${headers.join(', ')}
+- "sourceType" e "targetType" devem ser um destes tipos: ${DATA_TYPES.join(', ')}
+- "confidence" deve ser um número de 0 a 100
+- Cada campo de origem aparece no máximo uma vez
+
+Responda APENAS com o JSON corrigido, no mesmo formato.
+`
+  }
+
+  // Mapeamento básico quando nenhuma resposta da IA é aproveitável
+  private buildFallbackAnalysis(sourceSchema: FieldSchema[]): SchemaAnalysis {
+    const fallbackMappings: FieldMapping[] = sourceSchema.map(field => ({
+      sourceField: field.name,
+      targetField: field.name.toLowerCase().replace(/[^a-z0-9]/g, '_'),
+      sourceType: field.type,
+      targetType: field.type,
+      transformation: 'Normalização de nome',
+      confidence: 30
+    }))
+
+    return {
+      sourceSchema,
+      suggestedMappings: fallbackMappings,
+      confidence: 30,
+      reasoning: 'Mapeamento automático básico (falha na análise de IA)'
     }
   }
 
@@ -194,22 +371,7 @@ Use convenções modernas: snake_case, tipos padronizados, nomes descritivos.
 `
 
     try {
-      let response: string
-      
-      if (this.provider === 'gemini' && this.geminiClient) {
-        const model = this.geminiClient.getGenerativeModel({ model: 'gemini-1.5-flash' })
-        const result = await model.generateContent(prompt)
-        response = result.response.text()
-      } else if (this.provider === 'groq' && this.groqClient) {
-        const completion = await this.groqClient.chat.completions.create({
-          messages: [{ role: 'user', content: prompt }],
-          model: 'mixtral-8x7b-32768',
-          temperature: 0.1,
-        })
-        response = completion.choices[0]?.message?.content || ''
-      } else {
-        throw new Error('Cliente de IA não configurado')
-      }
+      const response = await this.client.complete(prompt)
 
       const jsonMatch = response.match(/\{[\s\S]*\}/)
       if (jsonMatch) {
@@ -3,11 +3,15 @@
  * Identifica delimitadores, encoding, headers e características dos dados
  */
 
+import { EncodingDetection, EncodingDetector } from './encoding-detector';
+
 export interface CSVStructure {
   delimiter: string;
   hasHeader: boolean;
   encoding: string;
-  lineCount: number;
+  encodingConfidence: number;
+  lineCount: number; // Linhas na amostra analisada
+  sampled: boolean; // true quando apenas o início do conteúdo foi analisado
   columnCount: number;
   headers: string[];
   sampleData: string[][];
@@ -25,18 +29,27 @@ export interface ColumnInfo {
 }
 
 export class CSVDetector {
+  static readonly HEAD_SAMPLE_SIZE = 64 * 1024;
   private static readonly COMMON_DELIMITERS = [',', ';', '\t', '|', ':'];
-  private static readonly ENCODING_PATTERNS = {
-    'UTF-8': /[\u00C0-\u017F]/,
-    'ISO-8859-1': /[\xC0-\xFF]/,
-    'ASCII': /^[\x00-\x7F]*$/
-  };
 
   /**
    * Detecta automaticamente a estrutura do CSV
+   * Conteúdos grandes são analisados apenas pela amostra inicial (HEAD_SAMPLE_SIZE)
+   * Bytes brutos passam pela detecção de encoding; texto já decodificado é tratado como UTF-8
    */
-  static async detectStructure(content: string): Promise<CSVStructure> {
-    const lines = content.split(/\r?\n/).filter(line => line.trim());
+  static async detectStructure(content: string | Uint8Array, encoding?: EncodingDetection): Promise<CSVStructure> {
+    if (typeof content !== 'string') {
+      const head = content.subarray(0, this.HEAD_SAMPLE_SIZE);
+      const truncated = content.length > this.HEAD_SAMPLE_SIZE;
+      const detection = encoding ?? EncodingDetector.detect(head, truncated);
+      const text = EncodingDetector.decode(head, detection);
+      const structure = await this.detectStructure(truncated ? this.cutAtLastLine(text) : text);
+      return { ...structure, ...this.describeEncoding(detection), sampled: truncated };
+    }
+
+    const sampled = content.length > this.HEAD_SAMPLE_SIZE;
+    const sample = sampled ? this.cutAtLastLine(content.slice(0, this.HEAD_SAMPLE_SIZE)) : content;
+    const lines = sample.split(/\r?\n/).filter(line => line.trim());
     
     if (lines.length === 0) {
       throw new Error('Arquivo CSV vazio');
@@ -48,8 +61,13 @@ export class CSVDetector {
     // Detecta se tem header
     const hasHeader = this.detectHeader(lines, delimiter);
     
-    // Detecta encoding
-    const encoding = this.detectEncoding(content);
+    // Texto já decodificado: caracteres de substituição indicam encoding incorreto
+    const encodingInfo = this.describeEncoding(encoding ?? {
+      encoding: 'utf-8',
+      confidence: sample.includes('\uFFFD') ? 0.3 : 1,
+      hasBOM: false,
+      mixed: false
+    });
     
     // Parse das linhas
     const parsedLines = lines.map(line => this.parseLine(line, delimiter));
@@ -62,8 +80,9 @@ export class CSVDetector {
     return {
       delimiter,
       hasHeader,
-      encoding,
+      ...encodingInfo,
       lineCount: lines.length,
+      sampled,
       columnCount: headers.length,
       headers,
       sampleData: dataRows.slice(0, 10), // Primeiras 10 linhas como amostra
@@ -71,6 +90,30 @@ export class CSVDetector {
     };
   }
 
+  /**
+   * Detecta a estrutura lendo apenas o início do arquivo
+   */
+  static async detectStructureFromFile(file: Blob, encoding?: EncodingDetection): Promise<CSVStructure> {
+    // Um byte a mais sinaliza que a amostra foi cortada
+    const head = new Uint8Array(await file.slice(0, this.HEAD_SAMPLE_SIZE + 1).arrayBuffer());
+    return this.detectStructure(head, encoding);
+  }
+
+  private static describeEncoding(detection: EncodingDetection): Pick<CSVStructure, 'encoding' | 'encodingConfidence'> {
+    return {
+      encoding: detection.encoding,
+      encodingConfidence: detection.confidence
+    };
+  }
+
+  /**
+   * Descarta a última linha da amostra, que pode ter sido cortada no meio
+   */
+  private static cutAtLastLine(sample: string): string {
+    const lastBreak = sample.lastIndexOf('\n');
+    return lastBreak > 0 ? sample.slice(0, lastBreak) : sample;
+  }
+
   /**
    * Detecta o delimitador mais provável
    */
@@ -141,18 +184,6 @@ export class CSVDetector {
     return headerScore >= firstRow.length * 0.6;
   }
 
-  /**
-   * Detecta o encoding do arquivo
-   */
-  private static detectEncoding(content: string): string {
-    for (const [encoding, pattern] of Object.entries(this.ENCODING_PATTERNS)) {
-      if (pattern.test(content)) {
-        return encoding;
-      }
-    }
-    return 'UTF-8';
-  }
-
   /**
    * Faz parse de uma linha CSV
    */
@@ -0,0 +1,238 @@
+/**
+ * Ingestão de CSV em streaming
+ * A estrutura é detectada numa amostra do início do arquivo; as linhas passam por
+ * inferência, validação e transformação em lotes, sem manter o arquivo inteiro em memória
+ */
+
+import Papa from 'papaparse';
+import { CSVDetector, CSVStructure } from './csv-detector';
+import { DataTypeInference, TypeInferenceResult } from './data-type-inference';
+import { DataValidator, UNVALIDATED_TYPES } from './data-validator';
+import { EncodingDetection, EncodingDetector, TextEncoding } from './encoding-detector';
+import { executeRules } from './transformation-engine';
+import { FieldSchema, ProcessingStatus, TransformationRule, ValidationError } from '@/types';
+
+export const DEFAULT_BATCH_SIZE = 1000;
+const CHUNK_SIZE = 1024 * 1024; // 1MB por leitura
+const MAX_REPORTED_ERRORS = 1000;
+const SAMPLE_ROWS = 100;
+
+export type CSVSource = Blob | NodeJS.ReadableStream;
+
+export interface IngestionBatch {
+  index: number;
+  startRow: number;
+  headers: string[];
+  rows: string[][];
+  transformed?: Record<string, any>[];
+  schema?: FieldSchema[]; // Schema dos registros transformados neste lote
+  validationErrors: ValidationError[];
+}
+
+export interface StreamIngestionOptions {
+  structure?: CSVStructure; // Obrigatória para streams; para Blob é detectada no início do arquivo
+  hasHeader?: boolean; // Sobrescreve a detecção de cabeçalho
+  encoding?: TextEncoding; // Sobrescreve a detecção de encoding (apenas Blob; streams já chegam decodificados)
+  totalBytes?: number; // Usado no cálculo do progresso
+  batchSize?: number;
+  rules?: TransformationRule[];
+  onBatch?: (batch: IngestionBatch) => void | Promise<void>;
+  onProgress?: (status: ProcessingStatus) => void;
+}
+
+export interface StreamIngestionResult {
+  structure: CSVStructure;
+  encoding?: EncodingDetection;
+  headers: string[];
+  totalRows: number;
+  batches: number;
+  columnTypes: Record<string, TypeInferenceResult>;
+  sampleRows: string[][];
+  validationErrors: ValidationError[]; // Limitado a MAX_REPORTED_ERRORS
+  validationErrorCount: number;
+  parseErrors: string[];
+}
+
+/**
+ * Processa um CSV em lotes de `batchSize` linhas
+ * O próximo trecho do arquivo só é lido depois que `onBatch` termina
+ */
+export async function ingestCSV(source: CSVSource, options: StreamIngestionOptions = {}): Promise<StreamIngestionResult> {
+  let encoding: EncodingDetection | undefined;
+  let detected = options.structure;
+
+  // Blobs são transcodificados para UTF-8 antes do parse
+  if (isBlob(source)) {
+    encoding = options.encoding
+      ? EncodingDetector.fromOverride(options.encoding)
+      : await EncodingDetector.detectFile(source);
+    detected = detected ?? await CSVDetector.detectStructureFromFile(source, encoding);
+    source = await EncodingDetector.transcodeToUTF8(source, encoding);
+  }
+
+  if (!detected) {
+    throw new Error('Streams exigem a estrutura detectada previamente (options.structure)');
+  }
+
+  const hasHeader = options.hasHeader ?? detected.hasHeader;
+  const structure = { ...detected, hasHeader };
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const totalBytes = options.totalBytes ?? (isBlob(source) ? source.size : 0);
+  const validator = new DataValidator();
+
+  const result: StreamIngestionResult = {
+    structure,
+    encoding,
+    headers: hasHeader ? [] : structure.headers,
+    totalRows: 0,
+    batches: 0,
+    columnTypes: {},
+    sampleRows: [],
+    validationErrors: [],
+    validationErrorCount: 0,
+    parseErrors: []
+  };
+
+  let pending: string[][] = [];
+  let headerRead = !hasHeader;
+
+  const processBatch = async (rows: string[][]) => {
+    if (result.batches === 0) {
+      result.columnTypes = inferColumnTypes(result.headers, rows);
+    }
+
+    const batch: IngestionBatch = {
+      index: result.batches,
+      startRow: result.totalRows,
+      headers: result.headers,
+      rows,
+      validationErrors: validateRows(validator, result.headers, rows, result.columnTypes, result.totalRows)
+    };
+
+    if (options.rules && options.rules.length > 0) {
+      const transformed = executeRules(result.headers, rows, options.rules);
+      batch.transformed = transformed.data;
+      batch.schema = transformed.schema;
+      batch.validationErrors.push(...transformed.validationErrors.map(error => ({
+        ...error,
+        row: error.row + batch.startRow
+      })));
+    }
+
+    result.validationErrorCount += batch.validationErrors.length;
+    result.validationErrors.push(
+      ...batch.validationErrors.slice(0, Math.max(0, MAX_REPORTED_ERRORS - result.validationErrors.length))
+    );
+    if (result.sampleRows.length < SAMPLE_ROWS) {
+      result.sampleRows.push(...rows.slice(0, SAMPLE_ROWS - result.sampleRows.length));
+    }
+
+    result.totalRows += rows.length;
+    result.batches++;
+    await options.onBatch?.(batch);
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    Papa.parse<string[]>(source as Papa.LocalFile, {
+      header: false,
+      delimiter: structure.delimiter,
+      skipEmptyLines: true,
+      chunkSize: CHUNK_SIZE,
+      chunk: (results, parser) => {
+        parser.pause();
+
+        for (const error of results.errors) {
+          if (result.parseErrors.length < MAX_REPORTED_ERRORS) {
+            result.parseErrors.push(`Linha ${(error.row ?? 0) + 1}: ${error.message}`);
+          }
+        }
+
+        let rows = results.data;
+        if (!headerRead && rows.length > 0) {
+          result.headers = rows[0];
+          rows = rows.slice(1);
+          headerRead = true;
+        }
+        pending.push(...rows);
+
+        const run = async () => {
+          while (pending.length >= batchSize) {
+            await processBatch(pending.splice(0, batchSize));
+          }
+          options.onProgress?.({
+            step: 'upload',
+            status: 'processing',
+            progress: totalBytes > 0 ? Math.min(99, Math.round((results.meta.cursor / totalBytes) * 100)) : 0,
+            message: `${result.totalRows + pending.length} registros lidos`
+          });
+        };
+
+        run().then(() => parser.resume(), error => {
+          parser.abort();
+          reject(error);
+        });
+      },
+      complete: () => {
+        const rows = pending;
+        pending = [];
+        (rows.length > 0 ? processBatch(rows) : Promise.resolve()).then(() => {
+          options.onProgress?.({
+            step: 'upload',
+            status: 'completed',
+            progress: 100,
+            message: `${result.totalRows} registros processados`
+          });
+          resolve();
+        }, reject);
+      },
+      error: (error: Error) => reject(error)
+    });
+  });
+
+  return result;
+}
+
+function isBlob(source: CSVSource): source is Blob {
+  return typeof Blob !== 'undefined' && source instanceof Blob;
+}
+
+/**
+ * Infere o tipo de cada coluna a partir do primeiro lote
+ */
+function inferColumnTypes(headers: string[], rows: string[][]): Record<string, TypeInferenceResult> {
+  const columnTypes: Record<string, TypeInferenceResult> = {};
+  headers.forEach((header, index) => {
+    columnTypes[header] = DataTypeInference.inferType(rows.map(row => row[index] ?? ''), header);
+  });
+  return columnTypes;
+}
+
+/**
+ * Valida os valores não vazios de cada coluna contra o tipo inferido
+ */
+function validateRows(
+  validator: DataValidator,
+  headers: string[],
+  rows: string[][],
+  columnTypes: Record<string, TypeInferenceResult>,
+  startRow: number
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const columns = headers
+    .map((header, index) => ({ header, index, type: columnTypes[header]?.type }))
+    .filter(column => column.type && !UNVALIDATED_TYPES.includes(column.type));
+
+  rows.forEach((row, rowIndex) => {
+    for (const column of columns) {
+      const value = row[column.index] ?? '';
+      if (!value.trim()) continue;
+
+      const validation = validator.validateValue(value, column.type, column.header);
+      for (const error of validation.errors) {
+        errors.push({ row: startRow + rowIndex, field: column.header, value, error: error.message });
+      }
+    }
+  });
+
+  return errors;
+}
\ No newline at end of file
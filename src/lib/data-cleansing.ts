@@ -0,0 +1,248 @@
+/**
+ * Sugestões de limpeza de dados com correção aplicável
+ * Cada correção é uma TransformationRule `normalize` no próprio campo, executada pelo motor de transformação;
+ * a pré-visualização roda a mesma regra, então o antes/depois mostrado é o que o pipeline vai produzir
+ */
+
+import { TransformationRule } from '@/types';
+import { DataType, DataTypeInference } from './data-type-inference';
+import { executeRules, MOJIBAKE_PATTERN } from './transformation-engine';
+
+export type CleansingFixId =
+  | 'trim_whitespace'
+  | 'mojibake'
+  | 'cpf_mask'
+  | 'cnpj_mask'
+  | 'cep_mask'
+  | 'phone_e164'
+  | 'decimal_comma'
+  | 'name_case';
+
+export interface CleansingChange {
+  row: number;
+  before: string;
+  after: any;
+  error?: string; // Valor que a correção não consegue tratar; vira erro da linha no pipeline
+}
+
+export interface CleansingPreview {
+  affectedRows: number;
+  failedRows: number;
+  changes: CleansingChange[]; // Primeiras linhas afetadas
+}
+
+export interface CleansingSuggestion extends CleansingPreview {
+  fix: CleansingFixId;
+  field: string;
+  title: string;
+  description: string;
+  rule: TransformationRule;
+}
+
+export interface CleansingOptions {
+  previewRows?: number;
+  appliedRules?: TransformationRule[]; // Correções já aplicadas não são sugeridas de novo
+}
+
+interface ColumnContext {
+  name: string;
+  values: string[];
+  inferredType: DataType;
+}
+
+interface CleansingFix {
+  title: string;
+  description: string;
+  parameters: Record<string, any>;
+  applies: (column: ColumnContext) => boolean;
+}
+
+const DECIMAL_COMMA_PATTERN = /^-?(R\$\s*)?(\d{1,3}(\.\d{3})+|\d+),\d+$/;
+
+const INFERENCE_SAMPLE_SIZE = 200;
+
+const MIN_MATCH_SHARE = 0.8;
+
+const DEFAULT_PREVIEW_ROWS = 10;
+
+// Na ordem em que são sugeridas para cada coluna
+const CLEANSING_FIXES: Record<CleansingFixId, CleansingFix> = {
+  trim_whitespace: {
+    title: 'Remover espaços extras',
+    description: 'Remove espaços no início e no fim e espaços repetidos',
+    parameters: { type: 'whitespace' },
+    applies: () => true,
+  },
+  mojibake: {
+    title: 'Corrigir acentuação corrompida',
+    description: 'Desfaz textos UTF-8 lidos como Latin-1 (ex.: "JoÃ£o" → "João")',
+    parameters: { type: 'mojibake' },
+    applies: column => column.values.some(value => MOJIBAKE_PATTERN.test(value)),
+  },
+  cpf_mask: {
+    title: 'Padronizar máscara de CPF',
+    description: 'Formata todos os CPFs como 000.000.000-00',
+    parameters: { type: 'cpf', masked: true },
+    applies: column => column.inferredType === 'cpf' || (/cpf/i.test(column.name) && hasDigitCount(column, [11])),
+  },
+  cnpj_mask: {
+    title: 'Padronizar máscara de CNPJ',
+    description: 'Formata todos os CNPJs como 00.000.000/0000-00',
+    parameters: { type: 'cnpj', masked: true },
+    applies: column => column.inferredType === 'cnpj' || (/cnpj/i.test(column.name) && hasDigitCount(column, [14])),
+  },
+  cep_mask: {
+    title: 'Padronizar máscara de CEP',
+    description: 'Formata todos os CEPs como 00000-000',
+    parameters: { type: 'cep', masked: true },
+    applies: column => column.inferredType === 'cep' || (/cep/i.test(column.name) && hasDigitCount(column, [8])),
+  },
+  phone_e164: {
+    title: 'Telefones no padrão E.164',
+    description: 'Converte telefones para +55DDDNÚMERO',
+    parameters: { type: 'phone_e164' },
+    applies: column => column.inferredType === 'telefone' || column.inferredType === 'celular' ||
+      (/tel|fone|phone|celular|whats/i.test(column.name) && hasDigitCount(column, [10, 11, 12, 13])),
+  },
+  decimal_comma: {
+    title: 'Converter vírgula decimal',
+    description: 'Converte números no formato brasileiro (1.234,56) em valores numéricos',
+    parameters: { type: 'decimal' },
+    applies: column => {
+      const filled = column.values.filter(value => value.trim() !== '');
+      const withComma = filled.filter(value => DECIMAL_COMMA_PATTERN.test(value.trim())).length;
+      return withComma > 0 && withComma / filled.length >= MIN_MATCH_SHARE;
+    },
+  },
+  name_case: {
+    title: 'Nomes com iniciais maiúsculas',
+    description: 'Padroniza nomes próprios (ex.: "MARIA DA SILVA" → "Maria da Silva")',
+    parameters: { type: 'name' },
+    applies: column => /nome|name/i.test(column.name) && column.inferredType === 'texto_livre',
+  },
+};
+
+/**
+ * A inferência de tipo exige o formato já padronizado; para documentos e telefones sujos,
+ * basta o nome da coluna e a maioria dos valores com a quantidade de dígitos esperada
+ */
+function hasDigitCount(column: ColumnContext, lengths: number[]): boolean {
+  const filled = column.values.filter(value => value.trim() !== '');
+  const matching = filled.filter(value =>
+    /^[\d\s.\-\/()+]+$/.test(value) && lengths.includes(value.replace(/\D/g, '').length)
+  ).length;
+  return matching > 0 && matching / filled.length >= MIN_MATCH_SHARE;
+}
+
+/**
+ * Regra de transformação que aplica a correção no próprio campo
+ */
+export function buildCleansingRule(field: string, fix: CleansingFixId): TransformationRule {
+  return {
+    field,
+    operation: 'normalize',
+    parameters: { ...CLEANSING_FIXES[fix].parameters, fix },
+  };
+}
+
+/**
+ * Identifica a correção de uma regra criada por buildCleansingRule
+ */
+export function getCleansingFix(rule: TransformationRule): CleansingFixId | undefined {
+  const fix = rule.parameters?.fix;
+  return rule.operation === 'normalize' && Object.prototype.hasOwnProperty.call(CLEANSING_FIXES, fix) ? fix : undefined;
+}
+
+export function getCleansingFixTitle(fix: CleansingFixId): string {
+  return CLEANSING_FIXES[fix].title;
+}
+
+/**
+ * Sugere correções por coluna, só quando alteram ao menos uma linha
+ */
+export function suggestCleansingFixes(
+  data: { headers: string[]; rows: string[][] },
+  options: CleansingOptions = {}
+): CleansingSuggestion[] {
+  const previewRows = options.previewRows ?? DEFAULT_PREVIEW_ROWS;
+  const applied = new Set((options.appliedRules ?? []).map(rule => `${rule.field}\u0000${getCleansingFix(rule)}`));
+  const suggestions: CleansingSuggestion[] = [];
+
+  data.headers.forEach((name, index) => {
+    const values = data.rows.map(row => row[index] ?? '');
+    const samples = values.filter(value => value.trim() !== '').slice(0, INFERENCE_SAMPLE_SIZE);
+    if (samples.length === 0) return;
+
+    const column: ColumnContext = {
+      name,
+      values,
+      inferredType: DataTypeInference.inferType(samples, name).type,
+    };
+
+    for (const [fix, definition] of Object.entries(CLEANSING_FIXES) as Array<[CleansingFixId, CleansingFix]>) {
+      if (applied.has(`${name}\u0000${fix}`) || !definition.applies(column)) continue;
+
+      const rule = buildCleansingRule(name, fix);
+      const preview = previewColumn(values, rule, previewRows);
+      if (preview.affectedRows === 0) continue;
+
+      suggestions.push({
+        fix,
+        field: name,
+        title: definition.title,
+        description: definition.description,
+        rule,
+        ...preview,
+      });
+    }
+  });
+
+  return suggestions;
+}
+
+/**
+ * Antes/depois de uma regra sobre as linhas que ela altera
+ */
+export function previewCleansingRule(
+  data: { headers: string[]; rows: string[][] },
+  rule: TransformationRule,
+  previewRows: number = DEFAULT_PREVIEW_ROWS
+): CleansingPreview {
+  const index = data.headers.indexOf(rule.field);
+  if (index === -1) return { affectedRows: 0, failedRows: 0, changes: [] };
+  return previewColumn(data.rows.map(row => row[index] ?? ''), rule, previewRows);
+}
+
+/**
+ * Executa a regra uma vez por valor distinto, gravando o resultado num campo auxiliar
+ * (regras sem targetField alteram o campo no lugar e não aparecem na saída do motor)
+ */
+function previewColumn(values: string[], rule: TransformationRule, previewRows: number): CleansingPreview {
+  const distinct = Array.from(new Set(values));
+  const result = executeRules(
+    ['value'],
+    distinct.map(value => [value]),
+    [{ ...rule, field: 'value', parameters: { ...rule.parameters, targetField: 'fixed' } }]
+  );
+  const errors = new Map(result.validationErrors.map(error => [error.row, error.error]));
+
+  const outcomes = new Map<string, { after: any; error?: string }>();
+  distinct.forEach((value, index) => {
+    outcomes.set(value, { after: result.data[index].fixed, error: errors.get(index) });
+  });
+
+  const preview: CleansingPreview = { affectedRows: 0, failedRows: 0, changes: [] };
+  values.forEach((before, row) => {
+    const outcome = outcomes.get(before)!;
+    const changed = outcome.error !== undefined || String(outcome.after ?? '') !== before;
+    if (!changed) return;
+
+    preview.affectedRows++;
+    if (outcome.error !== undefined) preview.failedRows++;
+    if (preview.changes.length < previewRows) {
+      preview.changes.push({ row, before, after: outcome.after, error: outcome.error });
+    }
+  });
+
+  return preview;
+}
\ No newline at end of file
@@ -0,0 +1,432 @@
+/**
+ * Perfil de qualidade dos dados, coluna a coluna, para revisão antes do mapeamento
+ * Combina CSVDetector.analyzeColumns, DataTypeInference.inferType e o DataValidator do tipo inferido;
+ * exportável em JSON ou como página HTML autocontida
+ */
+
+import { CSVDetector, ColumnInfo, CSVStructure } from './csv-detector';
+import { DataType, DataTypeInference } from './data-type-inference';
+import { DataValidator, UNVALIDATED_TYPES } from './data-validator';
+import { parseNumber } from './transformation-engine';
+
+const DEFAULT_TOP_VALUES = 10;
+const DEFAULT_TOP_PATTERNS = 10;
+const MAX_PATTERN_LENGTH = 40;
+const MAX_EXAMPLES = 5;
+const LENGTH_BUCKETS = 10;
+const NUMERIC_THRESHOLD = 0.9; // Fração dos valores preenchidos que precisa ser numérica
+const IQR_FACTOR = 1.5;
+
+export interface ProfileOptions {
+  fileName?: string;
+  topValues?: number;
+  topPatterns?: number;
+}
+
+export interface ValueFrequency {
+  value: string;
+  count: number;
+  rate: number; // Sobre os valores preenchidos
+}
+
+export interface NumericStats {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  stdDev: number;
+}
+
+export interface LengthStats {
+  min: number;
+  max: number;
+  mean: number;
+  histogram: Array<{ from: number; to: number; count: number }>;
+}
+
+export interface OutlierReport {
+  basis: 'value' | 'length'; // Valor numérico ou, em colunas de texto, comprimento
+  lowerBound: number;
+  upperBound: number;
+  count: number;
+  examples: Array<{ row: number; value: string }>;
+}
+
+export interface ColumnValidationStats {
+  type: DataType;
+  checked: number;
+  failed: number;
+  failureRate: number;
+  examples: Array<{ row: number; value: string; message: string }>;
+}
+
+export interface ColumnProfile {
+  name: string;
+  index: number;
+  detectedType: ColumnInfo['type']; // CSVDetector
+  inferredType: DataType; // DataTypeInference
+  typeConfidence: number;
+  count: number;
+  nullCount: number;
+  nullRate: number;
+  distinctCount: number;
+  unique: boolean;
+  topValues: ValueFrequency[];
+  patterns: ValueFrequency[]; // 9 = dígito, A/a = letra maiúscula/minúscula
+  distinctPatterns: number;
+  lengths?: LengthStats;
+  numeric?: NumericStats;
+  outliers?: OutlierReport;
+  validation?: ColumnValidationStats; // Ausente em tipos sem validador (texto livre, enum)
+}
+
+export interface DataProfile {
+  fileName?: string;
+  generatedAt: string;
+  totalRows: number;
+  totalColumns: number;
+  summary: {
+    nullRate: number;
+    columnsWithNulls: number;
+    columnsWithValidationFailures: number;
+    columnsWithOutliers: number;
+  };
+  columns: ColumnProfile[];
+}
+
+/**
+ * Gera o perfil de todas as colunas
+ */
+export function profileData(data: { headers: string[]; rows: string[][] }, options: ProfileOptions = {}): DataProfile {
+  const { headers, rows } = data;
+  const validator = new DataValidator();
+  const detected = CSVDetector.analyzeColumns(toStructure(headers, rows));
+
+  const columns = headers.map((name, index) =>
+    profileColumn(name, index, rows.map(row => row[index] ?? ''), detected[index], validator, options)
+  );
+
+  const totalCells = rows.length * headers.length;
+  return {
+    fileName: options.fileName,
+    generatedAt: new Date().toISOString(),
+    totalRows: rows.length,
+    totalColumns: headers.length,
+    summary: {
+      nullRate: totalCells > 0 ? columns.reduce((sum, column) => sum + column.nullCount, 0) / totalCells : 0,
+      columnsWithNulls: columns.filter(column => column.nullCount > 0).length,
+      columnsWithValidationFailures: columns.filter(column => (column.validation?.failed ?? 0) > 0).length,
+      columnsWithOutliers: columns.filter(column => (column.outliers?.count ?? 0) > 0).length
+    },
+    columns
+  };
+}
+
+function profileColumn(
+  name: string,
+  index: number,
+  rawValues: string[],
+  detected: ColumnInfo,
+  validator: DataValidator,
+  options: ProfileOptions
+): ColumnProfile {
+  const filled: Array<{ row: number; value: string }> = [];
+  rawValues.forEach((raw, row) => {
+    const value = raw.trim();
+    if (value) filled.push({ row, value });
+  });
+
+  const values = filled.map(item => item.value);
+  const frequencies = countValues(values);
+  const inference = DataTypeInference.inferType(values, name);
+  const patterns = countValues(values.map(toPattern));
+
+  const profile: ColumnProfile = {
+    name,
+    index,
+    detectedType: detected.type,
+    inferredType: inference.type,
+    typeConfidence: inference.confidence,
+    count: rawValues.length,
+    nullCount: rawValues.length - values.length,
+    nullRate: rawValues.length > 0 ? (rawValues.length - values.length) / rawValues.length : 0,
+    distinctCount: frequencies.size,
+    unique: values.length > 0 && frequencies.size === values.length,
+    topValues: topFrequencies(frequencies, values.length, options.topValues ?? DEFAULT_TOP_VALUES),
+    patterns: topFrequencies(patterns, values.length, options.topPatterns ?? DEFAULT_TOP_PATTERNS),
+    distinctPatterns: patterns.size
+  };
+
+  if (values.length === 0) return profile;
+
+  const lengths = values.map(value => value.length);
+  profile.lengths = lengthStats(lengths);
+
+  const numbers = filled
+    .map(item => ({ row: item.row, value: item.value, number: parseNumber(item.value) }))
+    .filter((item): item is { row: number; value: string; number: number } => item.number !== null);
+
+  if (numbers.length / values.length >= NUMERIC_THRESHOLD) {
+    profile.numeric = numericStats(numbers.map(item => item.number));
+    profile.outliers = findOutliers(numbers.map(item => ({ row: item.row, value: item.value, measure: item.number })), 'value');
+  } else {
+    profile.outliers = findOutliers(filled.map(item => ({ ...item, measure: item.value.length })), 'length');
+  }
+
+  if (!UNVALIDATED_TYPES.includes(inference.type)) {
+    profile.validation = validationStats(filled, frequencies, inference.type, name, validator);
+  }
+
+  return profile;
+}
+
+/**
+ * Valida cada valor distinto uma vez; as falhas são contadas com as repetições
+ */
+function validationStats(
+  filled: Array<{ row: number; value: string }>,
+  frequencies: Map<string, number>,
+  type: DataType,
+  field: string,
+  validator: DataValidator
+): ColumnValidationStats {
+  const failures = new Map<string, string>();
+  frequencies.forEach((_count, value) => {
+    const result = validator.validateValue(value, type, field);
+    if (!result.isValid) failures.set(value, result.errors[0]?.message ?? 'Valor inválido');
+  });
+
+  let failed = 0;
+  failures.forEach((_message, value) => { failed += frequencies.get(value) ?? 0; });
+
+  return {
+    type,
+    checked: filled.length,
+    failed,
+    failureRate: filled.length > 0 ? failed / filled.length : 0,
+    examples: filled
+      .filter(item => failures.has(item.value))
+      .slice(0, MAX_EXAMPLES)
+      .map(item => ({ ...item, message: failures.get(item.value)! }))
+  };
+}
+
+/**
+ * Forma do valor: dígitos viram 9 e letras viram A ou a (ex.: `999.999.999-99`)
+ */
+function toPattern(value: string): string {
+  const pattern = value
+    .replace(/\d/g, '9')
+    .replace(/[A-ZÀ-Þ]/g, 'A')
+    .replace(/[a-zß-ÿ]/g, 'a');
+  return pattern.length > MAX_PATTERN_LENGTH ? `${pattern.slice(0, MAX_PATTERN_LENGTH)}…` : pattern;
+}
+
+function countValues(values: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return counts;
+}
+
+function topFrequencies(counts: Map<string, number>, total: number, limit: number): ValueFrequency[] {
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([value, count]) => ({ value, count, rate: total > 0 ? count / total : 0 }));
+}
+
+function numericStats(numbers: number[]): NumericStats {
+  const sorted = numbers.slice().sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const variance = sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / sorted.length;
+
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean,
+    median: quantile(sorted, 0.5),
+    stdDev: Math.sqrt(variance)
+  };
+}
+
+/**
+ * Comprimentos em até LENGTH_BUCKETS faixas de mesma largura
+ */
+function lengthStats(lengths: number[]): LengthStats {
+  const min = lengths.reduce((acc, length) => Math.min(acc, length), Infinity);
+  const max = lengths.reduce((acc, length) => Math.max(acc, length), 0);
+  const width = Math.max(1, Math.ceil((max - min + 1) / LENGTH_BUCKETS));
+
+  const histogram: LengthStats['histogram'] = [];
+  for (let from = min; from <= max; from += width) {
+    histogram.push({ from, to: Math.min(from + width - 1, max), count: 0 });
+  }
+  lengths.forEach(length => { histogram[Math.floor((length - min) / width)].count++; });
+
+  return {
+    min,
+    max,
+    mean: lengths.reduce((sum, length) => sum + length, 0) / lengths.length,
+    histogram: histogram.filter(bucket => bucket.count > 0)
+  };
+}
+
+/**
+ * Outliers pela regra de Tukey: fora de [Q1 - 1,5·IQR, Q3 + 1,5·IQR]
+ */
+function findOutliers(items: Array<{ row: number; value: string; measure: number }>, basis: OutlierReport['basis']): OutlierReport | undefined {
+  if (items.length < 4) return undefined;
+
+  const sorted = items.map(item => item.measure).sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const lowerBound = q1 - IQR_FACTOR * (q3 - q1);
+  const upperBound = q3 + IQR_FACTOR * (q3 - q1);
+  const outliers = items.filter(item => item.measure < lowerBound || item.measure > upperBound);
+
+  return {
+    basis,
+    lowerBound,
+    upperBound,
+    count: outliers.length,
+    examples: outliers.slice(0, MAX_EXAMPLES).map(({ row, value }) => ({ row, value }))
+  };
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function toStructure(headers: string[], rows: string[][]): CSVStructure {
+  return {
+    delimiter: ',',
+    hasHeader: true,
+    encoding: 'utf-8',
+    encodingConfidence: 1,
+    lineCount: rows.length,
+    sampled: false,
+    columnCount: headers.length,
+    headers,
+    sampleData: rows,
+    confidence: 1
+  };
+}
+
+// Exportação
+
+export function exportProfileJSON(profile: DataProfile): string {
+  return JSON.stringify(profile, null, 2);
+}
+
+/**
+ * Página HTML autocontida (sem scripts nem recursos externos), para envio ao cliente
+ */
+export function renderProfileHTML(profile: DataProfile): string {
+  const title = `Perfil de qualidade${profile.fileName ? ` - ${profile.fileName}` : ''}`;
+  const { summary } = profile;
+
+  const overview = profile.columns.map(column => `
+      <tr>
+        <td><a href="#col-${column.index}">${escapeHTML(column.name)}</a></td>
+        <td>${column.inferredType} <small>(${formatPercent(column.typeConfidence)})</small></td>
+        <td class="num">${formatPercent(column.nullRate)}</td>
+        <td class="num">${column.distinctCount}</td>
+        <td class="num">${column.validation ? formatPercent(column.validation.failureRate) : '-'}</td>
+        <td class="num">${column.outliers?.count ?? '-'}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+  h1 { font-size: 1.5rem; } h2 { font-size: 1.15rem; margin-top: 2rem; border-bottom: 1px solid #e5e7eb; }
+  table { border-collapse: collapse; margin: .5rem 0 1rem; font-size: .875rem; }
+  th, td { border: 1px solid #e5e7eb; padding: .25rem .5rem; text-align: left; vertical-align: top; }
+  th { background: #f9fafb; } .num { text-align: right; } code { background: #f3f4f6; padding: 0 .25rem; }
+  .warn { color: #b45309; } .meta { color: #6b7280; font-size: .875rem; }
+  .bar { display: inline-block; height: .6rem; background: #3b82f6; }
+</style>
+</head>
+<body>
+<h1>${escapeHTML(title)}</h1>
+<p class="meta">Gerado em ${escapeHTML(profile.generatedAt)} • ${profile.totalRows} registros • ${profile.totalColumns} colunas •
+  ${formatPercent(summary.nullRate)} de células vazias • ${summary.columnsWithValidationFailures} coluna(s) com valores inválidos •
+  ${summary.columnsWithOutliers} coluna(s) com outliers</p>
+<table>
+  <thead><tr><th>Coluna</th><th>Tipo inferido</th><th>Vazios</th><th>Distintos</th><th>Inválidos</th><th>Outliers</th></tr></thead>
+  <tbody>${overview}
+  </tbody>
+</table>
+${profile.columns.map(renderColumnHTML).join('\n')}
+</body>
+</html>`;
+}
+
+function renderColumnHTML(column: ColumnProfile): string {
+  const sections: string[] = [
+    `<p class="meta">Tipo detectado: ${column.detectedType} • inferido: ${column.inferredType} (${formatPercent(column.typeConfidence)}) •
+      ${column.count - column.nullCount} preenchidos, ${column.nullCount} vazios (${formatPercent(column.nullRate)}) •
+      ${column.distinctCount} distintos${column.unique ? ' (únicos)' : ''}</p>`,
+    renderFrequencyTable('Valores mais frequentes', column.topValues),
+    renderFrequencyTable(`Padrões (${column.distinctPatterns} distintos)`, column.patterns, true)
+  ];
+
+  if (column.numeric) {
+    const { min, max, mean, median, stdDev } = column.numeric;
+    sections.push(`<table><thead><tr><th>Mínimo</th><th>Máximo</th><th>Média</th><th>Mediana</th><th>Desvio padrão</th></tr></thead>
+      <tbody><tr>${[min, max, mean, median, stdDev].map(value => `<td class="num">${formatNumber(value)}</td>`).join('')}</tr></tbody></table>`);
+  }
+
+  if (column.lengths) {
+    const peak = Math.max(...column.lengths.histogram.map(bucket => bucket.count));
+    sections.push(`<table><thead><tr><th>Comprimento</th><th>Qtd.</th><th></th></tr></thead><tbody>${column.lengths.histogram.map(bucket => `
+      <tr><td>${bucket.from === bucket.to ? bucket.from : `${bucket.from}-${bucket.to}`}</td><td class="num">${bucket.count}</td>
+      <td><span class="bar" style="width:${Math.round(bucket.count / peak * 120)}px"></span></td></tr>`).join('')}</tbody></table>`);
+  }
+
+  if (column.outliers && column.outliers.count > 0) {
+    const { basis, lowerBound, upperBound, count, examples } = column.outliers;
+    sections.push(`<p class="warn">${count} outlier(s) por ${basis === 'value' ? 'valor' : 'comprimento'} fora de
+      [${formatNumber(lowerBound)}, ${formatNumber(upperBound)}]: ${examples.map(example => `linha ${example.row + 1}: <code>${escapeHTML(example.value)}</code>`).join(', ')}</p>`);
+  }
+
+  if (column.validation) {
+    const { type, failed, checked, failureRate, examples } = column.validation;
+    sections.push(`<p class="${failed > 0 ? 'warn' : 'meta'}">Validação como ${type}: ${failed} de ${checked} inválidos (${formatPercent(failureRate)})${
+      examples.length > 0 ? ` - ${examples.map(example => `linha ${example.row + 1}: <code>${escapeHTML(example.value)}</code> (${escapeHTML(example.message)})`).join('; ')}` : ''
+    }</p>`);
+  }
+
+  return `<h2 id="col-${column.index}">${escapeHTML(column.name)}</h2>\n${sections.join('\n')}`;
+}
+
+function renderFrequencyTable(title: string, frequencies: ValueFrequency[], code = false): string {
+  if (frequencies.length === 0) return '';
+  return `<table><thead><tr><th>${title}</th><th>Qtd.</th><th>%</th></tr></thead><tbody>${frequencies.map(item => `
+    <tr><td>${code ? `<code>${escapeHTML(item.value)}</code>` : escapeHTML(item.value)}</td><td class="num">${item.count}</td><td class="num">${formatPercent(item.rate)}</td></tr>`).join('')}</tbody></table>`;
+}
+
+function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
\ No newline at end of file
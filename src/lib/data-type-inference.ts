@@ -98,7 +98,8 @@ export class DataTypeInference {
     texto_livre: /.*/
   };
 
-  private static readonly TYPE_KEYWORDS: Record<string, DataType[]> = {
+  // Palavras do nome da coluna; só as que são tipos conhecidos entram na inferência
+  private static readonly TYPE_KEYWORDS: Record<string, string[]> = {
     'cpf': ['cpf'],
     'cnpj': ['cnpj'],
     'rg': ['rg', 'identidade'],
@@ -172,7 +173,7 @@ export class DataTypeInference {
     
     for (const [keyword, types] of Object.entries(this.TYPE_KEYWORDS)) {
       if (name.includes(keyword)) {
-        possibleTypes.push(...types);
+        possibleTypes.push(...types.filter((type): type is DataType => type in this.TYPE_PATTERNS));
       }
     }
     
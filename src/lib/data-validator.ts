@@ -5,6 +5,9 @@
 
 import { DataType } from './data-type-inference';
 
+// Tipos genéricos demais para validar valor a valor
+export const UNVALIDATED_TYPES: DataType[] = ['texto_livre', 'enum'];
+
 export interface ValidationResult {
   isValid: boolean;
   errors: ValidationError[];
@@ -16,11 +19,13 @@ export interface ValidationResult {
 
 export interface ValidationError {
   field: string;
-  type: 'format' | 'range' | 'required' | 'pattern' | 'checksum' | 'business_rule';
+  type: 'format' | 'range' | 'required' | 'pattern' | 'checksum' | 'business_rule' | 'uniqueness' | 'consistency' | 'referential';
   message: string;
   severity: 'critical' | 'high' | 'medium' | 'low';
   originalValue: string;
   expectedFormat?: string;
+  row?: number; // Coordenadas nas validações do conjunto de dados (linha a partir de 0 e índice da coluna)
+  column?: number;
 }
 
 export interface ValidationWarning {
@@ -28,6 +33,8 @@ export interface ValidationWarning {
   type: 'format_suggestion' | 'data_quality' | 'inconsistency';
   message: string;
   suggestion: string;
+  row?: number;
+  column?: number;
 }
 
 export interface ValidationConfig {
@@ -687,7 +694,7 @@ export class DataValidator {
   }
 
   // Implementações adicionais para outros tipos...
-  private validateRG(value: string, field: string, result: ValidationResult): ValidationResult {
+  private validateRG(value: string, field: string = 'rg', result: ValidationResult): ValidationResult {
     // Implementação simplificada para RG
     const numbers = value.replace(/\D/g, '');
     if (numbers.length < 7 || numbers.length > 9) {
@@ -703,7 +710,7 @@ export class DataValidator {
     return result;
   }
 
-  private validateISODate(value: string, field: string, result: ValidationResult): ValidationResult {
+  private validateISODate(value: string, field: string = 'data', result: ValidationResult): ValidationResult {
     const date = new Date(value);
     if (isNaN(date.getTime())) {
       result.isValid = false;
@@ -718,7 +725,7 @@ export class DataValidator {
     return result;
   }
 
-  private validateDateTime(value: string, field: string, result: ValidationResult): ValidationResult {
+  private validateDateTime(value: string, field: string = 'data_hora', result: ValidationResult): ValidationResult {
     const date = new Date(value);
     if (isNaN(date.getTime())) {
       result.isValid = false;
@@ -733,7 +740,7 @@ export class DataValidator {
     return result;
   }
 
-  private validateDecimal(value: string, field: string, result: ValidationResult): ValidationResult {
+  private validateDecimal(value: string, field: string = 'numero', result: ValidationResult): ValidationResult {
     const cleanValue = value.replace(',', '.');
     if (isNaN(parseFloat(cleanValue))) {
       result.isValid = false;
@@ -750,7 +757,7 @@ export class DataValidator {
     return result;
   }
 
-  private validateInteger(value: string, field: string, result: ValidationResult): ValidationResult {
+  private validateInteger(value: string, field: string = 'numero', result: ValidationResult): ValidationResult {
     if (!/^-?\d+$/.test(value)) {
       result.isValid = false;
       result.errors.push({
@@ -764,7 +771,7 @@ export class DataValidator {
     return result;
   }
 
-  private validatePercentage(value: string, field: string, result: ValidationResult): ValidationResult {
+  private validatePercentage(value: string, field: string = 'percentual', result: ValidationResult): ValidationResult {
     const cleanValue = value.replace('%', '').replace(',', '.');
     const numValue = parseFloat(cleanValue);
     if (isNaN(numValue) || numValue < 0 || numValue > 100) {
@@ -780,7 +787,7 @@ export class DataValidator {
     return result;
   }
 
-  private validateTransactionId(value: string, field: string, result: ValidationResult): ValidationResult {
+  private validateTransactionId(value: string, field: string = 'transacao', result: ValidationResult): ValidationResult {
     if (!/^[A-Z]{2,4}-\d+$|^TX-\d{8}-\d{4}$/.test(value)) {
       result.warnings.push({
         field,
@@ -792,7 +799,7 @@ export class DataValidator {
     return result;
   }
 
-  private validateUUID(value: string, field: string, result: ValidationResult): ValidationResult {
+  private validateUUID(value: string, field: string = 'uuid', result: ValidationResult): ValidationResult {
     if (!/^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/i.test(value)) {
       result.isValid = false;
       result.errors.push({
@@ -808,7 +815,7 @@ export class DataValidator {
     return result;
   }
 
-  private validateBoolean(value: string, field: string, result: ValidationResult, type: DataType): ValidationResult {
+  private validateBoolean(value: string, field: string = 'booleano', result: ValidationResult, type: DataType): ValidationResult {
     const lowerValue = value.toLowerCase();
     const ptbrValues = ['sim', 'não', 's', 'n', 'verdadeiro', 'falso', 'ativo', 'inativo'];
     const enValues = ['true', 'false', 'yes', 'no', 'y', 'n', '1', '0'];
@@ -0,0 +1,196 @@
+/**
+ * Adaptadores de drivers reais para os bancos suportados pelo DatabaseService
+ * Cada adaptador expõe a mesma interface mínima: execução parametrizada e transação
+ */
+
+export type DatabaseType = 'postgresql' | 'mysql' | 'sqlite' | 'sqlserver';
+
+export interface ParameterizedQuery {
+  sql: string;
+  params: unknown[];
+}
+
+export interface QueryExecutionResult {
+  rowCount: number;
+  rows: Record<string, any>[];
+}
+
+export interface DatabaseConnection {
+  readonly type: DatabaseType;
+  execute(sql: string, params?: unknown[]): Promise<QueryExecutionResult>;
+  beginTransaction(): Promise<void>;
+  commit(): Promise<void>;
+  rollback(): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface ConnectionInfo {
+  type: DatabaseType;
+  connectionString: string;
+  host?: string;
+  port?: number;
+  database?: string;
+  username?: string;
+  password?: string;
+}
+
+/**
+ * Limite de parâmetros por statement em cada banco
+ * Usado para dimensionar os lotes de INSERT parametrizados
+ */
+export const MAX_PARAMETERS: Record<DatabaseType, number> = {
+  postgresql: 65535,
+  mysql: 65535,
+  sqlite: 32766,
+  sqlserver: 2100
+};
+
+/**
+ * Gera o placeholder de parâmetro no formato do banco (índice começa em 1)
+ */
+export function placeholder(type: DatabaseType, index: number): string {
+  switch (type) {
+    case 'postgresql':
+      return `$${index}`;
+    case 'sqlserver':
+      return `@p${index}`;
+    default:
+      return '?';
+  }
+}
+
+/**
+ * Abre uma conexão real usando o driver correspondente ao tipo do banco
+ * Os drivers são carregados sob demanda para que apenas o necessário seja instalado
+ */
+export async function openConnection(info: ConnectionInfo): Promise<DatabaseConnection> {
+  switch (info.type) {
+    case 'postgresql':
+      return openPostgresConnection(info);
+    case 'mysql':
+      return openMySQLConnection(info);
+    case 'sqlite':
+      return openSQLiteConnection(info);
+    case 'sqlserver':
+      return openSQLServerConnection(info);
+    default:
+      throw new Error(`Tipo de banco não suportado: ${info.type}`);
+  }
+}
+
+async function openPostgresConnection(info: ConnectionInfo): Promise<DatabaseConnection> {
+  const { Client } = await import('pg');
+  const client = new Client({ connectionString: info.connectionString });
+  await client.connect();
+
+  const execute = async (sql: string, params: unknown[] = []): Promise<QueryExecutionResult> => {
+    const result = await client.query(sql, params as any[]);
+    return { rowCount: result.rowCount ?? 0, rows: result.rows ?? [] };
+  };
+
+  return {
+    type: 'postgresql',
+    execute,
+    beginTransaction: async () => { await execute('BEGIN'); },
+    commit: async () => { await execute('COMMIT'); },
+    rollback: async () => { await execute('ROLLBACK'); },
+    close: () => client.end()
+  };
+}
+
+async function openMySQLConnection(info: ConnectionInfo): Promise<DatabaseConnection> {
+  const mysql = await import('mysql2/promise');
+  const connection = await mysql.createConnection(info.connectionString);
+
+  const execute = async (sql: string, params: unknown[] = []): Promise<QueryExecutionResult> => {
+    const [result] = params.length > 0
+      ? await connection.execute(sql, params as any[])
+      : await connection.query(sql);
+
+    if (Array.isArray(result)) {
+      return { rowCount: result.length, rows: result as Record<string, any>[] };
+    }
+    return { rowCount: (result as any).affectedRows ?? 0, rows: [] };
+  };
+
+  return {
+    type: 'mysql',
+    execute,
+    beginTransaction: () => connection.beginTransaction(),
+    commit: () => connection.commit(),
+    rollback: () => connection.rollback(),
+    close: () => connection.end()
+  };
+}
+
+async function openSQLiteConnection(info: ConnectionInfo): Promise<DatabaseConnection> {
+  const { default: Database } = await import('better-sqlite3');
+  const db = new Database(info.database || ':memory:');
+
+  const execute = async (sql: string, params: unknown[] = []): Promise<QueryExecutionResult> => {
+    const statement = db.prepare(sql);
+    if (statement.reader) {
+      const rows = statement.all(...params) as Record<string, any>[];
+      return { rowCount: rows.length, rows };
+    }
+    const result = statement.run(...params);
+    return { rowCount: result.changes, rows: [] };
+  };
+
+  return {
+    type: 'sqlite',
+    execute,
+    beginTransaction: async () => { db.exec('BEGIN'); },
+    commit: async () => { db.exec('COMMIT'); },
+    rollback: async () => {
+      if (db.inTransaction) db.exec('ROLLBACK');
+    },
+    close: async () => { db.close(); }
+  };
+}
+
+async function openSQLServerConnection(info: ConnectionInfo): Promise<DatabaseConnection> {
+  const mssql = await import('mssql');
+  const pool = await new mssql.ConnectionPool({
+    server: info.host || 'localhost',
+    port: info.port,
+    database: info.database,
+    user: info.username,
+    password: info.password,
+    options: {
+      encrypt: process.env.MSSQL_ENCRYPT === 'true',
+      trustServerCertificate: process.env.MSSQL_TRUST_SERVER_CERTIFICATE !== 'false'
+    }
+  }).connect();
+
+  let transaction: InstanceType<typeof mssql.Transaction> | null = null;
+
+  const execute = async (sql: string, params: unknown[] = []): Promise<QueryExecutionResult> => {
+    const request = transaction ? new mssql.Request(transaction) : new mssql.Request(pool);
+    params.forEach((value, index) => {
+      request.input(`p${index + 1}`, value);
+    });
+
+    const result = await request.query(sql);
+    const rowCount = (result.rowsAffected || []).reduce((sum, count) => sum + count, 0);
+    return { rowCount, rows: result.recordset ?? [] };
+  };
+
+  return {
+    type: 'sqlserver',
+    execute,
+    beginTransaction: async () => {
+      transaction = new mssql.Transaction(pool);
+      await transaction.begin();
+    },
+    commit: async () => {
+      await transaction?.commit();
+      transaction = null;
+    },
+    rollback: async () => {
+      await transaction?.rollback();
+      transaction = null;
+    },
+    close: () => pool.close()
+  };
+}
\ No newline at end of file
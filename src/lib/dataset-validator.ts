@@ -0,0 +1,323 @@
+/**
+ * Validações do conjunto de dados (entre linhas e entre colunas)
+ * Unicidade de chaves, ordem de datas, somas que devem bater com um total, chaves estrangeiras
+ * contra arquivos de referência e regras de negócio. Complementa o DataValidator, que valida um valor por vez
+ */
+
+import { ValidationError, ValidationResult, ValidationWarning } from './data-validator';
+import { validateBusinessRules } from './rule-expressions';
+import { parseDate, parseNumber } from './transformation-engine';
+import { BusinessRule } from '@/types';
+
+type Severity = ValidationError['severity'];
+
+interface BaseCheck {
+  name?: string; // Identifica a verificação nas estatísticas; o padrão é derivado do tipo e dos campos
+  severity?: Severity;
+}
+
+/**
+ * Chave única (simples ou composta); `digits` compara só os dígitos, para CPF/CNPJ com e sem máscara
+ */
+export interface UniqueCheck extends BaseCheck {
+  type: 'unique';
+  fields: string[];
+  normalize?: 'digits' | 'case_insensitive';
+}
+
+/**
+ * `start` não pode ser posterior a `end` (ex.: admissão antes do desligamento)
+ */
+export interface DateOrderCheck extends BaseCheck {
+  type: 'date_order';
+  start: string;
+  end: string;
+  allowEqual?: boolean; // Padrão: true
+}
+
+/**
+ * A soma de `fields` deve ser igual a `total`; parcelas vazias contam como zero
+ */
+export interface SumCheck extends BaseCheck {
+  type: 'sum';
+  fields: string[];
+  total: string;
+  tolerance?: number; // Padrão: 0.005
+}
+
+/**
+ * Os valores de `field` devem existir em `referenceField` do arquivo de referência `reference`
+ */
+export interface ForeignKeyCheck extends BaseCheck {
+  type: 'foreign_key';
+  field: string;
+  reference: string;
+  referenceField: string;
+  caseSensitive?: boolean;
+}
+
+export type DatasetCheck = UniqueCheck | DateOrderCheck | SumCheck | ForeignKeyCheck;
+
+export interface DatasetTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface DatasetValidationResult extends ValidationResult {
+  statistics: {
+    totalRows: number;
+    invalidRows: number;
+    violations: Record<string, number>; // Por verificação
+  };
+}
+
+/**
+ * Verificação mal configurada (coluna ou referência inexistente); não depende do conteúdo das linhas
+ */
+export class DatasetCheckError extends Error {
+  constructor(message: string, public check: DatasetCheck) {
+    super(message);
+    this.name = 'DatasetCheckError';
+  }
+}
+
+const DEFAULT_SEVERITY: Record<DatasetCheck['type'], Severity> = {
+  unique: 'critical',
+  date_order: 'high',
+  sum: 'high',
+  foreign_key: 'high'
+};
+
+// Violações de regras de negócio com severidade 'error'
+const BUSINESS_RULE_SEVERITY: Severity = 'high';
+
+const DEFAULT_SUM_TOLERANCE = 0.005;
+
+export class DatasetValidator {
+  constructor(private references: Record<string, DatasetTable> = {}) {}
+
+  /**
+   * Executa as verificações sobre as linhas; cada violação traz a linha (a partir de 0) e a coluna
+   * `row` segue a numeração dos dados (0 é a primeira linha depois do cabeçalho); as mensagens citam
+   * linhas a partir de 1, como a interface exibe `row + 1`
+   * Valores que não são datas ou números válidos são ignorados aqui: o formato é validado pelo DataValidator
+   * Regras de negócio com severidade 'warning' são reportadas em `warnings` e não invalidam a linha
+   */
+  validate(table: DatasetTable, checks: DatasetCheck[], businessRules: BusinessRule[] = []): DatasetValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+    const violations: Record<string, number> = {};
+
+    for (const check of checks) {
+      const name = check.name || describeCheck(check);
+      const before = errors.length;
+      const report = (row: number, field: string, message: string, value: string) => {
+        errors.push({
+          field,
+          type: ERROR_TYPES[check.type],
+          message,
+          severity: check.severity || DEFAULT_SEVERITY[check.type],
+          originalValue: value,
+          row,
+          column: table.headers.indexOf(field)
+        });
+      };
+
+      switch (check.type) {
+        case 'unique':
+          this.checkUnique(table, check, report);
+          break;
+        case 'date_order':
+          this.checkDateOrder(table, check, report);
+          break;
+        case 'sum':
+          this.checkSum(table, check, report);
+          break;
+        case 'foreign_key':
+          this.checkForeignKey(table, check, report);
+          break;
+        default:
+          throw new DatasetCheckError(`Verificação desconhecida: ${(check as DatasetCheck).type}`, check);
+      }
+
+      violations[name] = (violations[name] || 0) + errors.length - before;
+    }
+
+    if (businessRules.length > 0) {
+      const records = table.rows.map(row => Object.fromEntries(table.headers.map((header, index) => [header, row[index] ?? ''])));
+      for (const violation of validateBusinessRules(records, businessRules)) {
+        // Regras que comparam campos apontam para o primeiro deles
+        const column = table.headers.indexOf(violation.field.split(', ')[0]);
+        const rule = violation.rule!;
+        violations[rule] = (violations[rule] || 0) + 1;
+
+        if (violation.severity === 'warning') {
+          warnings.push({
+            field: violation.field,
+            type: 'inconsistency',
+            message: violation.error,
+            suggestion: `Verifique a regra '${rule}'`,
+            row: violation.row,
+            column
+          });
+        } else {
+          errors.push({
+            field: violation.field,
+            type: 'business_rule',
+            message: violation.error,
+            severity: BUSINESS_RULE_SEVERITY,
+            originalValue: table.rows[violation.row][column] ?? '',
+            row: violation.row,
+            column
+          });
+        }
+      }
+    }
+
+    const invalidRows = new Set(errors.map(error => error.row)).size;
+    const totalRows = table.rows.length;
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+      suggestions: Object.keys(violations)
+        .filter(name => violations[name] > 0)
+        .map(name => `${violations[name]} violação(ões) em ${name}`),
+      confidence: totalRows > 0 ? 1 - invalidRows / totalRows : 1,
+      statistics: { totalRows, invalidRows, violations }
+    };
+  }
+
+  private checkUnique(table: DatasetTable, check: UniqueCheck, report: Reporter): void {
+    if (check.fields.length === 0) {
+      throw new DatasetCheckError('Verificação unique sem campos', check);
+    }
+    const columns = check.fields.map(field => columnIndex(table, field, check));
+    const firstSeen = new Map<string, number>();
+
+    table.rows.forEach((row, rowIndex) => {
+      const values = columns.map(index => (row[index] ?? '').trim());
+      // Chaves com algum valor vazio ficam para a validação de obrigatórios
+      if (values.some(value => value === '')) return;
+
+      const key = JSON.stringify(values.map(value => normalizeKey(value, check.normalize)));
+      const first = firstSeen.get(key);
+      if (first === undefined) {
+        firstSeen.set(key, rowIndex);
+        return;
+      }
+
+      const label = check.fields.length > 1 ? `Chave (${check.fields.join(', ')})` : `Valor de '${check.fields[0]}'`;
+      report(rowIndex, check.fields[0], `${label} duplicado: ${values.join(', ')} (primeira ocorrência na linha ${first + 1})`, values.join(', '));
+    });
+  }
+
+  private checkDateOrder(table: DatasetTable, check: DateOrderCheck, report: Reporter): void {
+    const start = columnIndex(table, check.start, check);
+    const end = columnIndex(table, check.end, check);
+    const allowEqual = check.allowEqual ?? true;
+
+    table.rows.forEach((row, rowIndex) => {
+      const startDate = parseDate((row[start] ?? '').trim());
+      const endDate = parseDate((row[end] ?? '').trim());
+      if (!startDate || !endDate) return;
+
+      const diff = endDate.date.getTime() - startDate.date.getTime();
+      if (diff > 0 || (diff === 0 && allowEqual)) return;
+
+      report(
+        rowIndex,
+        check.end,
+        `'${check.end}' (${row[end].trim()}) deve ser ${allowEqual ? 'igual ou posterior' : 'posterior'} a '${check.start}' (${row[start].trim()})`,
+        row[end]
+      );
+    });
+  }
+
+  private checkSum(table: DatasetTable, check: SumCheck, report: Reporter): void {
+    if (check.fields.length === 0) {
+      throw new DatasetCheckError('Verificação sum sem campos', check);
+    }
+    const parts = check.fields.map(field => columnIndex(table, field, check));
+    const total = columnIndex(table, check.total, check);
+    const tolerance = check.tolerance ?? DEFAULT_SUM_TOLERANCE;
+
+    table.rows.forEach((row, rowIndex) => {
+      const totalText = (row[total] ?? '').trim();
+      if (!totalText) return;
+
+      const expected = parseNumber(totalText);
+      const values = parts.map(index => {
+        const text = (row[index] ?? '').trim();
+        return text ? parseNumber(text) : 0;
+      });
+      if (expected === null || values.some(value => value === null)) return;
+
+      const sum = (values as number[]).reduce((acc, value) => acc + value, 0);
+      if (Math.abs(sum - expected) <= tolerance) return;
+
+      report(
+        rowIndex,
+        check.total,
+        `'${check.total}' (${totalText}) difere da soma de ${check.fields.join(' + ')} (${roundSum(sum)})`,
+        totalText
+      );
+    });
+  }
+
+  private checkForeignKey(table: DatasetTable, check: ForeignKeyCheck, report: Reporter): void {
+    const column = columnIndex(table, check.field, check);
+    const reference = this.references[check.reference];
+    if (!reference) {
+      throw new DatasetCheckError(`Arquivo de referência '${check.reference}' não enviado`, check);
+    }
+    const referenceColumn = columnIndex(reference, check.referenceField, check, check.reference);
+    const normalize = (value: string) => check.caseSensitive ? value.trim() : value.trim().toLowerCase();
+    const keys = new Set(reference.rows.map(row => normalize(row[referenceColumn] ?? '')));
+
+    table.rows.forEach((row, rowIndex) => {
+      const value = (row[column] ?? '').trim();
+      // Chave estrangeira vazia não referencia nada
+      if (!value || keys.has(normalize(value))) return;
+
+      report(rowIndex, check.field, `Valor '${value}' de '${check.field}' não existe em ${check.reference}.${check.referenceField}`, value);
+    });
+  }
+}
+
+type Reporter = (row: number, field: string, message: string, value: string) => void;
+
+const ERROR_TYPES: Record<DatasetCheck['type'], ValidationError['type']> = {
+  unique: 'uniqueness',
+  date_order: 'consistency',
+  sum: 'consistency',
+  foreign_key: 'referential'
+};
+
+function columnIndex(table: DatasetTable, field: string, check: DatasetCheck, tableName?: string): number {
+  const index = table.headers.indexOf(field);
+  if (index === -1) {
+    throw new DatasetCheckError(`Coluna '${field}' não existe${tableName ? ` em ${tableName}` : ' nos dados'}`, check);
+  }
+  return index;
+}
+
+function normalizeKey(value: string, mode: UniqueCheck['normalize']): string {
+  if (mode === 'digits') return value.replace(/\D/g, '') || value;
+  if (mode === 'case_insensitive') return value.toLowerCase();
+  return value;
+}
+
+function describeCheck(check: DatasetCheck): string {
+  switch (check.type) {
+    case 'unique': return `unique(${check.fields.join(', ')})`;
+    case 'date_order': return `date_order(${check.start}, ${check.end})`;
+    case 'sum': return `sum(${check.fields.join(' + ')} = ${check.total})`;
+    case 'foreign_key': return `foreign_key(${check.field} -> ${check.reference}.${check.referenceField})`;
+  }
+}
+
+function roundSum(value: number): number {
+  return Math.round(value * 100) / 100;
+}
\ No newline at end of file
@@ -393,7 +393,7 @@ export class DomainAnalyzer {
           rules.push({
             field: column.name,
             operation: 'normalize',
-            parameters: { format: 'numbers_only', validate: true },
+            parameters: { format: 'numbers_only', validate: true, validateAs: 'cpf' },
             description: 'Remove formatação e valida CPF'
           });
           break;
@@ -0,0 +1,394 @@
+/**
+ * Detecção de encoding por bytes e transcodificação para UTF-8
+ * Cobre BOM, UTF-16, Windows-1252 vs ISO-8859-1 e arquivos com linhas em encodings mistos
+ */
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' | 'iso-8859-1';
+
+export interface EncodingDetection {
+  encoding: TextEncoding;
+  confidence: number;
+  hasBOM: boolean;
+  mixed: boolean; // Linhas UTF-8 e linhas em encoding de 1 byte no mesmo arquivo
+  fallback?: TextEncoding; // Amostra parcial só com ASCII: linhas seguintes que não forem UTF-8 válido usam este encoding
+}
+
+export const SUPPORTED_ENCODINGS: Array<{ value: TextEncoding; label: string }> = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252' },
+  { value: 'iso-8859-1', label: 'ISO-8859-1 (Latin-1)' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' }
+];
+
+const ENCODING_ALIASES: Record<string, TextEncoding> = {
+  'utf8': 'utf-8',
+  'cp1252': 'windows-1252',
+  'latin1': 'iso-8859-1',
+  'latin-1': 'iso-8859-1',
+  'iso8859-1': 'iso-8859-1',
+  'utf16le': 'utf-16le',
+  'utf16be': 'utf-16be'
+};
+
+const LINE_FEED = 0x0a;
+const TRANSCODE_CHUNK_SIZE = 1024 * 1024;
+const WINDOW_COUNT = 4;
+const WINDOW_SIZE = 16 * 1024;
+const UNPROVEN_UTF8_CONFIDENCE = 0.8;
+
+// Bytes de letras acentuadas e símbolos comuns em português no Latin-1
+const PORTUGUESE_LATIN1_BYTES = new Set([
+  0xaa, 0xb0, 0xba, 0xc0, 0xc1, 0xc2, 0xc3, 0xc7, 0xc9, 0xca, 0xcd, 0xd3, 0xd4, 0xd5, 0xda, 0xdc,
+  0xe0, 0xe1, 0xe2, 0xe3, 0xe7, 0xe9, 0xea, 0xed, 0xf3, 0xf4, 0xf5, 0xfa, 0xfc
+]);
+
+export class EncodingDetector {
+  static readonly SAMPLE_SIZE = 64 * 1024;
+
+  /**
+   * Detecta o encoding a partir dos bytes iniciais do arquivo
+   * `truncated` indica que a amostra é só parte do arquivo e pode terminar no meio de um caractere
+   */
+  static detect(bytes: Uint8Array, truncated: boolean = false): EncodingDetection {
+    const bom = this.detectBOM(bytes);
+    if (bom) {
+      return { encoding: bom, confidence: 1, hasBOM: true, mixed: false };
+    }
+
+    const utf16 = this.detectUTF16(bytes);
+    if (utf16) {
+      return { encoding: utf16, confidence: 0.9, hasBOM: false, mixed: false };
+    }
+
+    let utf8Lines = 0;
+    let invalidLines = 0;
+    let multibyteSequences = 0;
+    let lineStart = 0;
+
+    for (let index = 0; index <= bytes.length; index++) {
+      if (index < bytes.length && bytes[index] !== LINE_FEED) continue;
+
+      const isLastLine = index === bytes.length;
+      const scan = scanUTF8(bytes, lineStart, index, truncated && isLastLine);
+      if (scan.invalid > 0) {
+        invalidLines++;
+      } else if (scan.multibyte > 0) {
+        utf8Lines++;
+      }
+      multibyteSequences += scan.multibyte;
+      lineStart = index + 1;
+    }
+
+    if (invalidLines === 0) {
+      // Só ASCII numa amostra parcial não prova UTF-8: o resto do arquivo pode ter linhas em Windows-1252
+      const unproven = truncated && multibyteSequences === 0;
+      return {
+        encoding: 'utf-8',
+        confidence: multibyteSequences > 0 ? Math.min(1, 0.9 + multibyteSequences * 0.01) : unproven ? UNPROVEN_UTF8_CONFIDENCE : 1,
+        hasBOM: false,
+        mixed: false,
+        ...(unproven ? { fallback: 'windows-1252' as const } : {})
+      };
+    }
+
+    const singleByte = this.detectSingleByte(bytes);
+    return {
+      encoding: singleByte.encoding,
+      confidence: utf8Lines > 0 ? Math.min(singleByte.confidence, 0.7) : singleByte.confidence,
+      hasBOM: false,
+      mixed: utf8Lines > 0
+    };
+  }
+
+  /**
+   * Detecção fixa, usada quando o usuário escolhe o encoding manualmente
+   */
+  static fromOverride(encoding: TextEncoding): EncodingDetection {
+    return { encoding, confidence: 1, hasBOM: false, mixed: false };
+  }
+
+  /**
+   * Detecta o encoding de um arquivo lendo o início e algumas janelas ao longo dele,
+   * para encontrar linhas em outro encoding que não aparecem no começo
+   */
+  static async detectFile(file: Blob): Promise<EncodingDetection> {
+    const head = new Uint8Array(await file.slice(0, this.SAMPLE_SIZE).arrayBuffer());
+    if (file.size <= this.SAMPLE_SIZE) {
+      return this.detect(head);
+    }
+
+    // BOM e UTF-16 só são confiáveis a partir do início do arquivo
+    const headDetection = this.detect(head, true);
+    if (headDetection.hasBOM || headDetection.encoding.startsWith('utf-16')) {
+      return headDetection;
+    }
+
+    const windows: Uint8Array[] = [cutToCompleteLines(head, false)];
+    const step = Math.floor(file.size / (WINDOW_COUNT + 1));
+    for (let window = 1; window <= WINDOW_COUNT && step > this.SAMPLE_SIZE; window++) {
+      const bytes = new Uint8Array(await file.slice(step * window, step * window + WINDOW_SIZE).arrayBuffer());
+      windows.push(cutToCompleteLines(bytes, true));
+    }
+
+    const sample = windows.reduce(concatBytes, new Uint8Array(0));
+    return this.detect(sample, true);
+  }
+
+  /**
+   * Decodifica bytes para texto conforme a detecção
+   */
+  static decode(bytes: Uint8Array, detection: EncodingDetection): string {
+    const transcoder = new TextTranscoder(detection);
+    return transcoder.write(bytes) + transcoder.end();
+  }
+
+  /**
+   * Converte o arquivo para UTF-8 em trechos, antes do parse
+   * Arquivos já em UTF-8 sem BOM são retornados sem cópia
+   */
+  static async transcodeToUTF8(file: File, detection: EncodingDetection): Promise<File>;
+  static async transcodeToUTF8(file: Blob, detection: EncodingDetection): Promise<Blob>;
+  static async transcodeToUTF8(file: Blob, detection: EncodingDetection): Promise<Blob> {
+    if (detection.encoding === 'utf-8' && !detection.hasBOM && !detection.mixed && !detection.fallback) {
+      return file;
+    }
+
+    const transcoder = new TextTranscoder(detection);
+    const parts: string[] = [];
+    for (let offset = 0; offset < file.size; offset += TRANSCODE_CHUNK_SIZE) {
+      const chunk = new Uint8Array(await file.slice(offset, offset + TRANSCODE_CHUNK_SIZE).arrayBuffer());
+      parts.push(transcoder.write(chunk));
+    }
+    parts.push(transcoder.end());
+
+    const blob = new Blob(parts, { type: file.type || 'text/plain' });
+    return typeof File !== 'undefined' && file instanceof File
+      ? new File([blob], file.name, { type: blob.type, lastModified: file.lastModified })
+      : blob;
+  }
+
+  /**
+   * Resolve um rótulo de encoding (ex.: charset do Content-Type) para um encoding suportado
+   */
+  static resolveLabel(label: string): TextEncoding | null {
+    const normalized = label.trim().toLowerCase();
+    if (SUPPORTED_ENCODINGS.some(option => option.value === normalized)) {
+      return normalized as TextEncoding;
+    }
+    return ENCODING_ALIASES[normalized] ?? null;
+  }
+
+  /**
+   * Nome legível do encoding
+   */
+  static getLabel(encoding: TextEncoding): string {
+    return SUPPORTED_ENCODINGS.find(option => option.value === encoding)?.label ?? encoding;
+  }
+
+  private static detectBOM(bytes: Uint8Array): TextEncoding | null {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+    return null;
+  }
+
+  /**
+   * UTF-16 sem BOM: texto latino tem um byte nulo em quase todo par de bytes
+   */
+  private static detectUTF16(bytes: Uint8Array): TextEncoding | null {
+    const pairs = Math.floor(Math.min(bytes.length, 4096) / 2);
+    if (pairs < 4) return null;
+
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let pair = 0; pair < pairs; pair++) {
+      if (bytes[pair * 2] === 0) evenZeros++;
+      if (bytes[pair * 2 + 1] === 0) oddZeros++;
+    }
+
+    if (oddZeros / pairs > 0.4 && evenZeros / pairs < 0.05) return 'utf-16le';
+    if (evenZeros / pairs > 0.4 && oddZeros / pairs < 0.05) return 'utf-16be';
+    return null;
+  }
+
+  /**
+   * Distingue Windows-1252 de ISO-8859-1
+   * Bytes 0x80-0x9F são controles C1 no ISO-8859-1, mas aspas, travessões e € no Windows-1252
+   */
+  private static detectSingleByte(bytes: Uint8Array): { encoding: TextEncoding; confidence: number } {
+    let highBytes = 0;
+    let plausible = 0;
+    let c1Bytes = 0;
+
+    for (let index = 0; index < bytes.length; index++) {
+      const byte = bytes[index];
+      if (byte < 0x80) continue;
+      highBytes++;
+      if (byte <= 0x9f) {
+        c1Bytes++;
+        plausible++;
+      } else if (PORTUGUESE_LATIN1_BYTES.has(byte)) {
+        plausible++;
+      }
+    }
+
+    const ratio = highBytes > 0 ? plausible / highBytes : 0;
+    return {
+      encoding: c1Bytes > 0 ? 'windows-1252' : 'iso-8859-1',
+      confidence: Math.round((0.6 + 0.4 * ratio) * 100) / 100
+    };
+  }
+}
+
+/**
+ * Decodificador incremental para UTF-8
+ * Em arquivos mistos (ou com `fallback`), cada linha é decodificada como UTF-8 quando válida
+ * e no encoding de 1 byte caso contrário
+ */
+export class TextTranscoder {
+  private decoder: TextDecoder | null;
+  private utf8 = new TextDecoder('utf-8');
+  private pending: Uint8Array = new Uint8Array(0);
+  private byLine: boolean;
+
+  constructor(private detection: EncodingDetection) {
+    this.byLine = detection.mixed || detection.fallback !== undefined;
+    this.decoder = this.byLine || detection.encoding === 'iso-8859-1'
+      ? null
+      : new TextDecoder(detection.encoding);
+  }
+
+  write(chunk: Uint8Array): string {
+    if (this.decoder) {
+      return this.decoder.decode(chunk, { stream: true });
+    }
+    if (!this.byLine) {
+      return decodeLatin1(chunk, 0, chunk.length);
+    }
+
+    const bytes = concatBytes(this.pending, chunk);
+    const lastLineFeed = bytes.lastIndexOf(LINE_FEED);
+    if (lastLineFeed < 0) {
+      this.pending = bytes;
+      return '';
+    }
+
+    this.pending = bytes.slice(lastLineFeed + 1);
+    return this.decodeLines(bytes, lastLineFeed + 1);
+  }
+
+  end(): string {
+    if (this.decoder) {
+      return this.decoder.decode();
+    }
+    const rest = this.pending;
+    this.pending = new Uint8Array(0);
+    return this.byLine ? this.decodeLines(rest, rest.length) : '';
+  }
+
+  private decodeLines(bytes: Uint8Array, end: number): string {
+    // Caso comum: o trecho inteiro é UTF-8 válido
+    if (scanUTF8(bytes, 0, end, false).invalid === 0) {
+      return this.utf8.decode(bytes.subarray(0, end));
+    }
+
+    const lines: string[] = [];
+    let lineStart = 0;
+    for (let index = 0; index <= end; index++) {
+      if (index < end && bytes[index] !== LINE_FEED) continue;
+      if (index === end && lineStart === end) break;
+
+      const lineEnd = Math.min(index + 1, end);
+      lines.push(scanUTF8(bytes, lineStart, lineEnd, false).invalid === 0
+        ? this.utf8.decode(bytes.subarray(lineStart, lineEnd))
+        : this.decodeSingleByte(bytes, lineStart, lineEnd));
+      lineStart = index + 1;
+    }
+    return lines.join('');
+  }
+
+  private decodeSingleByte(bytes: Uint8Array, start: number, end: number): string {
+    const encoding = this.detection.fallback ?? this.detection.encoding;
+    return encoding === 'iso-8859-1'
+      ? decodeLatin1(bytes, start, end)
+      : new TextDecoder(encoding).decode(bytes.subarray(start, end));
+  }
+}
+
+/**
+ * Conta sequências UTF-8 válidas de múltiplos bytes e bytes inválidos no intervalo
+ */
+function scanUTF8(bytes: Uint8Array, start: number, end: number, allowTruncatedEnd: boolean): { multibyte: number; invalid: number } {
+  let multibyte = 0;
+  let invalid = 0;
+  let index = start;
+
+  while (index < end) {
+    const byte = bytes[index];
+    const length = byte < 0x80 ? 1 :
+                   byte >= 0xc2 && byte <= 0xdf ? 2 :
+                   byte >= 0xe0 && byte <= 0xef ? 3 :
+                   byte >= 0xf0 && byte <= 0xf4 ? 4 : 0;
+
+    if (length === 0) {
+      invalid++;
+      index++;
+      continue;
+    }
+    if (length === 1) {
+      index++;
+      continue;
+    }
+    if (index + length > end) {
+      if (!allowTruncatedEnd) invalid++;
+      break;
+    }
+
+    let valid = true;
+    for (let offset = 1; offset < length; offset++) {
+      if ((bytes[index + offset] & 0xc0) !== 0x80) {
+        valid = false;
+        break;
+      }
+    }
+
+    if (valid) {
+      multibyte++;
+      index += length;
+    } else {
+      invalid++;
+      index++;
+    }
+  }
+
+  return { multibyte, invalid };
+}
+
+/**
+ * ISO-8859-1 verdadeiro (o rótulo 'iso-8859-1' do TextDecoder é tratado como Windows-1252)
+ */
+function decodeLatin1(bytes: Uint8Array, start: number, end: number): string {
+  const parts: string[] = [];
+  for (let offset = start; offset < end; offset += 8192) {
+    parts.push(String.fromCharCode.apply(null, Array.from(bytes.subarray(offset, Math.min(offset + 8192, end)))));
+  }
+  return parts.join('');
+}
+
+/**
+ * Mantém apenas linhas completas: descarta o fim cortado e, em janelas no meio do arquivo, o início cortado
+ */
+function cutToCompleteLines(bytes: Uint8Array, cutStart: boolean): Uint8Array {
+  const start = cutStart ? bytes.indexOf(LINE_FEED) + 1 : 0;
+  const end = bytes.lastIndexOf(LINE_FEED) + 1;
+  return end > start ? bytes.subarray(start, end) : new Uint8Array(0);
+}
+
+function concatBytes(first: Uint8Array, second: Uint8Array): Uint8Array {
+  if (first.length === 0) return second;
+  const result = new Uint8Array(first.length + second.length);
+  result.set(first, 0);
+  result.set(second, first.length);
+  return result;
+}
\ No newline at end of file
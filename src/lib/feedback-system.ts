@@ -8,6 +8,9 @@ import { DataDomain, DomainAnalysisResult } from './domain-analyzer';
 import { ValidationResult } from './data-validator';
 import { JSONSchema } from './schema-generator';
 import { FieldMapping } from '../components/adaptive-interface';
+import { LearningStorage, LocalStorageAdapter } from './learning-storage';
+
+const FEEDBACK_STORAGE_KEY = 'orquestrador_feedback_data';
 
 export interface FeedbackEntry {
   id: string;
@@ -155,9 +158,11 @@ export class FeedbackSystem {
   private learningPatterns: Map<string, LearningPattern> = new Map();
   private adaptiveRules: Map<string, AdaptiveRule> = new Map();
   private sessionId: string;
+  private storage: LearningStorage;
 
-  constructor() {
+  constructor(storage: LearningStorage = new LocalStorageAdapter()) {
     this.sessionId = this.generateSessionId();
+    this.storage = storage;
     this.loadStoredData();
   }
 
@@ -690,8 +695,7 @@ export class FeedbackSystem {
 
   private loadStoredData(): void {
     try {
-      // Em um ambiente real, carregaria do localStorage ou banco de dados
-      const stored = localStorage.getItem('orquestrador_feedback_data');
+      const stored = this.storage.load(FEEDBACK_STORAGE_KEY);
       if (stored) {
         const data = JSON.parse(stored);
         if (data.feedback) {
@@ -722,7 +726,7 @@ export class FeedbackSystem {
         patterns: Array.from(this.learningPatterns.values()),
         rules: Array.from(this.adaptiveRules.values())
       };
-      localStorage.setItem('orquestrador_feedback_data', JSON.stringify(data));
+      this.storage.save(FEEDBACK_STORAGE_KEY, JSON.stringify(data));
     } catch (error) {
       console.warn('Erro ao salvar dados de feedback:', error);
     }
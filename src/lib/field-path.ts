@@ -0,0 +1,113 @@
+/**
+ * Caminhos de campo no estilo JSON path (`personal_info.address.city`, `phones[0]`)
+ * Usados como campos de destino para montar registros aninhados a partir de colunas planas
+ */
+
+export type PathSegment = string | number;
+
+const SEGMENT_PATTERN = /^([^.[\]]+)((?:\[\d+\])*)$/;
+
+/**
+ * Divide o caminho em chaves e índices, ou null se a sintaxe for inválida
+ */
+export function parseFieldPath(path: string): PathSegment[] | null {
+  const segments: PathSegment[] = [];
+
+  for (const part of path.split('.')) {
+    const match = part.match(SEGMENT_PATTERN);
+    if (!match) return null;
+    segments.push(match[1]);
+    if (match[2]) {
+      segments.push(...match[2].slice(1, -1).split('][').map(Number));
+    }
+  }
+
+  return segments;
+}
+
+export function isNestedPath(path: string): boolean {
+  return /[.[]/.test(path);
+}
+
+/**
+ * Normaliza cada chave do caminho, preservando pontos e índices
+ * Caminhos inválidos são tratados como um nome simples
+ */
+export function normalizeFieldPath(path: string): string {
+  const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, '_');
+  const segments = parseFieldPath(path.trim());
+  if (!segments) return normalizeKey(path);
+
+  return formatFieldPath(segments.map(segment => typeof segment === 'number' ? segment : normalizeKey(segment)));
+}
+
+export function formatFieldPath(segments: PathSegment[]): string {
+  return segments.reduce<string>((path, segment) =>
+    typeof segment === 'number' ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment,
+  '');
+}
+
+/**
+ * Grava o valor no caminho, criando objetos e arrays intermediários
+ */
+export function setPathValue(target: Record<string, any>, path: string, value: unknown): void {
+  const segments = parseFieldPath(path);
+  if (!segments) {
+    target[path] = value;
+    return;
+  }
+
+  let current: any = target;
+  segments.forEach((segment, index) => {
+    if (index === segments.length - 1) {
+      current[segment] = value;
+      return;
+    }
+    const next = segments[index + 1];
+    if (current[segment] === null || typeof current[segment] !== 'object') {
+      current[segment] = typeof next === 'number' ? [] : {};
+    }
+    current = current[segment];
+  });
+}
+
+/**
+ * Lê o valor no caminho; chaves planas com o nome exato têm precedência
+ */
+export function getPathValue(source: Record<string, any>, path: string): any {
+  if (path in source) return source[path];
+
+  const segments = parseFieldPath(path);
+  if (!segments) return undefined;
+
+  let current: any = source;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+/**
+ * Monta um registro aninhado a partir de pares caminho/valor
+ * Posições não preenchidas de arrays ficam null
+ */
+export function buildNestedRecord(values: Array<[string, unknown]>): Record<string, any> {
+  const record: Record<string, any> = {};
+  for (const [path, value] of values) {
+    setPathValue(record, path, value);
+  }
+  return fillArrayHoles(record);
+}
+
+function fillArrayHoles(value: any): any {
+  if (Array.isArray(value)) {
+    return Array.from(value, item => item === undefined ? null : fillArrayHoles(item));
+  }
+  if (value !== null && typeof value === 'object') {
+    for (const key of Object.keys(value)) {
+      value[key] = fillArrayHoles(value[key]);
+    }
+  }
+  return value;
+}
\ No newline at end of file
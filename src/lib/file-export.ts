@@ -0,0 +1,109 @@
+/**
+ * Serialização dos registros transformados para o destino "Arquivo"
+ * A prévia da publicação usa a mesma serialização do download, então os bytes mostrados são os do arquivo
+ */
+
+import Papa from 'papaparse';
+import { FieldSchema, OutputTarget } from '@/types';
+import { getPathValue } from './field-path';
+
+export type FileFormat = OutputTarget['format'];
+
+export const FILE_MIME_TYPES: Record<FileFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  xml: 'application/xml'
+};
+
+const DEFAULT_PREVIEW_BYTES = 4096;
+
+export interface FileDryRun {
+  format: FileFormat;
+  records: number;
+  bytes: number; // Tamanho do arquivo completo, em UTF-8
+  preview: string; // Início do arquivo, sem cortar caracteres
+  previewBytes: number;
+  truncated: boolean;
+}
+
+/**
+ * Conteúdo do arquivo: JSON mantém os registros aninhados; CSV e XML usam uma coluna/elemento por campo do schema
+ */
+export function serializeRecords(records: Record<string, any>[], schema: FieldSchema[], format: FileFormat): string {
+  switch (format) {
+    case 'csv':
+      return Papa.unparse({
+        fields: schema.map(field => field.name),
+        data: records.map(record => schema.map(field => toText(getPathValue(record, field.name))))
+      });
+
+    case 'xml': {
+      const elements = schema.map(field => [field.name, toXMLName(field.name)] as const);
+      const rows = records.map(record =>
+        `  <record>\n${elements.map(([path, name]) =>
+          `    <${name}>${escapeXML(toText(getPathValue(record, path)))}</${name}>`
+        ).join('\n')}\n  </record>`
+      );
+      return `<?xml version="1.0" encoding="UTF-8"?>\n<data>\n${rows.join('\n')}${rows.length > 0 ? '\n' : ''}</data>`;
+    }
+
+    default:
+      return JSON.stringify(records, null, 2);
+  }
+}
+
+/**
+ * Tamanho exato e início do arquivo que seria gerado
+ */
+export function previewFile(
+  records: Record<string, any>[],
+  schema: FieldSchema[],
+  format: FileFormat,
+  maxBytes: number = DEFAULT_PREVIEW_BYTES
+): FileDryRun {
+  const content = serializeRecords(records, schema, format);
+  const encoder = new TextEncoder();
+  const bytes = encoder.encode(content).length;
+
+  // Corta no último caractere completo dentro do limite de bytes
+  let end = 0;
+  let previewBytes = 0;
+  while (end < content.length) {
+    const codePoint = content.codePointAt(end)!;
+    const size = codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+    if (previewBytes + size > maxBytes) break;
+    previewBytes += size;
+    end += codePoint > 0xffff ? 2 : 1;
+  }
+
+  return {
+    format,
+    records: records.length,
+    bytes,
+    preview: content.slice(0, end),
+    previewBytes,
+    truncated: end < content.length
+  };
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Caminhos como `phones[0]` não são nomes de elemento XML válidos
+ */
+function toXMLName(fieldName: string): string {
+  const name = fieldName.replace(/[^A-Za-z0-9_.-]/g, '_').replace(/_+$/, '');
+  return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+}
\ No newline at end of file
@@ -0,0 +1,536 @@
+/**
+ * Leitores de formatos de entrada (CSV, XLSX, JSON, NDJSON e largura fixa)
+ * Todos produzem CSVData, então CSVDetector, DataTypeInference e DomainAnalyzer
+ * funcionam sem saber o formato original
+ */
+
+import { CSVData, ProcessingStatus } from '@/types';
+import { ingestCSV } from './csv-stream';
+import { EncodingDetection, EncodingDetector, TextEncoding } from './encoding-detector';
+
+export type InputFormat = 'csv' | 'xlsx' | 'json' | 'ndjson' | 'fixed-width';
+
+export interface FixedWidthColumn {
+  name: string;
+  start: number; // Posição inicial (base 0)
+  width: number;
+}
+
+export interface InputSample {
+  fileName: string;
+  bytes: Uint8Array;
+  text: string;
+}
+
+export interface InputReaderOptions {
+  sheetName?: string; // XLSX: planilha a ler (padrão: a primeira)
+  layout?: FixedWidthColumn[]; // Largura fixa: layout das colunas (padrão: inferido)
+  hasHeader?: boolean;
+  encoding?: TextEncoding; // Sobrescreve a detecção de encoding dos formatos de texto
+  onProgress?: (status: ProcessingStatus) => void;
+}
+
+export interface InputReadResult {
+  data: CSVData;
+  format: InputFormat;
+  sheets?: string[];
+  sheetName?: string;
+  layout?: FixedWidthColumn[];
+  encoding?: EncodingDetection;
+}
+
+export interface InputReader {
+  format: InputFormat;
+  label: string;
+  extensions: string[];
+  binary?: boolean; // Formatos binários não passam por detecção de encoding
+  /**
+   * Retorna a confiança (0 a 1) de que a amostra está neste formato
+   */
+  detect(sample: InputSample): number;
+  /**
+   * Formatos de texto recebem o arquivo já transcodificado para UTF-8
+   */
+  read(file: File, options: InputReaderOptions): Promise<InputReadResult>;
+}
+
+const SAMPLE_SIZE = 64 * 1024;
+const LAYOUT_SAMPLE_LINES = 50;
+
+const readers: InputReader[] = [];
+
+/**
+ * Registra um leitor de formato
+ * Leitores registrados depois têm prioridade em caso de empate na detecção
+ */
+export function registerInputReader(reader: InputReader): void {
+  const index = readers.findIndex(existing => existing.format === reader.format);
+  if (index >= 0) readers.splice(index, 1);
+  readers.unshift(reader);
+}
+
+export function getInputReaders(): InputReader[] {
+  return [...readers];
+}
+
+/**
+ * Extensões aceitas pelos leitores registrados, no formato do atributo `accept`
+ */
+export function getAcceptedExtensions(): string {
+  return readers.flatMap(reader => reader.extensions).join(',');
+}
+
+/**
+ * Detecta o formato do arquivo pela extensão e pelo conteúdo inicial
+ */
+export async function detectInputFormat(file: File, encoding?: EncodingDetection): Promise<InputReader> {
+  const buffer = await file.slice(0, SAMPLE_SIZE).arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  const sample: InputSample = {
+    fileName: file.name,
+    bytes,
+    text: EncodingDetector.decode(bytes, encoding ?? EncodingDetector.detect(bytes, file.size > SAMPLE_SIZE))
+  };
+
+  let best: { reader: InputReader; score: number } | null = null;
+  for (const reader of readers) {
+    const score = reader.detect(sample);
+    if (score > 0 && (!best || score > best.score)) {
+      best = { reader, score };
+    }
+  }
+
+  if (!best) {
+    throw new Error('Formato de arquivo não suportado');
+  }
+  return best.reader;
+}
+
+/**
+ * Lê um arquivo de qualquer formato suportado
+ */
+export async function readInputFile(file: File, options: InputReaderOptions = {}): Promise<InputReadResult> {
+  const encoding = options.encoding
+    ? EncodingDetector.fromOverride(options.encoding)
+    : await EncodingDetector.detectFile(file);
+  const reader = await detectInputFormat(file, encoding);
+  if (reader.binary) {
+    return reader.read(file, options);
+  }
+
+  const transcoded = await EncodingDetector.transcodeToUTF8(file, encoding);
+  const result = await reader.read(transcoded, { ...options, encoding: 'utf-8' });
+  return {
+    ...result,
+    data: { ...result.data, fileSize: file.size },
+    encoding
+  };
+}
+
+// ===== CSV =====
+
+const csvReader: InputReader = {
+  format: 'csv',
+  label: 'CSV',
+  extensions: ['.csv', '.tsv'],
+  detect(sample) {
+    const structure = detectDelimited(sample.text);
+    if (!structure) return hasExtension(sample.fileName, this.extensions) ? 0.5 : 0;
+    const extensionBonus = hasExtension(sample.fileName, this.extensions) ? 0.3 : 0;
+    return Math.min(1, structure.confidence * 0.6 + extensionBonus);
+  },
+  async read(file, options) {
+    // Lê o arquivo em trechos para não travar a aba com arquivos grandes
+    const rows: string[][] = [];
+    const result = await ingestCSV(file, {
+      hasHeader: options.hasHeader ?? true,
+      encoding: options.encoding,
+      onBatch: batch => {
+        rows.push(...batch.rows);
+      },
+      onProgress: options.onProgress
+    });
+
+    if (result.parseErrors.length > 0) {
+      throw new Error('Erro ao processar CSV: ' + result.parseErrors[0]);
+    }
+
+    return {
+      format: 'csv',
+      data: toCSVData(file, result.headers, rows)
+    };
+  }
+};
+
+// ===== XLSX =====
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+const xlsxReader: InputReader = {
+  format: 'xlsx',
+  label: 'Excel (XLSX)',
+  extensions: ['.xlsx'],
+  binary: true,
+  detect(sample) {
+    const isZip = ZIP_SIGNATURE.every((byte, index) => sample.bytes[index] === byte);
+    if (!isZip) return 0;
+    return hasExtension(sample.fileName, this.extensions) ? 1 : 0.6;
+  },
+  async read(file, options) {
+    const { default: ExcelJS } = await import('exceljs');
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await file.arrayBuffer());
+
+    const sheets = workbook.worksheets.map(sheet => sheet.name);
+    const worksheet = options.sheetName
+      ? workbook.getWorksheet(options.sheetName)
+      : workbook.worksheets[0];
+
+    if (!worksheet) {
+      throw new Error(options.sheetName ? `Planilha '${options.sheetName}' não encontrada` : 'A pasta de trabalho não contém planilhas');
+    }
+
+    const table: string[][] = [];
+    worksheet.eachRow({ includeEmpty: false }, row => {
+      const values: string[] = [];
+      row.eachCell({ includeEmpty: true }, (cell, columnNumber) => {
+        values[columnNumber - 1] = cellToString(cell.value);
+      });
+      table.push(Array.from(values, value => value ?? ''));
+    });
+
+    const columnCount = table.reduce((max, row) => Math.max(max, row.length), 0);
+    const normalized = table.map(row => padRow(row, columnCount));
+    const { headers, rows } = splitHeader(normalized, options.hasHeader ?? true);
+
+    options.onProgress?.(completedStatus(rows.length));
+    return {
+      format: 'xlsx',
+      data: toCSVData(file, headers, rows),
+      sheets,
+      sheetName: worksheet.name
+    };
+  }
+};
+
+/**
+ * Converte o valor de uma célula do ExcelJS para texto
+ */
+function cellToString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.slice(0, 19);
+  }
+  if (typeof value === 'object') {
+    const cell = value as Record<string, any>;
+    if (Array.isArray(cell.richText)) return cell.richText.map((part: { text: string }) => part.text).join('');
+    if ('result' in cell) return cellToString(cell.result);
+    if ('text' in cell) return cellToString(cell.text);
+    if ('error' in cell) return '';
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+// ===== JSON =====
+
+const jsonReader: InputReader = {
+  format: 'json',
+  label: 'JSON',
+  extensions: ['.json'],
+  detect(sample) {
+    const text = sample.text.trimStart();
+    const extensionBonus = hasExtension(sample.fileName, this.extensions) ? 0.2 : 0;
+    if (text.startsWith('[')) return 0.8 + extensionBonus;
+    if (text.startsWith('{') && !looksLikeNDJSON(sample.text)) return 0.6 + extensionBonus;
+    return 0;
+  },
+  async read(file, options) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch (error) {
+      throw new Error('JSON inválido: ' + (error instanceof Error ? error.message : String(error)));
+    }
+
+    const records = findRecordArray(parsed);
+    if (!records) {
+      throw new Error('O JSON deve ser um array de objetos ou conter uma propriedade com esse array');
+    }
+
+    const { headers, rows } = recordsToTable(records);
+    options.onProgress?.(completedStatus(rows.length));
+    return { format: 'json', data: toCSVData(file, headers, rows) };
+  }
+};
+
+/**
+ * Localiza o array de registros: o próprio documento ou a primeira propriedade que seja um array de objetos
+ */
+function findRecordArray(value: unknown): Record<string, unknown>[] | null {
+  if (Array.isArray(value)) {
+    return value.every(isPlainObject) ? value as Record<string, unknown>[] : null;
+  }
+  if (isPlainObject(value)) {
+    for (const child of Object.values(value)) {
+      if (Array.isArray(child) && child.length > 0 && child.every(isPlainObject)) {
+        return child as Record<string, unknown>[];
+      }
+    }
+  }
+  return null;
+}
+
+// ===== NDJSON =====
+
+const ndjsonReader: InputReader = {
+  format: 'ndjson',
+  label: 'NDJSON',
+  extensions: ['.ndjson', '.jsonl'],
+  detect(sample) {
+    if (!looksLikeNDJSON(sample.text)) {
+      return hasExtension(sample.fileName, this.extensions) ? 0.3 : 0;
+    }
+    return hasExtension(sample.fileName, this.extensions) ? 1 : 0.9;
+  },
+  async read(file, options) {
+    const records: Record<string, unknown>[] = [];
+    const lines = (await file.text()).split(/\r?\n/);
+
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+      let record: unknown;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        throw new Error(`Linha ${index + 1}: JSON inválido`);
+      }
+      if (!isPlainObject(record)) {
+        throw new Error(`Linha ${index + 1}: cada linha deve conter um objeto JSON`);
+      }
+      records.push(record);
+    });
+
+    const { headers, rows } = recordsToTable(records);
+    options.onProgress?.(completedStatus(rows.length));
+    return { format: 'ndjson', data: toCSVData(file, headers, rows) };
+  }
+};
+
+/**
+ * Verifica se as linhas completas da amostra são objetos JSON independentes
+ */
+function looksLikeNDJSON(text: string): boolean {
+  const lines = completeLines(text).filter(line => line.trim());
+  if (lines.length < 2) return false;
+  return lines.slice(0, 20).every(line => {
+    try {
+      return isPlainObject(JSON.parse(line));
+    } catch {
+      return false;
+    }
+  });
+}
+
+// ===== Largura fixa =====
+
+const fixedWidthReader: InputReader = {
+  format: 'fixed-width',
+  label: 'Largura fixa',
+  extensions: ['.txt', '.dat', '.prn', '.fwf'],
+  detect(sample) {
+    const lines = completeLines(sample.text).filter(line => line.trim()).slice(0, LAYOUT_SAMPLE_LINES);
+    if (lines.length < 2) return 0;
+
+    const delimited = detectDelimited(sample.text);
+    if (delimited && delimited.columnCount > 1 && delimited.confidence > 0.9) return 0;
+
+    const layout = inferFixedWidthLayout(lines);
+    if (layout.length < 2) return 0;
+    return hasExtension(sample.fileName, this.extensions) ? 0.8 : 0.5;
+  },
+  async read(file, options) {
+    const lines = (await file.text()).split(/\r?\n/).filter(line => line.trim());
+    const hasHeader = options.hasHeader ?? true;
+    const layout = options.layout && options.layout.length > 0
+      ? options.layout
+      : inferFixedWidthLayout(lines.slice(0, LAYOUT_SAMPLE_LINES), hasHeader);
+
+    if (layout.length === 0) {
+      throw new Error('Não foi possível inferir o layout das colunas; informe-o manualmente');
+    }
+
+    const dataLines = hasHeader ? lines.slice(1) : lines;
+    const rows = dataLines.map(line => layout.map(column => line.substring(column.start, column.start + column.width).trim()));
+
+    options.onProgress?.(completedStatus(rows.length));
+    return {
+      format: 'fixed-width',
+      data: toCSVData(file, layout.map(column => column.name), rows),
+      layout
+    };
+  }
+};
+
+/**
+ * Infere o layout de largura fixa pelo alinhamento dos espaços em branco
+ * Uma coluna começa onde há texto após uma posição que é espaço em todas as linhas
+ */
+export function inferFixedWidthLayout(lines: string[], hasHeader: boolean = true): FixedWidthColumn[] {
+  const sample = lines.filter(line => line.trim());
+  if (sample.length === 0) return [];
+
+  const lineLength = Math.max(...sample.map(line => line.length));
+  const blank: boolean[] = [];
+  for (let position = 0; position < lineLength; position++) {
+    blank[position] = sample.every(line => position >= line.length || line[position] === ' ');
+  }
+
+  const starts: number[] = [];
+  for (let position = 0; position < lineLength; position++) {
+    if (!blank[position] && (position === 0 || blank[position - 1])) {
+      starts.push(position);
+    }
+  }
+
+  return starts.map((start, index) => {
+    const end = index + 1 < starts.length ? starts[index + 1] : lineLength;
+    const headerName = hasHeader ? sample[0].substring(start, end).trim() : '';
+    return {
+      name: headerName || `column_${index + 1}`,
+      start,
+      width: end - start
+    };
+  });
+}
+
+/**
+ * Converte um layout no formato texto "nome:inicio:largura; ..." (início base 1)
+ */
+export function parseFixedWidthLayout(text: string): FixedWidthColumn[] {
+  return text
+    .split(/[;\n]/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const [name, start, width] = part.split(':').map(piece => piece.trim());
+      const startNumber = parseInt(start);
+      const widthNumber = parseInt(width);
+      if (!name || isNaN(startNumber) || isNaN(widthNumber) || startNumber < 1 || widthNumber < 1) {
+        throw new Error(`Definição de coluna inválida: '${part}' (use nome:inicio:largura)`);
+      }
+      return { name, start: startNumber - 1, width: widthNumber };
+    });
+}
+
+/**
+ * Formata um layout no formato aceito por parseFixedWidthLayout
+ */
+export function formatFixedWidthLayout(layout: FixedWidthColumn[]): string {
+  return layout.map(column => `${column.name}:${column.start + 1}:${column.width}`).join('; ');
+}
+
+// ===== Utilitários =====
+
+function hasExtension(fileName: string, extensions: string[]): boolean {
+  const name = fileName.toLowerCase();
+  return extensions.some(extension => name.endsWith(extension));
+}
+
+/**
+ * Linhas da amostra, descartando a última, que pode ter sido cortada
+ */
+function completeLines(text: string): string[] {
+  const lines = text.split(/\r?\n/);
+  return lines.length > 1 ? lines.slice(0, -1) : lines;
+}
+
+function detectDelimited(text: string): { confidence: number; columnCount: number } | null {
+  const lines = completeLines(text).filter(line => line.trim()).slice(0, 20);
+  if (lines.length === 0) return null;
+
+  // Delimitador com o número de colunas mais consistente entre as linhas
+  const delimiters = [',', ';', '\t', '|'];
+  let best: { confidence: number; columnCount: number } | null = null;
+  for (const delimiter of delimiters) {
+    const counts = lines.map(line => line.split(delimiter).length);
+    const columnCount = counts[0];
+    if (columnCount < 2) continue;
+    const confidence = counts.filter(count => count === columnCount).length / counts.length;
+    if (!best || confidence > best.confidence || (confidence === best.confidence && columnCount > best.columnCount)) {
+      best = { confidence, columnCount };
+    }
+  }
+  return best;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Converte registros em tabela; as colunas são a união das chaves, na ordem em que aparecem
+ */
+function recordsToTable(records: Record<string, unknown>[]): { headers: string[]; rows: string[][] } {
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    }
+  }
+
+  const rows = records.map(record => headers.map(header => {
+    const value = record[header];
+    if (value === null || value === undefined) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }));
+
+  return { headers, rows };
+}
+
+function padRow(row: string[], length: number): string[] {
+  return row.length >= length ? row : [...row, ...new Array(length - row.length).fill('')];
+}
+
+function splitHeader(table: string[][], hasHeader: boolean): { headers: string[]; rows: string[][] } {
+  if (table.length === 0) return { headers: [], rows: [] };
+  if (hasHeader) {
+    return {
+      headers: table[0].map((header, index) => header.trim() || `column_${index + 1}`),
+      rows: table.slice(1)
+    };
+  }
+  return {
+    headers: table[0].map((_, index) => `column_${index + 1}`),
+    rows: table
+  };
+}
+
+function toCSVData(file: File, headers: string[], rows: string[][]): CSVData {
+  if (headers.length === 0 || rows.length === 0) {
+    throw new Error('O arquivo deve conter pelo menos um cabeçalho e uma linha de dados');
+  }
+  return {
+    headers,
+    rows,
+    fileName: file.name,
+    fileSize: file.size
+  };
+}
+
+function completedStatus(rows: number): ProcessingStatus {
+  return {
+    step: 'upload',
+    status: 'completed',
+    progress: 100,
+    message: `${rows} registros processados`
+  };
+}
+
+// CSV por último: é o formato mais genérico e perde empates para os demais
+[csvReader, fixedWidthReader, xlsxReader, jsonReader, ndjsonReader].forEach(registerInputReader);
\ No newline at end of file
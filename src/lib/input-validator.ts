@@ -33,7 +33,7 @@ export const databaseConnectionSchema = z.object({
 
 export const apiKeySchema = z.object({
   key: z.string().min(10).max(500),
-  provider: z.enum(['gemini', 'groq', 'openai'])
+  provider: z.string().min(1).max(50)
 });
 
 export const csvDataSchema = z.object({
@@ -54,6 +54,375 @@ export const feedbackSchema = z.object({
   confidence: z.number().min(0).max(1)
 });
 
+export const dataTypeSchema = z.enum(['string', 'number', 'boolean', 'date', 'email', 'phone', 'id']);
+
+const transformationRuleSchema = z.object({
+  field: z.string().min(1),
+  operation: z.enum(['rename', 'convert', 'split', 'merge', 'validate', 'normalize', 'format', 'calculate', 'lookup']),
+  parameters: z.record(z.string(), z.any())
+});
+
+// Regra de negócio na linguagem de rule-expressions; a sintaxe é conferida ao compilá-la
+const businessRuleSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).default(''),
+  condition: z.string().min(1).max(2000),
+  action: z.string().max(2000).default(''),
+  severity: z.enum(['error', 'warning']).default('error')
+});
+
+// JSON Schema de destino; a estrutura é conferida ao achatá-lo em campos
+const jsonSchemaDocumentSchema = z.looseObject({
+  type: z.union([z.string(), z.array(z.string())]).optional(),
+  properties: z.record(z.string(), z.any()).optional(),
+  items: z.any().optional(),
+  $ref: z.string().optional()
+}).refine(schema => schema.properties || schema.items || schema.$ref, {
+  message: 'JSON Schema must define properties, items or $ref'
+});
+
+export const fieldSchemaSchema = z.object({
+  name: z.string().min(1).max(255), // Campos de destino podem ser caminhos (ex.: contact_info.address.city)
+  type: dataTypeSchema,
+  nullable: z.boolean(),
+  description: z.string().max(1000).optional(),
+  examples: z.array(z.string()).max(20),
+  required: z.boolean().optional(),
+  enum: z.array(z.string()).max(1000).optional(),
+  format: z.string().max(50).optional()
+});
+
+export const schemaAnalysisSchema = z.object({
+  sourceSchema: z.array(fieldSchemaSchema),
+  suggestedMappings: z.array(z.object({
+    sourceField: z.string().min(1).max(100),
+    targetField: z.string().min(1).max(255),
+    sourceType: dataTypeSchema,
+    targetType: dataTypeSchema,
+    transformation: z.string().max(1000).optional(),
+    confidence: z.number(),
+    reasoning: z.string().max(1000).optional()
+  })),
+  targetSchema: z.array(fieldSchemaSchema).optional(),
+  confidence: z.number(),
+  reasoning: z.string(),
+  source: z.enum(['ai', 'learned', 'profile']).optional(),
+  profile: z.object({
+    id: z.string().min(1).max(100),
+    name: z.string().min(1).max(200),
+    version: z.number().int().min(1)
+  }).optional(),
+  targetJsonSchema: jsonSchemaDocumentSchema.optional()
+});
+
+// Resposta estruturada da IA na análise de schema (confiança de 0 a 100, como pedido no prompt)
+export const aiAnalysisResponseSchema = z.object({
+  suggestedMappings: z.array(z.object({
+    sourceField: z.string().min(1).max(100),
+    targetField: z.string().min(1).max(255),
+    sourceType: dataTypeSchema,
+    targetType: dataTypeSchema,
+    transformation: z.string().max(1000).nullish(),
+    confidence: z.number().min(0).max(100)
+  })),
+  confidence: z.number().min(0).max(100),
+  reasoning: z.string().min(1)
+});
+
+const validationErrorSchema = z.object({
+  row: z.number(),
+  field: z.string(),
+  value: z.any(),
+  error: z.string(),
+  path: z.string().optional(),
+  code: z.enum(['invalid_value', 'transformation_failed', 'schema_violation', 'business_rule']).optional(),
+  rule: z.string().max(1000).optional(),
+  step: z.enum(['transform', 'validation', 'schema']).optional(),
+  severity: z.enum(['error', 'warning']).optional()
+});
+
+// Arquivo guardado por /api/upload?store=true (ver upload-store)
+export const uploadIdSchema = z.string().regex(/^upl_[a-z0-9_]+$/, 'Identificador de upload inválido');
+
+const uploadReferenceSchema = z.object({
+  id: uploadIdSchema,
+  totalRows: z.number().int().min(0)
+});
+
+export const transformedDataSchema = z.object({
+  data: z.array(z.record(z.string(), z.any())).max(1000000),
+  schema: z.array(fieldSchemaSchema).min(1),
+  transformationRules: z.array(transformationRuleSchema),
+  validationErrors: z.array(validationErrorSchema),
+  targetJsonSchema: jsonSchemaDocumentSchema.optional(),
+  businessRules: z.array(businessRuleSchema).max(100).optional(),
+  quarantine: z.object({
+    headers: z.array(z.string()),
+    rows: z.array(z.object({
+      row: z.number().int(),
+      values: z.record(z.string(), z.string()),
+      errors: z.array(validationErrorSchema)
+    })).max(1000000)
+  }).optional(),
+  upload: uploadReferenceSchema.optional(),
+  totals: z.object({
+    records: z.number().int().min(0),
+    quarantined: z.number().int().min(0),
+    validationErrors: z.number().int().min(0)
+  }).optional()
+});
+
+// Schemas das rotas do pipeline (/api/analyze, /api/transform, /api/publish)
+// O arquivo inteiro é transformado no servidor: o limite de linhas acompanha o de totalRows, e o tamanho do corpo já é limitado por MAX_REQUEST_SIZE
+const csvPayloadSchema = csvDataSchema.extend({
+  rows: z.array(z.array(z.string().max(10000))).min(1).max(1000000),
+  fileName: z.string().max(255).default('dados.csv'),
+  uploadId: uploadIdSchema.optional() // Arquivo no servidor; `rows` é só a amostra
+});
+
+export const analyzeRequestSchema = z.object({
+  csvData: csvPayloadSchema,
+  targetSchema: z.union([z.array(fieldSchemaSchema), jsonSchemaDocumentSchema]).optional(),
+  provider: z.string().min(1).max(50).default('gemini'), // id de um provedor registrado em llm-providers
+  apiKey: apiKeySchema.optional(),
+  model: z.string().min(1).max(200).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  timeoutMs: z.number().int().min(1000).max(600000).optional(),
+  useLearned: z.boolean().default(true) // false força a análise com IA
+});
+
+export const transformRequestSchema = z.object({
+  csvData: csvPayloadSchema,
+  analysis: schemaAnalysisSchema,
+  rules: z.array(transformationRuleSchema).max(500).default([]),
+  businessRules: z.array(businessRuleSchema).max(100).default([])
+});
+
+const httpUrlSchema = z.string().max(2000).regex(/^https?:\/\/[^\s]+$/i, 'URL deve usar http:// ou https://');
+
+const restAuthSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('none') }),
+  z.object({ type: z.literal('bearer'), token: z.string().min(1).max(4000) }),
+  z.object({ type: z.literal('basic'), username: z.string().min(1).max(200), password: z.string().max(1000) }),
+  z.object({
+    type: z.literal('api_key'),
+    header: z.string().min(1).max(100).regex(/^[A-Za-z0-9-]+$/, 'Nome de header inválido'),
+    value: z.string().min(1).max(4000)
+  }),
+  z.object({
+    type: z.literal('oauth2'),
+    tokenUrl: httpUrlSchema,
+    clientId: z.string().min(1).max(500),
+    clientSecret: z.string().min(1).max(1000),
+    scope: z.string().max(1000).optional()
+  })
+]);
+
+export const publishRequestSchema = z.object({
+  transformedData: transformedDataSchema,
+  target: z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('database'),
+      connection: databaseConnectionSchema.partial({ tableName: true }),
+      mode: z.enum(['append', 'replace', 'upsert', 'insert_new']).default('append'),
+      keyColumns: z.array(z.string().min(1).max(200)).max(20).optional(), // Chave natural de upsert e insert_new
+      // Adaptação de uma tabela existente; alterações que podem perder dados só com confirmDestructive
+      schemaEvolution: z.object({
+        addColumns: z.boolean().optional(),
+        widenTypes: z.boolean().optional(),
+        columnMapping: z.record(z.string().min(1).max(200), z.string().min(1).max(200)).optional(),
+        confirmDestructive: z.boolean().optional()
+      }).optional()
+    }).refine(
+      (target) => (target.mode !== 'upsert' && target.mode !== 'insert_new') || (target.keyColumns?.length ?? 0) > 0,
+      { message: 'Os modos upsert e insert_new exigem keyColumns', path: ['keyColumns'] }
+    ),
+    z.object({
+      type: z.literal('rest-api'),
+      endpoint: httpUrlSchema,
+      method: z.enum(['POST', 'PUT']).default('POST'),
+      auth: restAuthSchema.default({ type: 'none' }),
+      batchSize: z.number().int().min(1).max(10000).default(100),
+      concurrency: z.number().int().min(1).max(10).default(2),
+      maxRetries: z.number().int().min(0).max(10).default(5),
+      timeoutMs: z.number().int().min(1000).max(300000).default(30000)
+    })
+  ]),
+  // Simulação: devolve os comandos e as requisições que seriam executados, sem gravar nada
+  dryRun: z.boolean().default(false),
+  previewStatements: z.number().int().min(1).max(1000).default(20), // Comandos de escrita ou lotes mostrados
+  format: z.enum(['json', 'sql']).default('json') // "sql" baixa o script da simulação no banco
+}).refine(
+  (request) => request.format !== 'sql' || (request.dryRun && request.target.type === 'database'),
+  { message: 'format "sql" exige dryRun com destino database', path: ['format'] }
+);
+
+export const testConnectionRequestSchema = z.object({
+  connection: databaseConnectionSchema.pick({ connectionString: true })
+});
+
+// Schemas de /api/learning
+export const learningSuggestSchema = z.object({
+  csvData: csvPayloadSchema
+});
+
+export const learningConfirmSchema = z.object({
+  csvData: csvPayloadSchema,
+  analysis: schemaAnalysisSchema
+});
+
+// Na importação, campos extras são preservados, como em exportPatterns/exportLearningData
+const learningPatternSchema = z.looseObject({
+  id: z.string().min(1),
+  sourcePattern: z.looseObject({ columnNames: z.array(z.string()) }),
+  targetMapping: z.looseObject({ fieldMappings: z.array(z.any()) }),
+  confidence: z.number().min(0).max(1),
+  usageCount: z.number().min(0),
+  successRate: z.number().min(0).max(1),
+  lastUsed: z.string(),
+  domain: z.string(),
+  metadata: z.looseObject({ createdAt: z.string(), updatedAt: z.string() })
+});
+
+const learningDataSchema = z.object({
+  feedback: z.array(z.looseObject({ id: z.string().min(1), timestamp: z.string() })).max(50000).optional(),
+  patterns: z.array(z.looseObject({ id: z.string().min(1) })).max(10000).optional(),
+  rules: z.array(z.looseObject({ id: z.string().min(1) })).max(10000).optional()
+});
+
+export const learningImportSchema = z.object({
+  patterns: z.array(learningPatternSchema).max(10000).optional(),
+  learningData: learningDataSchema.optional()
+}).refine(
+  (data) => data.patterns !== undefined || data.learningData !== undefined,
+  { message: 'Informe patterns e/ou learningData' }
+);
+
+// Schemas de /api/profiles
+const headersSchema = z.array(z.string().min(1).max(100)).min(1).max(100);
+
+export const profileSaveSchema = z.object({
+  profileId: z.string().min(1).max(100).optional(), // Ausente: cria o perfil (ou nova versão do perfil com o mesmo nome)
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(1000).optional(),
+  headers: headersSchema,
+  analysis: schemaAnalysisSchema,
+  rules: z.array(transformationRuleSchema).max(500).default([]),
+  note: z.string().max(1000).optional()
+});
+
+export const profileMatchSchema = z.object({
+  headers: headersSchema
+});
+
+export const profileDiffQuerySchema = z.object({
+  profileId: z.string().min(1).max(100),
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1)
+});
+
+const profileVersionSchema = z.looseObject({
+  version: z.number().int().min(1),
+  createdAt: z.string(),
+  note: z.string().max(1000).optional(),
+  analysis: schemaAnalysisSchema,
+  rules: z.array(transformationRuleSchema).max(500)
+});
+
+// Mesmo formato de GET /api/profiles, para que o arquivo exportado possa ser reimportado
+export const profileImportSchema = z.object({
+  format: z.literal('orquestrador-mapping-profiles').optional(),
+  version: z.number().optional(),
+  exportedAt: z.string().optional(),
+  profiles: z.array(z.looseObject({
+    id: z.string().min(1).max(100),
+    name: z.string().min(1).max(200),
+    description: z.string().max(1000).optional(),
+    headers: headersSchema,
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    versions: z.array(profileVersionSchema).min(1).max(1000)
+  })).max(1000)
+});
+
+// Schemas de /api/jobs (o payload é o mesmo corpo das rotas síncronas)
+export const jobSubmitSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('analyze'), payload: analyzeRequestSchema }),
+  z.object({ type: z.literal('transform'), payload: transformRequestSchema }),
+  z.object({ type: z.literal('publish'), payload: publishRequestSchema })
+]);
+
+export const jobQuerySchema = z.object({
+  id: z.string().min(1).max(100).optional(),
+  state: z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']).optional(),
+  type: z.enum(['analyze', 'transform', 'publish']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+export const jobIdSchema = z.object({
+  id: z.string().min(1).max(100)
+});
+
+// Schema de /api/data-profile (perfil de qualidade por coluna)
+export const profileDataRequestSchema = z.object({
+  csvData: csvPayloadSchema,
+  format: z.enum(['json', 'html']).default('json'),
+  topValues: z.number().int().min(1).max(100).optional()
+});
+
+// Schemas de /api/validate (verificações entre linhas e colunas)
+const fieldNameSchema = z.string().min(1).max(100);
+const datasetCheckBaseSchema = {
+  name: z.string().min(1).max(100).optional(),
+  severity: z.enum(['critical', 'high', 'medium', 'low']).optional()
+};
+
+const datasetCheckSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...datasetCheckBaseSchema,
+    type: z.literal('unique'),
+    fields: z.array(fieldNameSchema).min(1).max(10),
+    normalize: z.enum(['digits', 'case_insensitive']).optional()
+  }),
+  z.object({
+    ...datasetCheckBaseSchema,
+    type: z.literal('date_order'),
+    start: fieldNameSchema,
+    end: fieldNameSchema,
+    allowEqual: z.boolean().optional()
+  }),
+  z.object({
+    ...datasetCheckBaseSchema,
+    type: z.literal('sum'),
+    fields: z.array(fieldNameSchema).min(1).max(50),
+    total: fieldNameSchema,
+    tolerance: z.number().min(0).optional()
+  }),
+  z.object({
+    ...datasetCheckBaseSchema,
+    type: z.literal('foreign_key'),
+    field: fieldNameSchema,
+    reference: z.string().min(1).max(100),
+    referenceField: fieldNameSchema,
+    caseSensitive: z.boolean().optional()
+  })
+]);
+
+export const datasetValidationRequestSchema = z.object({
+  csvData: csvPayloadSchema,
+  checks: z.array(datasetCheckSchema).max(50).default([]),
+  // Avaliadas linha a linha sobre os valores de origem, pelo nome da coluna
+  businessRules: z.array(businessRuleSchema).max(100).default([]),
+  // Arquivos de referência para as chaves estrangeiras, pelo nome usado em `reference`
+  references: z.record(z.string().min(1).max(100), z.object({
+    headers: z.array(fieldNameSchema).min(1).max(100),
+    rows: z.array(z.array(z.string().max(10000))).max(100000)
+  })).default({})
+}).refine(
+  (request) => request.checks.length > 0 || request.businessRules.length > 0,
+  { message: 'Informe checks e/ou businessRules', path: ['checks'] }
+);
+
 // Funções de sanitização
 export class InputSanitizer {
   static sanitizeString(input: string, maxLength: number = 1000): string {
@@ -137,7 +506,7 @@ export class InputValidator {
         return {
           success: false,
           data: null,
-          errors: error.errors.map(err => ({
+          errors: error.issues.map(err => ({
             field: err.path.join('.'),
             message: err.message,
             code: err.code
@@ -165,7 +534,7 @@ export class InputValidator {
         return {
           success: false,
           data: null,
-          errors: error.errors.map(err => ({
+          errors: error.issues.map(err => ({
             field: err.path.join('.'),
             message: err.message,
             code: err.code
@@ -195,7 +564,7 @@ export class InputValidator {
         return {
           success: false,
           data: null,
-          errors: error.errors.map(err => ({
+          errors: error.issues.map(err => ({
             field: err.path.join('.'),
             message: err.message,
             code: err.code
@@ -215,7 +584,7 @@ export class InputValidator {
         return {
           success: false,
           data: null,
-          errors: error.errors.map(err => ({
+          errors: error.issues.map(err => ({
             field: err.path.join('.'),
             message: err.message,
             code: err.code
@@ -226,6 +595,23 @@ export class InputValidator {
     }
   }
 
+  // Validação genérica para corpos de requisição das rotas de API
+  static validateRequest<T>(schema: z.ZodType<T>, data: unknown) {
+    const result = schema.safeParse(data);
+    if (result.success) {
+      return { success: true as const, data: result.data, errors: null };
+    }
+    return {
+      success: false as const,
+      data: null,
+      errors: result.error.issues.map(issue => ({
+        field: issue.path.join('.'),
+        message: issue.message,
+        code: issue.code
+      }))
+    };
+  }
+
   // Validação de segurança adicional
   static validateRequestSize(contentLength: number): boolean {
     const maxSize = parseInt(process.env.MAX_REQUEST_SIZE || '50000000'); // 50MB
@@ -0,0 +1,97 @@
+/**
+ * Fila de jobs compartilhada pelas rotas do servidor, com os handlers das etapas do pipeline
+ * JOB_STORAGE_PATH (padrão data/jobs.db), JOB_CONCURRENCY (padrão 2) e JOB_RETENTION_DAYS (padrão 7)
+ */
+
+import path from 'path';
+import { JobContext, JobFailedError, JobQueue, SQLiteJobStore } from './job-queue';
+import { analyzeStep, AnalyzeRequest, dryRunStep, PipelineStepError, publishStep, PublishRequest, transformStep, TransformRequest } from './pipeline-steps';
+
+const DEFAULT_STORAGE_PATH = 'data/jobs.db';
+
+// Credenciais do banco e da API REST, que não são gravadas em JOB_STORAGE_PATH
+const PUBLISH_SECRET_PATHS = [
+  'target.connection.connectionString',
+  'target.auth.token',
+  'target.auth.password',
+  'target.auth.value',
+  'target.auth.clientSecret'
+];
+
+// Em globalThis: a instrumentação e as rotas são empacotadas separadamente pelo Next.js,
+// e duas filas no mesmo processo executariam os mesmos jobs
+const globalForJobs = globalThis as unknown as { orquestradorJobQueue?: JobQueue };
+
+export function getServerJobQueue(): JobQueue {
+  if (!globalForJobs.orquestradorJobQueue) {
+    const queue = new JobQueue(
+      new SQLiteJobStore(path.resolve(process.env.JOB_STORAGE_PATH || DEFAULT_STORAGE_PATH)),
+      {
+        concurrency: Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '2')),
+        retentionMs: parseInt(process.env.JOB_RETENTION_DAYS || '7') * 24 * 60 * 60 * 1000
+      }
+    );
+
+    queue
+      .register('analyze', analyzeJob, ['apiKey.key'])
+      .register('transform', transformJob)
+      .register('publish', publishJob, PUBLISH_SECRET_PATHS);
+
+    globalForJobs.orquestradorJobQueue = queue;
+    queue.start();
+  }
+  return globalForJobs.orquestradorJobQueue;
+}
+
+// Os resultados têm o mesmo formato das respostas das rotas síncronas
+
+async function analyzeJob(payload: AnalyzeRequest, context: JobContext) {
+  context.reportProgress(10, 'Analisando schema');
+  const { analysis } = await runStep(() => analyzeStep(payload));
+  context.throwIfCancelled();
+  return { analysis };
+}
+
+async function transformJob(payload: TransformRequest, context: JobContext) {
+  context.reportProgress(10, `Transformando ${payload.csvData.metadata.totalRows} registros`);
+  const transformedData = await runStep(() => transformStep(payload, (rows, total) => {
+    context.throwIfCancelled();
+    context.reportProgress(10 + Math.round((rows / Math.max(1, total)) * 85), `${rows} de ${total} linhas transformadas`);
+  }));
+  context.throwIfCancelled();
+  return { transformedData };
+}
+
+async function publishJob(payload: PublishRequest, context: JobContext) {
+  // Depois de iniciada, a transação de publicação não é interrompida
+  context.throwIfCancelled();
+  if (payload.dryRun) {
+    context.reportProgress(10, 'Simulando a publicação');
+    return { dryRun: await runStep(() => dryRunStep(payload)) };
+  }
+  const { transformedData } = payload;
+  context.reportProgress(10, `Publicando ${transformedData.totals?.records ?? transformedData.data.length} registros`);
+  // Uploads guardados no servidor informam registros; os demais, lotes enviados à API
+  const unit = transformedData.upload ? 'registro(s)' : 'lote(s)';
+  const result = await runStep(() => publishStep(payload, (completed, total) => {
+    context.reportProgress(10 + Math.round((completed / Math.max(1, total)) * 85), `${completed} de ${total} ${unit} enviados`);
+  }));
+  if (!result.success) {
+    throw new JobFailedError(result.error || 'Data publication failed', { result });
+  }
+  return { result };
+}
+
+/**
+ * Erros de requisição das etapas viram falhas com os mesmos detalhes que as rotas retornariam
+ */
+async function runStep<T>(step: () => Promise<T>): Promise<T> {
+  try {
+    return await step();
+  } catch (error) {
+    if (error instanceof PipelineStepError) {
+      throw new JobFailedError(error.message, error.details);
+    }
+    throw error;
+  }
+}
\ No newline at end of file
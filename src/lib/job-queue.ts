@@ -0,0 +1,455 @@
+/**
+ * Fila de jobs em segundo plano para importações longas (análise, transformação e publicação)
+ * Roda no processo do servidor com limite de concorrência; os jobs ficam num banco SQLite,
+ * então os que estavam na fila ou em execução são retomados depois de um reinício
+ * Credenciais do payload (ver register) ficam só em memória e nunca vão para o banco
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { getPathValue, setPathValue } from './field-path';
+import { performanceCollector } from './performance-metrics';
+import { ProcessingStatus } from '@/types';
+
+export type JobType = Exclude<ProcessingStatus['step'], 'upload'>;
+export type JobState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export const JOB_TYPES: JobType[] = ['analyze', 'transform', 'publish'];
+export const JOB_STATES: JobState[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+export const FINISHED_JOB_STATES: JobState[] = ['completed', 'failed', 'cancelled'];
+
+const STATS_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface Job {
+  id: string;
+  type: JobType;
+  state: JobState;
+  status: ProcessingStatus;
+  payload: unknown; // Sem as credenciais; apagado quando o job termina
+  secretPaths?: string[]; // Campos retirados do payload, cujos valores ficam só na memória do processo
+  result?: unknown;
+  attempts: number; // Execuções iniciadas; um reinício durante a execução faz o job rodar de novo
+  cancelRequested?: boolean;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+}
+
+// Sem o payload (que pode conter chaves de API) e sem o resultado, que tem rota própria
+export type JobSummary = Omit<Job, 'payload' | 'result'> & { hasResult: boolean };
+
+export interface JobContext {
+  signal: AbortSignal; // Abortado quando o job é cancelado
+  throwIfCancelled(): void;
+  reportProgress(progress: number, message?: string): void;
+}
+
+export type JobHandler = (payload: any, context: JobContext) => Promise<unknown>;
+
+export interface JobFilter {
+  state?: JobState;
+  type?: JobType;
+  limit?: number;
+}
+
+export interface JobDurationStats {
+  count: number;
+  avgMs: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+export interface JobStats {
+  concurrency: number;
+  queueDepth: number;
+  running: number;
+  counts: Record<JobState, number>;
+  durations: Partial<Record<JobType, JobDurationStats>>; // Jobs executados nas últimas 24h
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelado');
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Falha com resultado estruturado (ex.: erros de validação), guardado em `result`
+ */
+export class JobFailedError extends Error {
+  constructor(message: string, public result?: unknown) {
+    super(message);
+    this.name = 'JobFailedError';
+  }
+}
+
+export interface JobStore {
+  insert(job: Job): void;
+  update(job: Job): void;
+  get(id: string): Job | undefined;
+  list(filter?: JobFilter): Job[]; // Mais recentes primeiro
+  claimNext(): Job | undefined; // Marca o job mais antigo da fila como 'running'
+  countByState(): Record<JobState, number>;
+  finishedSince(since: string): Array<Pick<Job, 'type' | 'state' | 'durationMs'>>;
+  deleteFinishedBefore(before: string): number;
+}
+
+/**
+ * Jobs num banco SQLite; o job completo fica em JSON, com as colunas usadas nas consultas ao lado
+ */
+export class SQLiteJobStore implements JobStore {
+  private db: Database.Database;
+
+  constructor(file: string) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.db = new Database(file);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        state TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        finished_at TEXT,
+        duration_ms INTEGER,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS jobs_state_created_at ON jobs (state, created_at);
+    `);
+  }
+
+  insert(job: Job): void {
+    this.db
+      .prepare('INSERT INTO jobs (id, type, state, created_at, finished_at, duration_ms, data) VALUES (?, ?, ?, ?, ?, ?, ?)')
+      .run(job.id, job.type, job.state, job.createdAt, job.finishedAt ?? null, job.durationMs ?? null, JSON.stringify(job));
+  }
+
+  update(job: Job): void {
+    this.db
+      .prepare('UPDATE jobs SET state = ?, finished_at = ?, duration_ms = ?, data = ? WHERE id = ?')
+      .run(job.state, job.finishedAt ?? null, job.durationMs ?? null, JSON.stringify(job), job.id);
+  }
+
+  get(id: string): Job | undefined {
+    const row = this.db.prepare('SELECT data FROM jobs WHERE id = ?').get(id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : undefined;
+  }
+
+  list(filter: JobFilter = {}): Job[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (filter.state) {
+      conditions.push('state = ?');
+      params.push(filter.state);
+    }
+    if (filter.type) {
+      conditions.push('type = ?');
+      params.push(filter.type);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = filter.limit ? `LIMIT ${Math.floor(filter.limit)}` : '';
+    const rows = this.db
+      .prepare(`SELECT data FROM jobs ${where} ORDER BY created_at DESC, id DESC ${limit}`)
+      .all(...params) as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  claimNext(): Job | undefined {
+    return this.db.transaction(() => {
+      const row = this.db
+        .prepare("SELECT data FROM jobs WHERE state = 'queued' ORDER BY created_at, id LIMIT 1")
+        .get() as { data: string } | undefined;
+      if (!row) return undefined;
+
+      const job: Job = { ...JSON.parse(row.data), state: 'running' };
+      this.update(job);
+      return job;
+    })();
+  }
+
+  countByState(): Record<JobState, number> {
+    const counts = Object.fromEntries(JOB_STATES.map(state => [state, 0])) as Record<JobState, number>;
+    const rows = this.db.prepare('SELECT state, COUNT(*) AS total FROM jobs GROUP BY state').all() as Array<{ state: JobState; total: number }>;
+    for (const row of rows) {
+      counts[row.state] = row.total;
+    }
+    return counts;
+  }
+
+  finishedSince(since: string): Array<Pick<Job, 'type' | 'state' | 'durationMs'>> {
+    const rows = this.db
+      .prepare('SELECT type, state, duration_ms FROM jobs WHERE finished_at >= ? AND duration_ms IS NOT NULL')
+      .all(since) as Array<{ type: JobType; state: JobState; duration_ms: number }>;
+    return rows.map(row => ({ type: row.type, state: row.state, durationMs: row.duration_ms }));
+  }
+
+  deleteFinishedBefore(before: string): number {
+    const placeholders = FINISHED_JOB_STATES.map(() => '?').join(', ');
+    return this.db
+      .prepare(`DELETE FROM jobs WHERE state IN (${placeholders}) AND finished_at < ?`)
+      .run(...FINISHED_JOB_STATES, before).changes;
+  }
+}
+
+export interface JobQueueOptions {
+  concurrency: number;
+  retentionMs: number; // Jobs finalizados há mais tempo são apagados ao iniciar a fila
+}
+
+export class JobQueue {
+  private handlers = new Map<JobType, JobHandler>();
+  private secretPaths = new Map<JobType, string[]>();
+  private secrets = new Map<string, Record<string, unknown>>();
+  private controllers = new Map<string, AbortController>();
+  private started = false;
+
+  constructor(private store: JobStore, private options: JobQueueOptions) {}
+
+  /**
+   * `secretPaths` lista os campos do payload com credenciais (ex.: 'target.auth.token')
+   */
+  register(type: JobType, handler: JobHandler, secretPaths: string[] = []): this {
+    this.handlers.set(type, handler);
+    this.secretPaths.set(type, secretPaths);
+    return this;
+  }
+
+  /**
+   * Devolve à fila os jobs interrompidos por um reinício e começa a processar
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    this.store.deleteFinishedBefore(new Date(Date.now() - this.options.retentionMs).toISOString());
+    for (const job of this.store.list({ state: 'running' })) {
+      this.store.update({
+        ...job,
+        state: 'queued',
+        status: { step: job.type, status: 'pending', progress: 0, message: 'Retomado após reinício do servidor' }
+      });
+    }
+
+    this.recordQueueMetrics();
+    this.pump();
+  }
+
+  submit(type: JobType, payload: unknown): JobSummary {
+    if (!this.handlers.has(type)) {
+      throw new Error(`Nenhum handler registrado para jobs '${type}'`);
+    }
+
+    const { stored, secrets } = extractSecrets(payload, this.secretPaths.get(type) ?? []);
+    const job: Job = {
+      id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      state: 'queued',
+      status: { step: type, status: 'pending', progress: 0, message: 'Aguardando na fila' },
+      payload: stored,
+      secretPaths: Object.keys(secrets).length > 0 ? Object.keys(secrets) : undefined,
+      attempts: 0,
+      createdAt: new Date().toISOString()
+    };
+
+    if (job.secretPaths) this.secrets.set(job.id, secrets);
+    this.store.insert(job);
+    this.recordQueueMetrics();
+    this.pump();
+    return toSummary(this.store.get(job.id) ?? job);
+  }
+
+  get(id: string): JobSummary | undefined {
+    const job = this.store.get(id);
+    return job && toSummary(job);
+  }
+
+  /**
+   * Resultado de um job finalizado; jobs que falharam podem trazer detalhes (ver JobFailedError)
+   */
+  getResult(id: string): { job: JobSummary; result?: unknown } | undefined {
+    const job = this.store.get(id);
+    return job && { job: toSummary(job), result: job.result };
+  }
+
+  list(filter?: JobFilter): JobSummary[] {
+    return this.store.list(filter).map(toSummary);
+  }
+
+  /**
+   * Jobs na fila são cancelados na hora; em execução, o handler é avisado pelo AbortSignal
+   * e o job termina como 'cancelled' no próximo ponto de verificação
+   */
+  cancel(id: string): JobSummary | undefined {
+    const job = this.store.get(id);
+    if (!job) return undefined;
+
+    if (job.state === 'queued') {
+      return toSummary(this.finish(job, 'cancelled', { error: new JobCancelledError().message }));
+    }
+
+    if (job.state === 'running') {
+      const cancelling: Job = { ...job, cancelRequested: true, status: { ...job.status, message: 'Cancelamento solicitado' } };
+      this.store.update(cancelling);
+      this.controllers.get(id)?.abort();
+      return toSummary(cancelling);
+    }
+
+    return toSummary(job);
+  }
+
+  getStats(): JobStats {
+    const counts = this.store.countByState();
+    const durations: JobStats['durations'] = {};
+    const finished = this.store.finishedSince(new Date(Date.now() - STATS_WINDOW_MS).toISOString());
+
+    for (const type of JOB_TYPES) {
+      const values = finished
+        .filter(job => job.type === type)
+        .map(job => job.durationMs ?? 0)
+        .sort((a, b) => a - b);
+      if (values.length === 0) continue;
+
+      durations[type] = {
+        count: values.length,
+        avgMs: Math.round(values.reduce((sum, value) => sum + value, 0) / values.length),
+        p95Ms: values[Math.min(values.length - 1, Math.ceil(values.length * 0.95) - 1)],
+        maxMs: values[values.length - 1]
+      };
+    }
+
+    return {
+      concurrency: this.options.concurrency,
+      queueDepth: counts.queued,
+      running: counts.running,
+      counts,
+      durations
+    };
+  }
+
+  private pump(): void {
+    while (this.controllers.size < this.options.concurrency) {
+      const job = this.store.claimNext();
+      if (!job) break;
+      this.controllers.set(job.id, new AbortController());
+      void this.run(job);
+    }
+  }
+
+  private async run(claimed: Job): Promise<void> {
+    const controller = this.controllers.get(claimed.id)!;
+    let job: Job = {
+      ...claimed,
+      attempts: claimed.attempts + 1,
+      startedAt: new Date().toISOString(),
+      status: { step: claimed.type, status: 'processing', progress: 0, message: 'Em execução' }
+    };
+    this.store.update(job);
+    this.recordQueueMetrics();
+
+    const context: JobContext = {
+      signal: controller.signal,
+      throwIfCancelled: () => {
+        if (controller.signal.aborted) throw new JobCancelledError();
+      },
+      reportProgress: (progress, message) => {
+        job = { ...job, status: { ...job.status, progress: Math.max(0, Math.min(99, Math.round(progress))), message } };
+        this.store.update({ ...job, cancelRequested: controller.signal.aborted || undefined });
+      }
+    };
+
+    try {
+      const handler = this.handlers.get(job.type);
+      if (!handler) throw new Error(`Nenhum handler registrado para jobs '${job.type}'`);
+
+      const result = await handler(this.restoreSecrets(job), context);
+      this.finish(job, 'completed', { result });
+    } catch (error) {
+      const cancelled = error instanceof JobCancelledError || controller.signal.aborted;
+      this.finish(job, cancelled ? 'cancelled' : 'failed', {
+        error: error instanceof Error ? error.message : String(error),
+        result: error instanceof JobFailedError ? error.result : undefined
+      });
+    } finally {
+      this.controllers.delete(job.id);
+      this.pump();
+    }
+  }
+
+  private finish(job: Job, state: JobState, outcome: { result?: unknown; error?: string }): Job {
+    const finishedAt = new Date();
+    const durationMs = job.startedAt ? finishedAt.getTime() - Date.parse(job.startedAt) : undefined;
+    const finished: Job = {
+      ...job,
+      state,
+      payload: undefined,
+      result: outcome.result,
+      finishedAt: finishedAt.toISOString(),
+      durationMs,
+      status: {
+        step: job.type,
+        status: state === 'completed' ? 'completed' : 'error',
+        progress: state === 'completed' ? 100 : job.status.progress,
+        message: state === 'completed' ? 'Concluído' : state === 'cancelled' ? 'Cancelado' : 'Falhou',
+        error: outcome.error
+      }
+    };
+
+    this.store.update(finished);
+    this.secrets.delete(job.id);
+    if (durationMs !== undefined) {
+      performanceCollector.addMetric('jobs.duration', durationMs, 'ms', { type: job.type, state });
+    }
+    this.recordQueueMetrics();
+    return finished;
+  }
+
+  /**
+   * Payload com as credenciais de volta; depois de um reinício elas não existem mais e o job falha
+   */
+  private restoreSecrets(job: Job): unknown {
+    if (!job.secretPaths) return job.payload;
+
+    const secrets = this.secrets.get(job.id);
+    if (!secrets) {
+      throw new Error('As credenciais do job ficam só em memória e se perderam no reinício do servidor; envie o job de novo');
+    }
+    const payload = structuredClone(job.payload) as Record<string, any>;
+    for (const [secretPath, value] of Object.entries(secrets)) {
+      setPathValue(payload, secretPath, value);
+    }
+    return payload;
+  }
+
+  private recordQueueMetrics(): void {
+    const counts = this.store.countByState();
+    performanceCollector.addMetric('jobs.queue_depth', counts.queued, 'count');
+    performanceCollector.addMetric('jobs.running', counts.running, 'count');
+  }
+}
+
+/**
+ * Separa do payload os campos de credenciais presentes; o que sobra pode ser gravado
+ */
+function extractSecrets(payload: unknown, secretPaths: string[]): { stored: unknown; secrets: Record<string, unknown> } {
+  const secrets: Record<string, unknown> = {};
+  if (secretPaths.length === 0 || payload === null || typeof payload !== 'object') {
+    return { stored: payload, secrets };
+  }
+
+  const stored = structuredClone(payload) as Record<string, any>;
+  for (const secretPath of secretPaths) {
+    const value = getPathValue(stored, secretPath);
+    if (value === undefined) continue;
+    secrets[secretPath] = value;
+    setPathValue(stored, secretPath, undefined);
+  }
+  return { stored, secrets };
+}
+
+function toSummary(job: Job): JobSummary {
+  const { payload, result, ...summary } = job;
+  return { ...summary, hasResult: result !== undefined };
+}
\ No newline at end of file
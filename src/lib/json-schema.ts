@@ -0,0 +1,372 @@
+/**
+ * Conversão de JSON Schema (draft-07/2020-12) em FieldSchema[] e validação de registros
+ * Cada propriedade folha vira um campo cujo nome é o caminho até ela (ex.: `contact_info.address.city`)
+ */
+
+import { DataType, FieldSchema, JsonSchemaDefinition, TransformationRule, ValidationError } from '@/types';
+import { formatFieldPath, getPathValue, PathSegment } from './field-path';
+
+// Limite de aninhamento, que também protege contra $ref circulares
+const MAX_DEPTH = 32;
+
+const FORMAT_TYPES: Record<string, DataType> = {
+  date: 'date',
+  'date-time': 'date',
+  email: 'email',
+  'idn-email': 'email',
+  uuid: 'id'
+};
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  date: /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/,
+  'date-time': /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])[T ]([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i,
+  time: /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  'idn-email': /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  uri: /^[a-z][a-z0-9+.-]*:\S+$/i
+};
+
+export interface JsonSchemaIssue {
+  path: string; // Caminho no formato de field-path; vazio para a raiz
+  message: string;
+}
+
+export function isJsonSchema(value: unknown): value is JsonSchemaDefinition {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) &&
+    ('properties' in value || 'items' in value || 'type' in value || '$ref' in value);
+}
+
+/**
+ * Lê um JSON Schema enviado pelo usuário (texto colado ou conteúdo de arquivo)
+ * Erros de sintaxe ou de estrutura viram mensagens legíveis
+ */
+export function parseJsonSchema(text: string): { schema: JsonSchemaDefinition; fields: FieldSchema[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`JSON inválido: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isJsonSchema(parsed)) {
+    throw new Error('O conteúdo não é um JSON Schema (esperado um objeto com type, properties ou items)');
+  }
+  return { schema: parsed, fields: jsonSchemaToFields(parsed) };
+}
+
+/**
+ * Achata o schema em campos com caminhos; arrays usam o índice 0 como modelo dos itens
+ * Mantém enum, format e required; campos de objetos opcionais também são opcionais
+ */
+export function jsonSchemaToFields(schema: JsonSchemaDefinition): FieldSchema[] {
+  const fields: FieldSchema[] = [];
+  collectFields(schema, schema, '', { required: true, nullable: false }, fields, 0);
+  return fields;
+}
+
+/**
+ * Aceita tanto uma lista de campos quanto um JSON Schema completo
+ */
+export function toTargetFields(targetSchema: FieldSchema[] | JsonSchemaDefinition): FieldSchema[] {
+  return Array.isArray(targetSchema) ? targetSchema : jsonSchemaToFields(targetSchema);
+}
+
+function collectFields(
+  root: JsonSchemaDefinition,
+  node: JsonSchemaDefinition,
+  path: string,
+  inherited: { required: boolean; nullable: boolean },
+  fields: FieldSchema[],
+  depth: number
+): void {
+  if (depth > MAX_DEPTH) {
+    throw new Error(`JSON Schema aninhado demais em '${path}'`);
+  }
+
+  const schema = unwrapNullable(resolveRef(root, node));
+  const types = getTypes(schema);
+  const type = types.find(t => t !== 'null') ??
+    (schema.properties ? 'object' : schema.items || schema.prefixItems ? 'array' : undefined);
+  const nullable = inherited.nullable || !inherited.required || types.includes('null');
+
+  if (type === 'object' && schema.properties) {
+    const required = new Set(schema.required ?? []);
+    for (const [key, child] of Object.entries(schema.properties)) {
+      collectFields(root, child, path ? `${path}.${key}` : key, {
+        required: inherited.required && required.has(key),
+        nullable: inherited.nullable || types.includes('null')
+      }, fields, depth + 1);
+    }
+    return;
+  }
+
+  if (type === 'array' && path && (schema.items || schema.prefixItems)) {
+    const itemState = { required: inherited.required && (schema.minItems ?? 0) > 0, nullable };
+    if (schema.prefixItems) {
+      schema.prefixItems.forEach((item, index) => {
+        collectFields(root, item, `${path}[${index}]`, itemState, fields, depth + 1);
+      });
+    } else if (schema.items) {
+      collectFields(root, schema.items, `${path}[0]`, itemState, fields, depth + 1);
+    }
+    return;
+  }
+
+  if (!path) {
+    throw new Error('O JSON Schema de destino precisa descrever um objeto com propriedades');
+  }
+
+  const allowed = schema.enum ?? (schema.const !== undefined ? [schema.const] : undefined);
+  fields.push({
+    name: path,
+    type: mapJsonSchemaType(type, schema.format),
+    nullable,
+    description: schema.description ?? schema.title,
+    examples: (schema.examples ?? allowed ?? []).slice(0, 3).map(value => String(value)),
+    required: inherited.required,
+    enum: allowed?.filter(value => value !== null).map(value => String(value)),
+    format: schema.format
+  });
+}
+
+function mapJsonSchemaType(type: string | undefined, format?: string): DataType {
+  if (format && FORMAT_TYPES[format]) return FORMAT_TYPES[format];
+  if (type === 'number' || type === 'integer') return 'number';
+  if (type === 'boolean') return 'boolean';
+  return 'string';
+}
+
+function getTypes(schema: JsonSchemaDefinition): string[] {
+  return Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+}
+
+// `anyOf: [{ ... }, { type: 'null' }]` é a forma usual de declarar um campo anulável
+function unwrapNullable(schema: JsonSchemaDefinition): JsonSchemaDefinition {
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (!variants) return schema;
+
+  const nonNull = variants.filter(variant => !(getTypes(variant).length === 1 && variant.type === 'null'));
+  if (nonNull.length !== 1) return schema;
+
+  const hasNull = nonNull.length < variants.length;
+  const { anyOf, oneOf, ...rest } = schema;
+  const merged = { ...nonNull[0], ...rest };
+  return hasNull ? { ...merged, type: [...getTypes(nonNull[0]), 'null'] } : merged;
+}
+
+// Resolve apenas referências locais (#/definitions/..., #/$defs/...)
+function resolveRef(root: JsonSchemaDefinition, node: JsonSchemaDefinition): JsonSchemaDefinition {
+  if (!node.$ref) return node;
+  if (!node.$ref.startsWith('#')) {
+    throw new Error(`Referência externa não suportada no JSON Schema: ${node.$ref}`);
+  }
+
+  const target = node.$ref.slice(1).split('/').filter(Boolean).reduce<any>(
+    (current, key) => current?.[key.replace(/~1/g, '/').replace(/~0/g, '~')],
+    root
+  );
+  if (!target || typeof target !== 'object') {
+    throw new Error(`Referência não encontrada no JSON Schema: ${node.$ref}`);
+  }
+  const { $ref, ...rest } = node;
+  return { ...target, ...rest };
+}
+
+/**
+ * Valida um valor contra o schema
+ * Propriedades opcionais com valor null são tratadas como ausentes, já que a transformação
+ * grava null em todo campo mapeado sem valor
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchemaDefinition): JsonSchemaIssue[] {
+  const issues: JsonSchemaIssue[] = [];
+  validateNode(schema, schema, value, [], issues, 0);
+  return issues;
+}
+
+function validateNode(
+  root: JsonSchemaDefinition,
+  node: JsonSchemaDefinition,
+  value: unknown,
+  path: PathSegment[],
+  issues: JsonSchemaIssue[],
+  depth: number
+): void {
+  if (depth > MAX_DEPTH) return;
+
+  const schema = resolveRef(root, node);
+  const report = (message: string) => issues.push({ path: formatFieldPath(path), message });
+
+  const types = getTypes(schema);
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    report(`Tipo inválido: esperado ${types.join(' ou ')}, recebido ${describeType(value)}`);
+    return;
+  }
+
+  if (schema.enum && !schema.enum.some(option => isEqual(option, value))) {
+    report(`Valor fora da lista permitida (${schema.enum.map(option => JSON.stringify(option)).join(', ')})`);
+  }
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    report(`Valor deve ser ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.allOf) {
+    schema.allOf.forEach(sub => validateNode(root, sub, value, path, issues, depth + 1));
+  }
+  const matches = (sub: JsonSchemaDefinition) => {
+    const subIssues: JsonSchemaIssue[] = [];
+    validateNode(root, sub, value, path, subIssues, depth + 1);
+    return subIssues.length === 0;
+  };
+  if (schema.anyOf && !schema.anyOf.some(matches)) {
+    report('Valor não corresponde a nenhuma das alternativas (anyOf)');
+  }
+  if (schema.oneOf && schema.oneOf.filter(matches).length !== 1) {
+    report('Valor deve corresponder a exatamente uma alternativa (oneOf)');
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      report(`Texto com menos de ${schema.minLength} caracteres`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      report(`Texto com mais de ${schema.maxLength} caracteres`);
+    }
+    if (schema.pattern && !safeRegExp(schema.pattern)?.test(value)) {
+      report(`Valor não corresponde ao padrão ${schema.pattern}`);
+    }
+    if (schema.format && FORMAT_PATTERNS[schema.format] && !FORMAT_PATTERNS[schema.format].test(value)) {
+      report(`Formato ${schema.format} inválido`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) report(`Valor menor que o mínimo ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) report(`Valor maior que o máximo ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) report(`Valor deve ser maior que ${schema.exclusiveMinimum}`);
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) report(`Valor deve ser menor que ${schema.exclusiveMaximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) report(`Lista com menos de ${schema.minItems} itens`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) report(`Lista com mais de ${schema.maxItems} itens`);
+    value.forEach((item, index) => {
+      const itemSchema = schema.prefixItems?.[index] ?? (index >= (schema.prefixItems?.length ?? 0) ? schema.items : undefined);
+      if (itemSchema) validateNode(root, itemSchema, item, [...path, index], issues, depth + 1);
+    });
+  }
+
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    const required = schema.required ?? [];
+
+    for (const key of required) {
+      if (record[key] === undefined || (record[key] === null && !allowsNull(root, schema.properties?.[key]))) {
+        issues.push({ path: formatFieldPath([...path, key]), message: 'Campo obrigatório ausente' });
+      }
+    }
+
+    for (const [key, child] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        // null em campo opcional equivale a ausente; em campo obrigatório já foi reportado acima
+        if (child === null && (!required.includes(key) || !allowsNull(root, propertySchema))) continue;
+        validateNode(root, propertySchema, child, [...path, key], issues, depth + 1);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: formatFieldPath([...path, key]), message: 'Campo não previsto no schema' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(root, schema.additionalProperties, child, [...path, key], issues, depth + 1);
+      }
+    }
+  }
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null': return value === null;
+    case 'string': return typeof value === 'string';
+    case 'boolean': return typeof value === 'boolean';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'array': return Array.isArray(value);
+    case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+    default: return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function allowsNull(root: JsonSchemaDefinition, node?: JsonSchemaDefinition): boolean {
+  if (!node) return true;
+  const schema = unwrapNullable(resolveRef(root, node));
+  const types = getTypes(schema);
+  return types.length === 0 || types.includes('null');
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function safeRegExp(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'u');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Valida os registros transformados e mapeia cada erro de volta à linha e à coluna de origem
+ * A coluna é encontrada seguindo as regras que produziram o caminho de destino
+ */
+export function validateRecords(
+  records: Record<string, any>[],
+  schema: JsonSchemaDefinition,
+  rules: TransformationRule[]
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  records.forEach((record, row) => {
+    for (const issue of validateJsonSchema(record, schema)) {
+      errors.push({
+        row,
+        field: findSourceField(issue.path, rules) ?? (issue.path || '(registro)'),
+        value: issue.path ? getPathValue(record, issue.path) : undefined,
+        error: issue.message,
+        path: issue.path,
+        code: 'schema_violation',
+        step: 'schema'
+      });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Coluna de origem de um campo de destino, seguindo as regras que o produziram
+ */
+export function findSourceField(path: string, rules: TransformationRule[]): string | undefined {
+  if (!path) return undefined;
+
+  let field = path;
+  let source: string | undefined;
+  // Segue a cadeia de regras (ex.: rename após split) até a coluna original
+  for (let hops = 0; hops < rules.length; hops++) {
+    const rule = [...rules].reverse().find(candidate => producesField(candidate, field));
+    if (!rule || rule.field === field) break;
+    source = rule.field;
+    field = rule.field;
+  }
+  return source;
+}
+
+function producesField(rule: TransformationRule, field: string): boolean {
+  const targets: string[] = rule.operation === 'split'
+    ? (Array.isArray(rule.parameters.targetFields) ? rule.parameters.targetFields : [])
+    : [rule.parameters.targetField];
+  return targets.includes(field);
+}
\ No newline at end of file
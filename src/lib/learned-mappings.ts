@@ -0,0 +1,123 @@
+/**
+ * Ponte entre o LearningSystem e a etapa de análise
+ * Mapeamentos confirmados viram padrões; padrões muito similares dispensam a chamada à IA
+ */
+
+import { CSVData, FieldMapping, FieldSchema, SchemaAnalysis } from '@/types';
+import { LearningSystem, StructureSignature, SuggestionResult, TargetMapping } from './learning-system';
+
+// Similaridade mínima para aplicar um padrão aprendido diretamente
+export const LEARNED_MATCH_THRESHOLD = 0.9;
+const SAMPLE_ROWS = 10;
+
+/**
+ * Sugere mapeamentos a partir dos padrões aprendidos
+ */
+export function suggestLearnedMappings(system: LearningSystem, data: CSVData): SuggestionResult {
+  const { sourceData, structure } = toLearningSource(data);
+  return system.suggestMappings(sourceData, structure, 'generico');
+}
+
+/**
+ * Monta a análise a partir do padrão sugerido, ou null se a IA ainda for necessária
+ * Exige similaridade alta, nenhuma coluna nova e todos os mapeamentos confirmados disponíveis
+ */
+export function buildLearnedAnalysis(
+  system: LearningSystem,
+  data: CSVData,
+  suggestions: SuggestionResult,
+  targetSchema?: FieldSchema[]
+): SchemaAnalysis | null {
+  if (!suggestions.patternId || suggestions.confidence < LEARNED_MATCH_THRESHOLD) return null;
+
+  const pattern = system.getPattern(suggestions.patternId);
+  const confirmed = pattern?.targetMapping.outputSchema as SchemaAnalysis | undefined;
+  if (!pattern || !confirmed?.suggestedMappings) return null;
+
+  // Um schema de destino diferente do confirmado pede uma nova análise
+  if (targetSchema && !sameFieldNames(targetSchema, confirmed.targetSchema ?? [])) return null;
+
+  const sourceSchema: FieldSchema[] = [];
+  for (let index = 0; index < data.headers.length; index++) {
+    const header = data.headers[index];
+    const field = confirmed.sourceSchema.find(f => f.name.toLowerCase() === header.toLowerCase());
+    if (!field) return null;
+    sourceSchema.push({
+      ...field,
+      name: header,
+      examples: data.rows.slice(0, 3).map(row => row[index] ?? '').filter(value => value.trim() !== '')
+    });
+  }
+
+  const suggestionsBySource = new Map(suggestions.suggestions.map(s => [s.sourceField.toLowerCase(), s]));
+  const suggestedMappings: FieldMapping[] = [];
+  for (const mapping of confirmed.suggestedMappings) {
+    const suggestion = suggestionsBySource.get(mapping.sourceField.toLowerCase());
+    if (!suggestion) return null;
+    suggestedMappings.push({
+      ...mapping,
+      sourceField: suggestion.sourceField,
+      targetField: suggestion.targetField,
+      confidence: Math.round(suggestion.confidence * 100),
+      reasoning: suggestion.reasoning
+    });
+  }
+
+  return {
+    sourceSchema,
+    suggestedMappings,
+    targetSchema: confirmed.targetSchema,
+    targetJsonSchema: confirmed.targetJsonSchema,
+    confidence: Math.round(suggestions.confidence * pattern.confidence * 100),
+    reasoning: suggestions.reasoning,
+    source: 'learned'
+  };
+}
+
+/**
+ * Aprende (ou reforça) o padrão de uma análise confirmada pelo usuário
+ */
+export function learnConfirmedAnalysis(system: LearningSystem, data: CSVData, analysis: SchemaAnalysis): string {
+  const { sourceData, structure } = toLearningSource(data);
+  const targetMapping: TargetMapping = {
+    fieldMappings: analysis.suggestedMappings.map(mapping => ({
+      sourceField: mapping.sourceField,
+      targetField: mapping.targetField,
+      transformation: mapping.transformation,
+      confidence: 1,
+      reasoning: 'Mapeamento confirmado pelo usuário'
+    })),
+    transformations: [],
+    validationRules: [],
+    outputSchema: { ...analysis, source: undefined }
+  };
+
+  return system.learnPattern(sourceData, structure, targetMapping, 'generico', {
+    source: analysis.source === 'learned' ? 'user' : 'ai',
+    description: data.fileName
+  });
+}
+
+function toLearningSource(data: CSVData): { sourceData: Record<string, string>[]; structure: StructureSignature } {
+  const sourceData = data.rows.slice(0, SAMPLE_ROWS).map(row =>
+    Object.fromEntries(data.headers.map((header, index) => [header, row[index] ?? '']))
+  );
+
+  return {
+    sourceData,
+    // CSVData já chega parseado: delimitador e encoding originais não fazem parte da assinatura
+    structure: {
+      columnCount: data.headers.length,
+      hasHeaders: true,
+      delimiter: ',',
+      encoding: 'utf-8',
+      rowCount: data.rows.length,
+      fingerprint: data.headers.join('|')
+    }
+  };
+}
+
+function sameFieldNames(a: FieldSchema[], b: FieldSchema[]): boolean {
+  const names = (fields: FieldSchema[]) => fields.map(field => field.name.toLowerCase()).sort().join('|');
+  return names(a) === names(b);
+}
\ No newline at end of file
@@ -0,0 +1,117 @@
+/**
+ * Armazenamento compartilhado dos dados de aprendizado e dos perfis de mapeamento no servidor
+ * LEARNING_STORAGE_PATH terminado em .db/.sqlite usa SQLite; qualquer outro caminho é um diretório de arquivos JSON
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { FeedbackSystem } from './feedback-system';
+import { LearningStorage } from './learning-storage';
+import { LearningSystem } from './learning-system';
+import { MappingProfileStore } from './mapping-profiles';
+
+const DEFAULT_STORAGE_PATH = 'data/learning.db';
+const SQLITE_EXTENSIONS = ['.db', '.sqlite', '.sqlite3'];
+
+/**
+ * Um arquivo JSON por chave, gravado de forma atômica (arquivo temporário + rename)
+ */
+export class FileStorageAdapter implements LearningStorage {
+  constructor(private directory: string) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  load(key: string): string | null {
+    const file = this.filePath(key);
+    return fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : null;
+  }
+
+  save(key: string, data: string): void {
+    const file = this.filePath(key);
+    fs.writeFileSync(`${file}.tmp`, data, 'utf-8');
+    fs.renameSync(`${file}.tmp`, file);
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+}
+
+/**
+ * Tabela chave/valor num banco SQLite
+ */
+export class SQLiteStorageAdapter implements LearningStorage {
+  private db: Database.Database;
+
+  constructor(file: string) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.db = new Database(file);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS learning_store (
+        key TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+  }
+
+  load(key: string): string | null {
+    const row = this.db.prepare('SELECT data FROM learning_store WHERE key = ?').get(key) as { data: string } | undefined;
+    return row?.data ?? null;
+  }
+
+  save(key: string, data: string): void {
+    this.db
+      .prepare(`
+        INSERT INTO learning_store (key, data, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+      `)
+      .run(key, data, new Date().toISOString());
+  }
+}
+
+/**
+ * Cria o adaptador a partir de LEARNING_STORAGE_PATH
+ */
+export function createServerStorage(storagePath: string = process.env.LEARNING_STORAGE_PATH || DEFAULT_STORAGE_PATH): LearningStorage {
+  const resolved = path.resolve(storagePath);
+  if (SQLITE_EXTENSIONS.includes(path.extname(resolved).toLowerCase())) {
+    return new SQLiteStorageAdapter(resolved);
+  }
+  return new FileStorageAdapter(resolved);
+}
+
+// Instâncias compartilhadas pelas rotas do servidor, criadas sob demanda
+let serverStorage: LearningStorage | null = null;
+let serverLearningSystem: LearningSystem | null = null;
+let serverFeedbackSystem: FeedbackSystem | null = null;
+let serverProfileStore: MappingProfileStore | null = null;
+
+function getServerStorage(): LearningStorage {
+  if (!serverStorage) {
+    serverStorage = createServerStorage();
+  }
+  return serverStorage;
+}
+
+export function getServerLearningSystem(): LearningSystem {
+  if (!serverLearningSystem) {
+    serverLearningSystem = new LearningSystem({}, getServerStorage());
+  }
+  return serverLearningSystem;
+}
+
+export function getServerFeedbackSystem(): FeedbackSystem {
+  if (!serverFeedbackSystem) {
+    serverFeedbackSystem = new FeedbackSystem(getServerStorage());
+  }
+  return serverFeedbackSystem;
+}
+
+export function getServerProfileStore(): MappingProfileStore {
+  if (!serverProfileStore) {
+    serverProfileStore = new MappingProfileStore(getServerStorage());
+  }
+  return serverProfileStore;
+}
\ No newline at end of file
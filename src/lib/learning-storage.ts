@@ -0,0 +1,39 @@
+/**
+ * Armazenamento dos dados de aprendizado (LearningSystem e FeedbackSystem)
+ * No navegador usa localStorage, para uso offline; no servidor, ver learning-storage-server.ts
+ */
+
+export interface LearningStorage {
+  load(key: string): string | null;
+  save(key: string, data: string): void;
+}
+
+/**
+ * Adaptador de localStorage; sem localStorage (ex.: no servidor) não persiste nada
+ */
+export class LocalStorageAdapter implements LearningStorage {
+  load(key: string): string | null {
+    if (typeof localStorage === 'undefined') return null;
+    return localStorage.getItem(key);
+  }
+
+  save(key: string, data: string): void {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(key, data);
+  }
+}
+
+/**
+ * Mantém os dados apenas em memória (ex.: na CLI, que lê os perfis de um arquivo)
+ */
+export class MemoryStorageAdapter implements LearningStorage {
+  private entries = new Map<string, string>();
+
+  load(key: string): string | null {
+    return this.entries.get(key) ?? null;
+  }
+
+  save(key: string, data: string): void {
+    this.entries.set(key, data);
+  }
+}
\ No newline at end of file
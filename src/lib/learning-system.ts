@@ -6,6 +6,7 @@
 import { DataType } from './data-type-inference';
 import { DataDomain } from './domain-analyzer';
 import { ValidationResult } from './data-validator';
+import { LearningStorage, LocalStorageAdapter } from './learning-storage';
 
 export interface LearningPattern {
   id: string;
@@ -90,6 +91,7 @@ export interface LearningConfig {
 }
 
 export interface SuggestionResult {
+  patternId?: string; // Padrão que originou as sugestões
   suggestions: MappingSuggestion[];
   confidence: number;
   reasoning: string;
@@ -115,8 +117,9 @@ export class LearningSystem {
   private patterns: Map<string, LearningPattern> = new Map();
   private config: LearningConfig;
   private storageKey = 'orquestrador_learning_patterns';
+  private storage: LearningStorage;
 
-  constructor(config: Partial<LearningConfig> = {}) {
+  constructor(config: Partial<LearningConfig> = {}, storage: LearningStorage = new LocalStorageAdapter()) {
     this.config = {
       maxPatterns: 1000,
       minConfidence: 0.3,
@@ -125,6 +128,7 @@ export class LearningSystem {
       suggestThreshold: 0.5,
       ...config
     };
+    this.storage = storage;
     
     this.loadPatterns();
   }
@@ -216,6 +220,7 @@ export class LearningSystem {
     const alternatives = this.generateAlternatives(sortedPatterns.slice(1, 4), sourcePattern);
     
     return {
+      patternId: bestPattern.pattern.id,
       suggestions,
       confidence: bestPattern.similarity,
       reasoning: this.generateReasoning(bestPattern.pattern, sourcePattern),
@@ -278,6 +283,13 @@ export class LearningSystem {
     };
   }
 
+  /**
+   * Obtém um padrão aprendido pelo id
+   */
+  getPattern(patternId: string): LearningPattern | undefined {
+    return this.patterns.get(patternId);
+  }
+
   /**
    * Exporta padrões aprendidos
    */
@@ -290,7 +302,7 @@ export class LearningSystem {
    */
   importPatterns(patterns: LearningPattern[]): void {
     patterns.forEach(pattern => {
-      this.patterns.set(pattern.id, pattern);
+      this.patterns.set(pattern.id, this.revivePattern(pattern));
     });
     this.savePatterns();
   }
@@ -545,11 +557,17 @@ export class LearningSystem {
           existingMapping.targetField = newFieldMapping.targetField;
           existingMapping.reasoning = 'Atualizado baseado em feedback do usuário';
         }
+        existingMapping.transformation = newFieldMapping.transformation;
       } else {
         // Adiciona novo mapeamento
         pattern.targetMapping.fieldMappings.push(newFieldMapping);
       }
     });
+
+    // O schema de saída mais recente prevalece
+    if (newMapping.outputSchema) {
+      pattern.targetMapping.outputSchema = newMapping.outputSchema;
+    }
   }
 
   private learnFromCorrection(
@@ -604,7 +622,7 @@ export class LearningSystem {
   private savePatterns(): void {
     try {
       const data = JSON.stringify(Array.from(this.patterns.entries()));
-      localStorage.setItem(this.storageKey, data);
+      this.storage.save(this.storageKey, data);
     } catch (error) {
       console.warn('Erro ao salvar padrões de aprendizado:', error);
     }
@@ -612,27 +630,29 @@ export class LearningSystem {
 
   private loadPatterns(): void {
     try {
-      const data = localStorage.getItem(this.storageKey);
+      const data = this.storage.load(this.storageKey);
       if (data) {
         const entries = JSON.parse(data);
-        this.patterns = new Map(entries.map(([id, pattern]: [string, any]) => [
-          id,
-          {
-            ...pattern,
-            lastUsed: new Date(pattern.lastUsed),
-            metadata: {
-              ...pattern.metadata,
-              createdAt: new Date(pattern.metadata.createdAt),
-              updatedAt: new Date(pattern.metadata.updatedAt)
-            }
-          }
-        ]));
+        this.patterns = new Map(entries.map(([id, pattern]: [string, any]) => [id, this.revivePattern(pattern)]));
       }
     } catch (error) {
       console.warn('Erro ao carregar padrões de aprendizado:', error);
       this.patterns = new Map();
     }
   }
+
+  // Padrões vindos de JSON trazem as datas como string
+  private revivePattern(pattern: LearningPattern): LearningPattern {
+    return {
+      ...pattern,
+      lastUsed: new Date(pattern.lastUsed),
+      metadata: {
+        ...pattern.metadata,
+        createdAt: new Date(pattern.metadata.createdAt),
+        updatedAt: new Date(pattern.metadata.updatedAt)
+      }
+    };
+  }
 }
 
 export interface LearningStatistics {
@@ -0,0 +1,280 @@
+/**
+ * Registro de provedores de LLM
+ * Cada provedor declara seus modelos; os SDKs só são carregados no servidor, quando o cliente é criado
+ */
+
+export interface LLMModel {
+  id: string;
+  label: string;
+}
+
+export interface LLMRequestOptions {
+  model?: string;
+  temperature?: number;
+  timeoutMs?: number;
+}
+
+export interface LLMClientConfig extends LLMRequestOptions {
+  apiKey?: string;
+}
+
+export interface LLMClient {
+  complete(prompt: string): Promise<string>;
+}
+
+export interface LLMProvider {
+  id: string;
+  label: string;
+  models: LLMModel[];
+  defaultModel: string;
+  acceptsCustomModels: boolean; // Aceita ids de modelo fora da lista (ex.: modelos de um servidor local)
+  requiresApiKey: boolean;
+  apiKeyEnv?: string; // Variável de ambiente com a chave usada no servidor
+  apiKeyHint?: string;
+  createClient(config: LLMClientConfig): LLMClient;
+}
+
+export const DEFAULT_TEMPERATURE = 0.1;
+export const DEFAULT_TIMEOUT_MS = 60000;
+
+const providers: LLMProvider[] = [];
+
+/**
+ * Registra um provedor; um id já registrado é substituído
+ */
+export function registerLLMProvider(provider: LLMProvider): void {
+  const index = providers.findIndex(existing => existing.id === provider.id);
+  if (index >= 0) {
+    providers[index] = provider;
+  } else {
+    providers.push(provider);
+  }
+}
+
+export function getLLMProviders(): LLMProvider[] {
+  return [...providers];
+}
+
+export function getLLMProvider(id: string): LLMProvider | undefined {
+  return providers.find(provider => provider.id === id);
+}
+
+/**
+ * Resolve o modelo pedido, ou null se o provedor não o aceita
+ */
+export function resolveLLMModel(provider: LLMProvider, model?: string): string | null {
+  if (!model) return provider.defaultModel;
+  if (provider.models.some(declared => declared.id === model) || provider.acceptsCustomModels) return model;
+  return null;
+}
+
+/**
+ * Cria o cliente com modelo, temperatura e timeout resolvidos
+ */
+export function createLLMClient(providerId: string, config: LLMClientConfig = {}): LLMClient {
+  const provider = getLLMProvider(providerId);
+  if (!provider) {
+    throw new Error(`Provedor de IA desconhecido: ${providerId}`);
+  }
+
+  const model = resolveLLMModel(provider, config.model);
+  if (!model) {
+    throw new Error(`Modelo '${config.model}' não disponível para ${provider.label}`);
+  }
+  if (provider.requiresApiKey && !config.apiKey) {
+    throw new Error(`Chave de API obrigatória para ${provider.label}`);
+  }
+
+  return provider.createClient({
+    ...config,
+    model,
+    temperature: config.temperature ?? DEFAULT_TEMPERATURE,
+    timeoutMs: config.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  });
+}
+
+export class LLMTimeoutError extends Error {
+  constructor(public timeoutMs: number) {
+    super(`A IA não respondeu em ${timeoutMs} ms`);
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+// Provedores embutidos
+
+const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  models: [
+    { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+    { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
+    { id: 'gemini-2.0-flash', label: 'Gemini 2.0 Flash' }
+  ],
+  defaultModel: 'gemini-2.5-flash',
+  acceptsCustomModels: true,
+  requiresApiKey: true,
+  apiKeyEnv: 'GEMINI_API_KEY',
+  apiKeyHint: 'Obtenha sua chave gratuita em ai.google.dev',
+  createClient: (config) => ({
+    async complete(prompt) {
+      const { GoogleGenerativeAI } = await import('@google/generative-ai');
+      const model = new GoogleGenerativeAI(config.apiKey!).getGenerativeModel(
+        { model: config.model!, generationConfig: { temperature: config.temperature } },
+        { timeout: config.timeoutMs }
+      );
+      const result = await model.generateContent(prompt);
+      return result.response.text();
+    }
+  })
+};
+
+const groqProvider: LLMProvider = {
+  id: 'groq',
+  label: 'Groq',
+  models: [
+    { id: 'llama-3.3-70b-versatile', label: 'Llama 3.3 70B' },
+    { id: 'llama-3.1-8b-instant', label: 'Llama 3.1 8B Instant' }
+  ],
+  defaultModel: 'llama-3.3-70b-versatile',
+  acceptsCustomModels: true,
+  requiresApiKey: true,
+  apiKeyEnv: 'GROQ_API_KEY',
+  apiKeyHint: 'Obtenha sua chave em console.groq.com',
+  createClient: (config) => ({
+    async complete(prompt) {
+      const { default: Groq } = await import('groq-sdk');
+      const client = new Groq({ apiKey: config.apiKey, timeout: config.timeoutMs, maxRetries: 0 });
+      const completion = await client.chat.completions.create({
+        messages: [{ role: 'user', content: prompt }],
+        model: config.model!,
+        temperature: config.temperature
+      });
+      return completion.choices[0]?.message?.content || '';
+    }
+  })
+};
+
+/**
+ * API de chat completions no formato OpenAI
+ * Também atende servidores locais (Ollama, llama.cpp, vLLM) via OPENAI_BASE_URL
+ */
+const openAICompatibleProvider: LLMProvider = {
+  id: 'openai',
+  label: 'OpenAI / compatível (Ollama, llama.cpp)',
+  models: [
+    { id: 'gpt-4o-mini', label: 'GPT-4o mini' },
+    { id: 'gpt-4o', label: 'GPT-4o' },
+    { id: 'llama3.1', label: 'Llama 3.1 (Ollama)' },
+    { id: 'qwen2.5', label: 'Qwen 2.5 (Ollama)' }
+  ],
+  defaultModel: 'gpt-4o-mini',
+  acceptsCustomModels: true,
+  requiresApiKey: false, // Servidores locais normalmente não exigem chave
+  apiKeyEnv: 'OPENAI_API_KEY',
+  apiKeyHint: 'Chave da OpenAI; servidores locais configurados em OPENAI_BASE_URL dispensam chave',
+  createClient: (config) => ({
+    async complete(prompt) {
+      const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+
+      try {
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+          },
+          body: JSON.stringify({
+            model: config.model,
+            messages: [{ role: 'user', content: prompt }],
+            temperature: config.temperature
+          }),
+          signal: controller.signal
+        });
+
+        if (!response.ok) {
+          throw new Error(`Provedor OpenAI-compatível respondeu ${response.status}: ${(await response.text()).slice(0, 500)}`);
+        }
+
+        const payload = await response.json();
+        return payload.choices?.[0]?.message?.content || '';
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new LLMTimeoutError(config.timeoutMs!);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  })
+};
+
+/**
+ * Provedor determinístico para testes e demonstrações offline
+ * Responde a partir das linhas "campo: tipo" do prompt, sem acesso à rede
+ * Com schema de destino, usa o caminho cuja última chave coincide com o nome do campo
+ */
+const mockProvider: LLMProvider = {
+  id: 'mock',
+  label: 'Simulado (offline, determinístico)',
+  models: [{ id: 'mock-1', label: 'Mock' }],
+  defaultModel: 'mock-1',
+  acceptsCustomModels: false,
+  requiresApiKey: false,
+  createClient: () => ({
+    async complete(prompt) {
+      return JSON.stringify(mockResponse(prompt));
+    }
+  })
+};
+
+function mockResponse(prompt: string) {
+  // Só o schema de origem descreve os campos a mapear
+  const [section, rest = ''] = prompt.split(/\*\*SCHEMA DE DESTINO[^\n]*\n/);
+  const fields = section
+    .split('\n')
+    .map(line => line.trim().match(/^([^:*"]+): (\w+)(?: \(exemplos: .*\))?$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => ({ name: match[1].trim(), type: match[2] }));
+  const targets = rest
+    .split(/\*\*INSTRU/)[0]
+    .split('\n')
+    .map(line => line.trim().match(/^([^:*"\s]+): (\w+)(?: - .*)?$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => match[1]);
+
+  const toSnakeCase = (name: string) => name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+  const toTarget = (name: string) => {
+    const key = toSnakeCase(name);
+    return targets.find(path => path.replace(/\[\d+\]/g, '').split('.').pop() === key) ?? key;
+  };
+
+  return {
+    suggestedMappings: fields.map(field => ({
+      sourceField: field.name,
+      targetField: toTarget(field.name),
+      sourceType: field.type,
+      targetType: field.type,
+      transformation: 'Normalização de nome',
+      confidence: 90
+    })),
+    fields: fields.map(field => ({
+      name: toTarget(field.name),
+      type: field.type,
+      nullable: true,
+      description: `Campo migrado de ${field.name}`
+    })),
+    confidence: 90,
+    reasoning: 'Resposta simulada: campos mapeados para snake_case mantendo os tipos de origem'
+  };
+}
+
+[geminiProvider, groqProvider, openAICompatibleProvider, mockProvider].forEach(registerLLMProvider);
\ No newline at end of file
@@ -0,0 +1,370 @@
+/**
+ * Perfis de mapeamento salvos e versionados
+ * Um perfil guarda a SchemaAnalysis corrigida e as regras de transformação de um tipo de arquivo
+ * (ex.: "Plano de saúde - histórico atendimento"), identificado pela assinatura dos cabeçalhos
+ */
+
+import { FieldMapping, SchemaAnalysis, TransformationRule } from '@/types';
+import { LearningStorage, LocalStorageAdapter } from './learning-storage';
+
+const PROFILES_STORAGE_KEY = 'orquestrador_mapping_profiles';
+export const PROFILE_EXPORT_FORMAT = 'orquestrador-mapping-profiles';
+const PROFILE_EXPORT_VERSION = 1;
+
+// Parcela mínima de cabeçalhos em comum para sugerir um perfil quando a assinatura não é idêntica
+export const PROFILE_MATCH_THRESHOLD = 0.8;
+
+export interface MappingProfileVersion {
+  version: number;
+  createdAt: string;
+  note?: string;
+  analysis: SchemaAnalysis;
+  rules: TransformationRule[];
+}
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  description?: string;
+  headers: string[];
+  headerSignature: string;
+  createdAt: string;
+  updatedAt: string;
+  versions: MappingProfileVersion[]; // Em ordem crescente de versão
+}
+
+export interface MappingProfileSummary {
+  id: string;
+  name: string;
+  description?: string;
+  headerSignature: string;
+  headerCount: number;
+  latestVersion: number;
+  updatedAt: string;
+}
+
+export interface MappingProfileExport {
+  format: typeof PROFILE_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  profiles: MappingProfile[];
+}
+
+export interface SaveProfileVersionInput {
+  profileId?: string; // Sem id, procura o perfil pelo nome e cria um novo se não existir
+  name: string;
+  description?: string;
+  headers: string[];
+  analysis: SchemaAnalysis;
+  rules?: TransformationRule[];
+  note?: string;
+}
+
+export interface ProfileMatch {
+  profile: MappingProfileSummary;
+  version: MappingProfileVersion;
+  score: number; // 1 = mesma assinatura de cabeçalhos
+}
+
+export interface MappingChange {
+  sourceField: string;
+  before?: FieldMapping;
+  after?: FieldMapping;
+  changes: string[]; // Propriedades alteradas (targetField, targetType, transformation...)
+}
+
+export interface ProfileVersionDiff {
+  profileId: string;
+  from: number;
+  to: number;
+  mappings: {
+    added: FieldMapping[];
+    removed: FieldMapping[];
+    changed: MappingChange[];
+  };
+  rules: {
+    added: TransformationRule[];
+    removed: TransformationRule[];
+  };
+  targetFields: {
+    added: string[];
+    removed: string[];
+  };
+}
+
+export class ProfileNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileNotFoundError';
+  }
+}
+
+/**
+ * Normaliza um cabeçalho para comparação (sem acentos, caixa ou espaços extras)
+ */
+function normalizeHeader(header: string): string {
+  return header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Assinatura dos cabeçalhos de origem: independe da ordem das colunas, de acentos e de caixa
+ */
+export function computeHeaderSignature(headers: string[]): string {
+  const canonical = headers.map(normalizeHeader).sort().join('|');
+  // FNV-1a de 32 bits; basta para identificar o layout, sem dependências de crypto no navegador
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < canonical.length; index++) {
+    hash ^= canonical.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `${headers.length}-${hash.toString(16).padStart(8, '0')}`;
+}
+
+function headerOverlap(a: string[], b: string[]): number {
+  const setA = new Set(a.map(normalizeHeader));
+  const setB = new Set(b.map(normalizeHeader));
+  const shared = Array.from(setA).filter(header => setB.has(header)).length;
+  return shared / Math.max(setA.size, setB.size, 1);
+}
+
+function toSummary(profile: MappingProfile): MappingProfileSummary {
+  return {
+    id: profile.id,
+    name: profile.name,
+    description: profile.description,
+    headerSignature: profile.headerSignature,
+    headerCount: profile.headers.length,
+    latestVersion: profile.versions[profile.versions.length - 1]?.version ?? 0,
+    updatedAt: profile.updatedAt
+  };
+}
+
+export class MappingProfileStore {
+  private profiles = new Map<string, MappingProfile>();
+
+  constructor(private storage: LearningStorage = new LocalStorageAdapter()) {
+    this.loadProfiles();
+  }
+
+  listProfiles(): MappingProfileSummary[] {
+    return Array.from(this.profiles.values())
+      .map(toSummary)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getProfile(id: string): MappingProfile | undefined {
+    return this.profiles.get(id);
+  }
+
+  getVersion(id: string, version?: number): MappingProfileVersion | undefined {
+    const profile = this.profiles.get(id);
+    if (!profile) return undefined;
+    return version === undefined
+      ? profile.versions[profile.versions.length - 1]
+      : profile.versions.find(candidate => candidate.version === version);
+  }
+
+  /**
+   * Salva uma nova versão; versões anteriores nunca são alteradas
+   */
+  saveVersion(input: SaveProfileVersionInput): { profile: MappingProfileSummary; version: MappingProfileVersion } {
+    const now = new Date().toISOString();
+    let profile = input.profileId
+      ? this.profiles.get(input.profileId)
+      : Array.from(this.profiles.values()).find(existing => existing.name.toLowerCase() === input.name.trim().toLowerCase());
+
+    if (input.profileId && !profile) {
+      throw new ProfileNotFoundError(`Perfil '${input.profileId}' não encontrado`);
+    }
+
+    if (!profile) {
+      profile = {
+        id: `profile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        name: input.name.trim(),
+        headers: [],
+        headerSignature: '',
+        createdAt: now,
+        updatedAt: now,
+        versions: []
+      };
+      this.profiles.set(profile.id, profile);
+    }
+
+    const version: MappingProfileVersion = {
+      version: (profile.versions[profile.versions.length - 1]?.version ?? 0) + 1,
+      createdAt: now,
+      note: input.note,
+      // A origem da análise não faz parte do perfil: ao ser aplicada, ela vem do perfil
+      analysis: { ...input.analysis, source: undefined, validation: undefined, profile: undefined },
+      rules: input.rules ?? []
+    };
+
+    profile.name = input.name.trim();
+    profile.description = input.description ?? profile.description;
+    profile.headers = [...input.headers];
+    profile.headerSignature = computeHeaderSignature(input.headers);
+    profile.updatedAt = now;
+    profile.versions.push(version);
+
+    this.saveProfiles();
+    return { profile: toSummary(profile), version };
+  }
+
+  deleteProfile(id: string): boolean {
+    const deleted = this.profiles.delete(id);
+    if (deleted) this.saveProfiles();
+    return deleted;
+  }
+
+  /**
+   * Perfil cuja versão mais recente melhor corresponde aos cabeçalhos do arquivo
+   * Assinatura idêntica tem precedência; senão exige PROFILE_MATCH_THRESHOLD de cabeçalhos em comum
+   */
+  findMatch(headers: string[]): ProfileMatch | null {
+    const signature = computeHeaderSignature(headers);
+    let best: ProfileMatch | null = null;
+
+    this.profiles.forEach(profile => {
+      const version = profile.versions[profile.versions.length - 1];
+      if (!version) return;
+
+      const score = profile.headerSignature === signature ? 1 : headerOverlap(headers, profile.headers);
+      if (score < PROFILE_MATCH_THRESHOLD) return;
+      if (!best || score > best.score || (score === best.score && profile.updatedAt > best.profile.updatedAt)) {
+        best = { profile: toSummary(profile), version, score };
+      }
+    });
+
+    return best;
+  }
+
+  /**
+   * Diferenças entre duas versões de um perfil
+   */
+  diffVersions(id: string, from: number, to: number): ProfileVersionDiff {
+    const before = this.getVersion(id, from);
+    const after = this.getVersion(id, to);
+    if (!before || !after) {
+      throw new ProfileNotFoundError(`Versão ${!before ? from : to} do perfil '${id}' não encontrada`);
+    }
+
+    const beforeMappings = new Map(before.analysis.suggestedMappings.map(mapping => [mapping.sourceField, mapping]));
+    const afterMappings = new Map(after.analysis.suggestedMappings.map(mapping => [mapping.sourceField, mapping]));
+    const compared: Array<keyof FieldMapping> = ['targetField', 'sourceType', 'targetType', 'transformation'];
+
+    const changed: MappingChange[] = [];
+    afterMappings.forEach((mapping, sourceField) => {
+      const previous = beforeMappings.get(sourceField);
+      if (!previous) return;
+      const changes = compared.filter(key => (previous[key] ?? null) !== (mapping[key] ?? null));
+      if (changes.length > 0) {
+        changed.push({ sourceField, before: previous, after: mapping, changes });
+      }
+    });
+
+    const ruleKey = (rule: TransformationRule) => JSON.stringify([rule.field, rule.operation, rule.parameters]);
+    const beforeRules = new Set(before.rules.map(ruleKey));
+    const afterRules = new Set(after.rules.map(ruleKey));
+
+    const targetNames = (version: MappingProfileVersion) => (version.analysis.targetSchema ?? []).map(field => field.name);
+    const beforeTargets = targetNames(before);
+    const afterTargets = targetNames(after);
+
+    return {
+      profileId: id,
+      from,
+      to,
+      mappings: {
+        added: after.analysis.suggestedMappings.filter(mapping => !beforeMappings.has(mapping.sourceField)),
+        removed: before.analysis.suggestedMappings.filter(mapping => !afterMappings.has(mapping.sourceField)),
+        changed
+      },
+      rules: {
+        added: after.rules.filter(rule => !beforeRules.has(ruleKey(rule))),
+        removed: before.rules.filter(rule => !afterRules.has(ruleKey(rule)))
+      },
+      targetFields: {
+        added: afterTargets.filter(name => !beforeTargets.includes(name)),
+        removed: beforeTargets.filter(name => !afterTargets.includes(name))
+      }
+    };
+  }
+
+  /**
+   * Documento JSON estável, próprio para versionar junto aos scripts de migração
+   */
+  exportProfiles(ids?: string[]): MappingProfileExport {
+    const profiles = Array.from(this.profiles.values())
+      .filter(profile => !ids || ids.includes(profile.id))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return {
+      format: PROFILE_EXPORT_FORMAT,
+      version: PROFILE_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      profiles
+    };
+  }
+
+  /**
+   * Importa perfis; um perfil já existente recebe apenas as versões que ainda não tem
+   */
+  importProfiles(profiles: MappingProfile[]): { created: number; updated: number; versions: number } {
+    const result = { created: 0, updated: 0, versions: 0 };
+
+    for (const incoming of profiles) {
+      const existing = this.profiles.get(incoming.id);
+      const versions = [...incoming.versions].sort((a, b) => a.version - b.version);
+
+      if (!existing) {
+        this.profiles.set(incoming.id, {
+          ...incoming,
+          headerSignature: computeHeaderSignature(incoming.headers),
+          versions
+        });
+        result.created++;
+        result.versions += versions.length;
+        continue;
+      }
+
+      const known = new Set(existing.versions.map(version => version.version));
+      const added = versions.filter(version => !known.has(version.version));
+      if (added.length === 0) continue;
+
+      existing.versions = [...existing.versions, ...added].sort((a, b) => a.version - b.version);
+      if (incoming.updatedAt > existing.updatedAt) {
+        existing.name = incoming.name;
+        existing.description = incoming.description;
+        existing.headers = incoming.headers;
+        existing.headerSignature = computeHeaderSignature(incoming.headers);
+        existing.updatedAt = incoming.updatedAt;
+      }
+      result.updated++;
+      result.versions += added.length;
+    }
+
+    if (result.created + result.updated > 0) this.saveProfiles();
+    return result;
+  }
+
+  private saveProfiles(): void {
+    try {
+      this.storage.save(PROFILES_STORAGE_KEY, JSON.stringify(Array.from(this.profiles.values())));
+    } catch (error) {
+      console.warn('Erro ao salvar perfis de mapeamento:', error);
+    }
+  }
+
+  private loadProfiles(): void {
+    try {
+      const data = this.storage.load(PROFILES_STORAGE_KEY);
+      if (data) {
+        const profiles: MappingProfile[] = JSON.parse(data);
+        this.profiles = new Map(profiles.map(profile => [profile.id, profile]));
+      }
+    } catch (error) {
+      console.warn('Erro ao carregar perfis de mapeamento:', error);
+      this.profiles = new Map();
+    }
+  }
+}
\ No newline at end of file
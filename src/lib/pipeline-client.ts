@@ -0,0 +1,151 @@
+/**
+ * Cliente das rotas do pipeline (/api/upload, /api/analyze, /api/transform, /api/publish e /api/jobs)
+ * Usado pelos componentes para que chaves e credenciais fiquem no servidor
+ */
+
+import { CSVData, ProcessingStatus, UploadReference } from '@/types';
+import { EncodingDetection, TextEncoding } from './encoding-detector';
+import { InputReadResult } from './input-readers';
+import { JobSummary, JobType } from './job-queue';
+
+const JOB_POLL_INTERVAL_MS = 1000;
+
+// CSVs a partir deste tamanho ficam no servidor; a aba guarda só uma amostra das linhas
+export const SERVER_UPLOAD_MIN_BYTES = 20 * 1024 * 1024;
+
+interface UploadResponse {
+  encoding: EncodingDetection | null;
+  headers: string[];
+  totalRows: number;
+  upload?: UploadReference;
+  sampleRows: string[][];
+  parseErrors: string[];
+}
+
+export class PipelineRequestError extends Error {
+  constructor(message: string, public status: number, public details?: unknown) {
+    super(message);
+    this.name = 'PipelineRequestError';
+  }
+}
+
+/**
+ * Linhas do arquivo inteiro, inclusive quando `rows` é só a amostra de um upload guardado no servidor
+ */
+export function countRows(data: CSVData): number {
+  return data.upload?.totalRows ?? data.rows.length;
+}
+
+/**
+ * Converte CSVData para o formato aceito por csvDataSchema
+ * Num upload guardado no servidor, só a amostra segue no corpo; a transformação lê o arquivo pelo id
+ */
+export function toCSVPayload(data: CSVData) {
+  return {
+    headers: data.headers,
+    rows: data.rows,
+    fileName: data.fileName,
+    uploadId: data.upload?.id,
+    metadata: {
+      totalRows: countRows(data),
+      totalColumns: data.headers.length,
+      fileSize: data.fileSize
+    }
+  };
+}
+
+/**
+ * Envia o CSV em streaming para /api/upload?store=true, sem lê-lo na memória da aba
+ * O arquivo fica no servidor; o resultado traz a amostra das primeiras linhas e a referência do upload
+ */
+export async function uploadCSVFile(
+  file: File,
+  options: { encoding?: TextEncoding; hasHeader?: boolean } = {}
+): Promise<InputReadResult> {
+  const params = new URLSearchParams({ store: 'true', fileName: file.name });
+  if (options.encoding) params.set('encoding', options.encoding);
+  if (options.hasHeader !== undefined) params.set('hasHeader', String(options.hasHeader));
+
+  const response = await requestPipeline<UploadResponse>(`/api/upload?${params}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/csv' },
+    body: file
+  });
+
+  if (response.parseErrors.length > 0) {
+    throw new Error('Erro ao processar CSV: ' + response.parseErrors[0]);
+  }
+  if (!response.upload || response.sampleRows.length === 0) {
+    throw new Error('O arquivo deve conter pelo menos um cabeçalho e uma linha de dados');
+  }
+
+  return {
+    format: 'csv',
+    data: {
+      headers: response.headers,
+      rows: response.sampleRows,
+      fileName: file.name,
+      fileSize: file.size,
+      upload: response.upload
+    },
+    encoding: response.encoding ?? undefined
+  };
+}
+
+/**
+ * Envia um POST JSON para uma rota do pipeline e retorna o corpo da resposta
+ */
+export async function postPipeline<T>(path: string, body: unknown): Promise<T> {
+  return requestPipeline<T>(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+}
+
+export async function getPipeline<T>(path: string): Promise<T> {
+  return requestPipeline<T>(path, { method: 'GET' });
+}
+
+/**
+ * Executa uma etapa como job no servidor e aguarda o resultado (mesmo formato da rota síncrona)
+ * O processamento continua no servidor mesmo que a aba seja fechada
+ */
+export async function runPipelineJob<T>(
+  type: JobType,
+  payload: unknown,
+  onStatus?: (status: ProcessingStatus) => void
+): Promise<T> {
+  let { job } = await postPipeline<{ job: JobSummary }>('/api/jobs', { type, payload });
+
+  while (job.state === 'queued' || job.state === 'running') {
+    onStatus?.(job.status);
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    ({ job } = await getPipeline<{ job: JobSummary }>(`/api/jobs?id=${encodeURIComponent(job.id)}`));
+  }
+  onStatus?.(job.status);
+
+  const { result } = await getPipeline<{ result: T }>(`/api/jobs/result?id=${encodeURIComponent(job.id)}`);
+  if (job.state !== 'completed') {
+    throw new PipelineRequestError(job.status.error || `Job ${job.state}`, job.state === 'cancelled' ? 409 : 422, result);
+  }
+  return result;
+}
+
+async function requestPipeline<T>(path: string, init: RequestInit): Promise<T> {
+  const response = await fetch(path, init);
+  const payload = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const details = Array.isArray(payload.details)
+      ? payload.details.map((detail: { field: string; message: string }) => `${detail.field}: ${detail.message}`).join('; ')
+      : undefined;
+    throw new PipelineRequestError(
+      payload.message || details || payload.error || `Erro HTTP ${response.status}`,
+      response.status,
+      payload.details
+    );
+  }
+
+  return payload as T;
+}
\ No newline at end of file
@@ -0,0 +1,447 @@
+/**
+ * Etapas do pipeline executadas no servidor
+ * Compartilhadas pelas rotas síncronas (/api/analyze, /api/transform, /api/publish) e pelos jobs em segundo plano
+ */
+
+import { z } from 'zod';
+import { AIService } from './ai-service';
+import { createDatabaseService, DatabaseDryRun, DatabaseResult } from './database-service';
+import { analyzeRequestSchema, publishRequestSchema, transformRequestSchema } from './input-validator';
+import { toTargetFields, validateRecords } from './json-schema';
+import { buildLearnedAnalysis, suggestLearnedMappings } from './learned-mappings';
+import { getServerLearningSystem } from './learning-storage-server';
+import { getLLMProvider, getLLMProviders, resolveLLMModel } from './llm-providers';
+import { RestBatchResult, RestDryRun, RestPublisher, RestPublishResult } from './rest-publisher';
+import { compileConditionalRule } from './rule-expressions';
+import { mergeFieldSchemas, transformData, transformWithRules } from './transformation-engine';
+import { readUploadBatches, UploadNotFoundError } from './upload-store';
+import {
+  BusinessRule,
+  CSVData,
+  FieldSchema,
+  JsonSchemaDefinition,
+  QuarantinedRow,
+  SchemaAnalysis,
+  TransformedData,
+  TransformationRule,
+  ValidationError
+} from '@/types';
+
+const MAX_REPORTED_SCHEMA_ERRORS = 100;
+
+// Uploads guardados no servidor: o resultado da transformação traz só o início do arquivo
+const UPLOAD_PREVIEW_RECORDS = 100;
+const UPLOAD_REPORTED_ERRORS = 1000;
+const UPLOAD_QUARANTINE_ROWS = 1000;
+
+export type AnalyzeRequest = z.infer<typeof analyzeRequestSchema>;
+export type TransformRequest = z.infer<typeof transformRequestSchema>;
+export type PublishRequest = z.infer<typeof publishRequestSchema>;
+
+/**
+ * Requisição válida no formato, mas que não pode ser atendida (provedor, chave, schema...)
+ * `details` é incluído no corpo da resposta de erro
+ */
+export class PipelineStepError extends Error {
+  constructor(message: string, public status: number, public details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'PipelineStepError';
+  }
+}
+
+export interface AnalyzeStepResult {
+  analysis: SchemaAnalysis;
+  metadata: Record<string, unknown>; // Para os logs
+}
+
+/**
+ * Analisa o schema com um padrão aprendido ou, sem padrão semelhante, com o provedor de IA
+ */
+export async function analyzeStep(request: AnalyzeRequest): Promise<AnalyzeStepResult> {
+  const { csvData, targetSchema, provider, apiKey, model, temperature, timeoutMs, useLearned } = request;
+  const inputData = toCSVData(request.csvData);
+
+  // JSON Schemas de destino são achatados em campos com caminhos (ex.: personal_info.first_name)
+  let targetFields: FieldSchema[] | undefined;
+  try {
+    targetFields = targetSchema ? toTargetFields(targetSchema as FieldSchema[] | JsonSchemaDefinition) : undefined;
+  } catch (error) {
+    throw new PipelineStepError('Invalid target schema', 400, { message: error instanceof Error ? error.message : String(error) });
+  }
+
+  // Padrões aprendidos com alta similaridade dispensam a chamada à IA
+  if (useLearned) {
+    const learningSystem = getServerLearningSystem();
+    const suggestions = suggestLearnedMappings(learningSystem, inputData);
+    const learned = buildLearnedAnalysis(learningSystem, inputData, suggestions, targetFields);
+
+    if (learned) {
+      // O JSON Schema enviado agora prevalece sobre o guardado no padrão
+      const analysis = targetSchema && !Array.isArray(targetSchema)
+        ? { ...learned, targetJsonSchema: targetSchema as JsonSchemaDefinition }
+        : learned;
+      return {
+        analysis,
+        metadata: {
+          patternId: suggestions.patternId,
+          similarity: suggestions.confidence,
+          mappings: learned.suggestedMappings.length
+        }
+      };
+    }
+  }
+
+  const llmProvider = getLLMProvider(provider);
+  if (!llmProvider) {
+    throw new PipelineStepError(`Unknown provider '${provider}'`, 400, { providers: getLLMProviders().map(p => p.id) });
+  }
+
+  if (apiKey && apiKey.provider !== provider) {
+    throw new PipelineStepError(`API key provider '${apiKey.provider}' does not match '${provider}'`, 400);
+  }
+
+  // Chaves de API ficam no servidor; o corpo da requisição só pode sobrescrevê-las
+  const key = apiKey?.key || (llmProvider.apiKeyEnv ? process.env[llmProvider.apiKeyEnv] : undefined);
+  if (llmProvider.requiresApiKey && !key) {
+    throw new PipelineStepError(`No API key configured for provider '${provider}'`, 400);
+  }
+
+  if (!resolveLLMModel(llmProvider, model)) {
+    throw new PipelineStepError(`Model '${model}' is not available for provider '${provider}'`, 400, {
+      models: llmProvider.models.map(m => m.id)
+    });
+  }
+
+  const aiService = new AIService(provider, key, { model, temperature, timeoutMs });
+  const analysis: SchemaAnalysis = {
+    ...await aiService.analyzeSchema(inputData, targetSchema as FieldSchema[] | JsonSchemaDefinition | undefined),
+    source: 'ai'
+  };
+
+  return {
+    analysis,
+    metadata: {
+      provider,
+      model: resolveLLMModel(llmProvider, model),
+      fields: csvData.headers.length,
+      mappings: analysis.suggestedMappings.length
+    }
+  };
+}
+
+/**
+ * Aplica a análise aprovada (e as regras adicionais) aos dados
+ * Linhas que violam regras de negócio com severidade 'error' vão para a quarentena
+ * Um upload guardado no servidor é transformado em lotes; `onProgress` recebe as linhas já processadas
+ */
+export async function transformStep(
+  request: TransformRequest,
+  onProgress?: (rows: number, total: number) => void
+): Promise<TransformedData> {
+  const { csvData, analysis, rules, businessRules } = request;
+  assertBusinessRules(businessRules);
+  if (!csvData.uploadId) {
+    return transformData(toCSVData(csvData), analysis, rules, businessRules);
+  }
+
+  let result: TransformedData | null = null;
+  const validationErrors: ValidationError[] = [];
+  const quarantineRows: QuarantinedRow[] = [];
+  const totals = { records: 0, quarantined: 0, validationErrors: 0 };
+
+  const ingestion = await withUpload(() => readUploadBatches(csvData.uploadId!, (batch, upload) => {
+    const transformed = transformData(
+      { headers: upload.headers, rows: batch.rows, fileName: upload.fileName, fileSize: upload.bytes },
+      analysis,
+      rules,
+      businessRules
+    );
+    const toFileRow = <T extends { row: number }>(entry: T): T => ({ ...entry, row: entry.row + batch.startRow });
+
+    totals.records += transformed.data.length;
+    totals.quarantined += transformed.quarantine?.rows.length ?? 0;
+    totals.validationErrors += transformed.validationErrors.length;
+    validationErrors.push(...transformed.validationErrors.slice(0, UPLOAD_REPORTED_ERRORS - validationErrors.length).map(toFileRow));
+    quarantineRows.push(...(transformed.quarantine?.rows ?? []).slice(0, UPLOAD_QUARANTINE_ROWS - quarantineRows.length).map(entry => ({
+      ...toFileRow(entry),
+      errors: entry.errors.map(toFileRow)
+    })));
+
+    result = result
+      ? {
+        ...result,
+        data: result.data.length < UPLOAD_PREVIEW_RECORDS
+          ? result.data.concat(transformed.data.slice(0, UPLOAD_PREVIEW_RECORDS - result.data.length))
+          : result.data,
+        schema: mergeFieldSchemas(result.schema, transformed.schema)
+      }
+      : { ...transformed, data: transformed.data.slice(0, UPLOAD_PREVIEW_RECORDS) };
+    onProgress?.(batch.startRow + batch.rows.length, upload.totalRows);
+  }));
+
+  if (!result) {
+    throw new PipelineStepError('O arquivo enviado não tem linhas de dados', 400);
+  }
+  const transformed: TransformedData = result;
+  return {
+    ...transformed,
+    validationErrors,
+    quarantine: { headers: ingestion.headers, rows: quarantineRows },
+    upload: { id: csvData.uploadId, totalRows: ingestion.totalRows },
+    totals
+  };
+}
+
+export interface PublishCounts {
+  accepted: number; // Registros gravados pelo destino; no banco, inseridos mais atualizados (ignorados não contam)
+  quarantined: number; // Linhas retidas na quarentena na transformação, não enviadas
+  failed: number; // Registros válidos que o destino não gravou
+}
+
+export type PublishStepResult = (DatabaseResult | RestPublishResult) & { counts: PublishCounts };
+
+export type PublishDryRun = (({ target: 'database' } & DatabaseDryRun) | ({ target: 'rest-api' } & RestDryRun)) & {
+  quarantinedRows: number;
+  sample?: { records: number; totalRecords: number }; // Uploads guardados: a simulação cobre só os primeiros registros
+};
+
+/**
+ * Publica no banco de dados ou numa API REST; registros fora do JSON Schema de destino não são publicados (422)
+ * Linhas em quarentena não são enviadas, só contadas
+ * `onProgress` acompanha os lotes enviados à API ou, num upload guardado no servidor, os registros publicados
+ */
+export async function publishStep(
+  request: PublishRequest,
+  onProgress?: (completed: number, total: number) => void
+): Promise<PublishStepResult> {
+  const { transformedData, target } = request;
+  if (transformedData.upload) {
+    return publishUpload(request, onProgress);
+  }
+  assertTargetJsonSchema(transformedData);
+
+  const quarantined = transformedData.quarantine?.rows.length ?? 0;
+
+  if (target.type === 'rest-api') {
+    const { type, ...config } = target;
+    const result = await new RestPublisher(config).publish(transformedData.data, (_, completed, total) => onProgress?.(completed, total));
+    return { ...result, counts: { accepted: result.sentRecords, quarantined, failed: result.failedRecords } };
+  }
+
+  const dbService = createDatabaseService(target.connection.connectionString, target.connection.tableName, {
+    mode: target.mode,
+    keyColumns: target.keyColumns,
+    schemaEvolution: target.schemaEvolution
+  });
+  // A publicação no banco é uma transação: ou todos os registros são gravados, ou nenhum
+  const result = await dbService.publishData(transformedData);
+  const total = transformedData.data.length;
+  const written = (result.insertedRows ?? 0) + (result.updatedRows ?? 0);
+  return {
+    ...result,
+    counts: { accepted: result.success ? written : 0, quarantined, failed: result.success ? 0 : total }
+  };
+}
+
+/**
+ * Publica um upload guardado no servidor: o arquivo é transformado de novo, lote a lote, com as mesmas regras
+ * No banco, cada lote é uma transação; numa falha, os lotes anteriores permanecem gravados e os seguintes não são enviados
+ * No modo replace, só o primeiro lote esvazia a tabela; os seguintes são acrescentados
+ */
+async function publishUpload(
+  request: PublishRequest,
+  onProgress?: (completed: number, total: number) => void
+): Promise<PublishStepResult> {
+  const { transformedData, target } = request;
+  const rules = transformedData.transformationRules as TransformationRule[];
+  const targetJsonSchema = transformedData.targetJsonSchema as JsonSchemaDefinition | undefined;
+  const businessRules = transformedData.businessRules ?? [];
+  const totalRecords = transformedData.totals?.records ?? 0;
+  let quarantined = 0;
+  let published = 0; // Registros entregues ao destino, gravados ou não
+
+  if (target.type === 'rest-api') {
+    const { type, ...config } = target;
+    const publisher = new RestPublisher(config);
+    const batches: RestBatchResult[] = [];
+
+    await withUpload(() => readUploadBatches(transformedData.upload!.id, async (batch, upload) => {
+      const { data, quarantine } = transformWithRules(toBatchData(upload.headers, batch.rows), rules, targetJsonSchema, businessRules);
+      quarantined += quarantine?.rows.length ?? 0;
+
+      const result = await publisher.publish(data);
+      batches.push(...result.batches.map(entry => ({
+        ...entry,
+        batch: batches.length + entry.batch,
+        firstRecord: published + entry.firstRecord
+      })));
+      published += data.length;
+      onProgress?.(published, totalRecords);
+    }));
+
+    const failed = batches.filter(entry => !entry.success);
+    const failedRecords = failed.reduce((sum, entry) => sum + entry.records, 0);
+    return {
+      success: failed.length === 0,
+      endpoint: target.endpoint,
+      totalRecords: published,
+      sentRecords: published - failedRecords,
+      failedRecords,
+      batches,
+      error: failed.length > 0 ? `${failed.length} de ${batches.length} lote(s) falharam: ${failed[0].error}` : undefined,
+      counts: { accepted: published - failedRecords, quarantined, failed: failedRecords }
+    };
+  }
+
+  const serviceOptions = { keyColumns: target.keyColumns, schemaEvolution: target.schemaEvolution };
+  let dbService = createDatabaseService(target.connection.connectionString, target.connection.tableName, {
+    ...serviceOptions,
+    mode: target.mode
+  });
+  const combined: DatabaseResult & Required<Pick<DatabaseResult, 'insertedRows' | 'updatedRows' | 'skippedRows' | 'schemaChanges'>> = {
+    success: true,
+    mode: target.mode,
+    insertedRows: 0,
+    updatedRows: 0,
+    skippedRows: 0,
+    schemaChanges: []
+  };
+
+  await withUpload(() => readUploadBatches(transformedData.upload!.id, async (batch, upload) => {
+    const batchData = transformWithRules(toBatchData(upload.headers, batch.rows), rules, targetJsonSchema, businessRules);
+    quarantined += batchData.quarantine?.rows.length ?? 0;
+    if (!combined.success || batchData.data.length === 0) return;
+
+    // O schema do arquivo inteiro, calculado na transformação, define a tabela desde o primeiro lote
+    const result = await dbService.publishData({ ...batchData, schema: transformedData.schema, validationErrors: [] });
+    combined.insertedRows += result.insertedRows ?? 0;
+    combined.updatedRows += result.updatedRows ?? 0;
+    combined.skippedRows += result.skippedRows ?? 0;
+    if (result.deletedRows !== undefined) {
+      combined.deletedRows = (combined.deletedRows ?? 0) + result.deletedRows;
+    }
+    combined.schemaChanges.push(...result.schemaChanges ?? []);
+    combined.tableName = result.tableName;
+    combined.database = result.database;
+    if (!result.success) {
+      combined.success = false;
+      combined.error = result.error;
+      combined.queryErrors = result.queryErrors;
+      return;
+    }
+
+    published += batchData.data.length;
+    if (target.mode === 'replace') {
+      dbService = createDatabaseService(target.connection.connectionString, target.connection.tableName, {
+        ...serviceOptions,
+        mode: 'append'
+      });
+    }
+    onProgress?.(published, totalRecords);
+  }));
+
+  const written = combined.insertedRows + combined.updatedRows;
+  return {
+    ...combined,
+    counts: {
+      accepted: written,
+      quarantined,
+      failed: Math.max(0, totalRecords - published)
+    }
+  };
+}
+
+/**
+ * Simula a publicação: comandos SQL ou requisições REST que seriam executados, sem gravar nem enviar nada
+ * Configurações inválidas (conexão, chave natural) são erros de requisição (400)
+ */
+export async function dryRunStep(request: PublishRequest): Promise<PublishDryRun> {
+  const { transformedData, target, previewStatements } = request;
+  assertTargetJsonSchema(transformedData);
+
+  const quarantinedRows = transformedData.totals?.quarantined ?? transformedData.quarantine?.rows.length ?? 0;
+  const sample = transformedData.totals
+    ? { records: transformedData.data.length, totalRecords: transformedData.totals.records }
+    : undefined;
+
+  if (target.type === 'rest-api') {
+    const { type, ...config } = target;
+    return { target: 'rest-api', ...new RestPublisher(config).preview(transformedData.data, previewStatements), quarantinedRows, sample };
+  }
+
+  const dbService = createDatabaseService(target.connection.connectionString, target.connection.tableName, {
+    mode: target.mode,
+    keyColumns: target.keyColumns,
+    schemaEvolution: target.schemaEvolution
+  });
+  try {
+    const dryRun = await dbService.dryRun(transformedData, { statementLimit: previewStatements });
+    return { target: 'database', ...dryRun, quarantinedRows, sample };
+  } catch (error) {
+    throw new PipelineStepError('Invalid publish configuration', 400, { message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Nenhum destino recebe registros fora do JSON Schema de destino (422)
+ */
+function assertTargetJsonSchema(transformedData: PublishRequest['transformedData']): void {
+  if (!transformedData.targetJsonSchema) return;
+
+  const schemaErrors = validateRecords(
+    transformedData.data,
+    transformedData.targetJsonSchema as JsonSchemaDefinition,
+    transformedData.transformationRules as TransformationRule[]
+  );
+
+  if (schemaErrors.length > 0) {
+    throw new PipelineStepError('Records do not match the target JSON Schema', 422, {
+      invalidRecords: new Set(schemaErrors.map(error => error.row)).size,
+      totalErrors: schemaErrors.length,
+      validationErrors: schemaErrors.slice(0, MAX_REPORTED_SCHEMA_ERRORS)
+    });
+  }
+}
+
+/**
+ * Regras de negócio com sintaxe inválida são erro de requisição (400), antes de ler qualquer linha
+ */
+function assertBusinessRules(businessRules: BusinessRule[]): void {
+  for (const rule of businessRules) {
+    try {
+      compileConditionalRule(rule.condition, rule.action);
+    } catch (error) {
+      throw new PipelineStepError('Invalid business rule', 400, {
+        rule: rule.name,
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+/**
+ * Upload expirado ou inexistente é erro de requisição (404)
+ */
+async function withUpload<T>(read: () => Promise<T>): Promise<T> {
+  try {
+    return await read();
+  } catch (error) {
+    if (error instanceof UploadNotFoundError) {
+      throw new PipelineStepError(error.message, 404, { uploadId: error.uploadId });
+    }
+    throw error;
+  }
+}
+
+function toBatchData(headers: string[], rows: string[][]): CSVData {
+  return { headers, rows, fileName: '', fileSize: 0 };
+}
+
+function toCSVData(csvData: AnalyzeRequest['csvData']): CSVData {
+  return {
+    headers: csvData.headers,
+    rows: csvData.rows,
+    fileName: csvData.fileName,
+    fileSize: csvData.metadata.fileSize
+  };
+}
\ No newline at end of file
@@ -0,0 +1,195 @@
+/**
+ * Quarentena de linhas rejeitadas
+ * Linhas com erro de validação, transformação ou JSON Schema saem dos dados publicados e ficam aqui
+ * com os valores originais; o arquivo exportado pode ser corrigido e reenviado com o mesmo perfil
+ */
+
+import Papa from 'papaparse';
+import { QuarantineSet, TransformedData, ValidationError } from '@/types';
+
+export const QUARANTINE_EXPORT_FORMAT = 'orquestrador-quarantine';
+const QUARANTINE_EXPORT_VERSION = 1;
+
+// Colunas de controle acrescentadas ao CSV exportado; ignoradas no reenvio, exceto a linha de origem
+export const QUARANTINE_COLUMNS = {
+  row: '_linha',
+  codes: '_codigos',
+  steps: '_etapas',
+  rules: '_regras',
+  errors: '_erros'
+} as const;
+
+const LIST_SEPARATOR = ' | ';
+
+export interface QuarantineExport extends QuarantineSet {
+  format: typeof QUARANTINE_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+}
+
+/**
+ * Linhas corrigidas prontas para passar de novo pela transformação
+ */
+export interface QuarantineResubmission {
+  headers: string[];
+  rows: string[][];
+  sourceRows: number[]; // Linha de origem de cada linha reenviada
+}
+
+/**
+ * Arquivo de reenvio ilegível ou sem as colunas de origem
+ */
+export class QuarantineFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuarantineFileError';
+  }
+}
+
+/**
+ * Agrupa os erros por linha, guardando os valores originais de cada linha rejeitada
+ */
+export function buildQuarantine(
+  data: { headers: string[]; rows: string[][] },
+  errors: ValidationError[]
+): QuarantineSet {
+  const byRow = new Map<number, ValidationError[]>();
+  for (const error of errors) {
+    if (!data.rows[error.row]) continue;
+    byRow.set(error.row, [...(byRow.get(error.row) ?? []), error]);
+  }
+
+  return {
+    headers: data.headers,
+    rows: Array.from(byRow.keys()).sort((a, b) => a - b).map(row => ({
+      row,
+      values: toValues(data.headers, data.rows[row]),
+      errors: byRow.get(row)!
+    }))
+  };
+}
+
+export function exportQuarantineJSON(quarantine: QuarantineSet): string {
+  const document: QuarantineExport = {
+    format: QUARANTINE_EXPORT_FORMAT,
+    version: QUARANTINE_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    headers: quarantine.headers,
+    rows: quarantine.rows
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * CSV com as colunas de origem e, ao lado, a linha, os códigos, as etapas, as regras e as mensagens de erro
+ */
+export function exportQuarantineCSV(quarantine: QuarantineSet): string {
+  const unique = (values: Array<string | undefined>) =>
+    Array.from(new Set(values.filter((value): value is string => !!value))).join(LIST_SEPARATOR);
+
+  return Papa.unparse({
+    fields: [QUARANTINE_COLUMNS.row, ...quarantine.headers, QUARANTINE_COLUMNS.codes, QUARANTINE_COLUMNS.steps, QUARANTINE_COLUMNS.rules, QUARANTINE_COLUMNS.errors],
+    data: quarantine.rows.map(entry => [
+      String(entry.row + 1),
+      ...quarantine.headers.map(header => entry.values[header] ?? ''),
+      unique(entry.errors.map(error => error.code)),
+      unique(entry.errors.map(error => error.step)),
+      unique(entry.errors.map(error => error.rule)),
+      entry.errors.map(error => `${error.path || error.field}: ${error.error}`).join(LIST_SEPARATOR)
+    ])
+  });
+}
+
+/**
+ * Lê um arquivo exportado por exportQuarantineCSV ou exportQuarantineJSON, já corrigido
+ * As colunas precisam ser as de origem (`headers`); colunas de controle são descartadas
+ */
+export function parseQuarantineFile(content: string, headers: string[]): QuarantineResubmission {
+  const text = content.replace(/^\uFEFF/, '');
+  return text.trim().startsWith('{') ? parseQuarantineJSON(text, headers) : parseQuarantineCSV(text, headers);
+}
+
+function parseQuarantineJSON(text: string, headers: string[]): QuarantineResubmission {
+  let document: Partial<QuarantineExport>;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    throw new QuarantineFileError(`JSON inválido: ${error instanceof Error ? error.message : error}`);
+  }
+  if (document.format !== QUARANTINE_EXPORT_FORMAT || !Array.isArray(document.rows)) {
+    throw new QuarantineFileError('O JSON não é uma quarentena exportada pelo orquestrador');
+  }
+
+  const rows = document.rows.filter(entry => entry && typeof entry.values === 'object');
+  return {
+    headers,
+    rows: rows.map(entry => headers.map(header => entry.values[header] == null ? '' : String(entry.values[header]))),
+    sourceRows: rows.map((entry, index) => Number.isInteger(entry.row) ? entry.row : -(index + 1))
+  };
+}
+
+function parseQuarantineCSV(text: string, headers: string[]): QuarantineResubmission {
+  const parsed = Papa.parse<string[]>(text, { header: false, skipEmptyLines: true });
+  const [fileHeaders, ...lines] = parsed.data;
+  if (!fileHeaders) {
+    throw new QuarantineFileError('Arquivo vazio');
+  }
+
+  const missing = headers.filter(header => !fileHeaders.includes(header));
+  if (missing.length > 0) {
+    throw new QuarantineFileError(`Colunas de origem ausentes: ${missing.join(', ')}`);
+  }
+
+  const rowColumn = fileHeaders.indexOf(QUARANTINE_COLUMNS.row);
+  const columns = headers.map(header => fileHeaders.indexOf(header));
+  return {
+    headers,
+    rows: lines.map(line => columns.map(column => line[column] ?? '')),
+    // Linhas sem número de origem (acrescentadas à mão) recebem índices negativos, sem colidir com as originais
+    sourceRows: lines.map((line, index) => {
+      const row = rowColumn === -1 ? NaN : parseInt(line[rowColumn], 10);
+      return Number.isInteger(row) && row > 0 ? row - 1 : -(index + 1);
+    })
+  };
+}
+
+/**
+ * Junta a transformação das linhas reenviadas ao resultado anterior
+ * Linhas aceitas são acrescentadas aos dados; as que falharam de novo substituem a entrada anterior na quarentena
+ */
+export function mergeResubmission(
+  current: TransformedData,
+  resubmitted: TransformedData,
+  sourceRows: number[]
+): TransformedData {
+  const replaced = new Set(sourceRows);
+  const remap = (error: ValidationError): ValidationError => ({ ...error, row: sourceRows[error.row] ?? error.row });
+  const previous = current.quarantine ?? { headers: resubmitted.quarantine?.headers ?? [], rows: [] };
+
+  return {
+    ...current,
+    data: current.data.concat(resubmitted.data),
+    validationErrors: current.validationErrors
+      .filter(error => !replaced.has(error.row))
+      .concat(resubmitted.validationErrors.map(remap)),
+    quarantine: {
+      headers: previous.headers,
+      rows: previous.rows
+        .filter(entry => !replaced.has(entry.row))
+        .concat((resubmitted.quarantine?.rows ?? []).map(entry => ({
+          ...entry,
+          row: sourceRows[entry.row] ?? entry.row,
+          errors: entry.errors.map(remap)
+        })))
+        .sort((a, b) => a.row - b.row)
+    }
+  };
+}
+
+function toValues(headers: string[], row: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  headers.forEach((header, index) => {
+    values[header] = row[index] ?? '';
+  });
+  return values;
+}
\ No newline at end of file
@@ -0,0 +1,401 @@
+/**
+ * Publicação em APIs REST
+ * Envia os registros em lotes JSON com concorrência limitada, autenticação (bearer, basic, API key,
+ * OAuth2 client credentials), retentativas com backoff exponencial em 429/5xx e uma chave de idempotência por lote
+ */
+
+import { createHash } from 'crypto';
+
+export type RestAuth =
+  | { type: 'none' }
+  | { type: 'bearer'; token: string }
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'api_key'; header: string; value: string }
+  | { type: 'oauth2'; tokenUrl: string; clientId: string; clientSecret: string; scope?: string };
+
+export interface RestPublisherConfig {
+  endpoint: string;
+  method?: 'POST' | 'PUT';
+  auth?: RestAuth;
+  batchSize?: number; // Registros por requisição (padrão 100)
+  concurrency?: number; // Requisições simultâneas (padrão 2)
+  maxRetries?: number; // Retentativas por lote em 429, 5xx e falhas de rede (padrão 5)
+  timeoutMs?: number; // Por requisição (padrão 30s)
+  baseDelayMs?: number; // Primeira espera do backoff (padrão 500ms)
+  maxDelayMs?: number; // Espera máxima entre tentativas, inclusive a pedida em Retry-After (padrão 30s)
+}
+
+export interface RestBatchResult {
+  batch: number;
+  firstRecord: number; // Índice do primeiro registro do lote
+  records: number;
+  idempotencyKey: string;
+  success: boolean;
+  status?: number; // Último status HTTP recebido
+  attempts: number;
+  durationMs: number;
+  error?: string;
+  response?: unknown; // Corpo da última resposta (JSON ou texto truncado)
+}
+
+export interface RestPublishResult {
+  success: boolean;
+  endpoint: string;
+  totalRecords: number;
+  sentRecords: number;
+  failedRecords: number;
+  batches: RestBatchResult[];
+  error?: string;
+}
+
+export interface RestRequestPreview {
+  batch: number;
+  firstRecord: number;
+  records: number;
+  method: 'POST' | 'PUT';
+  url: string;
+  headers: Record<string, string>; // Credenciais mascaradas
+  body: string; // Corpo exato da requisição
+  bytes: number;
+}
+
+export interface RestDryRun {
+  endpoint: string;
+  totalRecords: number;
+  totalBatches: number;
+  requests: RestRequestPreview[]; // Primeiros lotes
+}
+
+/**
+ * Falha ao obter o token OAuth2; não adianta repetir o lote
+ */
+export class RestAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RestAuthError';
+  }
+}
+
+const DEFAULTS: Required<Omit<RestPublisherConfig, 'endpoint' | 'auth'>> = {
+  method: 'POST',
+  batchSize: 100,
+  concurrency: 2,
+  maxRetries: 5,
+  timeoutMs: 30000,
+  baseDelayMs: 500,
+  maxDelayMs: 30000
+};
+
+const MAX_RESPONSE_TEXT = 1000;
+
+const DEFAULT_PREVIEW_BATCHES = 3;
+
+// Margem para renovar o token OAuth2 antes de expirar
+const TOKEN_EXPIRY_MARGIN_MS = 30000;
+
+export class RestPublisher {
+  private config: RestPublisherConfig & typeof DEFAULTS;
+  private accessToken: { value: string; expiresAt: number } | null = null;
+  private pendingToken: Promise<string> | null = null;
+
+  constructor(config: RestPublisherConfig) {
+    this.config = { ...DEFAULTS, ...config };
+  }
+
+  /**
+   * Publica os registros; lotes com falha não interrompem os demais
+   * `onBatch` é chamado a cada lote concluído, na ordem de conclusão
+   */
+  async publish(
+    records: Record<string, any>[],
+    onBatch?: (result: RestBatchResult, completed: number, total: number) => void
+  ): Promise<RestPublishResult> {
+    const { batchSize, concurrency } = this.config;
+    const total = Math.ceil(records.length / batchSize);
+    const results: RestBatchResult[] = new Array(total);
+    let next = 0;
+    let completed = 0;
+
+    const worker = async () => {
+      while (next < total) {
+        const index = next++;
+        const firstRecord = index * batchSize;
+        results[index] = await this.sendBatch(index, firstRecord, records.slice(firstRecord, firstRecord + batchSize));
+        completed++;
+        onBatch?.(results[index], completed, total);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, total) }, worker));
+
+    const failed = results.filter(result => !result.success);
+    const failedRecords = failed.reduce((sum, result) => sum + result.records, 0);
+
+    return {
+      success: failed.length === 0,
+      endpoint: this.config.endpoint,
+      totalRecords: records.length,
+      sentRecords: records.length - failedRecords,
+      failedRecords,
+      batches: results,
+      error: failed.length > 0 ? `${failed.length} de ${total} lote(s) falharam: ${failed[0].error}` : undefined
+    };
+  }
+
+  /**
+   * Requisições que publish enviaria para os primeiros lotes, sem enviá-las nem pedir token OAuth2
+   * Só os valores das credenciais são mascarados; corpo, chave de idempotência e demais headers são os mesmos
+   */
+  preview(records: Record<string, any>[], maxBatches: number = DEFAULT_PREVIEW_BATCHES): RestDryRun {
+    const { batchSize, method, endpoint } = this.config;
+    const totalBatches = Math.ceil(records.length / batchSize);
+    const requests: RestRequestPreview[] = [];
+
+    for (let index = 0; index < Math.min(totalBatches, maxBatches); index++) {
+      const firstRecord = index * batchSize;
+      const batch = records.slice(firstRecord, firstRecord + batchSize);
+      const body = JSON.stringify(batch);
+      requests.push({
+        batch: index,
+        firstRecord,
+        records: batch.length,
+        method,
+        url: endpoint,
+        headers: buildHeaders(this.idempotencyKey(index, body), this.maskedAuthHeaders()),
+        body,
+        bytes: Buffer.byteLength(body)
+      });
+    }
+
+    return { endpoint, totalRecords: records.length, totalBatches, requests };
+  }
+
+  /**
+   * Envia um lote com retentativas; a chave de idempotência é a mesma em todas as tentativas
+   */
+  private async sendBatch(index: number, firstRecord: number, records: Record<string, any>[]): Promise<RestBatchResult> {
+    const { maxRetries } = this.config;
+    const body = JSON.stringify(records);
+    const startTime = Date.now();
+    const result: RestBatchResult = {
+      batch: index,
+      firstRecord,
+      records: records.length,
+      idempotencyKey: this.idempotencyKey(index, body),
+      success: false,
+      attempts: 0,
+      durationMs: 0
+    };
+    let tokenRefreshed = false;
+
+    while (true) {
+      result.attempts++;
+      let retryAfterMs: number | null = null;
+
+      try {
+        const response = await this.request(body, result.idempotencyKey);
+        result.status = response.status;
+        result.response = await readResponseBody(response);
+
+        if (response.ok) {
+          result.success = true;
+          result.error = undefined;
+          break;
+        }
+
+        // Token OAuth2 revogado ou expirado antes do previsto: renova uma vez, sem contar como tentativa
+        if (response.status === 401 && this.config.auth?.type === 'oauth2' && !tokenRefreshed) {
+          tokenRefreshed = true;
+          this.accessToken = null;
+          result.attempts--;
+          continue;
+        }
+
+        result.error = `HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`;
+        if (response.status !== 429 && response.status < 500) break;
+        retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+        if (error instanceof RestAuthError) break;
+      }
+
+      if (result.attempts > maxRetries) break;
+
+      if (retryAfterMs !== null && retryAfterMs > this.config.maxDelayMs) {
+        result.error += ` (Retry-After de ${Math.ceil(retryAfterMs / 1000)}s excede a espera máxima)`;
+        break;
+      }
+      await sleep(retryAfterMs ?? this.backoffDelay(result.attempts));
+    }
+
+    result.durationMs = Date.now() - startTime;
+    return result;
+  }
+
+  private async request(body: string, idempotencyKey: string): Promise<Response> {
+    const headers = buildHeaders(idempotencyKey, await this.authHeaders());
+    return fetchWithTimeout(this.config.endpoint, { method: this.config.method, headers, body }, this.config.timeoutMs);
+  }
+
+  private async authHeaders(): Promise<Record<string, string>> {
+    const { auth } = this.config;
+
+    switch (auth?.type) {
+      case 'bearer':
+        return { Authorization: `Bearer ${auth.token}` };
+      case 'basic':
+        return { Authorization: `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}` };
+      case 'api_key':
+        return { [auth.header]: auth.value };
+      case 'oauth2':
+        return { Authorization: `Bearer ${await this.getAccessToken()}` };
+      default:
+        return {};
+    }
+  }
+
+  private maskedAuthHeaders(): Record<string, string> {
+    const { auth } = this.config;
+
+    switch (auth?.type) {
+      case 'bearer':
+        return { Authorization: `Bearer ${maskSecret(auth.token)}` };
+      case 'basic':
+        return { Authorization: `Basic base64(${auth.username}:${maskSecret(auth.password)})` };
+      case 'api_key':
+        return { [auth.header]: maskSecret(auth.value) };
+      case 'oauth2':
+        return { Authorization: `Bearer <token obtido em ${auth.tokenUrl}>` };
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Token do fluxo client credentials, reaproveitado até perto de expirar
+   * Lotes simultâneos compartilham a mesma requisição de token
+   */
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt > Date.now()) {
+      return this.accessToken.value;
+    }
+    if (!this.pendingToken) {
+      this.pendingToken = this.requestAccessToken().finally(() => {
+        this.pendingToken = null;
+      });
+    }
+    return this.pendingToken;
+  }
+
+  private async requestAccessToken(): Promise<string> {
+    const auth = this.config.auth as Extract<RestAuth, { type: 'oauth2' }>;
+    const form = new URLSearchParams({ grant_type: 'client_credentials' });
+    if (auth.scope) form.set('scope', auth.scope);
+
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(auth.tokenUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Accept': 'application/json',
+          Authorization: `Basic ${Buffer.from(`${encodeURIComponent(auth.clientId)}:${encodeURIComponent(auth.clientSecret)}`).toString('base64')}`
+        },
+        body: form.toString()
+      }, this.config.timeoutMs);
+    } catch (error) {
+      throw new RestAuthError(`Falha ao obter token OAuth2: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const payload = await readResponseBody(response) as Record<string, any> | string | null;
+    if (!response.ok || typeof payload !== 'object' || !payload?.access_token) {
+      throw new RestAuthError(`Falha ao obter token OAuth2: HTTP ${response.status}`);
+    }
+
+    const expiresIn = Number(payload.expires_in) || 3600;
+    this.accessToken = {
+      value: String(payload.access_token),
+      expiresAt: Date.now() + Math.max(0, expiresIn * 1000 - TOKEN_EXPIRY_MARGIN_MS)
+    };
+    return this.accessToken.value;
+  }
+
+  /**
+   * Determinística: reenviar os mesmos registros na mesma posição gera a mesma chave
+   */
+  private idempotencyKey(index: number, body: string): string {
+    return createHash('sha256')
+      .update(`${this.config.method} ${this.config.endpoint}\n${index}\n${body}`)
+      .digest('hex');
+  }
+
+  private backoffDelay(attempt: number): number {
+    const delay = Math.min(this.config.maxDelayMs, this.config.baseDelayMs * Math.pow(2, attempt - 1));
+    return Math.round(delay * (0.5 + Math.random() / 2)); // Jitter para espalhar lotes simultâneos
+  }
+}
+
+function buildHeaders(idempotencyKey: string, authHeaders: Record<string, string>): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+    'Idempotency-Key': idempotencyKey,
+    ...authHeaders
+  };
+}
+
+/**
+ * Mantém só os últimos caracteres de segredos longos
+ */
+function maskSecret(secret: string): string {
+  return secret.length > 8 ? `••••${secret.slice(-4)}` : '••••';
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Tempo limite de ${timeoutMs}ms excedido`);
+    }
+    // O fetch do Node informa só "fetch failed"; o motivo (ECONNREFUSED, DNS...) vem em `cause`
+    const cause = (error as { cause?: { code?: string; message?: string } }).cause;
+    if (cause) {
+      throw new Error(`Falha de conexão com ${new URL(url).host}: ${cause.code ?? cause.message}`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function readResponseBody(response: Response): Promise<unknown> {
+  const text = await response.text().catch(() => '');
+  if (!text) return null;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text.length > MAX_RESPONSE_TEXT ? `${text.slice(0, MAX_RESPONSE_TEXT)}...` : text;
+  }
+}
+
+/**
+ * Retry-After em segundos ou como data HTTP
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
\ No newline at end of file
@@ -0,0 +1,748 @@
+/**
+ * Linguagem de expressões para regras de negócio e transformações declaradas em esquemas
+ * Interpretada por um parser próprio (sem eval): campos, literais, comparações, aritmética,
+ * operadores lógicos, `in (...)` e um conjunto fechado de funções
+ *
+ * Regras têm a forma `condição => ação`, em que a ação é uma expressão ou `campo[, campo] required`:
+ *   valor_coparticipacao <= valor_procedimento
+ *   status == 'Autorizado' => data_autorizacao required
+ *   data_nascimento => age(data_nascimento) >= 18
+ */
+
+import { getPathValue } from './field-path';
+import { findSourceField } from './json-schema';
+import { parseDate, parseNumber } from './transformation-engine';
+import { BusinessRule, TransformationRule, ValidationError } from '@/types';
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_DEPTH = 64;
+
+/**
+ * Valor de uma expressão; null é campo ausente ou vazio e undefined é desconhecido
+ * (comparação ou cálculo com campo ausente)
+ */
+export type RuleValue = string | number | boolean | null | undefined;
+
+export interface EvaluationOptions {
+  now?: Date; // Referência para age() e today()
+}
+
+/**
+ * Erro de sintaxe ou de uso de função, com a posição no texto da expressão
+ */
+export class RuleExpressionError extends Error {
+  constructor(message: string, public source: string, public position: number) {
+    super(`${message} (posição ${position + 1} em '${source}')`);
+    this.name = 'RuleExpressionError';
+  }
+}
+
+export interface CompiledExpression {
+  source: string;
+  fields: string[]; // Campos referenciados
+  evaluate(record: Record<string, any>, options?: EvaluationOptions): RuleValue;
+}
+
+export interface RuleViolation {
+  fields: string[]; // Campos ausentes (ação `required`) ou referenciados pela ação
+  message: string;
+}
+
+export interface CompiledRule {
+  source: string;
+  fields: string[];
+  /** null quando a linha atende à regra ou a condição não se aplica */
+  check(record: Record<string, any>, options?: EvaluationOptions): RuleViolation | null;
+}
+
+type BinaryOperator = '||' | '&&' | '==' | '!=' | '<' | '<=' | '>' | '>=' | '+' | '-' | '*' | '/' | '%';
+
+type ExpressionNode =
+  | { kind: 'literal'; value: RuleValue }
+  | { kind: 'field'; path: string }
+  | { kind: 'unary'; operator: '!' | '-'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'in'; value: ExpressionNode; options: ExpressionNode[]; negated: boolean }
+  | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+type ActionNode =
+  | { kind: 'required'; fields: string[] }
+  | { kind: 'expression'; expression: ExpressionNode };
+
+interface RuleFunction {
+  arity: [number, number]; // Mínimo e máximo de argumentos
+  apply(args: RuleValue[], options: EvaluationOptions): RuleValue;
+}
+
+const FUNCTIONS: Record<string, RuleFunction> = {
+  age: {
+    arity: [1, 1],
+    apply: ([value], options) => {
+      const date = toDate(value);
+      if (date === null) return undefined;
+      const now = options.now ?? new Date();
+      let years = now.getUTCFullYear() - date.getUTCFullYear();
+      const monthDiff = now.getUTCMonth() - date.getUTCMonth();
+      if (monthDiff < 0 || (monthDiff === 0 && now.getUTCDate() < date.getUTCDate())) years--;
+      return years;
+    }
+  },
+  today: {
+    arity: [0, 0],
+    apply: (_args, options) => (options.now ?? new Date()).toISOString().slice(0, 10)
+  },
+  len: {
+    arity: [1, 1],
+    apply: ([value]) => isMissing(value) ? value : String(value).trim().length
+  },
+  lower: {
+    arity: [1, 1],
+    apply: ([value]) => isMissing(value) ? value : String(value).toLowerCase()
+  },
+  upper: {
+    arity: [1, 1],
+    apply: ([value]) => isMissing(value) ? value : String(value).toUpperCase()
+  },
+  trim: {
+    arity: [1, 1],
+    apply: ([value]) => isMissing(value) ? value : String(value).trim()
+  },
+  number: {
+    arity: [1, 1],
+    apply: ([value]) => isMissing(value) ? value : toNumber(value) ?? undefined
+  },
+  abs: {
+    arity: [1, 1],
+    apply: ([value]) => mapNumber(value, Math.abs)
+  },
+  round: {
+    arity: [1, 2],
+    apply: ([value, digits]) => {
+      const factor = Math.pow(10, toNumber(digits ?? 0) ?? 0);
+      return mapNumber(value, number => Math.round(number * factor) / factor);
+    }
+  },
+  is_empty: {
+    arity: [1, 1],
+    apply: ([value]) => value === null
+  }
+};
+
+/**
+ * Compila uma expressão; erros de sintaxe são lançados aqui, não durante a avaliação
+ */
+export function compileExpression(source: string): CompiledExpression {
+  const parser = new Parser(source);
+  const expression = parser.parseExpression();
+  parser.expectEnd();
+
+  return {
+    source,
+    fields: collectFields(expression),
+    evaluate: (record, options = {}) => evaluate(expression, record, options)
+  };
+}
+
+/**
+ * Compila uma regra `condição => ação`; sem `=>` a ação vale para todas as linhas
+ */
+export function compileRule(source: string): CompiledRule {
+  const parser = new Parser(source);
+  const first = parser.parseAction();
+
+  if (parser.match('=>')) {
+    if (first.kind !== 'expression') {
+      throw new RuleExpressionError("'required' só pode aparecer na ação da regra", source, 0);
+    }
+    const action = parser.parseAction();
+    parser.expectEnd();
+    return buildRule(source, first.expression, action);
+  }
+
+  parser.expectEnd();
+  return buildRule(source, null, first);
+}
+
+/**
+ * Compila uma regra com condição e ação em textos separados (como em BusinessRule)
+ * Com a ação vazia, a condição pode conter a regra completa (`condição => ação`)
+ */
+export function compileConditionalRule(condition: string, action: string): CompiledRule {
+  if (!action.trim()) return compileRule(condition);
+
+  const conditionParser = new Parser(condition);
+  const conditionNode = conditionParser.parseExpression();
+  conditionParser.expectEnd();
+
+  const actionParser = new Parser(action);
+  const actionNode = actionParser.parseAction();
+  actionParser.expectEnd();
+
+  return buildRule(`${condition} => ${action}`, conditionNode, actionNode);
+}
+
+/**
+ * Avalia as regras de negócio em cada registro transformado; cada violação leva a severidade da regra
+ * A coluna de origem é encontrada pelas regras de transformação, como nos erros de JSON Schema
+ */
+export function validateBusinessRules(
+  records: Record<string, any>[],
+  businessRules: BusinessRule[],
+  transformationRules: TransformationRule[] = [],
+  options: EvaluationOptions = {}
+): ValidationError[] {
+  const compiled = businessRules.map(rule => ({ rule, compiled: compileConditionalRule(rule.condition, rule.action) }));
+  const errors: ValidationError[] = [];
+
+  records.forEach((record, row) => {
+    for (const { rule, compiled: { check } } of compiled) {
+      const violation = check(record, options);
+      if (!violation) continue;
+
+      const [path] = violation.fields;
+      errors.push({
+        row,
+        field: violation.fields.map(field => findSourceField(field, transformationRules) ?? field).join(', '),
+        value: violation.fields.length === 1
+          ? getPathValue(record, path)
+          : Object.fromEntries(violation.fields.map(field => [field, getPathValue(record, field)])),
+        error: `${rule.description || rule.name}: ${violation.message}`,
+        path: violation.fields.length === 1 ? path : undefined,
+        code: 'business_rule',
+        rule: rule.name,
+        step: 'validation',
+        severity: rule.severity
+      });
+    }
+  });
+
+  return errors;
+}
+
+function buildRule(source: string, condition: ExpressionNode | null, action: ActionNode): CompiledRule {
+  const actionFields = action.kind === 'required' ? action.fields : collectFields(action.expression);
+  const fields = unique((condition ? collectFields(condition) : []).concat(actionFields));
+
+  return {
+    source,
+    fields,
+    check: (record, options = {}) => {
+      // Condição desconhecida (campo ausente numa comparação) não dispara a regra
+      if (condition && toLogical(evaluate(condition, record, options)) !== true) return null;
+
+      if (action.kind === 'required') {
+        const missing = action.fields.filter(field => isMissing(readField(record, field)));
+        return missing.length > 0
+          ? { fields: missing, message: `Campo obrigatório ausente: ${missing.join(', ')}` }
+          : null;
+      }
+
+      // Ação desconhecida não é violação; campos ausentes são tratados pela validação de obrigatórios
+      return toLogical(evaluate(action.expression, record, options)) === false
+        ? { fields: actionFields, message: `Condição não atendida: ${describe(action.expression)}` }
+        : null;
+    }
+  };
+}
+
+// Análise léxica
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ['===', '!==', '=>', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '+', '-', '*', '/', '%', '(', ')', ','];
+const IDENTIFIER_START = /[A-Za-z_À-ÿ]/;
+const IDENTIFIER_PART = /[\wÀ-ÿ]/;
+
+function tokenize(source: string): Token[] {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new RuleExpressionError(`Expressão maior que ${MAX_EXPRESSION_LENGTH} caracteres`, source.slice(0, 40), 0);
+  }
+
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/\d/.test(char)) {
+      const match = /^\d+(\.\d+)?/.exec(source.slice(index))!;
+      tokens.push({ type: 'number', value: match[0], position: index });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const [value, end] = readQuoted(source, index, char);
+      tokens.push({ type: 'string', value, position: index });
+      index = end;
+      continue;
+    }
+
+    // Crases delimitam nomes de campo com espaços ou símbolos
+    if (char === '`') {
+      const [value, end] = readQuoted(source, index, char);
+      tokens.push({ type: 'identifier', value, position: index });
+      index = end;
+      continue;
+    }
+
+    if (IDENTIFIER_START.test(char)) {
+      const start = index;
+      index = readIdentifier(source, index);
+      tokens.push({ type: 'identifier', value: source.slice(start, index), position: start });
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => source.startsWith(candidate, index));
+    if (!operator) {
+      throw new RuleExpressionError(
+        char === '=' ? "Operador '=' inválido; use '==' para comparar" : `Caractere inesperado '${char}'`,
+        source,
+        index
+      );
+    }
+    // === e !== equivalem a == e !=, para aceitar a sintaxe de JavaScript dos templates
+    tokens.push({ type: 'operator', value: operator === '===' ? '==' : operator === '!==' ? '!=' : operator, position: index });
+    index += operator.length;
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+/**
+ * Lê um identificador, incluindo caminhos de campos aninhados (`endereco.cidade`, `telefones[0]`)
+ */
+function readIdentifier(source: string, start: number): number {
+  let index = start;
+  for (;;) {
+    while (index < source.length && IDENTIFIER_PART.test(source[index])) index++;
+
+    if (source[index] === '.' && IDENTIFIER_START.test(source[index + 1] ?? '')) {
+      index++;
+      continue;
+    }
+    const indexMatch = /^\[\d+\]/.exec(source.slice(index));
+    if (indexMatch) {
+      index += indexMatch[0].length;
+      continue;
+    }
+    return index;
+  }
+}
+
+function readQuoted(source: string, start: number, quote: string): [string, number] {
+  let value = '';
+  let index = start + 1;
+
+  while (index < source.length) {
+    const char = source[index];
+    if (char === quote) return [value, index + 1];
+    if (char === '\\' && index + 1 < source.length) {
+      value += source[index + 1];
+      index += 2;
+      continue;
+    }
+    value += char;
+    index++;
+  }
+
+  throw new RuleExpressionError('Texto sem aspas de fechamento', source, start);
+}
+
+// Análise sintática (descendente recursiva, do operador de menor para o de maior precedência)
+
+const COMPARISON_OPERATORS = ['<', '<=', '>', '>='];
+const BINARY_LEVELS = [['||'], ['&&'], ['==', '!='], COMPARISON_OPERATORS, ['+', '-'], ['*', '/', '%']];
+const COMPARISON_LEVEL = BINARY_LEVELS.indexOf(COMPARISON_OPERATORS);
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+  private depth = 0;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parseAction(): ActionNode {
+    const fields = this.tryRequiredFields();
+    return fields ? { kind: 'required', fields } : { kind: 'expression', expression: this.parseExpression() };
+  }
+
+  parseExpression(): ExpressionNode {
+    if (++this.depth > MAX_DEPTH) {
+      throw new RuleExpressionError('Expressão aninhada demais', this.source, this.peek().position);
+    }
+    const node = this.parseBinary(0);
+    this.depth--;
+    return node;
+  }
+
+  match(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  expectEnd(): void {
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new RuleExpressionError(`Token inesperado '${token.value}'`, this.source, token.position);
+    }
+  }
+
+  /**
+   * `campo[, campo] required`, reconhecido só quando a sequência inteira casa
+   */
+  private tryRequiredFields(): string[] | null {
+    const fields: string[] = [];
+    let offset = this.index;
+
+    for (;;) {
+      const token = this.tokens[offset];
+      if (token.type !== 'identifier') return null;
+      fields.push(token.value);
+
+      const next = this.tokens[offset + 1];
+      if (next.type === 'identifier' && next.value === 'required') {
+        this.index = offset + 2;
+        return fields;
+      }
+      if (next.type !== 'operator' || next.value !== ',') return null;
+      offset += 2;
+    }
+  }
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level === BINARY_LEVELS.length) return this.parseUnary();
+    if (level === COMPARISON_LEVEL) return this.parseComparison();
+
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== 'operator' || !BINARY_LEVELS[level].includes(token.value)) return left;
+      this.index++;
+      left = { kind: 'binary', operator: token.value as BinaryOperator, left, right: this.parseBinary(level + 1) };
+    }
+  }
+
+  /**
+   * Comparações não encadeiam (`a < b < c` é erro) e incluem `in (...)` e `not in (...)`
+   */
+  private parseComparison(): ExpressionNode {
+    const left = this.parseBinary(COMPARISON_LEVEL + 1);
+    const token = this.peek();
+
+    if (token.type === 'operator' && COMPARISON_OPERATORS.includes(token.value)) {
+      this.index++;
+      const node: ExpressionNode = { kind: 'binary', operator: token.value as BinaryOperator, left, right: this.parseBinary(COMPARISON_LEVEL + 1) };
+      const next = this.peek();
+      if (next.type === 'operator' && COMPARISON_OPERATORS.includes(next.value)) {
+        throw new RuleExpressionError('Comparações não podem ser encadeadas; use &&', this.source, next.position);
+      }
+      return node;
+    }
+
+    const negated = this.isKeyword(token, 'not') && this.isKeyword(this.tokens[this.index + 1], 'in');
+    if (negated || this.isKeyword(token, 'in')) {
+      this.index += negated ? 2 : 1;
+      this.expect('(');
+      const options: ExpressionNode[] = [this.parseExpression()];
+      while (this.match(',')) options.push(this.parseExpression());
+      this.expect(')');
+      return { kind: 'in', value: left, options, negated };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '!' || token.value === '-')) {
+      this.index++;
+      if (++this.depth > MAX_DEPTH) {
+        throw new RuleExpressionError('Expressão aninhada demais', this.source, token.position);
+      }
+      const operand = this.parseUnary();
+      this.depth--;
+      return { kind: 'unary', operator: token.value, operand };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+    this.index++;
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: parseFloat(token.value) };
+
+      case 'string':
+        return { kind: 'literal', value: token.value };
+
+      case 'identifier':
+        if (token.value === 'true' || token.value === 'false') return { kind: 'literal', value: token.value === 'true' };
+        if (token.value === 'null') return { kind: 'literal', value: null };
+        if (this.match('(')) return this.parseCall(token);
+        return { kind: 'field', path: token.value };
+
+      case 'operator':
+        if (token.value === '(') {
+          const expression = this.parseExpression();
+          this.expect(')');
+          return expression;
+        }
+        break;
+    }
+
+    throw new RuleExpressionError(
+      token.type === 'end' ? 'Expressão incompleta' : `Token inesperado '${token.value}'`,
+      this.source,
+      token.position
+    );
+  }
+
+  private parseCall(name: Token): ExpressionNode {
+    const fn = FUNCTIONS[name.value];
+    if (!fn) {
+      throw new RuleExpressionError(
+        `Função desconhecida '${name.value}'. Disponíveis: ${Object.keys(FUNCTIONS).join(', ')}`,
+        this.source,
+        name.position
+      );
+    }
+
+    const args: ExpressionNode[] = [];
+    if (!this.match(')')) {
+      do {
+        args.push(this.parseExpression());
+      } while (this.match(','));
+      this.expect(')');
+    }
+
+    const [min, max] = fn.arity;
+    if (args.length < min || args.length > max) {
+      const expected = min === max ? `${min}` : `${min} a ${max}`;
+      throw new RuleExpressionError(`Função '${name.value}' espera ${expected} argumento(s)`, this.source, name.position);
+    }
+    return { kind: 'call', name: name.value, args };
+  }
+
+  private expect(operator: string): void {
+    if (!this.match(operator)) {
+      const token = this.peek();
+      throw new RuleExpressionError(`Esperado '${operator}'`, this.source, token.position);
+    }
+  }
+
+  private isKeyword(token: Token | undefined, keyword: string): boolean {
+    return token?.type === 'identifier' && token.value === keyword;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+}
+
+// Avaliação
+
+function evaluate(node: ExpressionNode, record: Record<string, any>, options: EvaluationOptions): RuleValue {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'field':
+      return readField(record, node.path);
+
+    case 'unary': {
+      const operand = evaluate(node.operand, record, options);
+      if (node.operator === '!') {
+        const logical = toLogical(operand);
+        return logical === undefined ? undefined : !logical;
+      }
+      return mapNumber(operand, number => -number);
+    }
+
+    case 'binary':
+      return evaluateBinary(node.operator, node.left, node.right, record, options);
+
+    case 'in': {
+      const value = evaluate(node.value, record, options);
+      if (value === undefined) return undefined;
+      const found = node.options.some(option => equals(value, evaluate(option, record, options)) === true);
+      return node.negated ? !found : found;
+    }
+
+    case 'call':
+      return FUNCTIONS[node.name].apply(node.args.map(arg => evaluate(arg, record, options)), options);
+  }
+}
+
+function evaluateBinary(
+  operator: BinaryOperator,
+  leftNode: ExpressionNode,
+  rightNode: ExpressionNode,
+  record: Record<string, any>,
+  options: EvaluationOptions
+): RuleValue {
+  // Lógica de três valores: verdadeiro, falso ou desconhecido (undefined)
+  if (operator === '&&' || operator === '||') {
+    const left = toLogical(evaluate(leftNode, record, options));
+    if (operator === '&&' && left === false) return false;
+    if (operator === '||' && left === true) return true;
+    const right = toLogical(evaluate(rightNode, record, options));
+    if (operator === '&&') return right === false ? false : left === undefined || right === undefined ? undefined : true;
+    return right === true ? true : left === undefined || right === undefined ? undefined : false;
+  }
+
+  const left = evaluate(leftNode, record, options);
+  const right = evaluate(rightNode, record, options);
+
+  switch (operator) {
+    case '==':
+      return equals(left, right);
+    case '!=': {
+      const result = equals(left, right);
+      return result === undefined ? undefined : !result;
+    }
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      const order = compare(left, right);
+      if (order === undefined) return undefined;
+      return operator === '<' ? order < 0 : operator === '<=' ? order <= 0 : operator === '>' ? order > 0 : order >= 0;
+    }
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a === null || b === null) return undefined;
+
+  switch (operator) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/': return b === 0 ? undefined : a / b;
+    case '%': return b === 0 ? undefined : a % b;
+  }
+}
+
+/**
+ * Igualdade com coerção: números e datas pelo valor, booleanos pelo texto, demais como texto
+ */
+function equals(left: RuleValue, right: RuleValue): boolean | undefined {
+  if (left === undefined || right === undefined) return undefined;
+  if (left === null || right === null) return left === right;
+
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return String(left).trim().toLowerCase() === String(right).trim().toLowerCase();
+  }
+
+  const order = compare(left, right);
+  return order === undefined ? undefined : order === 0;
+}
+
+/**
+ * Ordem entre dois valores: numérica, cronológica ou textual, nessa preferência
+ */
+function compare(left: RuleValue, right: RuleValue): number | undefined {
+  if (isMissing(left) || isMissing(right)) return undefined;
+
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+  if (leftNumber !== null && rightNumber !== null) return Math.sign(leftNumber - rightNumber);
+
+  const leftDate = toDate(left);
+  const rightDate = toDate(right);
+  if (leftDate !== null && rightDate !== null) return Math.sign(leftDate.getTime() - rightDate.getTime());
+
+  const a = String(left).trim();
+  const b = String(right).trim();
+  return a === b ? 0 : a < b ? -1 : 1;
+}
+
+function readField(record: Record<string, any>, path: string): RuleValue {
+  const value = getPathValue(record, path);
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string') return value.trim() === '' ? null : value;
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  return String(value);
+}
+
+function toLogical(value: RuleValue): boolean | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return false;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0 && !isNaN(value);
+  return value.trim() !== '';
+}
+
+function toNumber(value: RuleValue): number | null {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value === 'string') return parseNumber(value.trim());
+  return null;
+}
+
+function toDate(value: RuleValue): Date | null {
+  return typeof value === 'string' ? parseDate(value.trim())?.date ?? null : null;
+}
+
+function mapNumber(value: RuleValue, fn: (value: number) => number): RuleValue {
+  if (isMissing(value)) return value;
+  const number = toNumber(value);
+  return number === null ? undefined : fn(number);
+}
+
+function isMissing(value: RuleValue): value is null | undefined {
+  return value === null || value === undefined;
+}
+
+function collectFields(node: ExpressionNode): string[] {
+  switch (node.kind) {
+    case 'literal': return [];
+    case 'field': return [node.path];
+    case 'unary': return collectFields(node.operand);
+    case 'binary': return unique(collectFields(node.left).concat(collectFields(node.right)));
+    case 'in': return unique(node.options.reduce((fields, option) => fields.concat(collectFields(option)), collectFields(node.value)));
+    case 'call': return unique(node.args.reduce<string[]>((fields, arg) => fields.concat(collectFields(arg)), []));
+  }
+}
+
+/**
+ * Reescreve a expressão em texto, para as mensagens de violação
+ */
+function describe(node: ExpressionNode): string {
+  switch (node.kind) {
+    case 'literal': return typeof node.value === 'string' ? `'${node.value}'` : String(node.value);
+    case 'field': return node.path;
+    case 'unary': return `${node.operator}${describe(node.operand)}`;
+    case 'binary': return `${describeOperand(node.left)} ${node.operator} ${describeOperand(node.right)}`;
+    case 'in': return `${describe(node.value)} ${node.negated ? 'not in' : 'in'} (${node.options.map(describe).join(', ')})`;
+    case 'call': return `${node.name}(${node.args.map(describe).join(', ')})`;
+  }
+}
+
+function describeOperand(node: ExpressionNode): string {
+  return node.kind === 'binary' ? `(${describe(node)})` : describe(node);
+}
+
+function unique(values: string[]): string[] {
+  return values.filter((value, index) => values.indexOf(value) === index);
+}
\ No newline at end of file
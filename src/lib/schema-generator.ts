@@ -6,7 +6,11 @@
 import { DataType } from './data-type-inference';
 import { DataDomain, DomainAnalysisResult } from './domain-analyzer';
 import { ValidationResult } from './data-validator';
+import { getPathValue } from './field-path';
+import { compileConditionalRule, compileExpression, CompiledExpression, CompiledRule, EvaluationOptions } from './rule-expressions';
+import { executeRules } from './transformation-engine';
 import { FieldMapping } from '../components/adaptive-interface';
+import { BusinessRule, TransformationRule } from '@/types';
 
 export interface JSONSchema {
   $schema: string;
@@ -43,6 +47,10 @@ export interface ValidationRule {
   severity: 'error' | 'warning';
 }
 
+/**
+ * Operações do motor de transformação (format, normalize...), `combine` (como merge)
+ * ou `expression`, que calcula o campo com `parameters.expression` (ver rule-expressions)
+ */
 export interface TransformationHint {
   operation: string;
   parameters: Record<string, any>;
@@ -57,6 +65,7 @@ export interface SchemaMetadata {
   sourceFields: string[];
   generatedBy: string;
   statistics: SchemaStatistics;
+  businessRules?: BusinessRule[];
 }
 
 export interface SchemaStatistics {
@@ -83,13 +92,19 @@ export interface SchemaTemplate {
   businessRules: BusinessRule[];
 }
 
-export interface BusinessRule {
-  name: string;
-  description: string;
-  condition: string;
-  action: string;
-  severity: 'error' | 'warning';
-}
+// Operações de TransformationHint executadas pelo motor de transformação
+const HINT_OPERATIONS: Record<string, TransformationRule['operation']> = {
+  rename: 'rename',
+  convert: 'convert',
+  split: 'split',
+  merge: 'merge',
+  combine: 'merge',
+  validate: 'validate',
+  normalize: 'normalize',
+  format: 'format',
+  calculate: 'calculate',
+  lookup: 'lookup'
+};
 
 const DOMAIN_TEMPLATES: Record<DataDomain, SchemaTemplate> = {
   financeiro: {
@@ -219,7 +234,7 @@ const DOMAIN_TEMPLATES: Record<DataDomain, SchemaTemplate> = {
         name: 'idade_minima',
         description: 'Pessoa deve ter pelo menos 18 anos',
         condition: 'data_nascimento',
-        action: 'age >= 18',
+        action: 'age(data_nascimento) >= 18',
         severity: 'warning'
       }
     ]
@@ -426,10 +441,12 @@ export class SchemaGenerator {
 
   /**
    * Valida dados contra um esquema
+   * As regras de negócio dos metadados são avaliadas linha a linha e reportadas com a severidade declarada
    */
-  validateAgainstSchema(data: any[], schema: JSONSchema): SchemaValidationResult {
+  validateAgainstSchema(data: any[], schema: JSONSchema, options: EvaluationOptions = {}): SchemaValidationResult {
     const errors: SchemaValidationError[] = [];
     const warnings: SchemaValidationWarning[] = [];
+    const businessRules = this.compileBusinessRules(schema.metadata?.businessRules || []);
     
     data.forEach((item, index) => {
       // Valida campos obrigatórios
@@ -464,6 +481,34 @@ export class SchemaGenerator {
         const fieldErrors = this.validateFieldValue(value, property, field, index);
         errors.push(...fieldErrors);
       });
+
+      // Valida regras de negócio
+      businessRules.forEach(({ rule, compiled }) => {
+        const violation = compiled.check(item, options);
+        if (!violation) return;
+
+        const field = violation.fields.join(', ');
+        const message = `${rule.description || rule.name}: ${violation.message}`;
+        if (rule.severity === 'error') {
+          errors.push({
+            row: index,
+            field,
+            type: 'business_rule',
+            rule: rule.name,
+            message,
+            value: this.pickValues(item, violation.fields)
+          });
+        } else {
+          warnings.push({
+            row: index,
+            field,
+            type: 'business_rule',
+            rule: rule.name,
+            message,
+            suggestion: `Verifique a regra '${rule.name}' (${compiled.source})`
+          });
+        }
+      });
     });
     
     return {
@@ -479,6 +524,57 @@ export class SchemaGenerator {
     };
   }
 
+  /**
+   * Executa as transformações indicadas nas propriedades do esquema
+   * Operações do motor de transformação rodam primeiro; expressões, depois, sobre o resultado.
+   * Operações desconhecidas são ignoradas e listadas em `skipped`
+   */
+  applyTransformations(data: any[], schema: JSONSchema, options: EvaluationOptions = {}): SchemaTransformationResult {
+    const headers = data.reduce<string[]>((fields, item) => {
+      Object.keys(item).forEach(field => {
+        if (!fields.includes(field)) fields.push(field);
+      });
+      return fields;
+    }, []);
+
+    const rules: TransformationRule[] = [];
+    const expressions: Array<[string, CompiledExpression]> = [];
+    const skipped: string[] = [];
+
+    Object.entries(schema.properties).forEach(([field, property]) => {
+      const hint = property.transformation;
+      if (!hint) return;
+
+      if (hint.operation === 'expression') {
+        expressions.push([field, compileExpression(String(hint.parameters.expression ?? ''))]);
+      } else if (HINT_OPERATIONS[hint.operation] && headers.includes(field)) {
+        rules.push({ field, operation: HINT_OPERATIONS[hint.operation], parameters: { targetField: field, ...hint.parameters } });
+      } else {
+        skipped.push(field);
+      }
+    });
+
+    const errors: SchemaValidationError[] = [];
+    const records = data.map(item => ({ ...item }));
+
+    if (rules.length > 0) {
+      // O motor só devolve os campos produzidos pelas regras, que substituem os originais
+      const result = executeRules(headers, data.map(item => headers.map(field => item[field])), rules);
+      result.data.forEach((output, index) => Object.assign(records[index], output));
+      result.validationErrors.forEach(error => {
+        errors.push({ row: error.row, field: error.field, type: 'transformation', message: error.error, value: error.value });
+      });
+    }
+
+    records.forEach(record => {
+      expressions.forEach(([field, expression]) => {
+        record[field] = expression.evaluate(record, options) ?? null;
+      });
+    });
+
+    return { data: records, errors, skipped };
+  }
+
   /**
    * Exporta esquema em diferentes formatos
    */
@@ -676,18 +772,25 @@ export class SchemaGenerator {
   }
 
   private applyBusinessRules(schema: JSONSchema, businessRules: BusinessRule[]): JSONSchema {
-    // Adiciona regras de negócio como validações customizadas
-    businessRules.forEach(rule => {
-      // Implementação simplificada - na prática, seria mais complexa
-      if (!schema.metadata) schema.metadata = {} as SchemaMetadata;
-      
-      // Adiciona as regras aos metadados para referência
-      (schema.metadata as any).businessRules = businessRules;
-    });
+    // Compila já na geração para rejeitar expressões inválidas; a avaliação é feita em validateAgainstSchema
+    this.compileBusinessRules(businessRules);
+    schema.metadata.businessRules = businessRules;
     
     return schema;
   }
 
+  private compileBusinessRules(businessRules: BusinessRule[]): Array<{ rule: BusinessRule; compiled: CompiledRule }> {
+    return businessRules.map(rule => ({ rule, compiled: compileConditionalRule(rule.condition, rule.action) }));
+  }
+
+  private pickValues(item: Record<string, any>, fields: string[]): any {
+    if (fields.length === 1) return getPathValue(item, fields[0]);
+    return fields.reduce<Record<string, any>>((values, field) => {
+      values[field] = getPathValue(item, field);
+      return values;
+    }, {});
+  }
+
   private validateFieldValue(
     value: any,
     property: SchemaProperty,
@@ -843,10 +946,17 @@ export interface SchemaValidationResult {
   };
 }
 
+export interface SchemaTransformationResult {
+  data: any[];
+  errors: SchemaValidationError[]; // Valores que não puderam ser transformados (ficam null)
+  skipped: string[]; // Campos com operação não suportada
+}
+
 export interface SchemaValidationError {
   row: number;
   field: string;
-  type: 'required' | 'type' | 'pattern' | 'range' | 'custom';
+  type: 'required' | 'type' | 'pattern' | 'range' | 'custom' | 'business_rule' | 'transformation';
+  rule?: string; // Nome da regra de negócio violada
   message: string;
   value: any;
 }
@@ -854,7 +964,8 @@ export interface SchemaValidationError {
 export interface SchemaValidationWarning {
   row: number;
   field: string;
-  type: 'additional_property' | 'format_suggestion' | 'data_quality';
+  type: 'additional_property' | 'format_suggestion' | 'data_quality' | 'business_rule';
+  rule?: string;
   message: string;
   suggestion: string;
 }
\ No newline at end of file
@@ -0,0 +1,240 @@
+/**
+ * Tipo SQL de cada coluna a partir do tipo detalhado (DataTypeInference) e das estatísticas dos valores
+ * Ex.: CPF sem máscara vira CHAR(11); com máscara, VARCHAR(14) com CHECK do formato; moeda_real, NUMERIC(15,2); uuid, o tipo nativo do banco
+ * As tabelas recebem lotes futuros: nada derivado dos valores de um lote restringe os seguintes
+ * (CHECK de valores só com enum declarado; números sem precisão ou escala tiradas da amostra)
+ */
+
+import { FieldSchema } from '@/types';
+import { DataType, DataTypeInference } from './data-type-inference';
+import { DatabaseType } from './database-drivers';
+
+export interface SQLColumnType {
+  sqlType: string;
+  detectedType?: DataType; // Tipo detalhado que definiu a coluna; ausente quando vale o tipo genérico do schema
+  masks?: string[]; // Formatos aceitos pelo CHECK (com e sem máscara): 9 = dígito, demais caracteres literais
+  allowedValues?: string[]; // Enum declarado no schema: CHECK (coluna IN (...)) ou ENUM nativo do MySQL
+  dateOnly?: boolean; // DATE sem horário: o valor é gravado como AAAA-MM-DD
+  indexed: boolean; // Identificador com valores (quase) únicos
+}
+
+const INFERENCE_SAMPLES = 1000;
+const LENGTH_BUCKETS = [16, 32, 64, 128, 255];
+const LENGTH_HEADROOM = 1.5; // Folga sobre o maior comprimento observado
+const MAX_PRECISION = 38;
+const DECIMAL_SCALE = 10; // Escala fixa dos decimais onde NUMERIC exige precisão (MySQL e SQL Server)
+const BIGINT_DIGITS = 18;
+const INDEX_DISTINCT_RATE = 0.9;
+
+// Documentos com e sem máscara; o tamanho da coluna sai da máscara
+const MASKED_TYPES: Partial<Record<DataType, { digits: string; masked: string }>> = {
+  cpf: { digits: '99999999999', masked: '999.999.999-99' },
+  cnpj: { digits: '99999999999999', masked: '99.999.999/9999-99' },
+  cep: { digits: '99999999', masked: '99999-999' }
+};
+
+// Larguras padronizadas, usadas quando todos os valores cabem nelas
+const STANDARD_LENGTHS: Partial<Record<DataType, number>> = {
+  email: 254,
+  telefone: 20,
+  celular: 20,
+  transaction_id: 64,
+  codigo_produto: 64
+};
+
+const IDENTIFIER_TYPES: DataType[] = ['cpf', 'cnpj', 'uuid', 'email', 'transaction_id', 'pix_key', 'codigo_produto'];
+
+const MONEY_NAME = /valor|pre[cç]o|price|vlr|moeda|currency|saldo|sal[aá]rio|custo|amount/i;
+const UUID_PATTERN = /^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/i;
+const TIME_PATTERN = /^\d{1,2}:\d{2}(:\d{2})?$/;
+
+/**
+ * Tipos genéricos, por tipo do schema; valem quando os dados não indicam nada mais específico
+ */
+const GENERIC_TYPES: Record<DatabaseType, Record<string, string>> = {
+  postgresql: {
+    string: 'TEXT',
+    number: 'NUMERIC',
+    boolean: 'BOOLEAN',
+    date: 'TIMESTAMP',
+    email: 'VARCHAR(255)',
+    phone: 'VARCHAR(20)',
+    id: 'VARCHAR(50)'
+  },
+  mysql: {
+    string: 'TEXT',
+    number: 'DECIMAL(15,2)',
+    boolean: 'BOOLEAN',
+    date: 'DATETIME',
+    email: 'VARCHAR(255)',
+    phone: 'VARCHAR(20)',
+    id: 'VARCHAR(50)'
+  },
+  sqlite: {
+    string: 'TEXT',
+    number: 'REAL',
+    boolean: 'INTEGER',
+    date: 'TEXT',
+    email: 'TEXT',
+    phone: 'TEXT',
+    id: 'TEXT'
+  },
+  sqlserver: {
+    string: 'NVARCHAR(MAX)',
+    number: 'DECIMAL(15,2)',
+    boolean: 'BIT',
+    date: 'DATETIME2',
+    email: 'NVARCHAR(255)',
+    phone: 'NVARCHAR(20)',
+    id: 'NVARCHAR(50)'
+  }
+};
+
+export function genericSQLType(dataType: string, dbType: DatabaseType): string {
+  return GENERIC_TYPES[dbType]?.[dataType] || GENERIC_TYPES[dbType]?.['string'] || 'TEXT';
+}
+
+/**
+ * Tipo da coluna de um campo, a partir dos valores já convertidos para parâmetros do banco
+ */
+export function deriveColumnType(field: FieldSchema, values: unknown[], dbType: DatabaseType): SQLColumnType {
+  const present = values.filter(value => value !== null && value !== undefined);
+  if (present.length === 0) {
+    return { sqlType: genericSQLType(field.type, dbType), indexed: false };
+  }
+
+  switch (field.type) {
+    case 'number':
+      return numericColumn(field, present.filter((value): value is number => typeof value === 'number'), dbType);
+    case 'date':
+      return dateColumn(present, dbType);
+    case 'boolean':
+      return { sqlType: genericSQLType('boolean', dbType), indexed: false };
+    default:
+      return textColumn(field, present.map(value => String(value)), dbType);
+  }
+}
+
+/**
+ * Inteiros viram BIGINT; decimais, NUMERIC sem escala fixa (ou DECIMAL(38,10)); valores monetários, NUMERIC(15,2)
+ * Só a escala de moeda é fixa: 1.5 num lote não impede 1.25 no seguinte, nem 9 dígitos impedem 10
+ */
+function numericColumn(field: FieldSchema, numbers: number[], dbType: DatabaseType): SQLColumnType {
+  if (numbers.length === 0 || numbers.some(value => !isFinite(value) || /e/i.test(String(value)))) {
+    return { sqlType: genericSQLType('number', dbType), indexed: false };
+  }
+
+  const decimal = dbType === 'postgresql' || dbType === 'sqlite' ? 'NUMERIC' : 'DECIMAL';
+  const integerDigits = Math.max(...numbers.map(value => String(Math.trunc(Math.abs(value))).length));
+  const scale = Math.max(...numbers.map(value => (String(value).split('.')[1] ?? '').length));
+  const samples = numbers.slice(0, INFERENCE_SAMPLES).map(value => String(value));
+
+  const money = scale > 0 && scale <= 2 &&
+    (MONEY_NAME.test(field.name) || DataTypeInference.inferType(samples, field.name).type === 'moeda_real');
+  if (money) {
+    const precision = Math.min(MAX_PRECISION, Math.max(15, integerDigits + 2));
+    return { sqlType: `${decimal}(${precision},2)`, detectedType: 'moeda_real', indexed: false };
+  }
+
+  if (scale === 0) {
+    const sqlType = integerDigits <= BIGINT_DIGITS
+      ? (dbType === 'sqlite' ? 'INTEGER' : 'BIGINT')
+      : `${decimal}(${MAX_PRECISION},0)`;
+    return { sqlType, detectedType: 'numero_inteiro', indexed: false };
+  }
+
+  // PostgreSQL e SQLite guardam NUMERIC sem precisão declarada; nos demais, escala fixa ou ponto flutuante
+  let sqlType = decimal;
+  if (dbType === 'mysql' || dbType === 'sqlserver') {
+    sqlType = scale <= DECIMAL_SCALE && integerDigits <= MAX_PRECISION - DECIMAL_SCALE
+      ? `DECIMAL(${MAX_PRECISION},${DECIMAL_SCALE})`
+      : dbType === 'mysql' ? 'DOUBLE' : 'FLOAT';
+  }
+  return { sqlType, detectedType: 'numero_decimal', indexed: false };
+}
+
+/**
+ * Datas sem horário viram DATE; as demais mantêm o tipo de data e hora
+ */
+function dateColumn(values: unknown[], dbType: DatabaseType): SQLColumnType {
+  const dates = values.map(value => value instanceof Date ? value : new Date(String(value)));
+  const dateOnly = dates.every(date =>
+    !isNaN(date.getTime()) && date.getUTCHours() === 0 && date.getUTCMinutes() === 0 && date.getUTCSeconds() === 0 && date.getUTCMilliseconds() === 0
+  );
+
+  if (!dateOnly || dbType === 'sqlite') {
+    return { sqlType: genericSQLType('date', dbType), detectedType: dateOnly ? 'data_iso' : 'datetime', dateOnly, indexed: false };
+  }
+  return { sqlType: 'DATE', detectedType: 'data_iso', dateOnly, indexed: false };
+}
+
+function textColumn(field: FieldSchema, texts: string[], dbType: DatabaseType): SQLColumnType {
+  const maxLength = Math.max(...texts.map(text => text.length));
+  const distinct = Array.from(new Set(texts));
+  const identifier = (type: DataType) => IDENTIFIER_TYPES.includes(type) && distinct.length / texts.length >= INDEX_DISTINCT_RATE;
+
+  if (field.format === 'uuid' || texts.every(text => UUID_PATTERN.test(text))) {
+    const uuidTypes: Record<DatabaseType, string> = { postgresql: 'UUID', mysql: 'CHAR(36)', sqlite: 'TEXT', sqlserver: 'UNIQUEIDENTIFIER' };
+    return { sqlType: uuidTypes[dbType], detectedType: 'uuid', indexed: identifier('uuid') };
+  }
+
+  // Valores permitidos declarados no JSON Schema de destino
+  if (field.enum && field.enum.length > 0) {
+    return enumColumn(field.enum, dbType);
+  }
+
+  const detected = DataTypeInference.inferType(texts.slice(0, INFERENCE_SAMPLES), field.name).type;
+  const masks = MASKED_TYPES[detected];
+  if (masks) {
+    const digitsOnly = texts.every(text => matchesMask(text, masks.digits));
+    const formatted = texts.every(text => matchesMask(text, masks.digits) || matchesMask(text, masks.masked));
+    if (digitsOnly || formatted || maxLength <= masks.masked.length) {
+      // O CHECK aceita as duas formas do documento, para lotes seguintes que venham com ou sem máscara
+      return {
+        sqlType: digitsOnly ? `CHAR(${masks.digits.length})` : `VARCHAR(${masks.masked.length})`,
+        detectedType: detected,
+        masks: formatted && !digitsOnly ? [masks.digits, masks.masked] : undefined,
+        indexed: identifier(detected)
+      };
+    }
+  }
+
+  if (detected === 'hora' && texts.every(text => TIME_PATTERN.test(text))) {
+    return { sqlType: dbType === 'sqlite' ? 'TEXT' : 'TIME', detectedType: 'hora', indexed: false };
+  }
+
+  const standard = STANDARD_LENGTHS[detected];
+  if (standard && maxLength <= standard) {
+    return { sqlType: textType(standard, dbType), detectedType: detected, indexed: identifier(detected) };
+  }
+
+  return {
+    sqlType: textType(LENGTH_BUCKETS.find(bucket => bucket >= maxLength * LENGTH_HEADROOM) ?? (maxLength <= 255 ? 255 : undefined), dbType),
+    detectedType: detected === 'texto_livre' ? undefined : detected,
+    indexed: (field.type === 'id' || IDENTIFIER_TYPES.includes(detected)) && distinct.length / texts.length >= INDEX_DISTINCT_RATE && maxLength <= 255
+  };
+}
+
+function enumColumn(values: string[], dbType: DatabaseType): SQLColumnType {
+  return {
+    sqlType: textType(Math.max(1, ...values.map(value => value.length)), dbType),
+    detectedType: 'enum',
+    allowedValues: values,
+    indexed: false
+  };
+}
+
+/**
+ * Texto com tamanho máximo; sem tamanho, o texto longo do banco
+ * SQLite não limita o tamanho, então mantém TEXT
+ */
+function textType(length: number | undefined, dbType: DatabaseType): string {
+  if (length === undefined || dbType === 'sqlite') return genericSQLType('string', dbType);
+  return dbType === 'sqlserver' ? `NVARCHAR(${length})` : `VARCHAR(${length})`;
+}
+
+function matchesMask(text: string, mask: string): boolean {
+  return text.length === mask.length && Array.from(mask).every((char, index) =>
+    char === '9' ? /\d/.test(text[index]) : text[index] === char
+  );
+}
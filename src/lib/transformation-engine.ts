@@ -0,0 +1,859 @@
+/**
+ * Motor de transformação de dados
+ * Executa as regras de transformação (rename, convert, split, merge, validate, normalize,
+ * format, calculate, lookup) linha a linha, sem efeitos colaterais
+ */
+
+import { BusinessRule, CSVData, SchemaAnalysis, TransformedData, TransformationRule, ValidationError, FieldSchema, DataType, JsonSchemaDefinition } from '@/types';
+import { DataType as DetailedDataType } from './data-type-inference';
+import { DataValidator } from './data-validator';
+import { buildNestedRecord, normalizeFieldPath } from './field-path';
+import { validateRecords } from './json-schema';
+import { buildQuarantine } from './quarantine';
+import { validateBusinessRules } from './rule-expressions';
+
+/**
+ * Erro de configuração de regra (campo inexistente, parâmetro ausente)
+ * Diferente dos ValidationError, não depende do conteúdo das linhas
+ */
+export class TransformationConfigError extends Error {
+  constructor(message: string, public rule: TransformationRule) {
+    super(message);
+    this.name = 'TransformationConfigError';
+  }
+}
+
+/**
+ * Falha ao transformar um valor específico; vira um ValidationError da linha
+ */
+class ValueTransformationError extends Error {}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'sim', 's', 'verdadeiro', 't', 'v'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'nao', 'não', 'falso', 'f'];
+
+const validator = new DataValidator();
+
+/**
+ * Normaliza o nome de um campo de destino
+ * Caminhos como `personal_info.address.city` e `phones[0]` mantêm a estrutura
+ */
+export function normalizeFieldName(fieldName: string): string {
+  return normalizeFieldPath(fieldName);
+}
+
+/**
+ * Resolve o campo de destino de um mapeamento
+ * Campos declarados no schema de destino são usados como estão; os demais são normalizados
+ */
+function resolveTargetField(targetField: string, analysis: SchemaAnalysis): string {
+  return analysis.targetSchema?.some(field => field.name === targetField)
+    ? targetField
+    : normalizeFieldName(targetField);
+}
+
+/**
+ * Deriva as regras de transformação a partir dos mapeamentos sugeridos
+ * Cada mapeamento gera uma regra que grava o campo de destino
+ */
+export function buildTransformationRules(analysis: SchemaAnalysis): TransformationRule[] {
+  return analysis.suggestedMappings.map(mapping => {
+    const targetField = resolveTargetField(mapping.targetField, analysis);
+    const operation: TransformationRule['operation'] =
+      mapping.sourceType !== mapping.targetType ? 'convert' :
+      targetField !== mapping.sourceField ? 'rename' : 'validate';
+
+    return {
+      field: mapping.sourceField,
+      operation,
+      parameters: {
+        targetField,
+        sourceType: mapping.sourceType,
+        targetType: mapping.targetType,
+        transformation: mapping.transformation
+      }
+    };
+  });
+}
+
+/**
+ * Transforma os dados de entrada conforme a análise de schema
+ * Regras adicionais (ex.: as do DomainAnalyzer) são executadas antes das regras dos mapeamentos
+ * Com um JSON Schema de destino, cada registro é validado e os erros apontam para a linha e a coluna de origem
+ * Regras de negócio são avaliadas em cada registro transformado
+ * Linhas com erro ficam fora de `data`, na quarentena
+ */
+export function transformData(
+  inputData: CSVData,
+  analysis: SchemaAnalysis,
+  additionalRules: TransformationRule[] = [],
+  businessRules: BusinessRule[] = []
+): TransformedData {
+  const transformationRules = [...additionalRules, ...buildTransformationRules(analysis)];
+  const descriptions = new Map(
+    analysis.suggestedMappings.map(mapping => [resolveTargetField(mapping.targetField, analysis), `Transformado de ${mapping.sourceField}`])
+  );
+
+  const result = transformWithRules(inputData, transformationRules, analysis.targetJsonSchema, businessRules);
+  return {
+    ...result,
+    schema: result.schema.map(field => ({
+      ...field,
+      description: descriptions.get(field.name) ?? field.description
+    }))
+  };
+}
+
+/**
+ * Executa regras já montadas (ex.: as de um TransformedData) e valida os registros no JSON Schema de destino
+ * e nas regras de negócio
+ * Linhas com erro vão para a quarentena com os valores originais, em vez de seguirem para a publicação;
+ * violações de regras com severidade 'warning' só são reportadas
+ */
+export function transformWithRules(
+  inputData: CSVData,
+  transformationRules: TransformationRule[],
+  targetJsonSchema?: JsonSchemaDefinition,
+  businessRules: BusinessRule[] = []
+): TransformedData {
+  const result = executeRules(inputData.headers, inputData.rows, transformationRules);
+  if (targetJsonSchema) {
+    result.validationErrors = result.validationErrors.concat(validateRecords(result.data, targetJsonSchema, transformationRules));
+  }
+  if (businessRules.length > 0) {
+    result.validationErrors = result.validationErrors.concat(validateBusinessRules(result.data, businessRules, transformationRules));
+  }
+
+  const quarantine = buildQuarantine(inputData, result.validationErrors.filter(error => error.severity !== 'warning'));
+  const rejected = new Set(quarantine.rows.map(entry => entry.row));
+
+  return {
+    ...result,
+    data: result.data.filter((_, row) => !rejected.has(row)),
+    quarantine,
+    targetJsonSchema,
+    businessRules: businessRules.length > 0 ? businessRules : undefined,
+    transformationRules
+  };
+}
+
+/**
+ * Junta os schemas de lotes do mesmo arquivo: um campo é anulável se for anulável em qualquer lote
+ */
+export function mergeFieldSchemas(current: FieldSchema[], next: FieldSchema[]): FieldSchema[] {
+  if (current.length === 0) return next;
+  return current.map(field => ({
+    ...field,
+    nullable: field.nullable || next.some(candidate => candidate.name === field.name && candidate.nullable)
+  }));
+}
+
+/**
+ * Executa uma lista de regras sobre as linhas
+ * Os campos de origem e os campos produzidos compartilham o mesmo espaço de nomes,
+ * então uma regra pode consumir o resultado de uma regra anterior
+ * Campos de saída com caminho (`a.b`, `a[0]`) produzem registros aninhados; o schema lista os caminhos
+ */
+export function executeRules(
+  headers: string[],
+  rows: string[][],
+  rules: TransformationRule[]
+): Omit<TransformedData, 'transformationRules'> {
+  const outputFields = planOutputFields(headers, rules);
+  const validationErrors: ValidationError[] = [];
+
+  const flatRows = rows.map((row, rowIndex) => {
+    const context: Record<string, any> = {};
+    headers.forEach((header, index) => {
+      context[header] = row[index] ?? '';
+    });
+
+    for (const rule of rules) {
+      try {
+        applyRule(rule, context, error => {
+          validationErrors.push({
+            row: rowIndex,
+            field: rule.field,
+            value: context[rule.field],
+            error,
+            code: 'invalid_value',
+            rule: describeRule(rule),
+            step: 'validation'
+          });
+        });
+      } catch (error) {
+        if (!(error instanceof ValueTransformationError)) throw error;
+        validationErrors.push({
+          row: rowIndex,
+          field: rule.field,
+          value: context[rule.field],
+          error: error.message,
+          code: 'transformation_failed',
+          rule: describeRule(rule),
+          step: 'transform'
+        });
+        const targets = getTargetFields(rule);
+        for (const target of targets.length > 0 ? targets : [rule.field]) {
+          context[target] = null;
+        }
+      }
+    }
+
+    return Array.from(outputFields.keys()).map(name => [name, context[name] ?? null] as [string, unknown]);
+  });
+
+  const schema: FieldSchema[] = Array.from(outputFields.entries()).map(([name, type], index) => ({
+    name,
+    type,
+    nullable: flatRows.some(values => values[index][1] === null),
+    description: undefined,
+    examples: flatRows
+      .map(values => values[index][1])
+      .filter(value => value !== null && value !== '')
+      .slice(0, 3)
+      .map(value => String(value))
+  }));
+
+  const data = flatRows.map(buildNestedRecord);
+
+  return { data, schema, validationErrors };
+}
+
+/**
+ * Identificação legível de uma regra nos erros (ex.: "convert idade → age")
+ */
+function describeRule(rule: TransformationRule): string {
+  const targets = getTargetFields(rule).filter(target => target !== rule.field);
+  return `${rule.operation} ${rule.field}${targets.length > 0 ? ` → ${targets.join(', ')}` : ''}`;
+}
+
+/**
+ * Valida a configuração das regras e determina os campos de saída com seus tipos
+ */
+function planOutputFields(headers: string[], rules: TransformationRule[]): Map<string, DataType> {
+  const known = new Set(headers);
+  const outputFields = new Map<string, DataType>();
+
+  for (const rule of rules) {
+    const inputs = rule.operation === 'merge' ? getMergeSources(rule) :
+                   rule.operation === 'calculate' ? getCalculateOperands(rule).filter(isFieldOperand) :
+                   [rule.field];
+
+    for (const input of inputs) {
+      if (!known.has(input)) {
+        throw new TransformationConfigError(`Campo '${input}' não existe nos dados nem é produzido por uma regra anterior`, rule);
+      }
+    }
+
+    const targets = getTargetFields(rule);
+    if ((rule.operation === 'split' || rule.operation === 'merge') && targets.length === 0) {
+      throw new TransformationConfigError(`Regra '${rule.operation}' do campo '${rule.field}' não define campos de destino`, rule);
+    }
+
+    for (const target of targets) {
+      const conflict = Array.from(outputFields.keys()).find(existing => isPathPrefix(existing, target) || isPathPrefix(target, existing));
+      if (conflict) {
+        throw new TransformationConfigError(`Campo de destino '${target}' conflita com '${conflict}': um valor não pode conter outros campos`, rule);
+      }
+      known.add(target);
+      outputFields.set(target, getOutputType(rule, outputFields.get(target)));
+    }
+  }
+
+  return outputFields;
+}
+
+function isPathPrefix(prefix: string, path: string): boolean {
+  return path.startsWith(`${prefix}.`) || path.startsWith(`${prefix}[`);
+}
+
+function getTargetFields(rule: TransformationRule): string[] {
+  const { parameters } = rule;
+  if (rule.operation === 'split') {
+    return Array.isArray(parameters.targetFields) ? parameters.targetFields : [];
+  }
+  const target = parameters.targetField;
+  return typeof target === 'string' && target ? [target] : [];
+}
+
+function getOutputType(rule: TransformationRule, previous?: DataType): DataType {
+  if (rule.parameters.targetType) return rule.parameters.targetType;
+  if (rule.operation === 'calculate') return 'number';
+  if (rule.operation === 'split' || rule.operation === 'merge') return 'string';
+  return previous ?? rule.parameters.sourceType ?? 'string';
+}
+
+/**
+ * Aplica uma regra sobre o contexto da linha
+ * Erros de validação que não invalidam o valor são reportados via `report`
+ */
+function applyRule(rule: TransformationRule, context: Record<string, any>, report: (error: string) => void): void {
+  const { parameters } = rule;
+  const value = context[rule.field];
+  const target = getTargetFields(rule)[0] ?? rule.field;
+
+  switch (rule.operation) {
+    case 'rename':
+      context[target] = value;
+      break;
+
+    case 'convert':
+      context[target] = convertValue(value, parameters.targetType ?? 'string');
+      break;
+
+    case 'split':
+      Object.assign(context, splitValue(value, parameters));
+      break;
+
+    case 'merge':
+      context[target] = mergeValues(getMergeSources(rule).map(field => context[field]), parameters);
+      break;
+
+    case 'validate':
+      validateValue(value, parameters).forEach(report);
+      context[target] = parameters.targetType && !isEmpty(value)
+        ? safeConvert(value, parameters.targetType, report)
+        : emptyToNull(value, parameters.targetType);
+      break;
+
+    case 'normalize':
+      context[target] = normalizeValue(value, parameters);
+      if (parameters.validate && parameters.validateAs) {
+        validateValue(context[target], { validateAs: parameters.validateAs }).forEach(report);
+      }
+      break;
+
+    case 'format':
+      context[target] = formatValue(value, parameters);
+      break;
+
+    case 'calculate':
+      context[target] = calculateValue(getCalculateOperands(rule).map(operand =>
+        isFieldOperand(operand) ? context[operand] : operand
+      ), parameters);
+      break;
+
+    case 'lookup':
+      context[target] = lookupValue(value, parameters);
+      break;
+
+    default:
+      throw new TransformationConfigError(`Operação desconhecida: ${rule.operation}`, rule);
+  }
+}
+
+function isEmpty(value: any): boolean {
+  return value === null || value === undefined || String(value).trim() === '';
+}
+
+function emptyToNull(value: any, type?: DataType): any {
+  if (isEmpty(value)) return type && type !== 'string' ? null : value ?? null;
+  return value;
+}
+
+function safeConvert(value: any, type: DataType, report: (error: string) => void): any {
+  try {
+    return convertValue(value, type);
+  } catch (error) {
+    if (!(error instanceof ValueTransformationError)) throw error;
+    report(error.message);
+    return null;
+  }
+}
+
+/**
+ * Converte um valor para o tipo de destino, lançando erro quando não é possível
+ */
+export function convertValue(value: any, type: DataType): any {
+  if (isEmpty(value)) {
+    return type === 'string' ? (value ?? '') : null;
+  }
+
+  const text = String(value).trim();
+
+  switch (type) {
+    case 'number': {
+      const parsed = typeof value === 'number' ? value : parseNumber(text);
+      if (parsed === null) {
+        throw new ValueTransformationError(`Valor numérico inválido: '${text}'`);
+      }
+      return parsed;
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const normalized = text.toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) return true;
+      if (FALSE_VALUES.includes(normalized)) return false;
+      throw new ValueTransformationError(`Valor booleano inválido: '${text}'`);
+    }
+
+    case 'date': {
+      const parsed = parseDate(text);
+      if (!parsed) {
+        throw new ValueTransformationError(`Data inválida: '${text}'`);
+      }
+      return parsed.hasTime
+        ? formatDate(parsed.date, 'YYYY-MM-DDTHH:mm:ss')
+        : formatDate(parsed.date, 'YYYY-MM-DD');
+    }
+
+    case 'email': {
+      const email = text.toLowerCase();
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+        throw new ValueTransformationError(`Email inválido: '${text}'`);
+      }
+      return email;
+    }
+
+    case 'phone': {
+      const digits = text.replace(/\D/g, '');
+      if (digits.length < 8 || digits.length > 15) {
+        throw new ValueTransformationError(`Telefone inválido: '${text}'`);
+      }
+      return text.startsWith('+') ? `+${digits}` : digits;
+    }
+
+    case 'id':
+    case 'string':
+    default:
+      return text;
+  }
+}
+
+/**
+ * Interpreta números nos formatos brasileiro (1.234,56) e internacional (1,234.56)
+ */
+export function parseNumber(text: string): number | null {
+  let cleaned = text.replace(/R\$|\s|%/g, '');
+  const negative = /^\(.*\)$/.test(cleaned);
+  cleaned = cleaned.replace(/[()]/g, '');
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+
+  if (lastComma > -1 && lastDot > -1) {
+    // O separador que aparece por último é o decimal
+    cleaned = lastComma > lastDot
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (lastComma > -1) {
+    cleaned = /^-?\d{1,3}(,\d{3}){2,}$/.test(cleaned)
+      ? cleaned.replace(/,/g, '')
+      : cleaned.replace(',', '.');
+  } else if (/^-?[1-9]\d{0,2}(\.\d{3})+$/.test(cleaned)) {
+    // Sem vírgula, pontos a cada três dígitos são separador de milhar (R$ 1.234), como em DECIMAL_COMMA_PATTERN
+    cleaned = cleaned.replace(/\./g, '');
+  }
+
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) {
+    return null;
+  }
+
+  const parsed = parseFloat(cleaned);
+  if (isNaN(parsed)) return null;
+  return negative ? -parsed : parsed;
+}
+
+const DATE_PATTERNS: Array<{ regex: RegExp; order: ['day' | 'month' | 'year', 'day' | 'month' | 'year', 'day' | 'month' | 'year'] }> = [
+  { regex: /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?)?$/, order: ['year', 'month', 'day'] },
+  { regex: /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/, order: ['day', 'month', 'year'] },
+  { regex: /^(\d{4})\/(\d{1,2})\/(\d{1,2})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/, order: ['year', 'month', 'day'] }
+];
+
+/**
+ * Interpreta datas ISO e brasileiras (DD/MM/YYYY), validando dia e mês
+ */
+export function parseDate(text: string): { date: Date; hasTime: boolean } | null {
+  for (const { regex, order } of DATE_PATTERNS) {
+    const match = text.match(regex);
+    if (!match) continue;
+
+    const parts: Record<string, number> = {};
+    order.forEach((part, index) => {
+      parts[part] = parseInt(match[index + 1], 10);
+    });
+
+    const hours = match[4] ? parseInt(match[4], 10) : 0;
+    const minutes = match[5] ? parseInt(match[5], 10) : 0;
+    const seconds = match[6] ? parseInt(match[6], 10) : 0;
+    const date = new Date(Date.UTC(parts.year, parts.month - 1, parts.day, hours, minutes, seconds));
+
+    if (
+      date.getUTCFullYear() !== parts.year ||
+      date.getUTCMonth() !== parts.month - 1 ||
+      date.getUTCDate() !== parts.day ||
+      hours > 23 || minutes > 59 || seconds > 59
+    ) {
+      return null;
+    }
+
+    return { date, hasTime: match[4] !== undefined };
+  }
+
+  return null;
+}
+
+/**
+ * Interpreta uma data segundo um padrão explícito (tokens YYYY, MM, DD, HH, mm, ss)
+ */
+function parseDateWithPattern(text: string, pattern: string): Date | null {
+  const tokens: string[] = [];
+  const regexSource = pattern
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/YYYY|MM|DD|HH|mm|ss/g, token => {
+      tokens.push(token);
+      return token === 'YYYY' ? '(\\d{4})' : '(\\d{1,2})';
+    });
+
+  const match = text.match(new RegExp(`^${regexSource}$`));
+  if (!match) return null;
+
+  const parts: Record<string, number> = { YYYY: 1970, MM: 1, DD: 1, HH: 0, mm: 0, ss: 0 };
+  tokens.forEach((token, index) => {
+    parts[token] = parseInt(match[index + 1], 10);
+  });
+
+  const date = new Date(Date.UTC(parts.YYYY, parts.MM - 1, parts.DD, parts.HH, parts.mm, parts.ss));
+  if (date.getUTCMonth() !== parts.MM - 1 || date.getUTCDate() !== parts.DD) {
+    return null;
+  }
+  return date;
+}
+
+function formatDate(date: Date, pattern: string): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const values: Record<string, string> = {
+    YYYY: pad(date.getUTCFullYear(), 4),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds())
+  };
+  return pattern.replace(/YYYY|MM|DD|HH|mm|ss/g, token => values[token]);
+}
+
+function splitValue(value: any, parameters: Record<string, any>): Record<string, any> {
+  const targetFields: string[] = parameters.targetFields;
+  const result: Record<string, any> = {};
+  targetFields.forEach(field => {
+    result[field] = null;
+  });
+
+  if (isEmpty(value)) return result;
+
+  const separator: string = parameters.separator ?? ' ';
+  const splitter = parameters.regex ? new RegExp(separator) : separator;
+  const parts = String(value).split(splitter).map(part => parameters.trim === false ? part : part.trim());
+
+  targetFields.forEach((field, index) => {
+    // O último campo recebe o restante (ex.: "João da Silva" → nome, sobrenome)
+    const isLast = index === targetFields.length - 1;
+    const part = isLast ? parts.slice(index).join(parameters.regex ? ' ' : separator) : parts[index];
+    result[field] = part === undefined || part === '' ? null : part;
+  });
+
+  return result;
+}
+
+function getMergeSources(rule: TransformationRule): string[] {
+  const sources = rule.parameters.sourceFields;
+  return Array.isArray(sources) && sources.length > 0 ? sources : [rule.field];
+}
+
+function mergeValues(values: any[], parameters: Record<string, any>): string | null {
+  const separator: string = parameters.separator ?? ' ';
+  const parts = values
+    .map(value => (value === null || value === undefined ? '' : String(value).trim()))
+    .filter(value => parameters.skipEmpty === false || value !== '');
+  return parts.length > 0 ? parts.join(separator) : null;
+}
+
+/**
+ * Valida um valor sem alterá-lo e retorna as mensagens de erro
+ */
+function validateValue(value: any, parameters: Record<string, any>): string[] {
+  const errors: string[] = [];
+
+  if (isEmpty(value)) {
+    if (parameters.required) errors.push('Campo obrigatório não preenchido');
+    return errors;
+  }
+
+  const text = String(value).trim();
+
+  if (parameters.pattern && !new RegExp(parameters.pattern).test(text)) {
+    errors.push(parameters.message || `Valor '${text}' não corresponde ao padrão ${parameters.pattern}`);
+  }
+
+  if (Array.isArray(parameters.allowedValues) && !parameters.allowedValues.map(String).includes(text)) {
+    errors.push(`Valor '${text}' não está entre os permitidos: ${parameters.allowedValues.join(', ')}`);
+  }
+
+  if (parameters.min !== undefined || parameters.max !== undefined) {
+    const numeric = typeof value === 'number' ? value : parseNumber(text);
+    if (numeric === null) {
+      errors.push(`Valor numérico inválido: '${text}'`);
+    } else {
+      if (parameters.min !== undefined && numeric < parameters.min) errors.push(`Valor ${numeric} menor que o mínimo ${parameters.min}`);
+      if (parameters.max !== undefined && numeric > parameters.max) errors.push(`Valor ${numeric} maior que o máximo ${parameters.max}`);
+    }
+  }
+
+  if (parameters.validateAs) {
+    const result = validator.validateValue(text, parameters.validateAs as DetailedDataType);
+    errors.push(...result.errors.map(error => error.message));
+  }
+
+  return errors;
+}
+
+function normalizeValue(value: any, parameters: Record<string, any>): any {
+  if (isEmpty(value)) return emptyToNull(value, parameters.type === 'currency' || parameters.type === 'decimal' ? 'number' : undefined);
+
+  const text = String(value);
+  const mode: string = parameters.type ?? parameters.format ?? 'trim';
+
+  switch (mode) {
+    case 'numbers_only':
+      return text.replace(/\D/g, '');
+    case 'currency': {
+      const parsed = parseNumber(text);
+      if (parsed === null) {
+        throw new ValueTransformationError(`Valor monetário inválido: '${text.trim()}'`);
+      }
+      return Math.round(parsed * 100) / 100;
+    }
+    case 'lowercase':
+      return text.trim().toLowerCase();
+    case 'uppercase':
+      return text.trim().toUpperCase();
+    case 'titlecase':
+      return text.trim().toLowerCase().replace(/(^|\s)(\S)/g, (_, space, letter) => space + letter.toUpperCase());
+    case 'whitespace':
+      return text.replace(/\s+/g, ' ').trim();
+    case 'remove_accents':
+      return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    case 'trim':
+      return text.trim();
+    case 'name':
+      return toNameCase(text);
+    case 'decimal': {
+      const parsed = parseNumber(text);
+      if (parsed === null) {
+        throw new ValueTransformationError(`Valor decimal inválido: '${text.trim()}'`);
+      }
+      return parsed;
+    }
+    case 'cpf':
+    case 'cnpj':
+    case 'cep':
+      return normalizeDocument(text, mode, parameters.masked !== false);
+    case 'phone_e164':
+      return toE164(text);
+    case 'mojibake':
+      return fixMojibake(text);
+    default:
+      throw new ValueTransformationError(`Normalização desconhecida: '${mode}'`);
+  }
+}
+
+const NAME_PARTICLES = ['da', 'das', 'de', 'di', 'do', 'dos', 'du', 'e'];
+
+/**
+ * Title case para nomes próprios, mantendo partículas (da, de, dos, e) em minúsculas
+ */
+function toNameCase(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase()
+    .split(' ')
+    .map((word, index) => index > 0 && NAME_PARTICLES.includes(word)
+      ? word
+      : word.replace(/(^|[-'])(\S)/g, (_, separator, letter) => separator + letter.toUpperCase()))
+    .join(' ');
+}
+
+const DOCUMENT_FORMATS: Record<string, { length: number; label: string; mask: (digits: string) => string }> = {
+  cpf: {
+    length: 11,
+    label: 'CPF',
+    mask: digits => `${digits.slice(0, 3)}.${digits.slice(3, 6)}.${digits.slice(6, 9)}-${digits.slice(9)}`,
+  },
+  cnpj: {
+    length: 14,
+    label: 'CNPJ',
+    mask: digits => `${digits.slice(0, 2)}.${digits.slice(2, 5)}.${digits.slice(5, 8)}/${digits.slice(8, 12)}-${digits.slice(12)}`,
+  },
+  cep: {
+    length: 8,
+    label: 'CEP',
+    mask: digits => `${digits.slice(0, 5)}-${digits.slice(5)}`,
+  },
+};
+
+/**
+ * Padroniza CPF, CNPJ e CEP com máscara ou só dígitos
+ * Só formata; a validação dos dígitos verificadores continua no DataValidator
+ */
+function normalizeDocument(text: string, type: string, masked: boolean): string {
+  const format = DOCUMENT_FORMATS[type];
+  const digits = text.replace(/\D/g, '');
+  if (digits.length !== format.length) {
+    throw new ValueTransformationError(`${format.label} com quantidade de dígitos inválida: '${text.trim()}'`);
+  }
+  return masked ? format.mask(digits) : digits;
+}
+
+/**
+ * Converte telefones brasileiros para E.164 (+5511987654321)
+ * Remove prefixo internacional (00), zero de tronco e código de operadora (0 21 11 ...)
+ */
+function toE164(text: string): string {
+  let digits = text.replace(/\D/g, '');
+  const international = text.trim().startsWith('+') || digits.startsWith('00');
+
+  if (international) {
+    digits = digits.replace(/^0+/, '');
+  } else {
+    if (digits.startsWith('0')) {
+      digits = digits.replace(/^0+/, '');
+      if ((digits.length === 12 || digits.length === 13) && !digits.startsWith('55')) {
+        digits = digits.slice(2);
+      }
+    }
+    if (digits.length === 10 || digits.length === 11) {
+      digits = `55${digits}`;
+    }
+  }
+
+  const brazilian = digits.startsWith('55');
+  if (digits.length < 8 || digits.length > 15 || (!international && !brazilian) ||
+      (brazilian && digits.length !== 12 && digits.length !== 13)) {
+    throw new ValueTransformationError(`Telefone inválido para E.164: '${text.trim()}'`);
+  }
+  return `+${digits}`;
+}
+
+// Caracteres do Windows-1252 na faixa 0x80-0x9F, que aparecem quando UTF-8 é lido como Windows-1252
+const CP1252_BYTES: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+/**
+ * Texto UTF-8 decodificado como Latin-1/Windows-1252 ("JoÃ£o"; aspas e travessões viram "â€", o € vira "â‚¬")
+ */
+export const MOJIBAKE_PATTERN = /[ÂÃ][\u0080-\u00bf€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ]|â€|â‚¬/;
+
+/**
+ * Desfaz mojibake re-codificando os caracteres como bytes Windows-1252 e decodificando como UTF-8
+ * Valores que não formam UTF-8 válido ficam como estão; repete para dupla codificação
+ */
+function fixMojibake(text: string): string {
+  let current = text;
+
+  for (let attempt = 0; attempt < 2 && MOJIBAKE_PATTERN.test(current); attempt++) {
+    const bytes: number[] = [];
+    for (const char of Array.from(current)) {
+      const code = char.charCodeAt(0);
+      const byte = code < 0x100 ? code : CP1252_BYTES[char];
+      if (byte === undefined) return current;
+      bytes.push(byte);
+    }
+
+    try {
+      current = new TextDecoder('utf-8', { fatal: true }).decode(new Uint8Array(bytes));
+    } catch {
+      return current;
+    }
+  }
+
+  return current;
+}
+
+function formatValue(value: any, parameters: Record<string, any>): any {
+  if (isEmpty(value)) return null;
+  const text = String(value).trim();
+
+  if (parameters.decimals !== undefined) {
+    const parsed = typeof value === 'number' ? value : parseNumber(text);
+    if (parsed === null) {
+      throw new ValueTransformationError(`Valor numérico inválido: '${text}'`);
+    }
+    return parsed.toFixed(parameters.decimals);
+  }
+
+  const date = parameters.from ? parseDateWithPattern(text, parameters.from) : parseDate(text)?.date;
+  if (!date) {
+    throw new ValueTransformationError(`Data '${text}' não está no formato ${parameters.from || 'reconhecido'}`);
+  }
+  return formatDate(date, parameters.to || 'YYYY-MM-DD');
+}
+
+function getCalculateOperands(rule: TransformationRule): Array<string | number> {
+  const operands = rule.parameters.operands;
+  return Array.isArray(operands) && operands.length > 0 ? operands : [rule.field];
+}
+
+function isFieldOperand(operand: string | number): operand is string {
+  return typeof operand === 'string';
+}
+
+function calculateValue(values: any[], parameters: Record<string, any>): number | null {
+  const numbers = values.map(value => {
+    if (typeof value === 'number') return value;
+    if (isEmpty(value)) return null;
+    const parsed = parseNumber(String(value).trim());
+    if (parsed === null) {
+      throw new ValueTransformationError(`Operando numérico inválido: '${value}'`);
+    }
+    return parsed;
+  });
+
+  if (numbers.some(value => value === null)) return null;
+  const [first, ...rest] = numbers as number[];
+  let result: number;
+
+  switch (parameters.operation ?? 'sum') {
+    case 'sum':
+      result = rest.reduce((acc, value) => acc + value, first);
+      break;
+    case 'subtract':
+      result = rest.reduce((acc, value) => acc - value, first);
+      break;
+    case 'multiply':
+      result = rest.reduce((acc, value) => acc * value, first);
+      break;
+    case 'divide':
+      if (rest.some(value => value === 0)) {
+        throw new ValueTransformationError('Divisão por zero');
+      }
+      result = rest.reduce((acc, value) => acc / value, first);
+      break;
+    case 'average':
+      result = (numbers as number[]).reduce((acc, value) => acc + value, 0) / numbers.length;
+      break;
+    default:
+      throw new ValueTransformationError(`Operação de cálculo desconhecida: '${parameters.operation}'`);
+  }
+
+  return parameters.decimals !== undefined ? Number(result.toFixed(parameters.decimals)) : result;
+}
+
+function lookupValue(value: any, parameters: Record<string, any>): any {
+  if (isEmpty(value)) return parameters.default ?? null;
+
+  const table: Record<string, any> = parameters.table ?? parameters.values ?? {};
+  const key = String(value).trim();
+
+  if (key in table) return table[key];
+
+  if (!parameters.caseSensitive) {
+    const match = Object.keys(table).find(candidate => candidate.toLowerCase() === key.toLowerCase());
+    if (match !== undefined) return table[match];
+  }
+
+  if ('default' in parameters) return parameters.default;
+  throw new ValueTransformationError(`Valor '${key}' não encontrado na tabela de lookup`);
+}
\ No newline at end of file
@@ -0,0 +1,131 @@
+/**
+ * Arquivos grandes enviados a /api/upload?store=true
+ * O CSV fica no disco já convertido para UTF-8; transformação e publicação o releem em lotes,
+ * então nem o navegador nem o servidor mantêm o arquivo inteiro em memória
+ * UPLOAD_STORAGE_PATH (padrão data/uploads) e UPLOAD_RETENTION_HOURS (padrão 24)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { once } from 'events';
+import { DEFAULT_BATCH_SIZE, IngestionBatch, StreamIngestionResult } from './csv-stream';
+import { uploadIdSchema } from './input-validator';
+import { ingestTextStream } from './upload-stream';
+
+const DEFAULT_STORAGE_PATH = 'data/uploads';
+const DEFAULT_RETENTION_HOURS = 24;
+
+export interface StoredUpload {
+  id: string;
+  fileName: string;
+  bytes: number; // Tamanho recebido, antes da conversão para UTF-8
+  hasHeader: boolean;
+  headers: string[];
+  totalRows: number;
+  createdAt: string;
+}
+
+/**
+ * Upload inexistente, expirado ou ainda não concluído
+ */
+export class UploadNotFoundError extends Error {
+  constructor(public uploadId: string) {
+    super(`Upload '${uploadId}' não encontrado; ele pode ter expirado (UPLOAD_RETENTION_HOURS). Envie o arquivo de novo`);
+    this.name = 'UploadNotFoundError';
+  }
+}
+
+export function createUploadId(): string {
+  return `upl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Grava no disco os trechos de texto à medida que o parser os consome
+ * Uploads expirados são apagados a cada novo upload; o arquivo só fica disponível depois de saveUpload
+ */
+export async function* storeUploadChunks(id: string, chunks: AsyncIterable<string>): AsyncGenerator<string> {
+  deleteExpiredUploads();
+  const stream = fs.createWriteStream(uploadPath(id, 'csv'), { encoding: 'utf-8' });
+  let streamError: Error | null = null;
+  stream.on('error', error => { streamError = error; });
+
+  try {
+    for await (const chunk of chunks) {
+      if (streamError) throw streamError;
+      if (!stream.write(chunk)) await once(stream, 'drain');
+      yield chunk;
+    }
+  } finally {
+    stream.end();
+    if (!streamError) await once(stream, 'finish');
+  }
+  if (streamError) throw streamError;
+}
+
+export function saveUpload(upload: StoredUpload): void {
+  const file = uploadPath(upload.id, 'json');
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(upload), 'utf-8');
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+export function getUpload(id: string): StoredUpload | undefined {
+  if (!uploadIdSchema.safeParse(id).success) return undefined;
+  const file = uploadPath(id, 'json');
+  return fs.existsSync(file) && fs.existsSync(uploadPath(id, 'csv'))
+    ? JSON.parse(fs.readFileSync(file, 'utf-8'))
+    : undefined;
+}
+
+export function deleteUpload(id: string): void {
+  for (const extension of ['csv', 'json'] as const) {
+    fs.rmSync(uploadPath(id, extension), { force: true });
+  }
+}
+
+/**
+ * Relê o upload em lotes de `batchSize` linhas; o próximo trecho só é lido depois que `onBatch` termina
+ */
+export async function readUploadBatches(
+  id: string,
+  onBatch: (batch: IngestionBatch, upload: StoredUpload) => void | Promise<void>,
+  batchSize: number = DEFAULT_BATCH_SIZE
+): Promise<StreamIngestionResult> {
+  const upload = getUpload(id);
+  if (!upload) {
+    throw new UploadNotFoundError(id);
+  }
+
+  return ingestTextStream(fs.createReadStream(uploadPath(id, 'csv'), { encoding: 'utf-8' }), {
+    hasHeader: upload.hasHeader,
+    batchSize,
+    onBatch: batch => onBatch(batch, upload)
+  });
+}
+
+function deleteExpiredUploads(): void {
+  const directory = storageDirectory();
+  fs.mkdirSync(directory, { recursive: true });
+
+  const retentionMs = parseInt(process.env.UPLOAD_RETENTION_HOURS || String(DEFAULT_RETENTION_HOURS)) * 60 * 60 * 1000;
+  const expiredBefore = Date.now() - retentionMs;
+  for (const name of fs.readdirSync(directory)) {
+    const file = path.join(directory, name);
+    if (fs.statSync(file).mtimeMs < expiredBefore) {
+      fs.rmSync(file, { force: true });
+    }
+  }
+}
+
+function storageDirectory(): string {
+  return path.resolve(process.env.UPLOAD_STORAGE_PATH || DEFAULT_STORAGE_PATH);
+}
+
+/**
+ * O id vem das requisições: só ids no formato de createUploadId viram caminhos
+ */
+function uploadPath(id: string, extension: 'csv' | 'json'): string {
+  if (!uploadIdSchema.safeParse(id).success) {
+    throw new UploadNotFoundError(id);
+  }
+  return path.join(storageDirectory(), `${id}.${extension}`);
+}
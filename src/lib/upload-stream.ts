@@ -0,0 +1,148 @@
+/**
+ * Leitura de uploads em streaming no servidor
+ * Aplica o limite MAX_REQUEST_SIZE durante a leitura, inclusive em uploads sem Content-Length
+ */
+
+import { Readable } from 'stream';
+import { CSVDetector } from './csv-detector';
+import { ingestCSV, StreamIngestionOptions, StreamIngestionResult } from './csv-stream';
+import { EncodingDetection, EncodingDetector, TextEncoding, TextTranscoder } from './encoding-detector';
+import { InputValidator } from './input-validator';
+
+export class RequestTooLargeError extends Error {
+  constructor(public receivedBytes: number) {
+    super(`Upload excede o tamanho máximo permitido (${receivedBytes} bytes recebidos)`);
+    this.name = 'RequestTooLargeError';
+  }
+}
+
+export interface DecodeBodyOptions {
+  encoding?: TextEncoding; // Sobrescreve a detecção (ex.: charset do Content-Type)
+  maxBytes?: number; // Padrão: MAX_REQUEST_SIZE
+  onBytes?: (receivedBytes: number) => void;
+  onEncoding?: (detection: EncodingDetection) => void;
+}
+
+/**
+ * Decodifica o corpo da requisição (ou um stream de arquivo) em texto UTF-8, abortando ao passar do limite
+ * O encoding é detectado nos primeiros bytes recebidos
+ */
+export async function* decodeBody(
+  body: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>,
+  options: DecodeBodyOptions = {}
+): AsyncGenerator<string> {
+  const chunks = 'getReader' in body ? readerIterator(body) : body[Symbol.asyncIterator]();
+  const withinLimit = (bytes: number) =>
+    options.maxBytes !== undefined ? bytes <= options.maxBytes : InputValidator.validateRequestSize(bytes);
+  const head: Uint8Array[] = [];
+  let receivedBytes = 0;
+  let transcoder: TextTranscoder | null = null;
+
+  const createTranscoder = (sample: Uint8Array, truncated: boolean) => {
+    const detection = options.encoding
+      ? EncodingDetector.fromOverride(options.encoding)
+      : EncodingDetector.detect(sample, truncated);
+    options.onEncoding?.(detection);
+    return new TextTranscoder(detection);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await chunks.next();
+      if (done) break;
+
+      receivedBytes += value.byteLength;
+      if (!withinLimit(receivedBytes)) {
+        throw new RequestTooLargeError(receivedBytes);
+      }
+      options.onBytes?.(receivedBytes);
+
+      let text: string;
+      if (transcoder) {
+        text = transcoder.write(value);
+      } else {
+        head.push(value);
+        if (receivedBytes < EncodingDetector.SAMPLE_SIZE) continue;
+        const sample = concatChunks(head, receivedBytes);
+        transcoder = createTranscoder(sample, true);
+        text = transcoder.write(sample);
+      }
+      if (text) yield text;
+    }
+
+    let rest = '';
+    if (!transcoder) {
+      const sample = concatChunks(head, receivedBytes);
+      transcoder = createTranscoder(sample, false);
+      rest = transcoder.write(sample);
+    }
+    rest += transcoder.end();
+    if (rest) yield rest;
+  } finally {
+    await chunks.return?.();
+  }
+}
+
+function readerIterator(body: ReadableStream<Uint8Array>): AsyncIterator<Uint8Array> {
+  const reader = body.getReader();
+  return {
+    next: async () => {
+      const { done, value } = await reader.read();
+      return done ? { done: true, value: undefined } : { done: false, value };
+    },
+    return: async () => {
+      reader.releaseLock();
+      return { done: true, value: undefined };
+    }
+  };
+}
+
+function concatChunks(chunks: Uint8Array[], totalBytes: number): Uint8Array {
+  const result = new Uint8Array(totalBytes);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return result;
+}
+
+/**
+ * Ingere um CSV recebido como sequência de trechos de texto
+ * A estrutura é detectada nos primeiros HEAD_SAMPLE_SIZE caracteres, que depois seguem para o parser
+ */
+export async function ingestTextStream(
+  chunks: AsyncIterable<string>,
+  options: Omit<StreamIngestionOptions, 'structure'> = {}
+): Promise<StreamIngestionResult> {
+  const iterator = chunks[Symbol.asyncIterator]();
+  let head = '';
+  let finished = false;
+
+  while (head.length < CSVDetector.HEAD_SAMPLE_SIZE) {
+    const next = await iterator.next();
+    if (next.done) {
+      finished = true;
+      break;
+    }
+    head += next.value;
+  }
+
+  if (!head.trim()) {
+    throw new Error('Arquivo CSV vazio');
+  }
+
+  const structure = await CSVDetector.detectStructure(head);
+
+  async function* replay(): AsyncGenerator<string> {
+    yield head;
+    if (finished) return;
+    while (true) {
+      const next = await iterator.next();
+      if (next.done) return;
+      yield next.value;
+    }
+  }
+
+  return ingestCSV(Readable.from(replay()), { ...options, structure });
+}
\ No newline at end of file
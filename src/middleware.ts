@@ -7,10 +7,13 @@ const SECURITY_CONFIG = {
   allowedOrigins: process.env.CORS_ORIGIN?.split(',') || ['http://localhost:3000'],
   allowedContentTypes: ['application/json', 'multipart/form-data', 'text/csv'],
   maxRequestSize: parseInt(process.env.MAX_REQUEST_SIZE || '50000000'), // 50MB
-  sensitiveRoutes: ['/api/upload', '/api/database', '/api/auth'],
+  sensitiveRoutes: ['/api/upload', '/api/database', '/api/auth', '/api/analyze', '/api/transform', '/api/publish', '/api/learning', '/api/profiles', '/api/jobs', '/api/validate', '/api/data-profile'],
+  pipelineApiToken: process.env.PIPELINE_API_TOKEN,
   publicRoutes: ['/api/health', '/api/health-check'],
 };
 
+const REQUEST_TOO_LARGE = 'Request size exceeds maximum allowed';
+
 // Função para determinar qual rate limiter usar
 function getRateLimiter(pathname: string) {
   if (pathname.includes('/upload')) {
@@ -22,6 +25,13 @@ function getRateLimiter(pathname: string) {
   return apiRateLimiter;
 }
 
+// Chamadas headless (sem Origin) se autenticam com o token do pipeline
+function hasValidPipelineToken(request: NextRequest): boolean {
+  if (!SECURITY_CONFIG.pipelineApiToken) return false;
+  const token = request.headers.get('authorization')?.replace('Bearer ', '');
+  return token === SECURITY_CONFIG.pipelineApiToken;
+}
+
 // Função para validar headers de segurança
 function validateSecurityHeaders(request: NextRequest): string[] {
   const errors: string[] = [];
@@ -31,7 +41,7 @@ function validateSecurityHeaders(request: NextRequest): string[] {
   if (SECURITY_CONFIG.sensitiveRoutes.some(route => pathname.startsWith(route))) {
     const contentLength = request.headers.get('content-length');
     if (contentLength && !InputValidator.validateRequestSize(parseInt(contentLength))) {
-      errors.push('Request size exceeds maximum allowed');
+      errors.push(REQUEST_TOO_LARGE);
     }
 
     // Validar Content-Type
@@ -42,7 +52,7 @@ function validateSecurityHeaders(request: NextRequest): string[] {
   }
 
   // Validar Origin para requests não-GET
-  if (request.method !== 'GET') {
+  if (request.method !== 'GET' && !hasValidPipelineToken(request)) {
     const origin = request.headers.get('origin');
     if (!InputValidator.validateOrigin(origin, SECURITY_CONFIG.allowedOrigins)) {
       errors.push('Invalid origin');
@@ -116,7 +126,8 @@ export function middleware(request: NextRequest) {
         message: 'Request does not meet security requirements',
         details: securityErrors
       },
-      { status: 400 }
+      // Corpo maior que MAX_REQUEST_SIZE é rejeitado antes de chegar à rota
+      { status: securityErrors.includes(REQUEST_TOO_LARGE) ? 413 : 400 }
     );
   }
 
@@ -1,8 +1,15 @@
 export interface CSVData {
   headers: string[]
-  rows: string[][]
+  rows: string[][] // Com `upload`, só uma amostra das primeiras linhas
   fileName: string
   fileSize: number
+  upload?: UploadReference
+}
+
+// Arquivo grande guardado no servidor por /api/upload; as etapas seguintes o leem de lá em lotes
+export interface UploadReference {
+  id: string
+  totalRows: number
 }
 
 export interface FieldMapping {
@@ -12,6 +19,7 @@ export interface FieldMapping {
   targetType: DataType
   transformation?: string
   confidence: number
+  reasoning?: string
 }
 
 export interface SchemaAnalysis {
@@ -20,6 +28,30 @@ export interface SchemaAnalysis {
   targetSchema?: FieldSchema[]
   confidence: number
   reasoning: string
+  source?: 'ai' | 'learned' | 'profile' // 'learned': aplicada de um padrão aprendido; 'profile': de um perfil salvo
+  profile?: ProfileReference // Perfil de mapeamento de onde a análise veio ou onde foi salva
+  validation?: AnalysisValidationReport
+  targetJsonSchema?: JsonSchemaDefinition // JSON Schema fornecido pelo usuário; os registros transformados são validados contra ele
+}
+
+export interface ProfileReference {
+  id: string
+  name: string
+  version: number
+}
+
+export interface MappingValidationIssue {
+  sourceField: string
+  action: 'dropped' | 'fixed'
+  reason: string
+}
+
+// Resultado da validação da resposta da IA contra o schema e os cabeçalhos reais
+export interface AnalysisValidationReport {
+  attempts: number // Chamadas à IA, incluindo os prompts de reparo
+  repaired: boolean // A resposta só passou na validação após um prompt de reparo
+  fallback: boolean // Nenhuma resposta aproveitável; mapeamento básico gerado localmente
+  issues: MappingValidationIssue[]
 }
 
 export interface FieldSchema {
@@ -28,13 +60,49 @@ export interface FieldSchema {
   nullable: boolean
   description?: string
   examples: string[]
+  required?: boolean // Obrigatório no JSON Schema de destino
+  enum?: string[]
+  format?: string // format do JSON Schema (date, date-time, email, uuid...)
 }
 
 export type DataType = 'string' | 'number' | 'boolean' | 'date' | 'email' | 'phone' | 'id'
 
+// Subconjunto de JSON Schema (draft-07/2020-12) usado para descrever schemas de destino aninhados
+export interface JsonSchemaDefinition {
+  $schema?: string
+  $ref?: string
+  title?: string
+  description?: string
+  type?: string | string[]
+  format?: string
+  properties?: Record<string, JsonSchemaDefinition>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchemaDefinition
+  items?: JsonSchemaDefinition
+  prefixItems?: JsonSchemaDefinition[] // 2020-12
+  minItems?: number
+  maxItems?: number
+  enum?: unknown[]
+  const?: unknown
+  pattern?: string
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  anyOf?: JsonSchemaDefinition[]
+  oneOf?: JsonSchemaDefinition[]
+  allOf?: JsonSchemaDefinition[]
+  examples?: unknown[]
+  definitions?: Record<string, JsonSchemaDefinition>
+  $defs?: Record<string, JsonSchemaDefinition>
+  [keyword: string]: unknown
+}
+
 export interface TransformationRule {
   field: string
-  operation: 'rename' | 'convert' | 'split' | 'merge' | 'validate' | 'normalize'
+  operation: 'rename' | 'convert' | 'split' | 'merge' | 'validate' | 'normalize' | 'format' | 'calculate' | 'lookup'
   parameters: Record<string, any>
 }
 
@@ -43,19 +111,62 @@ export interface TransformedData {
   schema: FieldSchema[]
   transformationRules: TransformationRule[]
   validationErrors: ValidationError[]
+  targetJsonSchema?: JsonSchemaDefinition // Validado novamente antes da publicação
+  businessRules?: BusinessRule[] // Avaliadas novamente na publicação de uploads guardados no servidor
+  quarantine?: QuarantineSet // Linhas rejeitadas; ficam fora de `data` e não são publicadas
+  upload?: UploadReference // `data` e `quarantine` trazem só os primeiros registros; a publicação relê o arquivo
+  totals?: TransformTotals // Contagens do arquivo inteiro, quando `upload` está presente
+}
+
+export interface TransformTotals {
+  records: number // Registros aceitos
+  quarantined: number
+  validationErrors: number
 }
 
+export type ValidationErrorCode = 'invalid_value' | 'transformation_failed' | 'schema_violation' | 'business_rule'
+
 export interface ValidationError {
   row: number
   field: string
   value: any
   error: string
+  path?: string // Caminho no registro de destino, em erros do JSON Schema
+  code?: ValidationErrorCode
+  rule?: string // Regra que falhou, ex.: "normalize cpf → documento"
+  step?: 'transform' | 'validation' | 'schema' // Etapa do pipeline em que a linha foi rejeitada
+  severity?: BusinessRule['severity'] // Regras de negócio: 'warning' é reportado sem rejeitar a linha
+}
+
+/**
+ * Condição e ação na linguagem de rule-expressions (ex.: `status == 'Autorizado'` e
+ * `data_autorizacao required`); a ação é verificada nas linhas em que a condição é verdadeira
+ */
+export interface BusinessRule {
+  name: string
+  description: string
+  condition: string
+  action: string
+  severity: 'error' | 'warning' // 'error' manda a linha para a quarentena
+}
+
+export interface QuarantinedRow {
+  row: number // Linha no arquivo de origem (a partir de 0)
+  values: Record<string, string> // Valores originais, por cabeçalho
+  errors: ValidationError[]
+}
+
+export interface QuarantineSet {
+  headers: string[] // Cabeçalhos de origem, na ordem do arquivo
+  rows: QuarantinedRow[]
 }
 
 export interface AIProvider {
-  name: 'gemini' | 'groq'
+  name: string // id de um provedor registrado em llm-providers
   apiKey: string
   model: string
+  temperature?: number
+  timeoutMs?: number
 }
 
 export interface OutputTarget {